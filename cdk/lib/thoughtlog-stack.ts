@@ -6,6 +6,8 @@ import * as apigwv2Auth from 'aws-cdk-lib/aws-apigatewayv2-authorizers';
 import * as apigwv2Int from 'aws-cdk-lib/aws-apigatewayv2-integrations';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as sqs from 'aws-cdk-lib/aws-sqs';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventsTargets from 'aws-cdk-lib/aws-events-targets';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import * as path from 'path';
 import { execSync } from 'child_process';
@@ -28,6 +30,63 @@ export class ThoughtlogStack extends cdk.Stack {
       removalPolicy: cdk.RemovalPolicy.RETAIN,
     });
 
+    // DynamoDB table that entries are written to before being mirrored to GitHub
+    const entriesTable = new dynamodb.Table(this, 'EntriesTable', {
+      partitionKey: {
+        name: 'date_key',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'sort_key',
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // DynamoDB table of entry embeddings for semantic search; only created when it is enabled
+    const vectorsTable = this.node.tryGetContext('semanticSearch')
+      ? new dynamodb.Table(this, 'VectorsTable', {
+        partitionKey: {
+          name: 'tenant_id',
+          type: dynamodb.AttributeType.STRING,
+        },
+        sortKey: {
+          name: 'comment_id',
+          type: dynamodb.AttributeType.NUMBER,
+        },
+        billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+        removalPolicy: cdk.RemovalPolicy.RETAIN,
+      })
+      : undefined;
+
+    // DynamoDB table mapping each user (a JWT claim) to their own repository; only created for
+    // multi-tenant deployments
+    const tenantsTable = this.node.tryGetContext('multiTenant')
+      ? new dynamodb.Table(this, 'TenantsTable', {
+        partitionKey: {
+          name: 'tenant_id',
+          type: dynamodb.AttributeType.STRING,
+        },
+        billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+        removalPolicy: cdk.RemovalPolicy.RETAIN,
+      })
+      : undefined;
+
+    // DynamoDB table of device API keys (hashed) and HMAC secrets, with their scopes; only created
+    // when in-app authentication is enabled. Recent request signatures are kept here with a TTL.
+    const apiKeysTable = this.node.tryGetContext('apiKeys')
+      ? new dynamodb.Table(this, 'ApiKeysTable', {
+        partitionKey: {
+          name: 'key_id',
+          type: dynamodb.AttributeType.STRING,
+        },
+        billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+        timeToLiveAttribute: 'ttl',
+        removalPolicy: cdk.RemovalPolicy.RETAIN,
+      })
+      : undefined;
+
     // SQS queue for async voice comment refinement and issue/comment creation
     const voiceDlq = new sqs.Queue(this, 'VoiceRefineDLQ', {
       queueName: 'thoughtlog-voice-refine-dlq',
@@ -85,8 +144,36 @@ export class ThoughtlogStack extends cdk.Stack {
       ...(this.node.tryGetContext('defaultLabels')
         ? { DEFAULT_LABELS: this.node.tryGetContext('defaultLabels') as string }
         : {}),
+      ...(this.node.tryGetContext('nightOwlThresholdHours')
+        ? { NIGHT_OWL_THRESHOLD_HOURS: this.node.tryGetContext('nightOwlThresholdHours') as string }
+        : {}),
+      ...(this.node.tryGetContext('timeZone')
+        ? { TIME_ZONE: this.node.tryGetContext('timeZone') as string }
+        : {}),
+      ...(tenantsTable
+        ? { TENANTS_TABLE: tenantsTable.tableName }
+        : {}),
+      ...(this.node.tryGetContext('tenantClaim')
+        ? { TENANT_CLAIM: this.node.tryGetContext('tenantClaim') as string }
+        : {}),
     };
 
+    // Semantic search settings shared by the HTTP and queue Lambda functions
+    const embeddingEnv: Record<string, string> = vectorsTable
+      ? {
+        VECTORS_TABLE: vectorsTable.tableName,
+        ...(this.node.tryGetContext('embeddingProvider')
+          ? { EMBEDDING_PROVIDER: this.node.tryGetContext('embeddingProvider') as string }
+          : {}),
+        ...(this.node.tryGetContext('embeddingModel')
+          ? { EMBEDDING_MODEL: this.node.tryGetContext('embeddingModel') as string }
+          : {}),
+        ...(this.node.tryGetContext('embeddingBaseUrl')
+          ? { EMBEDDING_BASE_URL: this.node.tryGetContext('embeddingBaseUrl') as string }
+          : {}),
+      }
+      : {};
+
     // HTTP-triggered Lambda function
     const fn = new lambda.Function(this, 'ThoughtlogFunction', {
       // NOTE: The function name is intentionally hardcoded to match the CD workflow's
@@ -108,11 +195,19 @@ export class ThoughtlogStack extends cdk.Stack {
       timeout: cdk.Duration.minutes(1),
       environment: {
         ...sharedEnv,
+        ...embeddingEnv,
         IDEMPOTENCY_TABLE: table.tableName,
+        ENTRIES_TABLE: entriesTable.tableName,
         VOICE_QUEUE_URL: voiceQueue.queueUrl,
         ...(this.node.tryGetContext('idempotencyTtlDays')
           ? { IDEMPOTENCY_TTL_DAYS: this.node.tryGetContext('idempotencyTtlDays') as string }
           : {}),
+        ...(this.node.tryGetContext('classifyKinds')
+          ? { CLASSIFY_KINDS: this.node.tryGetContext('classifyKinds') as string }
+          : {}),
+        ...(apiKeysTable
+          ? { API_KEYS_TABLE: apiKeysTable.tableName }
+          : {}),
       },
     });
 
@@ -132,7 +227,9 @@ export class ThoughtlogStack extends cdk.Stack {
       timeout: cdk.Duration.minutes(5),
       environment: {
         ...sharedEnv,
+        ...embeddingEnv,
         IDEMPOTENCY_TABLE: table.tableName,
+        ENTRIES_TABLE: entriesTable.tableName,
         VOICE_QUEUE_URL: voiceQueue.queueUrl,
         ...(this.node.tryGetContext('openAiModel')
           ? { OPENAI_MODEL: this.node.tryGetContext('openAiModel') as string }
@@ -146,9 +243,68 @@ export class ThoughtlogStack extends cdk.Stack {
         ...(this.node.tryGetContext('finalizeOpenAiSystemPrompt')
           ? { FINALIZE_OPENAI_SYSTEM_PROMPT: this.node.tryGetContext('finalizeOpenAiSystemPrompt') as string }
           : {}),
+        ...(this.node.tryGetContext('finalizeChunkTokens')
+          ? { FINALIZE_CHUNK_TOKENS: String(this.node.tryGetContext('finalizeChunkTokens')) }
+          : {}),
+        ...(this.node.tryGetContext('digestOpenAiSystemPrompt')
+          ? { DIGEST_OPENAI_SYSTEM_PROMPT: this.node.tryGetContext('digestOpenAiSystemPrompt') as string }
+          : {}),
+        ...(this.node.tryGetContext('classifyKinds')
+          ? { CLASSIFY_KINDS: this.node.tryGetContext('classifyKinds') as string }
+          : {}),
+        ...(this.node.tryGetContext('llmProvider')
+          ? { LLM_PROVIDER: this.node.tryGetContext('llmProvider') as string }
+          : {}),
+        ...(this.node.tryGetContext('llmBaseUrl')
+          ? { LLM_BASE_URL: this.node.tryGetContext('llmBaseUrl') as string }
+          : {}),
+        ...(this.node.tryGetContext('azureOpenAiApiVersion')
+          ? { AZURE_OPENAI_API_VERSION: this.node.tryGetContext('azureOpenAiApiVersion') as string }
+          : {}),
+        // Posts the "on this day" logs when the first entry of the day starts its log
+        ...(this.node.tryGetContext('onThisDayComment')
+          ? { ON_THIS_DAY_COMMENT: String(this.node.tryGetContext('onThisDayComment')) }
+          : {}),
       },
     });
 
+    // Scheduled Lambda function that enqueues finalize for daily logs left open
+    const scheduledFn = new lambda.Function(this, 'ThoughtlogScheduledFunction', {
+      functionName: 'thoughtlog-scheduled',
+      runtime: lambda.Runtime.NODEJS_24_X,
+      handler: 'dist/scheduledHandler.handler',
+      tracing: lambda.Tracing.ACTIVE,
+      code: lambda.Code.fromAsset(repoRoot, {
+        bundling: {
+          image: lambda.Runtime.NODEJS_24_X.bundlingImage,
+          command: ['bash', '-c', bundlingCommands.join(' && ')],
+          local: localBundler,
+        },
+      }),
+      timeout: cdk.Duration.minutes(1),
+      environment: {
+        ...sharedEnv,
+        VOICE_QUEUE_URL: voiceQueue.queueUrl,
+        ...(this.node.tryGetContext('onThisDayComment')
+          ? { ON_THIS_DAY_COMMENT: String(this.node.tryGetContext('onThisDayComment')) }
+          : {}),
+      },
+    });
+
+    // Run one hour after the night-owl threshold in the configured time zone so the previous day can
+    // no longer receive entries. Must stay in sync with getNightOwlThresholdHour() in src/utils/date.ts.
+    // EventBridge cron is in UTC, so the offset of the time zone is given as the utcOffsetHours context
+    // (default 9 for Asia/Tokyo). A DST shift moves the run by an hour, which is harmless because
+    // the function works out "today" in the time zone itself.
+    const nightOwlThresholdHours = Number(this.node.tryGetContext('nightOwlThresholdHours') ?? 3);
+    const utcOffsetHours = Number(this.node.tryGetContext('utcOffsetHours') ?? 9);
+    const scheduleHourUtc = (((Math.round(nightOwlThresholdHours + 1 - utcOffsetHours) % 24) + 24) % 24;
+    new events.Rule(this, 'ScheduledFinalizeRule', {
+      description: 'Finalize daily logs that were left open, and optionally post the "on this day" logs',
+      schedule: events.Schedule.cron({ minute: '0', hour: String(scheduleHourUtc) }),
+      targets: [new eventsTargets.LambdaFunction(scheduledFn)],
+    });
+
     // Attach SQS event source to the queue Lambda function
     queueFn.addEventSource(new lambdaEventSources.SqsEventSource(voiceQueue, {
       batchSize: 1,
@@ -157,6 +313,15 @@ export class ThoughtlogStack extends cdk.Stack {
     // Grant Lambda read/write access to DynamoDB
     table.grantReadWriteData(fn);
     table.grantReadWriteData(queueFn);
+    entriesTable.grantReadWriteData(fn);
+    entriesTable.grantReadWriteData(queueFn);
+    vectorsTable?.grantReadWriteData(fn);
+    vectorsTable?.grantReadWriteData(queueFn);
+    tenantsTable?.grantReadData(fn);
+    tenantsTable?.grantReadData(queueFn);
+    tenantsTable?.grantReadData(scheduledFn);
+    // Read keys and record request signatures
+    apiKeysTable?.grantReadWriteData(fn);
 
     // Grant the HTTP Lambda send access to the voice queue
     voiceQueue.grantSendMessages(fn);
@@ -164,6 +329,9 @@ export class ThoughtlogStack extends cdk.Stack {
     // Grant the queue Lambda send access to the voice queue (for voice polish after create-entry)
     voiceQueue.grantSendMessages(queueFn);
 
+    // Grant the scheduled Lambda send access to the voice queue (for finalize messages)
+    voiceQueue.grantSendMessages(scheduledFn);
+
     // GITHUB_PRIVATE_KEY_SECRET_ARN: the Lambda reads the private key from Secrets Manager at runtime.
     // Provide the secret ARN via CDK context: -c githubPrivateKeySecretArn="arn:aws:secretsmanager:..."
     const privateKeySecretArn = this.node.tryGetContext('githubPrivateKeySecretArn') as string | undefined;
@@ -175,6 +343,8 @@ export class ThoughtlogStack extends cdk.Stack {
       privateKeySecret.grantRead(fn);
       queueFn.addEnvironment('GITHUB_PRIVATE_KEY_SECRET_ARN', privateKeySecretArn);
       privateKeySecret.grantRead(queueFn);
+      scheduledFn.addEnvironment('GITHUB_PRIVATE_KEY_SECRET_ARN', privateKeySecretArn);
+      privateKeySecret.grantRead(scheduledFn);
     }
 
     // EntraID JWT authorizer configuration from CDK context
@@ -196,6 +366,15 @@ export class ThoughtlogStack extends cdk.Stack {
         'EntraID context variables "entraIssuer" and "entraAudience" are not set to real values. ' +
         'The HTTP API will be synthesized without a default JWT authorizer.'
       );
+      if (!apiKeysTable) {
+        console.warn('"apiKeys" is not set either, so the HTTP API accepts unauthenticated requests.');
+      }
+      if (tenantsTable && !apiKeysTable) {
+        console.warn('"multiTenant" is set without a JWT authorizer, so every request will be rejected as having no tenant.');
+      }
+    } else if (apiKeysTable) {
+      // The gateway authorizer rejects requests without a JWT before they reach the function.
+      console.warn('"apiKeys" is set with the Entra authorizer, so only JWT requests reach the function; deploy without the Entra context for devices using API keys.');
     }
 
     const authorizer = hasRealEntraConfig
@@ -230,11 +409,42 @@ export class ThoughtlogStack extends cdk.Stack {
       description: 'Queue-triggered Lambda function name',
     });
 
+    new cdk.CfnOutput(this, 'ScheduledLambdaFunctionName', {
+      value: scheduledFn.functionName,
+      description: 'Scheduled finalize Lambda function name',
+    });
+
     new cdk.CfnOutput(this, 'DynamoDbTableName', {
       value: table.tableName,
       description: 'DynamoDB idempotency table name',
     });
 
+    new cdk.CfnOutput(this, 'EntriesTableName', {
+      value: entriesTable.tableName,
+      description: 'DynamoDB table of entries mirrored to GitHub',
+    });
+
+    if (vectorsTable) {
+      new cdk.CfnOutput(this, 'VectorsTableName', {
+        value: vectorsTable.tableName,
+        description: 'DynamoDB table of entry embeddings for semantic search',
+      });
+    }
+
+    if (apiKeysTable) {
+      new cdk.CfnOutput(this, 'ApiKeysTableName', {
+        value: apiKeysTable.tableName,
+        description: 'DynamoDB table of device API keys and HMAC secrets',
+      });
+    }
+
+    if (tenantsTable) {
+      new cdk.CfnOutput(this, 'TenantsTableName', {
+        value: tenantsTable.tableName,
+        description: 'DynamoDB table mapping users to their repositories',
+      });
+    }
+
     new cdk.CfnOutput(this, 'VoiceQueueUrl', {
       value: voiceQueue.queueUrl,
       description: 'SQS queue URL for voice comment refinement and async entry creation',
@@ -102,6 +102,34 @@ describe("LambdaHttpRequest.getRawPath", () => {
     });
 });
 
+describe("LambdaHttpRequest.getQueryParam", () => {
+    it("returns a query parameter from a v2 event", () => {
+        const req = new LambdaHttpRequest(makeV2Event({ queryStringParameters: { from: "2024-01-01" } }));
+        expect(req.getQueryParam("from")).toBe("2024-01-01");
+    });
+
+    it("returns a query parameter from a v1 event", () => {
+        const req = new LambdaHttpRequest(makeV1Event({ queryStringParameters: { to: "2024-01-31" } }));
+        expect(req.getQueryParam("to")).toBe("2024-01-31");
+    });
+
+    it("returns null when the parameter or the query string is absent", () => {
+        expect(new LambdaHttpRequest(makeV2Event({ queryStringParameters: { from: "x" } })).getQueryParam("to")).toBeNull();
+        expect(new LambdaHttpRequest(makeV1Event()).getQueryParam("from")).toBeNull();
+    });
+});
+
+describe("LambdaHttpRequest.getQueryParams", () => {
+    it("returns every query parameter", () => {
+        const req = new LambdaHttpRequest(makeV2Event({ queryStringParameters: { from: "2024-01-01", to: "2024-01-31" } }));
+        expect(req.getQueryParams()).toEqual({ from: "2024-01-01", to: "2024-01-31" });
+    });
+
+    it("returns an empty object without a query string", () => {
+        expect(new LambdaHttpRequest(makeV1Event()).getQueryParams()).toEqual({});
+    });
+});
+
 describe("LambdaHttpRequest.getDateParam", () => {
     it("extracts the date from a /log/yyyy-mm-dd path", () => {
         const req = new LambdaHttpRequest(makeV2Event({ rawPath: "/log/2024-01-15" }));
@@ -169,6 +197,39 @@ describe("LambdaHttpRequest.getRawBody", () => {
     });
 });
 
+describe("LambdaHttpRequest.getHeader", () => {
+    it("looks up headers case-insensitively", () => {
+        const req = new LambdaHttpRequest(makeV1Event({ headers: { "X-Api-Key": "k1.secret" } }));
+        expect(req.getHeader("x-api-key")).toBe("k1.secret");
+    });
+
+    it("returns null for a missing header", () => {
+        const req = new LambdaHttpRequest(makeV2Event());
+        expect(req.getHeader("x-api-key")).toBeNull();
+    });
+});
+
+describe("LambdaHttpRequest.getJwtClaims", () => {
+    it("returns the JWT authorizer claims of an HTTP API event", () => {
+        const event = makeV2Event();
+        (event.requestContext as unknown as Record<string, unknown>).authorizer = { jwt: { claims: { sub: "user-1" }, scopes: null } };
+        const req = new LambdaHttpRequest(event);
+        expect(req.getJwtClaims()).toEqual({ sub: "user-1" });
+    });
+
+    it("returns the Cognito authorizer claims of a REST API event", () => {
+        const req = new LambdaHttpRequest(makeV1Event({
+            requestContext: { authorizer: { claims: { sub: "user-2" } } } as unknown as APIGatewayProxyEvent["requestContext"],
+        }));
+        expect(req.getJwtClaims()).toEqual({ sub: "user-2" });
+    });
+
+    it("returns null when the request was not authorized with a JWT", () => {
+        const req = new LambdaHttpRequest(makeV2Event());
+        expect(req.getJwtClaims()).toBeNull();
+    });
+});
+
 describe("LambdaHttpRequest.getPayload", () => {
     it("parses a JSON string body", () => {
         const req = new LambdaHttpRequest(makeV2Event({ body: '{"request_id":"r1","raw":"hello"}' }));
@@ -33,6 +33,20 @@ export class LambdaHttpRequest implements IHttpRequest {
         );
     }
 
+    getQueryParam(name: string): string | null {
+        const params = this.event.queryStringParameters;
+        const value = params ? params[name] : undefined;
+        return value ?? null;
+    }
+
+    getQueryParams(): Record<string, string> {
+        const params: Record<string, string> = {};
+        for (const [name, value] of Object.entries(this.event.queryStringParameters ?? {})) {
+            if (value !== undefined) params[name] = value;
+        }
+        return params;
+    }
+
     getDateParam(): string | null {
         const match = this.getRawPath().match(/\/log\/(\d{4}-\d{2}-\d{2})$/);
         return match ? match[1] : null;
@@ -64,5 +78,19 @@ export class LambdaHttpRequest implements IHttpRequest {
             ? Buffer.from(rawBody, "base64").toString("utf8")
             : rawBody;
     }
+
+    getHeader(name: string): string | null {
+        const headers = this.event.headers ?? {};
+        const wanted = name.toLowerCase();
+        const key = Object.keys(headers).find((k) => k.toLowerCase() === wanted);
+        return key !== undefined ? headers[key] ?? null : null;
+    }
+
+    getJwtClaims(): Record<string, unknown> | null {
+        // HTTP APIs put JWT authorizer claims under authorizer.jwt; REST APIs with Cognito under authorizer.claims.
+        const authorizer = (this.event.requestContext as { authorizer?: { jwt?: { claims?: unknown }; claims?: unknown } } | undefined)?.authorizer;
+        const claims = authorizer?.jwt?.claims ?? authorizer?.claims;
+        return typeof claims === "object" && claims !== null ? claims as Record<string, unknown> : null;
+    }
 }
 
@@ -2,20 +2,43 @@ import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
 import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
 import { SecretsManagerClient } from "@aws-sdk/client-secrets-manager";
 import { SQSClient } from "@aws-sdk/client-sqs";
-import { githubRequest, openAIRequest } from "./utils/http";
+import { githubRequest, gitlabRequest, giteaRequest, openAIRequest, azureOpenAIRequest, anthropicRequest } from "./utils/http";
 import type { HttpClient } from "./utils/http";
 import { captureAWSv3Client, XRayTracingService } from "./utils/xray";
 import type { ITracingService } from "./interfaces/ITracingService";
-import { GitHubAuthService } from "./services/authService";
+import type { IAuthService } from "./interfaces/IAuthService";
+import type { IIssueTrackerService } from "./interfaces/IIssueTrackerService";
+import type { ISecretProvider } from "./interfaces/ISecretProvider";
+import type { ITextRefinerService } from "./interfaces/ITextRefinerService";
+import type { IEmbeddingService } from "./interfaces/IEmbeddingService";
+import type { ITenantStore } from "./interfaces/ITenantStore";
+import type { IRequestAuthenticator } from "./interfaces/IRequestAuthenticator";
+import { GitHubAuthService, SecretTokenAuthService, StaticTokenAuthService } from "./services/authService";
 import { GitHubApiService } from "./services/githubService";
+import { GitLabApiService } from "./services/gitlabService";
+import { GiteaApiService } from "./services/giteaService";
+import { FileSystemStorageService } from "./services/fileSystemStorageService";
+import { GitContentsStorageService } from "./services/gitContentsStorageService";
 import { DynamoDBIdempotencyService } from "./services/idempotencyService";
+import { DynamoDBEntryStore } from "./services/entryStore";
+import { DynamoDBVectorStore } from "./services/vectorStore";
 import { SecretsManagerSecretProvider } from "./services/secretProvider";
-import { OpenAITextRefinerService } from "./services/openAIService";
+import { OpenAITextRefinerService, AzureOpenAITextRefinerService, OpenAICompatibleTextRefinerService } from "./services/openAIService";
+import { AnthropicTextRefinerService } from "./services/anthropicService";
+import { OpenAIEmbeddingService, OpenAICompatibleEmbeddingService } from "./services/embeddingService";
 import { SqsQueueService } from "./services/sqsService";
+import { DynamoDBTenantStore } from "./services/tenantStore";
+import { DynamoDBApiKeyStore } from "./services/apiKeyStore";
+import { RequestAuthenticator } from "./services/requestAuthenticator";
 import { ThoughtLogService } from "./services/thoughtLogService";
 import { VoiceCommentRefinerService } from "./services/voiceCommentRefiner";
-import { IssueFinalizeService, FINALIZE_JSON_FORMAT_APPENDIX } from "./services/finalizeService";
-import type { RepositoryConfig } from "./types";
+import { EntryClassifierService, DEFAULT_CLASSIFY_SYSTEM_PROMPT } from "./services/entryClassifierService";
+import { EntryEmbeddingService } from "./services/entryEmbeddingService";
+import { IssueFinalizeService, DEFAULT_FINALIZE_SYSTEM_PROMPT, resolveChunkTokenBudget } from "./services/finalizeService";
+import { DigestService, DEFAULT_DIGEST_SYSTEM_PROMPT } from "./services/digestService";
+import { ScheduledFinalizeService } from "./services/scheduledFinalizeService";
+import type { RepositoryConfig, TenantConfig } from "./types";
+import { parseLabels } from "./utils/format";
 
 // Clients are created once at module load to reuse connections across invocations.
 const ddb = DynamoDBDocumentClient.from(
@@ -36,17 +59,161 @@ function withTracing(name: string, client: HttpClient): HttpClient {
 }
 
 const tracedGithubRequest = withTracing("GitHub API", githubRequest);
+const tracedGitlabRequest = withTracing("GitLab API", gitlabRequest);
+const tracedGiteaRequest = withTracing("Gitea API", giteaRequest);
 const tracedOpenAIRequest = withTracing("OpenAI", openAIRequest);
+const tracedAzureOpenAIRequest = withTracing("Azure OpenAI", azureOpenAIRequest);
+const tracedAnthropicRequest = withTracing("Anthropic", anthropicRequest);
 
-export interface ContainerEnv extends RepositoryConfig {
+/** Selects where daily logs are stored. Defaults to GitHub Issues. */
+export interface StorageEnv {
+    /** "github" (default), "gitlab", "gitea", "git" or "filesystem". */
+    storageBackend?: string | undefined;
+    /** Root directory of the filesystem backend. */
+    storageDir?: string | undefined;
+    /** Branch the git backend commits to; the repository's default branch when unset. */
+    storageBranch?: string | undefined;
+    /** Instance URL of the GitLab or Gitea backend, e.g. "https://gitlab.example.com". */
+    issueTrackerUrl?: string | undefined;
+}
+
+/**
+ * Creates the auth and storage pair for the configured backend.
+ * The filesystem backend needs no credentials; the GitHub Issues and git backends share the GitHub App secret,
+ * and GitLab and Gitea use the access token stored in the same secret.
+ */
+function createStorage(
+    env: StorageEnv & { githubAppId: string | undefined; githubInstallationId: string | undefined },
+    secretProvider: ISecretProvider | undefined,
+): { auth: IAuthService; tracker: IIssueTrackerService } {
+    const backend = env.storageBackend || "github";
+    if (backend === "filesystem") {
+        if (!env.storageDir) {
+            throw new Error("Missing env: STORAGE_DIR");
+        }
+        return { auth: new StaticTokenAuthService(""), tracker: new FileSystemStorageService(env.storageDir) };
+    }
+    if (!["github", "git", "gitlab", "gitea"].includes(backend)) {
+        throw new Error(`Unsupported STORAGE_BACKEND: ${backend}`);
+    }
+    if (!secretProvider) {
+        throw new Error("Missing env: GITHUB_PRIVATE_KEY_SECRET_ARN");
+    }
+    if (backend === "gitlab" || backend === "gitea") {
+        if (!env.issueTrackerUrl) {
+            throw new Error("Missing env: ISSUE_TRACKER_URL");
+        }
+        const tracker = backend === "gitlab"
+            ? new GitLabApiService(tracedGitlabRequest, env.issueTrackerUrl)
+            : new GiteaApiService(tracedGiteaRequest, env.issueTrackerUrl);
+        return { auth: new SecretTokenAuthService(secretProvider), tracker };
+    }
+    const auth = new GitHubAuthService(
+        env.githubAppId,
+        env.githubInstallationId,
+        secretProvider,
+        tracedGithubRequest,
+    );
+    const tracker = backend === "git"
+        ? new GitContentsStorageService(tracedGithubRequest, env.storageBranch || undefined)
+        : new GitHubApiService(tracedGithubRequest);
+    return { auth, tracker };
+}
+
+/** Returns true for the backends that authenticate as a GitHub App and so need the App ID and installation ID. */
+function usesGitHubStorage(env: StorageEnv): boolean {
+    const backend = env.storageBackend || "github";
+    return backend === "github" || backend === "git";
+}
+
+/** Semantic search settings; entries are embedded and searchable when a vectors table is set. */
+export interface EmbeddingEnv {
+    /** DynamoDB table holding one embedding per entry. */
+    vectorsTable?: string | undefined;
+    /** "openai" (default) or "openai-compatible" for a local endpoint. */
+    embeddingProvider?: string | undefined;
+    embeddingModel?: string | undefined;
+    /** Base URL of the OpenAI-compatible embeddings endpoint, e.g. "http://localhost:11434/v1". */
+    embeddingBaseUrl?: string | undefined;
+}
+
+/** Creates the embedding service for the configured provider. */
+function createEmbeddingService(env: EmbeddingEnv, secretProvider: ISecretProvider): IEmbeddingService {
+    const provider = env.embeddingProvider || "openai";
+    if (provider === "openai") {
+        return new OpenAIEmbeddingService(secretProvider, tracedOpenAIRequest, env.embeddingModel || undefined);
+    }
+    if (provider !== "openai-compatible") {
+        throw new Error(`Unsupported EMBEDDING_PROVIDER: ${provider}`);
+    }
+    if (!env.embeddingBaseUrl) {
+        throw new Error("Missing env: EMBEDDING_BASE_URL");
+    }
+    if (!env.embeddingModel) {
+        throw new Error("Missing env: EMBEDDING_MODEL");
+    }
+    return new OpenAICompatibleEmbeddingService(secretProvider, tracedOpenAIRequest, env.embeddingBaseUrl, env.embeddingModel);
+}
+
+/** Set when the services act for one tenant of a multi-tenant deployment. */
+export interface TenantEnv {
+    /** Scopes idempotency keys, stored entries and vectors to the tenant, and tags queued messages with it. */
+    tenantId?: string | undefined;
+}
+
+/** Returns the prefix that keeps a tenant's keys apart in the shared DynamoDB tables. */
+function tenantKeyPrefix(env: TenantEnv): string {
+    return env.tenantId ? `${env.tenantId}#` : "";
+}
+
+/** Returns the repository settings the services are constructed with. */
+function toRepositoryConfig(env: RepositoryConfig): RepositoryConfig {
+    return { owner: env.owner, repo: env.repo, defaultLabels: env.defaultLabels, timeZone: env.timeZone };
+}
+
+/** The repository a handler's services act on, and the tenant it belongs to in a multi-tenant deployment. */
+export interface RepositoryEnv extends RepositoryConfig, TenantEnv {
+    /** Overrides GITHUB_INSTALLATION_ID for a tenant with its own GitHub App installation. */
+    githubInstallationId?: string | undefined;
+}
+
+/**
+ * Returns the environment overrides for a tenant: its repository, time zone and, when it has one,
+ * its own GitHub App installation.
+ */
+export function getTenantEnv(tenant: TenantConfig): RepositoryEnv {
+    return {
+        tenantId: tenant.tenantId,
+        ...toRepositoryConfig(tenant),
+        ...(tenant.githubInstallationId ? { githubInstallationId: tenant.githubInstallationId } : {}),
+    };
+}
+
+/** Creates the store that maps tenants to their repositories. */
+export function createTenantStore(tableName: string, defaultLabels: string): ITenantStore {
+    return new DynamoDBTenantStore(ddb, tableName, defaultLabels);
+}
+
+/** Creates the authenticator of API keys and HMAC-signed requests, with the keys stored in the given table. */
+export function createRequestAuthenticator(tableName: string): IRequestAuthenticator {
+    return new RequestAuthenticator(new DynamoDBApiKeyStore(ddb, tableName));
+}
+
+export interface ContainerEnv extends RepositoryConfig, StorageEnv, EmbeddingEnv, TenantEnv {
     githubAppId: string | undefined;
     githubInstallationId: string | undefined;
     githubPrivateKeySecretArn: string | undefined;
     idempotencyTable: string | undefined;
     idempotencyTtlDays: number | undefined;
+    /** DynamoDB table that entries are written to before being mirrored to the tracker; optional. */
+    entriesTable?: string | undefined;
     openAiModel: string | undefined;
     openAiSystemPrompt: string | undefined;
     voiceQueueUrl: string | undefined;
+    /** Classification vocabulary as CSV, e.g. "idea,todo,meeting,reading"; classification is off when empty. */
+    classifyKinds?: string | undefined;
+    /** "true" posts the "on this day" logs on today's log when its first entry starts it. */
+    onThisDayComment?: string | undefined;
 }
 
 /**
@@ -54,31 +221,31 @@ export interface ContainerEnv extends RepositoryConfig {
  * This is the single place where the dependency graph is assembled.
  */
 export function createThoughtLogService(env: ContainerEnv): ThoughtLogService {
-    if (!env.githubPrivateKeySecretArn) {
-        throw new Error("Missing env: GITHUB_PRIVATE_KEY_SECRET_ARN");
-    }
-    const secretProvider = new SecretsManagerSecretProvider(env.githubPrivateKeySecretArn, secretsClient);
-    const auth = new GitHubAuthService(
-        env.githubAppId,
-        env.githubInstallationId,
-        secretProvider,
-        tracedGithubRequest,
-    );
-    const github = new GitHubApiService(tracedGithubRequest);
-    const idempotency = new DynamoDBIdempotencyService(ddb, env.idempotencyTable, env.idempotencyTtlDays);
+    const secretProvider = env.githubPrivateKeySecretArn
+        ? new SecretsManagerSecretProvider(env.githubPrivateKeySecretArn, secretsClient)
+        : undefined;
+    const { auth, tracker } = createStorage(env, secretProvider);
+    const idempotency = new DynamoDBIdempotencyService(ddb, env.idempotencyTable, env.idempotencyTtlDays, tenantKeyPrefix(env));
 
     const queueService = env.voiceQueueUrl
-        ? new SqsQueueService(sqsClient, env.voiceQueueUrl)
+        ? new SqsQueueService(sqsClient, env.voiceQueueUrl, env.tenantId)
         : undefined;
+    const entryStore = env.entriesTable ? new DynamoDBEntryStore(ddb, env.entriesTable, tenantKeyPrefix(env)) : undefined;
 
-    return new ThoughtLogService(auth, github, idempotency, {
-        owner: env.owner,
-        repo: env.repo,
-        defaultLabels: env.defaultLabels,
-    }, queueService, queueService);
+    let embeddingService: IEmbeddingService | undefined;
+    if (env.vectorsTable) {
+        // The secret holds the embedding API key, as it does for the LLM.
+        if (!secretProvider) {
+            throw new Error("Missing env: GITHUB_PRIVATE_KEY_SECRET_ARN");
+        }
+        embeddingService = createEmbeddingService(env, secretProvider);
+    }
+    const vectorStore = env.vectorsTable ? new DynamoDBVectorStore(ddb, env.vectorsTable, env.tenantId) : undefined;
+
+    return new ThoughtLogService(auth, tracker, idempotency, toRepositoryConfig(env), queueService, queueService, entryStore, parseLabels(env.classifyKinds ?? "", []).length > 0, embeddingService, vectorStore, env.onThisDayComment === "true");
 }
 
-export interface QueueHandlerEnv {
+export interface QueueHandlerEnv extends StorageEnv, EmbeddingEnv, TenantEnv {
     githubAppId: string | undefined;
     githubInstallationId: string | undefined;
     githubPrivateKeySecretArn: string | undefined;
@@ -86,69 +253,198 @@ export interface QueueHandlerEnv {
     openAiSystemPrompt: string | undefined;
     finalizeOpenAiModel: string | undefined;
     finalizeOpenAiSystemPrompt: string | undefined;
+    digestOpenAiSystemPrompt: string | undefined;
+    /** Finalize chunk budget in estimated tokens, e.g. "gpt-4o-mini=60000,16000"; see resolveChunkTokenBudget. */
+    finalizeChunkTokens?: string | undefined;
+    /** Entries table; voice refinement also updates the stored copy of mirrored entries. */
+    entriesTable?: string | undefined;
+    /** "openai" (default), "azure-openai", "anthropic" or "openai-compatible". */
+    llmProvider?: string | undefined;
+    /** Azure OpenAI resource endpoint, or the base URL of an OpenAI-compatible server. */
+    llmBaseUrl?: string | undefined;
+    azureOpenAiApiVersion?: string | undefined;
+}
+
+/**
+ * Creates the text refiner for the configured LLM provider. The model settings name the
+ * model for every provider except Azure OpenAI, where they name the deployment.
+ */
+function createTextRefiner(
+    env: QueueHandlerEnv,
+    secretProvider: ISecretProvider,
+    model: string | undefined,
+    systemPrompt: string | undefined,
+): ITextRefinerService {
+    const provider = env.llmProvider || "openai";
+    if (provider === "openai") {
+        return new OpenAITextRefinerService(secretProvider, tracedOpenAIRequest, model, systemPrompt);
+    }
+    if (provider === "anthropic") {
+        return new AnthropicTextRefinerService(secretProvider, tracedAnthropicRequest, model, systemPrompt);
+    }
+    if (provider !== "azure-openai" && provider !== "openai-compatible") {
+        throw new Error(`Unsupported LLM_PROVIDER: ${provider}`);
+    }
+    if (!env.llmBaseUrl) {
+        throw new Error("Missing env: LLM_BASE_URL");
+    }
+    if (!model) {
+        throw new Error(`Missing model for LLM_PROVIDER ${provider}`);
+    }
+    if (provider === "azure-openai") {
+        return new AzureOpenAITextRefinerService(secretProvider, tracedAzureOpenAIRequest, env.llmBaseUrl, model, systemPrompt, env.azureOpenAiApiVersion || undefined);
+    }
+    // Local servers are reached with the OpenAI client; only the base URL and key differ.
+    return new OpenAICompatibleTextRefinerService(secretProvider, tracedOpenAIRequest, env.llmBaseUrl, model, systemPrompt);
 }
 
 export interface FinalizeServiceEnv extends QueueHandlerEnv, RepositoryConfig {}
 
-export interface VoiceRefinerServiceEnv extends QueueHandlerEnv, RepositoryConfig {}
+export interface DigestServiceEnv extends QueueHandlerEnv, RepositoryConfig {}
+
+export interface VoiceRefinerServiceEnv extends QueueHandlerEnv, RepositoryConfig {
+    /** Refined entries are queued here for embedding when semantic search is enabled. */
+    voiceQueueUrl?: string | undefined;
+}
+
+export interface EntryEmbedderEnv extends QueueHandlerEnv, RepositoryConfig {}
+
+export interface EntryClassifierEnv extends QueueHandlerEnv, RepositoryConfig {
+    classifyKinds: string | undefined;
+    /** Voice refinement of classified voice entries is queued here. */
+    voiceQueueUrl: string | undefined;
+}
 
 /**
  * Wires up the VoiceCommentRefinerService for the SQS queue handler.
  */
 export function createVoiceCommentRefiner(env: VoiceRefinerServiceEnv): VoiceCommentRefinerService {
+    // The secret also holds the LLM API key, so it is required for every storage backend.
     if (!env.githubPrivateKeySecretArn) {
         throw new Error("Missing env: GITHUB_PRIVATE_KEY_SECRET_ARN");
     }
-    if (!env.githubAppId) {
+    if (usesGitHubStorage(env) && !env.githubAppId) {
         throw new Error("Missing env: GITHUB_APP_ID");
     }
-    if (!env.githubInstallationId) {
+    if (usesGitHubStorage(env) && !env.githubInstallationId) {
         throw new Error("Missing env: GITHUB_INSTALLATION_ID");
     }
     const secretProvider = new SecretsManagerSecretProvider(env.githubPrivateKeySecretArn, secretsClient);
-    const auth = new GitHubAuthService(
-        env.githubAppId,
-        env.githubInstallationId,
-        secretProvider,
-        tracedGithubRequest,
-    );
-    const github = new GitHubApiService(tracedGithubRequest);
-    const textRefiner = new OpenAITextRefinerService(
-        secretProvider,
-        tracedOpenAIRequest,
-        env.openAiModel,
-        env.openAiSystemPrompt,
-    );
-    return new VoiceCommentRefinerService(auth, github, textRefiner, { owner: env.owner, repo: env.repo, defaultLabels: env.defaultLabels });
+    const { auth, tracker } = createStorage(env, secretProvider);
+    const textRefiner = createTextRefiner(env, secretProvider, env.openAiModel, env.openAiSystemPrompt);
+    const entryStore = env.entriesTable ? new DynamoDBEntryStore(ddb, env.entriesTable, tenantKeyPrefix(env)) : undefined;
+    const embeddingQueue = env.vectorsTable && env.voiceQueueUrl ? new SqsQueueService(sqsClient, env.voiceQueueUrl, env.tenantId) : undefined;
+    return new VoiceCommentRefinerService(auth, tracker, textRefiner, toRepositoryConfig(env), entryStore, embeddingQueue);
+}
+
+/**
+ * Wires up the EntryEmbeddingService for the SQS queue handler.
+ */
+export function createEntryEmbedder(env: EntryEmbedderEnv): EntryEmbeddingService {
+    if (!env.vectorsTable) {
+        throw new Error("Missing env: VECTORS_TABLE");
+    }
+    // The secret also holds the embedding API key, so it is required for every storage backend.
+    if (!env.githubPrivateKeySecretArn) {
+        throw new Error("Missing env: GITHUB_PRIVATE_KEY_SECRET_ARN");
+    }
+    if (usesGitHubStorage(env) && !env.githubAppId) {
+        throw new Error("Missing env: GITHUB_APP_ID");
+    }
+    if (usesGitHubStorage(env) && !env.githubInstallationId) {
+        throw new Error("Missing env: GITHUB_INSTALLATION_ID");
+    }
+    const secretProvider = new SecretsManagerSecretProvider(env.githubPrivateKeySecretArn, secretsClient);
+    const { auth, tracker } = createStorage(env, secretProvider);
+    const embeddingService = createEmbeddingService(env, secretProvider);
+    const vectorStore = new DynamoDBVectorStore(ddb, env.vectorsTable, env.tenantId);
+    return new EntryEmbeddingService(auth, tracker, embeddingService, vectorStore, toRepositoryConfig(env));
+}
+
+/**
+ * Wires up the EntryClassifierService for the SQS queue handler.
+ * Classification uses the voice refinement model with its own system prompt.
+ */
+export function createEntryClassifier(env: EntryClassifierEnv): EntryClassifierService {
+    // The secret also holds the LLM API key, so it is required for every storage backend.
+    if (!env.githubPrivateKeySecretArn) {
+        throw new Error("Missing env: GITHUB_PRIVATE_KEY_SECRET_ARN");
+    }
+    if (usesGitHubStorage(env) && !env.githubAppId) {
+        throw new Error("Missing env: GITHUB_APP_ID");
+    }
+    if (usesGitHubStorage(env) && !env.githubInstallationId) {
+        throw new Error("Missing env: GITHUB_INSTALLATION_ID");
+    }
+    const secretProvider = new SecretsManagerSecretProvider(env.githubPrivateKeySecretArn, secretsClient);
+    const { auth, tracker } = createStorage(env, secretProvider);
+    const textRefiner = createTextRefiner(env, secretProvider, env.openAiModel, DEFAULT_CLASSIFY_SYSTEM_PROMPT);
+    const queueService = env.voiceQueueUrl ? new SqsQueueService(sqsClient, env.voiceQueueUrl, env.tenantId) : undefined;
+    const entryStore = env.entriesTable ? new DynamoDBEntryStore(ddb, env.entriesTable, tenantKeyPrefix(env)) : undefined;
+    const vocabulary = parseLabels(env.classifyKinds ?? "", []);
+    return new EntryClassifierService(auth, tracker, textRefiner, toRepositoryConfig(env), vocabulary, queueService, entryStore);
 }
 
 /**
  * Wires up the IssueFinalizeService for the SQS queue handler.
  */
 export function createFinalizeService(env: FinalizeServiceEnv): IssueFinalizeService {
+    // The secret also holds the LLM API key, so it is required for every storage backend.
     if (!env.githubPrivateKeySecretArn) {
         throw new Error("Missing env: GITHUB_PRIVATE_KEY_SECRET_ARN");
     }
-    if (!env.githubAppId) {
+    if (usesGitHubStorage(env) && !env.githubAppId) {
         throw new Error("Missing env: GITHUB_APP_ID");
     }
-    if (!env.githubInstallationId) {
+    if (usesGitHubStorage(env) && !env.githubInstallationId) {
         throw new Error("Missing env: GITHUB_INSTALLATION_ID");
     }
     const secretProvider = new SecretsManagerSecretProvider(env.githubPrivateKeySecretArn, secretsClient);
-    const auth = new GitHubAuthService(
-        env.githubAppId,
-        env.githubInstallationId,
-        secretProvider,
-        tracedGithubRequest,
-    );
-    const github = new GitHubApiService(tracedGithubRequest);
-    const finalizeSystemPrompt = (env.finalizeOpenAiSystemPrompt ?? "") + FINALIZE_JSON_FORMAT_APPENDIX;
-    const textRefiner = new OpenAITextRefinerService(
-        secretProvider,
-        tracedOpenAIRequest,
-        env.finalizeOpenAiModel,
-        finalizeSystemPrompt,
-    );
-    return new IssueFinalizeService(auth, github, textRefiner, { owner: env.owner, repo: env.repo, defaultLabels: env.defaultLabels });
+    const { auth, tracker } = createStorage(env, secretProvider);
+    const textRefiner = createTextRefiner(env, secretProvider, env.finalizeOpenAiModel, env.finalizeOpenAiSystemPrompt ?? DEFAULT_FINALIZE_SYSTEM_PROMPT);
+    const chunkTokenBudget = resolveChunkTokenBudget(env.finalizeChunkTokens, env.finalizeOpenAiModel);
+    return new IssueFinalizeService(auth, tracker, textRefiner, toRepositoryConfig(env), chunkTokenBudget);
+}
+
+/**
+ * Wires up the DigestService for the SQS queue handler.
+ * Digests use the finalize model; only the system prompt differs.
+ */
+export function createDigestService(env: DigestServiceEnv): DigestService {
+    // The secret also holds the LLM API key, so it is required for every storage backend.
+    if (!env.githubPrivateKeySecretArn) {
+        throw new Error("Missing env: GITHUB_PRIVATE_KEY_SECRET_ARN");
+    }
+    if (usesGitHubStorage(env) && !env.githubAppId) {
+        throw new Error("Missing env: GITHUB_APP_ID");
+    }
+    if (usesGitHubStorage(env) && !env.githubInstallationId) {
+        throw new Error("Missing env: GITHUB_INSTALLATION_ID");
+    }
+    const secretProvider = new SecretsManagerSecretProvider(env.githubPrivateKeySecretArn, secretsClient);
+    const { auth, tracker } = createStorage(env, secretProvider);
+    const textRefiner = createTextRefiner(env, secretProvider, env.finalizeOpenAiModel, env.digestOpenAiSystemPrompt ?? DEFAULT_DIGEST_SYSTEM_PROMPT);
+    return new DigestService(auth, tracker, textRefiner, toRepositoryConfig(env));
+}
+
+export interface ScheduledFinalizeEnv extends RepositoryConfig, StorageEnv, TenantEnv {
+    githubAppId: string | undefined;
+    githubInstallationId: string | undefined;
+    githubPrivateKeySecretArn: string | undefined;
+    voiceQueueUrl: string | undefined;
+}
+
+/**
+ * Wires up the ScheduledFinalizeService for the scheduled (EventBridge) handler.
+ */
+export function createScheduledFinalizeService(env: ScheduledFinalizeEnv): ScheduledFinalizeService {
+    if (!env.voiceQueueUrl) {
+        throw new Error("Missing env: VOICE_QUEUE_URL");
+    }
+    const secretProvider = env.githubPrivateKeySecretArn
+        ? new SecretsManagerSecretProvider(env.githubPrivateKeySecretArn, secretsClient)
+        : undefined;
+    const { auth, tracker } = createStorage(env, secretProvider);
+    const queueService = new SqsQueueService(sqsClient, env.voiceQueueUrl, env.tenantId);
+    return new ScheduledFinalizeService(auth, tracker, queueService, toRepositoryConfig(env));
 }
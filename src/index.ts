@@ -1,14 +1,61 @@
 import type { APIGatewayProxyEventV2, APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
-import { createThoughtLogService } from "./container";
+import { createRequestAuthenticator, createTenantStore, createThoughtLogService, getTenantEnv } from "./container";
+import type { RepositoryEnv } from "./container";
 import { LambdaHttpRequest, toLambdaResult } from "./adapters/lambdaAdapter";
 import { ThoughtLogRouter } from "./services/thoughtLogRouter";
+import { getTenantIdFromClaims } from "./services/tenantStore";
 import { HTTP_STATUS } from "./utils/httpStatus";
+import type { ApiScope } from "./types";
+
+const defaultLabels = process.env.DEFAULT_LABELS || "thoughtlog";
+
+// With a tenants table, every user's requests go to their own repository, looked up by a JWT claim.
+const tenantStore = process.env.TENANTS_TABLE ? createTenantStore(process.env.TENANTS_TABLE, defaultLabels) : undefined;
+
+// With an API keys table, every request must carry a JWT, an API key or an HMAC signature.
+const authenticator = process.env.API_KEYS_TABLE ? createRequestAuthenticator(process.env.API_KEYS_TABLE) : undefined;
 
 export const handler = async (event: APIGatewayProxyEventV2 | APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
-    const owner = process.env.GITHUB_OWNER;
-    const repo = process.env.GITHUB_REPO;
-    if (!owner || !repo) {
-        return toLambdaResult({ statusCode: HTTP_STATUS.INTERNAL_SERVER_ERROR, body: JSON.stringify({ ok: false, error: "missing_repo_env" }) });
+    const request = new LambdaHttpRequest(event);
+
+    let scopes: ApiScope[] | undefined;
+    let keyTenantId: string | undefined;
+    if (authenticator) {
+        try {
+            const outcome = await authenticator.authenticate(request);
+            if (outcome.kind === "unauthenticated") {
+                return toLambdaResult({ statusCode: HTTP_STATUS.UNAUTHORIZED, body: JSON.stringify({ ok: false, error: outcome.error }) });
+            }
+            scopes = outcome.scopes;
+            keyTenantId = outcome.tenantId;
+        } catch (e) {
+            return toLambdaResult({ statusCode: HTTP_STATUS.INTERNAL_SERVER_ERROR, body: JSON.stringify({ ok: false, error: e instanceof Error ? e.message : String(e) }) });
+        }
+    }
+
+    let repository: RepositoryEnv;
+    if (tenantStore) {
+        // API keys name their tenant; users signed in with a JWT are identified by its claim.
+        const tenantId = keyTenantId ?? getTenantIdFromClaims(request.getJwtClaims(), process.env.TENANT_CLAIM || "sub");
+        if (!tenantId) {
+            return toLambdaResult({ statusCode: HTTP_STATUS.UNAUTHORIZED, body: JSON.stringify({ ok: false, error: "missing_tenant_claim" }) });
+        }
+        try {
+            const tenant = await tenantStore.getTenant(tenantId);
+            if (!tenant) {
+                return toLambdaResult({ statusCode: HTTP_STATUS.FORBIDDEN, body: JSON.stringify({ ok: false, error: "unknown_tenant" }) });
+            }
+            repository = getTenantEnv(tenant);
+        } catch (e) {
+            return toLambdaResult({ statusCode: HTTP_STATUS.INTERNAL_SERVER_ERROR, body: JSON.stringify({ ok: false, error: e instanceof Error ? e.message : String(e) }) });
+        }
+    } else {
+        const owner = process.env.GITHUB_OWNER;
+        const repo = process.env.GITHUB_REPO;
+        if (!owner || !repo) {
+            return toLambdaResult({ statusCode: HTTP_STATUS.INTERNAL_SERVER_ERROR, body: JSON.stringify({ ok: false, error: "missing_repo_env" }) });
+        }
+        repository = { owner, repo, defaultLabels };
     }
 
     const ttlEnv = process.env.IDEMPOTENCY_TTL_DAYS;
@@ -18,21 +65,28 @@ export const handler = async (event: APIGatewayProxyEventV2 | APIGatewayProxyEve
         : undefined;
 
     const thoughtLog = createThoughtLogService({
-        owner,
-        repo,
-        defaultLabels: process.env.DEFAULT_LABELS || "thoughtlog",
         githubAppId: process.env.GITHUB_APP_ID,
         githubInstallationId: process.env.GITHUB_INSTALLATION_ID,
         githubPrivateKeySecretArn: process.env.GITHUB_PRIVATE_KEY_SECRET_ARN,
+        storageBackend: process.env.STORAGE_BACKEND,
+        storageDir: process.env.STORAGE_DIR,
+        storageBranch: process.env.STORAGE_BRANCH,
+        issueTrackerUrl: process.env.ISSUE_TRACKER_URL,
         idempotencyTable: process.env.IDEMPOTENCY_TABLE,
+        entriesTable: process.env.ENTRIES_TABLE,
         idempotencyTtlDays,
         openAiModel: process.env.OPENAI_MODEL,
         openAiSystemPrompt: process.env.OPENAI_SYSTEM_PROMPT,
         voiceQueueUrl: process.env.VOICE_QUEUE_URL,
+        classifyKinds: process.env.CLASSIFY_KINDS,
+        vectorsTable: process.env.VECTORS_TABLE,
+        embeddingProvider: process.env.EMBEDDING_PROVIDER,
+        embeddingModel: process.env.EMBEDDING_MODEL,
+        embeddingBaseUrl: process.env.EMBEDDING_BASE_URL,
+        ...repository,
     });
 
-    const request = new LambdaHttpRequest(event);
-    const router = new ThoughtLogRouter(thoughtLog);
+    const router = new ThoughtLogRouter(thoughtLog, scopes);
     const response = await router.handle(request);
     return toLambdaResult(response);
 };
@@ -0,0 +1,11 @@
+import type { ApiKey } from "../types";
+
+export interface IApiKeyStore {
+    /** Returns the key, or null when it is unknown or disabled. */
+    getKey(keyId: string): Promise<ApiKey | null>;
+    /**
+     * Records a request signature until expiresAt (epoch seconds).
+     * Returns false when the signature was already recorded, i.e. the request is a replay.
+     */
+    claimSignature(keyId: string, signature: string, expiresAt: number): Promise<boolean>;
+}
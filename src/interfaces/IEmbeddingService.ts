@@ -0,0 +1,4 @@
+export interface IEmbeddingService {
+    /** Returns the embedding vector of the text. */
+    embed(text: string): Promise<number[]>;
+}
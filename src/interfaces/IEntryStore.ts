@@ -0,0 +1,14 @@
+import type { StoredEntry } from "../types";
+
+export interface IEntryStore {
+    /** Stores a new entry; returns false when an entry with the same key already exists. */
+    putEntry(entry: StoredEntry): Promise<boolean>;
+    getEntry(dateKey: string, sortKey: string): Promise<StoredEntry | null>;
+    /** Returns the entries of one day in captured-time order. */
+    listEntries(dateKey: string): Promise<StoredEntry[]>;
+    /** Records the issue an entry is about to be posted to, before the comment exists. */
+    markMirroring(dateKey: string, sortKey: string, issueNumber: number): Promise<void>;
+    markMirrored(dateKey: string, sortKey: string, result: { issue_number: number; comment_id: number }): Promise<void>;
+    updateEntryBody(dateKey: string, sortKey: string, body: string): Promise<void>;
+    deleteEntry(dateKey: string, sortKey: string): Promise<void>;
+}
@@ -5,6 +5,13 @@ export interface IHttpRequest {
     getMethod(): string;
     /** Returns the raw request path (e.g. "/log/2024-01-15"). */
     getRawPath(): string;
+    /**
+     * Returns the decoded value of a query string parameter.
+     * Returns null when the parameter is absent.
+     */
+    getQueryParam(name: string): string | null;
+    /** Returns every query string parameter, decoded. Returns an empty object when there are none. */
+    getQueryParams(): Record<string, string>;
     /**
      * Extracts the date parameter from paths matching /log/yyyy-mm-dd.
      * Returns null when the path does not match.
@@ -24,4 +31,11 @@ export interface IHttpRequest {
     getPayload(): Payload;
     /** Returns the decoded (UTF-8) request body string. */
     getRawBody(): string;
+    /** Returns the value of a request header (case-insensitive), or null when absent. */
+    getHeader(name: string): string | null;
+    /**
+     * Returns the claims of the JWT verified by the API Gateway authorizer.
+     * Returns null when the request was not authorized with a JWT.
+     */
+    getJwtClaims(): Record<string, unknown> | null;
 }
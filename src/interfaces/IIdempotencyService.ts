@@ -1,9 +1,13 @@
-import type { IdempotencyResult } from "../types";
+import type { IdempotencyItem, IdempotencyResult } from "../types";
 
 export interface IIdempotencyService {
     claim(requestId: string, payloadHash: string): Promise<IdempotencyResult>;
     markDone(requestId: string, result: { issue_number: number; issue_url: string; comment_id: number }): Promise<void>;
     markFailed(requestId: string, errMsg: string): Promise<void>;
+    /** Forgets a claimed request that did not complete, so that a retry runs it again. */
+    release(requestId: string): Promise<void>;
+    /** Returns the stored record for a request_id, or null when unknown or idempotency is disabled. */
+    getItem(requestId: string): Promise<IdempotencyItem | null>;
     getIssueNumberByTitle(title: string): Promise<number | null>;
     putIssueTitleCache(title: string, issueNumber: number): Promise<void>;
 }
@@ -0,0 +1,23 @@
+import type { Issue, IssueComment } from "../types";
+
+/** Issue storage for daily logs, implemented for GitHub, GitLab, Gitea and the git and filesystem backends. */
+export interface IIssueTrackerService {
+    findDailyIssue(params: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue | null>;
+    findIssueByTitlePrefix?(params: { owner: string; repo: string; titlePrefix: string; token: string }): Promise<Issue | null>;
+    searchDailyIssues(params: { owner: string; repo: string; from: string; to: string; labels: string[]; page: number; token: string }): Promise<{ issues: Issue[]; hasMore: boolean }>;
+    searchDailyIssuesByText(params: { owner: string; repo: string; text: string; labels: string[]; from?: string; to?: string; token: string }): Promise<Issue[]>;
+    searchOpenDailyIssuesBefore(params: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue[]>;
+    listRecentClosedDailyIssues(params: { owner: string; repo: string; labels: string[]; limit: number; token: string }): Promise<Issue[]>;
+    createDailyIssue(params: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue>;
+    createIssue(params: { owner: string; repo: string; title: string; body: string; labels: string[]; token: string }): Promise<Issue>;
+    addComment(params: { owner: string; repo: string; issueNumber: number; commentBody: string; token: string }): Promise<IssueComment>;
+    updateIssue(params: { owner: string; repo: string; issueNumber: number; title?: string; body: string; token: string }): Promise<Issue>;
+    closeIssue(params: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue>;
+    /** Adds labels to an issue, keeping the labels it already has. */
+    addLabels(params: { owner: string; repo: string; issueNumber: number; labels: string[]; token: string }): Promise<void>;
+    getIssueComments(params: { owner: string; repo: string; issueNumber: number; token: string }): Promise<IssueComment[]>;
+    getIssue(params: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue>;
+    getComment(params: { owner: string; repo: string; commentId: number; token: string }): Promise<IssueComment>;
+    updateComment(params: { owner: string; repo: string; commentId: number; body: string; token: string }): Promise<IssueComment>;
+    deleteComment(params: { owner: string; repo: string; commentId: number; token: string }): Promise<void>;
+}
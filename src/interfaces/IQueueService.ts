@@ -1,3 +1,5 @@
 export interface IQueueService {
     sendMessage(message: string): Promise<void>;
+    /** Sends several messages, batching them where the queue supports it. */
+    sendMessages(messages: string[]): Promise<void>;
 }
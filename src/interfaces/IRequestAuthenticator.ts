@@ -0,0 +1,7 @@
+import type { IHttpRequest } from "./IHttpRequest";
+import type { AuthenticateOutcome } from "../types";
+
+export interface IRequestAuthenticator {
+    /** Identifies the caller of a request and the scopes it was granted. */
+    authenticate(request: IHttpRequest): Promise<AuthenticateOutcome>;
+}
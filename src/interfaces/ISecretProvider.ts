@@ -1,4 +1,10 @@
 export interface ISecretProvider {
     getPrivateKeyPem(): Promise<string>;
     getOpenAiApiKey(): Promise<string>;
+    getAzureOpenAiApiKey(): Promise<string>;
+    getAnthropicApiKey(): Promise<string>;
+    /** API key for an OpenAI-compatible local endpoint; empty when the endpoint needs none. */
+    getLocalLlmApiKey(): Promise<string>;
+    /** Access token for the GitLab or Gitea issue backends. */
+    getIssueTrackerToken(): Promise<string>;
 }
@@ -0,0 +1,8 @@
+import type { TenantConfig } from "../types";
+
+export interface ITenantStore {
+    /** Returns the tenant's configuration, or null when the tenant is unknown. */
+    getTenant(tenantId: string): Promise<TenantConfig | null>;
+    /** Returns every tenant, e.g. to finalize each tenant's logs on schedule. */
+    listTenants(): Promise<TenantConfig[]>;
+}
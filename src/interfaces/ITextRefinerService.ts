@@ -1,3 +1,11 @@
+import type { StructuredOutputSchema } from "../types";
+
 export interface ITextRefinerService {
     refine(text: string): Promise<string>;
+    /**
+     * Refines text into JSON conforming to the schema, using the provider's structured output
+     * support. Returns the raw response text, since servers without that support may still
+     * wrap the JSON in prose or a code fence.
+     */
+    refineStructured(text: string, schema: StructuredOutputSchema): Promise<string>;
 }
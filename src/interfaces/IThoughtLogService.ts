@@ -1,11 +1,29 @@
-import type { Payload, CreateEntryOutcome, EnqueueEntryOutcome, GetLogOutcome, GetLogBodyOutcome, GetLogCommentsOutcome, GetLogSummaryOutcome, UpdateLogOutcome } from "../types";
+import type { FeedFormat } from "../utils/feed";
+import type { Payload, CreateEntryOutcome, UpdateEntryOutcome, DeleteEntryOutcome, GetEntryOriginalOutcome, RevertEntryOutcome, GetEntryStatusOutcome, EnqueueEntryOutcome, GetLogOutcome, ListLogsOutcome, SearchEntriesParams, SearchEntriesOutcome, SemanticSearchOutcome, GetLogBodyOutcome, GetLogCommentsOutcome, GetLogSummaryOutcome, GetOnThisDayOutcome, UpdateLogOutcome, DigestPeriod, RequestDigestOutcome, ExportMarkdownOutcome, ExportJsonlOutcome, ImportEntriesOutcome, GetFeedOutcome, GetCalendarOutcome, MirrorEntryMessage, OnThisDayMessage } from "../types";
 
 export interface IThoughtLogService {
     createEntry(payload: Payload): Promise<CreateEntryOutcome>;
+    mirrorEntry(message: MirrorEntryMessage): Promise<void>;
     enqueueEntry(payload: Payload): Promise<EnqueueEntryOutcome>;
+    getEntryStatus(requestId: string): Promise<GetEntryStatusOutcome>;
+    updateEntry(dateKey: string, commentId: number, payload: Payload): Promise<UpdateEntryOutcome>;
+    deleteEntry(dateKey: string, commentId: number): Promise<DeleteEntryOutcome>;
+    getEntryOriginal(dateKey: string, commentId: number): Promise<GetEntryOriginalOutcome>;
+    revertEntry(dateKey: string, commentId: number): Promise<RevertEntryOutcome>;
     getLog(dateKey: string): Promise<GetLogOutcome>;
+    listLogs(from: string, to: string, cursor?: string): Promise<ListLogsOutcome>;
+    searchEntries(params: SearchEntriesParams): Promise<SearchEntriesOutcome>;
+    searchSemantic(query: string, limit: number): Promise<SemanticSearchOutcome>;
     getLogBody(dateKey: string): Promise<GetLogBodyOutcome>;
     getLogComments(dateKey: string): Promise<GetLogCommentsOutcome>;
     getLogSummary(dateKey: string): Promise<GetLogSummaryOutcome>;
+    getOnThisDay(dateKey: string): Promise<GetOnThisDayOutcome>;
+    postOnThisDay(message: OnThisDayMessage): Promise<void>;
     updateLog(dateKey: string): Promise<UpdateLogOutcome>;
+    requestDigest(period: DigestPeriod, periodKey: string): Promise<RequestDigestOutcome>;
+    exportMarkdown(from: string, to: string): Promise<ExportMarkdownOutcome>;
+    exportJsonl(from: string, to: string): Promise<ExportJsonlOutcome>;
+    importEntries(jsonl: string): Promise<ImportEntriesOutcome>;
+    getFeed(format: FeedFormat): Promise<GetFeedOutcome>;
+    getCalendar(from: string, to: string): Promise<GetCalendarOutcome>;
 }
@@ -0,0 +1,9 @@
+import type { EntryVector } from "../types";
+
+export interface IVectorStore {
+    /** Stores the vector of an entry, replacing any earlier vector of the same comment. */
+    putVector(vector: EntryVector): Promise<void>;
+    deleteVector(commentId: number): Promise<void>;
+    /** Returns the topK entries most similar to the embedding, best first, with their cosine similarity. */
+    query(embedding: number[], topK: number): Promise<Array<{ vector: EntryVector; score: number }>>;
+}
@@ -1,48 +1,133 @@
-import type { SQSEvent } from "aws-lambda";
-import { createVoiceCommentRefiner, createFinalizeService, createThoughtLogService } from "./container";
+import type { SQSEvent, SQSRecord } from "aws-lambda";
+import { createVoiceCommentRefiner, createEntryClassifier, createEntryEmbedder, createFinalizeService, createDigestService, createThoughtLogService, createTenantStore, getTenantEnv } from "./container";
+import type { RepositoryEnv } from "./container";
+import { TENANT_ATTRIBUTE } from "./services/sqsService";
+import type { VoiceCommentRefinerService } from "./services/voiceCommentRefiner";
+import type { EntryClassifierService } from "./services/entryClassifierService";
+import type { EntryEmbeddingService } from "./services/entryEmbeddingService";
+import type { IssueFinalizeService } from "./services/finalizeService";
+import type { DigestService } from "./services/digestService";
+import type { ThoughtLogService } from "./services/thoughtLogService";
 import type { SqsMessage } from "./types";
 
 const env = {
     githubAppId: process.env.GITHUB_APP_ID,
     githubInstallationId: process.env.GITHUB_INSTALLATION_ID,
     githubPrivateKeySecretArn: process.env.GITHUB_PRIVATE_KEY_SECRET_ARN,
+    storageBackend: process.env.STORAGE_BACKEND,
+    storageDir: process.env.STORAGE_DIR,
+    storageBranch: process.env.STORAGE_BRANCH,
+    issueTrackerUrl: process.env.ISSUE_TRACKER_URL,
     openAiModel: process.env.OPENAI_MODEL,
     openAiSystemPrompt: process.env.OPENAI_SYSTEM_PROMPT,
     finalizeOpenAiModel: process.env.FINALIZE_OPENAI_MODEL,
     finalizeOpenAiSystemPrompt: process.env.FINALIZE_OPENAI_SYSTEM_PROMPT,
+    digestOpenAiSystemPrompt: process.env.DIGEST_OPENAI_SYSTEM_PROMPT,
+    finalizeChunkTokens: process.env.FINALIZE_CHUNK_TOKENS,
+    entriesTable: process.env.ENTRIES_TABLE,
+    llmProvider: process.env.LLM_PROVIDER,
+    llmBaseUrl: process.env.LLM_BASE_URL,
+    azureOpenAiApiVersion: process.env.AZURE_OPENAI_API_VERSION,
+    classifyKinds: process.env.CLASSIFY_KINDS,
+    vectorsTable: process.env.VECTORS_TABLE,
+    embeddingProvider: process.env.EMBEDDING_PROVIDER,
+    embeddingModel: process.env.EMBEDDING_MODEL,
+    embeddingBaseUrl: process.env.EMBEDDING_BASE_URL,
 };
 
+const defaultLabels = process.env.DEFAULT_LABELS || "thoughtlog";
+
+// Messages of a multi-tenant deployment carry the tenant, whose repository is looked up here.
+const tenantStore = process.env.TENANTS_TABLE ? createTenantStore(process.env.TENANTS_TABLE, defaultLabels) : undefined;
+
 const githubOwner = process.env.GITHUB_OWNER;
-if (!githubOwner) {
+if (!githubOwner && !tenantStore) {
     throw new Error("Environment variable GITHUB_OWNER is required but was not set.");
 }
 
 const githubRepo = process.env.GITHUB_REPO;
-if (!githubRepo) {
+if (!githubRepo && !tenantStore) {
     throw new Error("Environment variable GITHUB_REPO is required but was not set.");
 }
 
-const refiner = createVoiceCommentRefiner({
-    ...env,
-    owner: githubOwner,
-    repo: githubRepo,
-    defaultLabels: process.env.DEFAULT_LABELS || "thoughtlog",
-});
-const finalizer = createFinalizeService({
-    ...env,
-    owner: githubOwner,
-    repo: githubRepo,
-    defaultLabels: process.env.DEFAULT_LABELS || "thoughtlog",
-});
-const thoughtLog = createThoughtLogService({
-    owner: githubOwner,
-    repo: githubRepo,
-    defaultLabels: process.env.DEFAULT_LABELS || "thoughtlog",
-    ...env,
-    idempotencyTable: process.env.IDEMPOTENCY_TABLE,
-    idempotencyTtlDays: undefined,
-    voiceQueueUrl: process.env.VOICE_QUEUE_URL,
-});
+/** The services handling queue messages for one repository. */
+interface Workers {
+    refiner: VoiceCommentRefinerService;
+    classifier: EntryClassifierService;
+    embedder: EntryEmbeddingService | undefined;
+    finalizer: IssueFinalizeService;
+    digester: DigestService;
+    thoughtLog: ThoughtLogService;
+}
+
+function createWorkers(repository: RepositoryEnv): Workers {
+    return {
+        refiner: createVoiceCommentRefiner({
+            ...env,
+            ...repository,
+            voiceQueueUrl: process.env.VOICE_QUEUE_URL,
+        }),
+        classifier: createEntryClassifier({
+            ...env,
+            ...repository,
+            voiceQueueUrl: process.env.VOICE_QUEUE_URL,
+        }),
+        // Semantic search is optional; embed-entry messages are only sent when it is enabled.
+        embedder: env.vectorsTable
+            ? createEntryEmbedder({
+                ...env,
+                ...repository,
+            })
+            : undefined,
+        finalizer: createFinalizeService({
+            ...env,
+            ...repository,
+        }),
+        digester: createDigestService({
+            ...env,
+            ...repository,
+        }),
+        thoughtLog: createThoughtLogService({
+            ...env,
+            ...repository,
+            idempotencyTable: process.env.IDEMPOTENCY_TABLE,
+            idempotencyTtlDays: undefined,
+            voiceQueueUrl: process.env.VOICE_QUEUE_URL,
+            onThisDayComment: process.env.ON_THIS_DAY_COMMENT,
+        }),
+    };
+}
+
+const defaultWorkers = githubOwner && githubRepo
+    ? createWorkers({ owner: githubOwner, repo: githubRepo, defaultLabels })
+    : undefined;
+
+// Tenants are looked up once per container; a changed tenant applies from the next cold start.
+const tenantWorkers = new Map<string, Workers>();
+
+/** Returns the services for the tenant a message was sent for, or for the deployment's repository. */
+async function getWorkers(record: SQSRecord): Promise<Workers> {
+    const tenantId = record.messageAttributes?.[TENANT_ATTRIBUTE]?.stringValue;
+    if (!tenantId) {
+        if (!defaultWorkers) {
+            throw new Error(`Message has no tenant and GITHUB_OWNER or GITHUB_REPO is not set. messageId=${record.messageId}`);
+        }
+        return defaultWorkers;
+    }
+    if (!tenantStore) {
+        throw new Error(`Message is for tenant ${tenantId} but TENANTS_TABLE is not set. messageId=${record.messageId}`);
+    }
+    let workers = tenantWorkers.get(tenantId);
+    if (!workers) {
+        const tenant = await tenantStore.getTenant(tenantId);
+        if (!tenant) {
+            throw new Error(`Unknown tenant ${tenantId}. messageId=${record.messageId}`);
+        }
+        workers = createWorkers(getTenantEnv(tenant));
+        tenantWorkers.set(tenantId, workers);
+    }
+    return workers;
+}
 
 export const handler = async (event: SQSEvent): Promise<void> => {
     for (const record of event.Records) {
@@ -55,10 +140,25 @@ export const handler = async (event: SQSEvent): Promise<void> => {
             console.error(errorMessage);
             throw new Error(errorMessage, { cause: error });
         }
+        const { refiner, classifier, embedder, finalizer, digester, thoughtLog } = await getWorkers(record);
         if (message.type === "finalize") {
             await finalizer.finalize(message);
+        } else if (message.type === "digest") {
+            await digester.generate(message);
         } else if (message.type === "voice-polish") {
             await refiner.refineComment(message);
+        } else if (message.type === "classify-entry") {
+            await classifier.classify(message);
+        } else if (message.type === "embed-entry") {
+            if (!embedder) {
+                console.warn(`Ignoring embed-entry message because VECTORS_TABLE is not set. messageId=${record.messageId}`);
+                continue;
+            }
+            await embedder.embedEntry(message);
+        } else if (message.type === "on-this-day") {
+            await thoughtLog.postOnThisDay(message);
+        } else if (message.type === "mirror-entry") {
+            await thoughtLog.mirrorEntry(message);
         } else if (message.type === "create-entry") {
             const result = await thoughtLog.createEntry(message.payload);
 
@@ -0,0 +1,71 @@
+import type { ScheduledEvent } from "aws-lambda";
+import { createScheduledFinalizeService, createTenantStore, getTenantEnv } from "./container";
+import type { RepositoryEnv } from "./container";
+import type { ScheduledFinalizeService } from "./services/scheduledFinalizeService";
+
+const defaultLabels = process.env.DEFAULT_LABELS || "thoughtlog";
+
+// A multi-tenant deployment finalizes every tenant's logs as well.
+const tenantStore = process.env.TENANTS_TABLE ? createTenantStore(process.env.TENANTS_TABLE, defaultLabels) : undefined;
+
+const githubOwner = process.env.GITHUB_OWNER;
+if (!githubOwner && !tenantStore) {
+    throw new Error("Environment variable GITHUB_OWNER is required but was not set.");
+}
+
+const githubRepo = process.env.GITHUB_REPO;
+if (!githubRepo && !tenantStore) {
+    throw new Error("Environment variable GITHUB_REPO is required but was not set.");
+}
+
+function createScheduler(repository: RepositoryEnv): ScheduledFinalizeService {
+    return createScheduledFinalizeService({
+        githubAppId: process.env.GITHUB_APP_ID,
+        githubInstallationId: process.env.GITHUB_INSTALLATION_ID,
+        githubPrivateKeySecretArn: process.env.GITHUB_PRIVATE_KEY_SECRET_ARN,
+        storageBackend: process.env.STORAGE_BACKEND,
+        storageDir: process.env.STORAGE_DIR,
+        storageBranch: process.env.STORAGE_BRANCH,
+        issueTrackerUrl: process.env.ISSUE_TRACKER_URL,
+        voiceQueueUrl: process.env.VOICE_QUEUE_URL,
+        ...repository,
+    });
+}
+
+const defaultScheduler = githubOwner && githubRepo
+    ? createScheduler({ owner: githubOwner, repo: githubRepo, defaultLabels })
+    : undefined;
+
+// Posting the "on this day" logs is opt-in. The run only posts on a log already started today;
+// the queue function posts on a log started later in the day.
+const postOnThisDay = process.env.ON_THIS_DAY_COMMENT === "true";
+
+async function run(scheduler: ScheduledFinalizeService, label: string, eventId: string): Promise<void> {
+    const dateKeys = await scheduler.enqueueStaleLogs();
+    console.log(`Enqueued finalize for ${dateKeys.length} open daily log(s)${label}: ${dateKeys.join(", ") || "(none)"}. eventId=${eventId}`);
+    if (postOnThisDay) {
+        const today = await scheduler.enqueueOnThisDay();
+        console.log(`Enqueued on-this-day for ${today}${label}. eventId=${eventId}`);
+    }
+}
+
+export const handler = async (event: ScheduledEvent): Promise<void> => {
+    if (defaultScheduler) {
+        await run(defaultScheduler, "", event.id);
+    }
+    if (!tenantStore) return;
+
+    // One tenant's failure must not keep the others' logs open.
+    const failed: string[] = [];
+    for (const tenant of await tenantStore.listTenants()) {
+        try {
+            await run(createScheduler(getTenantEnv(tenant)), ` of tenant ${tenant.tenantId}`, event.id);
+        } catch (e) {
+            console.error(`Scheduled run failed for tenant ${tenant.tenantId}: ${e instanceof Error ? e.message : String(e)}. eventId=${event.id}`);
+            failed.push(tenant.tenantId);
+        }
+    }
+    if (failed.length > 0) {
+        throw new Error(`Scheduled run failed for ${failed.length} tenant(s): ${failed.join(", ")}`);
+    }
+};
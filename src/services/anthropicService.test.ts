@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from "vitest";
+import { AnthropicTextRefinerService } from "./anthropicService";
+import type { ISecretProvider } from "../interfaces/ISecretProvider";
+import type { HttpClient } from "../utils/http";
+
+function makeSecretProvider(): ISecretProvider {
+    return {
+        getPrivateKeyPem: vi.fn(),
+        getOpenAiApiKey: vi.fn(),
+        getAzureOpenAiApiKey: vi.fn(),
+        getAnthropicApiKey: vi.fn().mockResolvedValue("sk-ant"),
+        getLocalLlmApiKey: vi.fn(),
+        getIssueTrackerToken: vi.fn(),
+    };
+}
+
+function makeHttpClient(returnValue: unknown = {}): HttpClient {
+    return vi.fn().mockResolvedValue(returnValue);
+}
+
+describe("AnthropicTextRefinerService", () => {
+    it("sends the system prompt separately and joins text blocks", async () => {
+        const http = makeHttpClient({ content: [{ type: "text", text: "refined " }, { type: "text", text: "text" }], stop_reason: "end_turn" });
+        const service = new AnthropicTextRefinerService(makeSecretProvider(), http, "claude-sonnet", "prompt");
+
+        expect(await service.refine("raw")).toBe("refined text");
+        expect(http).toHaveBeenCalledWith("https://api.anthropic.com/v1/messages", {
+            method: "POST",
+            token: "sk-ant",
+            body: { model: "claude-sonnet", max_tokens: 4096, system: "prompt", messages: [{ role: "user", content: "raw" }] },
+        });
+    });
+
+    it("throws when the response has no text", async () => {
+        const service = new AnthropicTextRefinerService(makeSecretProvider(), makeHttpClient({ content: [] }));
+        await expect(service.refine("raw")).rejects.toThrow("Anthropic API returned empty content");
+    });
+
+    it("throws when the response was cut off at the token limit", async () => {
+        const http = makeHttpClient({ content: [{ type: "text", text: "partial" }], stop_reason: "max_tokens" });
+        const service = new AnthropicTextRefinerService(makeSecretProvider(), http);
+        await expect(service.refine("raw")).rejects.toThrow(/truncated/);
+    });
+
+    it("forces a tool call for structured output and returns its input as JSON", async () => {
+        const http = makeHttpClient({ content: [{ type: "tool_use", name: "finalize_result", input: { title: "t", body: "b" } }], stop_reason: "tool_use" });
+        const service = new AnthropicTextRefinerService(makeSecretProvider(), http, "claude-sonnet", "prompt");
+        const schema = { type: "object", properties: { title: { type: "string" } } };
+
+        expect(JSON.parse(await service.refineStructured("raw", { name: "finalize_result", schema }))).toEqual({ title: "t", body: "b" });
+        expect(http).toHaveBeenCalledWith("https://api.anthropic.com/v1/messages", expect.objectContaining({
+            body: expect.objectContaining({
+                tools: [{ name: "finalize_result", input_schema: schema }],
+                tool_choice: { type: "tool", name: "finalize_result" },
+            }),
+        }));
+    });
+
+    it("throws when no tool call is returned for structured output", async () => {
+        const http = makeHttpClient({ content: [{ type: "text", text: "sorry" }] });
+        const service = new AnthropicTextRefinerService(makeSecretProvider(), http);
+        await expect(service.refineStructured("raw", { name: "s", schema: {} })).rejects.toThrow("Anthropic API returned no tool input");
+    });
+});
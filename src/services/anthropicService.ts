@@ -0,0 +1,78 @@
+import type { HttpClient } from "../utils/http";
+import type { ISecretProvider } from "../interfaces/ISecretProvider";
+import type { ITextRefinerService } from "../interfaces/ITextRefinerService";
+import type { StructuredOutputSchema } from "../types";
+import { DEFAULT_SYSTEM_PROMPT } from "./openAIService";
+
+const DEFAULT_MODEL = "claude-3-5-haiku-latest";
+/** The Messages API requires an output limit; finalized daily logs stay well below it. */
+const MAX_TOKENS = 4096;
+
+interface AnthropicMessagesResponse {
+    content?: Array<{ type: string; text?: string; input?: unknown }>;
+    stop_reason?: string;
+}
+
+/** Refines text using the Anthropic Messages API. */
+export class AnthropicTextRefinerService implements ITextRefinerService {
+    private readonly model: string;
+    private readonly systemPrompt: string;
+
+    constructor(
+        private readonly secretProvider: ISecretProvider,
+        private readonly httpClient: HttpClient,
+        model?: string,
+        systemPrompt?: string,
+    ) {
+        this.model = model ?? DEFAULT_MODEL;
+        this.systemPrompt = systemPrompt ?? DEFAULT_SYSTEM_PROMPT;
+    }
+
+    async refine(text: string): Promise<string> {
+        const data = await this.send(text, {});
+
+        const content = (data.content ?? [])
+            .filter((block) => block.type === "text")
+            .map((block) => block.text ?? "")
+            .join("");
+        if (!content) {
+            throw new Error("Anthropic API returned empty content");
+        }
+        return content;
+    }
+
+    /** The Messages API has no response format option, so the schema is forced as the input of a tool call. */
+    async refineStructured(text: string, schema: StructuredOutputSchema): Promise<string> {
+        const data = await this.send(text, {
+            tools: [{ name: schema.name, input_schema: schema.schema }],
+            tool_choice: { type: "tool", name: schema.name },
+        });
+
+        const toolUse = (data.content ?? []).find((block) => block.type === "tool_use");
+        if (!toolUse || toolUse.input === undefined) {
+            throw new Error("Anthropic API returned no tool input");
+        }
+        return JSON.stringify(toolUse.input);
+    }
+
+    private async send(text: string, extra: Record<string, unknown>): Promise<AnthropicMessagesResponse> {
+        const apiKey = await this.secretProvider.getAnthropicApiKey();
+
+        const data = await this.httpClient("https://api.anthropic.com/v1/messages", {
+            method: "POST",
+            token: apiKey,
+            body: {
+                model: this.model,
+                max_tokens: MAX_TOKENS,
+                system: this.systemPrompt,
+                messages: [{ role: "user", content: text }],
+                ...extra,
+            },
+        }) as AnthropicMessagesResponse;
+
+        if (data.stop_reason === "max_tokens") {
+            throw new Error(`Anthropic API response was truncated at ${MAX_TOKENS} tokens`);
+        }
+        return data;
+    }
+}
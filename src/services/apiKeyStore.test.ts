@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from "vitest";
+import { DynamoDBApiKeyStore } from "./apiKeyStore";
+import type { DynamoDBDocumentClient, GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+type SendFn = (command: unknown) => Promise<unknown>;
+
+function makeDdb(send: SendFn = vi.fn().mockResolvedValue({})): DynamoDBDocumentClient {
+    return { send } as unknown as DynamoDBDocumentClient;
+}
+
+// ── getKey ────────────────────────────────────────────────────────────────────
+
+describe("DynamoDBApiKeyStore.getKey", () => {
+    it("maps the item and keeps only known scopes", async () => {
+        const send = vi.fn().mockResolvedValue({
+            Item: { key_id: "k1", key_hash: "abc", scopes: new Set(["read:logs", "admin", "finalize"]), tenant_id: "alice" },
+        });
+        const store = new DynamoDBApiKeyStore(makeDdb(send), "keys");
+
+        expect(await store.getKey("k1")).toEqual({
+            keyId: "k1",
+            keyHash: "abc",
+            hmacSecret: undefined,
+            scopes: ["read:logs", "finalize"],
+            tenantId: "alice",
+        });
+        expect((send.mock.calls[0][0] as GetCommand).input).toEqual({ TableName: "keys", Key: { key_id: "k1" } });
+    });
+
+    it("returns null for unknown and disabled keys", async () => {
+        const send = vi.fn()
+            .mockResolvedValueOnce({})
+            .mockResolvedValueOnce({ Item: { key_id: "k2", key_hash: "abc", scopes: ["read:logs"], disabled: true } });
+        const store = new DynamoDBApiKeyStore(makeDdb(send), "keys");
+
+        expect(await store.getKey("k1")).toBeNull();
+        expect(await store.getKey("k2")).toBeNull();
+    });
+});
+
+// ── claimSignature ────────────────────────────────────────────────────────────
+
+describe("DynamoDBApiKeyStore.claimSignature", () => {
+    it("records the signature until it expires", async () => {
+        const send = vi.fn().mockResolvedValue({});
+        const store = new DynamoDBApiKeyStore(makeDdb(send), "keys");
+
+        expect(await store.claimSignature("k1", "sig", 1700000300)).toBe(true);
+        expect((send.mock.calls[0][0] as PutCommand).input).toEqual({
+            TableName: "keys",
+            Item: { key_id: "replay#k1#sig", ttl: 1700000300 },
+            ConditionExpression: "attribute_not_exists(key_id)",
+        });
+    });
+
+    it("returns false for a signature seen before", async () => {
+        const error = Object.assign(new Error("conditional"), { name: "ConditionalCheckFailedException" });
+        const store = new DynamoDBApiKeyStore(makeDdb(vi.fn().mockRejectedValue(error)), "keys");
+
+        expect(await store.claimSignature("k1", "sig", 1700000300)).toBe(false);
+    });
+
+    it("rethrows other errors", async () => {
+        const store = new DynamoDBApiKeyStore(makeDdb(vi.fn().mockRejectedValue(new Error("throttled"))), "keys");
+
+        await expect(store.claimSignature("k1", "sig", 1700000300)).rejects.toThrow("throttled");
+    });
+});
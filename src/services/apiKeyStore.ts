@@ -0,0 +1,66 @@
+import {
+    DynamoDBDocumentClient,
+    GetCommand,
+    PutCommand,
+} from "@aws-sdk/lib-dynamodb";
+import type { ApiKey, ApiScope } from "../types";
+import type { IApiKeyStore } from "../interfaces/IApiKeyStore";
+
+export type { IApiKeyStore };
+
+const API_SCOPES: readonly ApiScope[] = ["write:entries", "read:logs", "finalize"];
+
+/** A row of the API keys table. */
+interface ApiKeyItem {
+    key_id: string;
+    key_hash?: string;
+    hmac_secret?: string;
+    /** A list, or a string set when written through the DynamoDB console. */
+    scopes?: string[] | Set<string>;
+    tenant_id?: string;
+    disabled?: boolean;
+}
+
+/**
+ * DynamoDB-backed API key store. The table key is key_id (partition); each item holds the
+ * key_hash and/or hmac_secret, the granted scopes, and optionally tenant_id and disabled.
+ * Request signatures are recorded in the same table under "replay#<key_id>#<signature>" and
+ * expire through the table's ttl attribute.
+ */
+export class DynamoDBApiKeyStore implements IApiKeyStore {
+    constructor(
+        private readonly ddb: DynamoDBDocumentClient,
+        private readonly tableName: string,
+    ) {}
+
+    async getKey(keyId: string): Promise<ApiKey | null> {
+        const result = await this.ddb.send(new GetCommand({
+            TableName: this.tableName,
+            Key: { key_id: keyId },
+        }));
+        const item = result.Item as ApiKeyItem | undefined;
+        if (!item || item.disabled) return null;
+        return {
+            keyId: item.key_id,
+            keyHash: item.key_hash || undefined,
+            hmacSecret: item.hmac_secret || undefined,
+            // Unknown scopes are ignored rather than trusted.
+            scopes: Array.from(item.scopes ?? []).filter((s): s is ApiScope => (API_SCOPES as readonly string[]).includes(s)),
+            tenantId: item.tenant_id || undefined,
+        };
+    }
+
+    async claimSignature(keyId: string, signature: string, expiresAt: number): Promise<boolean> {
+        try {
+            await this.ddb.send(new PutCommand({
+                TableName: this.tableName,
+                Item: { key_id: `replay#${keyId}#${signature}`, ttl: expiresAt },
+                ConditionExpression: "attribute_not_exists(key_id)",
+            }));
+            return true;
+        } catch (e) {
+            if ((e as { name?: string }).name !== "ConditionalCheckFailedException") throw e;
+            return false;
+        }
+    }
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from "vitest";
-import { GitHubAuthService } from "./authService";
+import { GitHubAuthService, StaticTokenAuthService, SecretTokenAuthService } from "./authService";
 import type { HttpClient } from "../utils/http";
 import type { ISecretProvider } from "../interfaces/ISecretProvider";
 import crypto from "crypto";
@@ -17,6 +17,10 @@ function makeSecretProvider(pem: string | undefined): ISecretProvider {
     return {
         getPrivateKeyPem: vi.fn().mockResolvedValue(pem),
         getOpenAiApiKey: vi.fn().mockResolvedValue("sk-test"),
+        getAzureOpenAiApiKey: vi.fn(),
+        getAnthropicApiKey: vi.fn(),
+        getLocalLlmApiKey: vi.fn(),
+        getIssueTrackerToken: vi.fn().mockResolvedValue("glpat-secret"),
     };
 }
 
@@ -64,3 +68,15 @@ describe("GitHubAuthService.getInstallationToken", () => {
         );
     });
 });
+
+describe("StaticTokenAuthService.getInstallationToken", () => {
+    it("returns the configured token", async () => {
+        await expect(new StaticTokenAuthService("glpat-123").getInstallationToken()).resolves.toBe("glpat-123");
+    });
+});
+
+describe("SecretTokenAuthService.getInstallationToken", () => {
+    it("returns the issue tracker token from the secret", async () => {
+        await expect(new SecretTokenAuthService(makeSecretProvider(privateKey)).getInstallationToken()).resolves.toBe("glpat-secret");
+    });
+});
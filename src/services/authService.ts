@@ -40,3 +40,24 @@ export class GitHubAuthService implements IAuthService {
         return tokenResp.token;
     }
 }
+
+/**
+ * Returns a fixed token. Used by storage backends that authenticate with a static token
+ * (or not at all) instead of a GitHub App installation token.
+ */
+export class StaticTokenAuthService implements IAuthService {
+    constructor(private readonly token: string) {}
+
+    async getInstallationToken(): Promise<string> {
+        return this.token;
+    }
+}
+
+/** Personal or project access token for the GitLab and Gitea backends, read from the secret. */
+export class SecretTokenAuthService implements IAuthService {
+    constructor(private readonly secretProvider: ISecretProvider) {}
+
+    async getInstallationToken(): Promise<string> {
+        return this.secretProvider.getIssueTrackerToken();
+    }
+}
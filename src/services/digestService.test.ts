@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { DigestService, getDigestRange, getDigestTitle } from "./digestService";
+import type { IAuthService } from "../interfaces/IAuthService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+import type { ITextRefinerService } from "../interfaces/ITextRefinerService";
+import type { Issue, DigestMessage } from "../types";
+
+// ── test doubles ───────────────────────────────────────────────────────────────
+
+const day1: Issue = { number: 1, html_url: "https://github.com/o/r/issues/1", title: "2026-10-12 Planning", body: "planned the week", state: "closed" };
+const day2: Issue = { number: 2, html_url: "https://github.com/o/r/issues/2", title: "2026-10-13 Caching", body: "caching idea", state: "closed" };
+const openDay: Issue = { number: 3, html_url: "https://github.com/o/r/issues/3", title: "2026-10-14", state: "open" };
+
+function makeAuth(token = "tok"): IAuthService {
+    return { getInstallationToken: vi.fn().mockResolvedValue(token) };
+}
+
+function makeGitHub(overrides: Partial<IIssueTrackerService> = {}): IIssueTrackerService {
+    return {
+        findDailyIssue: vi.fn().mockResolvedValue(null),
+        searchDailyIssues: vi.fn().mockResolvedValue({ issues: [day2, openDay, day1], hasMore: false }),
+        searchDailyIssuesByText: vi.fn().mockResolvedValue([]),
+        searchOpenDailyIssuesBefore: vi.fn().mockResolvedValue([]),
+        listRecentClosedDailyIssues: vi.fn().mockResolvedValue([]),
+        findIssueByTitlePrefix: vi.fn().mockResolvedValue(null),
+        createDailyIssue: vi.fn().mockResolvedValue(day1),
+        createIssue: vi.fn().mockResolvedValue({ number: 50 }),
+        addComment: vi.fn().mockResolvedValue({ id: 1 }),
+        updateIssue: vi.fn().mockResolvedValue({ number: 50 }),
+        closeIssue: vi.fn().mockResolvedValue({ number: 50 }),
+        addLabels: vi.fn().mockResolvedValue(undefined),
+        getIssueComments: vi.fn().mockResolvedValue([]),
+        getIssue: vi.fn().mockResolvedValue(day1),
+        getComment: vi.fn().mockResolvedValue({ id: 1 }),
+        updateComment: vi.fn().mockResolvedValue({ id: 1 }),
+        deleteComment: vi.fn().mockResolvedValue(undefined),
+        ...overrides,
+    };
+}
+
+function makeTextRefiner(response = "Weekly summary."): ITextRefinerService {
+    return { refine: vi.fn().mockResolvedValue(response), refineStructured: vi.fn() };
+}
+
+const config = { owner: "owner", repo: "repo", defaultLabels: "thoughtlog" };
+
+const weekMessage: DigestMessage = { type: "digest", period: "week", periodKey: "2026-W42" };
+
+// ── helpers ────────────────────────────────────────────────────────────────────
+
+describe("getDigestRange", () => {
+    it("resolves weekly and monthly keys", () => {
+        expect(getDigestRange("week", "2026-W42")).toEqual({ from: "2026-10-12", to: "2026-10-18" });
+        expect(getDigestRange("month", "2026-10")).toEqual({ from: "2026-10-01", to: "2026-10-31" });
+    });
+
+    it("returns null when the key does not match the period", () => {
+        expect(getDigestRange("week", "2026-10")).toBeNull();
+        expect(getDigestRange("month", "2026-W42")).toBeNull();
+    });
+});
+
+describe("getDigestTitle", () => {
+    it("names weekly and monthly digests", () => {
+        expect(getDigestTitle("week", "2026-W42")).toBe("2026-W42 weekly digest");
+        expect(getDigestTitle("month", "2026-10")).toBe("2026-10 monthly digest");
+    });
+});
+
+// ── DigestService ──────────────────────────────────────────────────────────────
+
+describe("DigestService.generate", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("summarises finalized days in date order and creates a labelled digest issue", async () => {
+        const github = makeGitHub();
+        const textRefiner = makeTextRefiner();
+        const svc = new DigestService(makeAuth(), github, textRefiner, config);
+
+        await svc.generate(weekMessage);
+
+        expect(github.searchDailyIssues).toHaveBeenCalledWith(expect.objectContaining({ from: "2026-10-12", to: "2026-10-18", page: 1 }));
+        const refineArg = (textRefiner.refine as ReturnType<typeof vi.fn>).mock.calls[0][0] as string;
+        expect(refineArg).toBe("# 2026-10-12 Planning\n\nplanned the week\n\n---\n\n# 2026-10-13 Caching\n\ncaching idea");
+        expect(github.createIssue).toHaveBeenCalledWith({
+            owner: "owner",
+            repo: "repo",
+            title: "2026-W42 weekly digest",
+            body: "Weekly summary.\n\n## Daily logs\n\n- [2026-10-12 Planning](https://github.com/o/r/issues/1)\n- [2026-10-13 Caching](https://github.com/o/r/issues/2)\n",
+            labels: ["thoughtlog", "digest"],
+            token: "tok",
+        });
+    });
+
+    it("follows search pages until there are no more results", async () => {
+        const github = makeGitHub({
+            searchDailyIssues: vi.fn()
+                .mockResolvedValueOnce({ issues: [day1], hasMore: true })
+                .mockResolvedValueOnce({ issues: [day2], hasMore: false }),
+        });
+        const svc = new DigestService(makeAuth(), github, makeTextRefiner(), config);
+
+        await svc.generate({ type: "digest", period: "month", periodKey: "2026-10" });
+
+        expect(github.searchDailyIssues).toHaveBeenCalledTimes(2);
+        expect(github.searchDailyIssues).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }));
+    });
+
+    it("updates an existing digest issue instead of creating another", async () => {
+        const github = makeGitHub({ findIssueByTitlePrefix: vi.fn().mockResolvedValue({ number: 50, title: "2026-W42 weekly digest" }) });
+        const svc = new DigestService(makeAuth(), github, makeTextRefiner(), config);
+
+        await svc.generate(weekMessage);
+
+        expect(github.updateIssue).toHaveBeenCalledWith(expect.objectContaining({ issueNumber: 50, title: "2026-W42 weekly digest" }));
+        expect(github.createIssue).not.toHaveBeenCalled();
+    });
+
+    it("skips publishing when no day in the period is finalized", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+        const github = makeGitHub({ searchDailyIssues: vi.fn().mockResolvedValue({ issues: [openDay], hasMore: false }) });
+        const textRefiner = makeTextRefiner();
+        const svc = new DigestService(makeAuth(), github, textRefiner, config);
+
+        await svc.generate(weekMessage);
+
+        expect(textRefiner.refine).not.toHaveBeenCalled();
+        expect(github.createIssue).not.toHaveBeenCalled();
+    });
+
+    it("throws for an invalid period key", async () => {
+        const svc = new DigestService(makeAuth(), makeGitHub(), makeTextRefiner(), config);
+        await expect(svc.generate({ type: "digest", period: "week", periodKey: "2026-W99" })).rejects.toThrow("Invalid digest period");
+    });
+});
@@ -0,0 +1,88 @@
+import type { IAuthService } from "../interfaces/IAuthService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+import type { ITextRefinerService } from "../interfaces/ITextRefinerService";
+import type { DigestMessage, DigestPeriod, Issue, RepositoryConfig } from "../types";
+import { getIsoWeekRange, getMonthRange } from "../utils/date";
+import { parseLabels } from "../utils/format";
+
+/** Label added to digest issues on top of the default labels. */
+export const DIGEST_LABEL = "digest";
+
+export const DEFAULT_DIGEST_SYSTEM_PROMPT =
+    "以下は期間中の日次ログです。期間全体を振り返るまとめをMarkdown形式で作成してください。";
+
+/** Returns the date range covered by a digest period key, or null when the key is invalid. */
+export function getDigestRange(period: DigestPeriod, periodKey: string): { from: string; to: string } | null {
+    return period === "week" ? getIsoWeekRange(periodKey) : getMonthRange(periodKey);
+}
+
+/** Returns the issue title of a digest, e.g. "2026-W42 weekly digest". */
+export function getDigestTitle(period: DigestPeriod, periodKey: string): string {
+    return `${periodKey} ${period === "week" ? "weekly" : "monthly"} digest`;
+}
+
+/**
+ * Rolls up the finalized daily issues of a week or month into a single digest issue.
+ * The digest body is a summary written by the text refiner followed by links back to
+ * each daily issue. Re-running a digest updates the existing issue instead of creating a new one.
+ */
+export class DigestService {
+    constructor(
+        private readonly auth: IAuthService,
+        private readonly tracker: IIssueTrackerService,
+        private readonly textRefiner: ITextRefinerService,
+        private readonly config: RepositoryConfig,
+    ) {}
+
+    async generate(message: DigestMessage): Promise<void> {
+        const { period, periodKey } = message;
+        const { owner, repo } = this.config;
+
+        const range = getDigestRange(period, periodKey);
+        if (!range) {
+            throw new Error(`Invalid digest period: period=${period} periodKey=${periodKey}`);
+        }
+
+        const token = await this.auth.getInstallationToken();
+        const labels = parseLabels(this.config.defaultLabels, []);
+
+        const dailyIssues: Issue[] = [];
+        for (let page = 1; ; page++) {
+            const { issues, hasMore } = await this.tracker.searchDailyIssues({ owner, repo, ...range, labels, page, token });
+            dailyIssues.push(...issues);
+            if (!hasMore) break;
+        }
+
+        // Only finalized (closed) days carry a refined title and body worth summarising.
+        const finalized = dailyIssues
+            .filter((issue) => issue.state === "closed")
+            .sort((a, b) => (a.title ?? "").localeCompare(b.title ?? ""));
+        if (finalized.length === 0) {
+            console.warn(`No finalized daily issues for digest period=${period} periodKey=${periodKey}; skipping.`);
+            return;
+        }
+
+        const combined = finalized
+            .map((issue) => `# ${issue.title ?? ""}\n\n${issue.body ?? ""}`)
+            .join("\n\n---\n\n");
+        const summary = await this.textRefiner.refine(combined);
+
+        const links = finalized.map((issue) => `- [${issue.title ?? ""}](${issue.html_url ?? ""})`).join("\n");
+        const body = `${summary.trim()}\n\n## Daily logs\n\n${links}\n`;
+        const title = getDigestTitle(period, periodKey);
+
+        const existing = await this.tracker.findIssueByTitlePrefix?.({ owner, repo, titlePrefix: title, token }) ?? null;
+        if (existing) {
+            await this.tracker.updateIssue({ owner, repo, issueNumber: existing.number, title, body, token });
+            return;
+        }
+        await this.tracker.createIssue({
+            owner,
+            repo,
+            title,
+            body,
+            labels: parseLabels(this.config.defaultLabels, [DIGEST_LABEL]),
+            token,
+        });
+    }
+}
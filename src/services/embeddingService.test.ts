@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from "vitest";
+import { OpenAIEmbeddingService, OpenAICompatibleEmbeddingService } from "./embeddingService";
+import type { ISecretProvider } from "../interfaces/ISecretProvider";
+import type { HttpClient } from "../utils/http";
+
+function makeSecretProvider(localKey = ""): ISecretProvider {
+    return {
+        getPrivateKeyPem: vi.fn().mockResolvedValue("pem"),
+        getOpenAiApiKey: vi.fn().mockResolvedValue("sk-test-key"),
+        getAzureOpenAiApiKey: vi.fn(),
+        getAnthropicApiKey: vi.fn(),
+        getLocalLlmApiKey: vi.fn().mockResolvedValue(localKey),
+        getIssueTrackerToken: vi.fn(),
+    };
+}
+
+function makeHttpClient(returnValue: unknown = { data: [{ embedding: [0.1, 0.2] }] }): HttpClient {
+    return vi.fn().mockResolvedValue(returnValue);
+}
+
+describe("OpenAIEmbeddingService", () => {
+    it("posts the text to the Embeddings API and returns the vector", async () => {
+        const http = makeHttpClient();
+        const service = new OpenAIEmbeddingService(makeSecretProvider(), http);
+
+        expect(await service.embed("hello")).toEqual([0.1, 0.2]);
+        expect(http).toHaveBeenCalledWith("https://api.openai.com/v1/embeddings", {
+            method: "POST",
+            token: "sk-test-key",
+            body: { model: "text-embedding-3-small", input: "hello" },
+        });
+    });
+
+    it("uses the configured model", async () => {
+        const http = makeHttpClient();
+        await new OpenAIEmbeddingService(makeSecretProvider(), http, "text-embedding-3-large").embed("hello");
+
+        expect(http).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ body: { model: "text-embedding-3-large", input: "hello" } }));
+    });
+
+    it("throws when the response has no embedding", async () => {
+        const service = new OpenAIEmbeddingService(makeSecretProvider(), makeHttpClient({ data: [] }));
+        await expect(service.embed("hello")).rejects.toThrow("OpenAI API returned no embedding");
+    });
+});
+
+describe("OpenAICompatibleEmbeddingService", () => {
+    it("posts to the embeddings endpoint under the base URL without a key", async () => {
+        const http = makeHttpClient();
+        const service = new OpenAICompatibleEmbeddingService(makeSecretProvider(), http, "http://localhost:11434/v1/", "nomic-embed-text");
+
+        expect(await service.embed("hello")).toEqual([0.1, 0.2]);
+        expect(http).toHaveBeenCalledWith("http://localhost:11434/v1/embeddings", {
+            method: "POST",
+            token: undefined,
+            body: { model: "nomic-embed-text", input: "hello" },
+        });
+    });
+
+    it("sends the local API key when one is configured", async () => {
+        const http = makeHttpClient();
+        await new OpenAICompatibleEmbeddingService(makeSecretProvider("local-key"), http, "http://localhost:8080/v1", "m").embed("hello");
+
+        expect(http).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ token: "local-key" }));
+    });
+
+    it("throws when the response has no embedding", async () => {
+        const service = new OpenAICompatibleEmbeddingService(makeSecretProvider(), makeHttpClient({}), "http://localhost:11434/v1", "m");
+        await expect(service.embed("hello")).rejects.toThrow("OpenAI-compatible API returned no embedding");
+    });
+});
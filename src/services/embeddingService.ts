@@ -0,0 +1,70 @@
+import type { HttpClient } from "../utils/http";
+import type { ISecretProvider } from "../interfaces/ISecretProvider";
+import type { IEmbeddingService } from "../interfaces/IEmbeddingService";
+
+export type { IEmbeddingService };
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+interface EmbeddingsResponse {
+    data: Array<{
+        embedding: number[];
+    }>;
+}
+
+/** Returns the first embedding of an Embeddings API response. */
+function firstEmbedding(apiName: string, data: EmbeddingsResponse): number[] {
+    const embedding = data.data?.[0]?.embedding;
+    if (!Array.isArray(embedding) || embedding.length === 0) {
+        throw new Error(`${apiName} API returned no embedding`);
+    }
+    return embedding;
+}
+
+/** Embeds text using the OpenAI Embeddings API. */
+export class OpenAIEmbeddingService implements IEmbeddingService {
+    private readonly model: string;
+
+    constructor(
+        private readonly secretProvider: ISecretProvider,
+        private readonly httpClient: HttpClient,
+        model?: string,
+    ) {
+        this.model = model ?? DEFAULT_EMBEDDING_MODEL;
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const apiKey = await this.secretProvider.getOpenAiApiKey();
+
+        const data = await this.httpClient("https://api.openai.com/v1/embeddings", {
+            method: "POST",
+            token: apiKey,
+            body: { model: this.model, input: text },
+        }) as EmbeddingsResponse;
+
+        return firstEmbedding("OpenAI", data);
+    }
+}
+
+/** Embeds text using an OpenAI-compatible local endpoint such as Ollama or the llama.cpp server. */
+export class OpenAICompatibleEmbeddingService implements IEmbeddingService {
+    constructor(
+        private readonly secretProvider: ISecretProvider,
+        private readonly httpClient: HttpClient,
+        /** Base URL including the API prefix, e.g. "http://localhost:11434/v1". */
+        private readonly baseUrl: string,
+        private readonly model: string,
+    ) {}
+
+    async embed(text: string): Promise<number[]> {
+        const apiKey = await this.secretProvider.getLocalLlmApiKey();
+
+        const data = await this.httpClient(`${this.baseUrl.replace(/\/+$/, "")}/embeddings`, {
+            method: "POST",
+            token: apiKey || undefined,
+            body: { model: this.model, input: text },
+        }) as EmbeddingsResponse;
+
+        return firstEmbedding("OpenAI-compatible", data);
+    }
+}
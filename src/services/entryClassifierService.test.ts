@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { EntryClassifierService, getClassifySchema } from "./entryClassifierService";
+import type { IAuthService } from "../interfaces/IAuthService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+import type { ITextRefinerService } from "../interfaces/ITextRefinerService";
+import type { IQueueService } from "../interfaces/IQueueService";
+import type { IEntryStore } from "../interfaces/IEntryStore";
+import type { Issue, IssueComment, ClassifyEntryMessage } from "../types";
+
+// ── test doubles ───────────────────────────────────────────────────────────────
+
+const mockIssue: Issue = { number: 42, html_url: "https://github.com/o/r/issues/42" };
+const mockComment: IssueComment = { id: 99, body: "## 10:00\nbuy milk and call the dentist\n" };
+const vocabulary = ["idea", "todo", "meeting", "reading"];
+
+function makeAuth(token = "tok"): IAuthService {
+    return { getInstallationToken: vi.fn().mockResolvedValue(token) };
+}
+
+function makeGitHub(overrides: Partial<IIssueTrackerService> = {}): IIssueTrackerService {
+    return {
+        findDailyIssue: vi.fn().mockResolvedValue(mockIssue),
+        searchDailyIssues: vi.fn().mockResolvedValue({ issues: [], hasMore: false }),
+        searchDailyIssuesByText: vi.fn().mockResolvedValue([]),
+        searchOpenDailyIssuesBefore: vi.fn().mockResolvedValue([]),
+        listRecentClosedDailyIssues: vi.fn().mockResolvedValue([]),
+        createDailyIssue: vi.fn().mockResolvedValue(mockIssue),
+        createIssue: vi.fn().mockResolvedValue(mockIssue),
+        addComment: vi.fn().mockResolvedValue(mockComment),
+        updateIssue: vi.fn().mockResolvedValue(mockIssue),
+        closeIssue: vi.fn().mockResolvedValue(mockIssue),
+        addLabels: vi.fn().mockResolvedValue(undefined),
+        getIssueComments: vi.fn().mockResolvedValue([mockComment]),
+        getIssue: vi.fn().mockResolvedValue(mockIssue),
+        getComment: vi.fn().mockResolvedValue(mockComment),
+        updateComment: vi.fn().mockResolvedValue(mockComment),
+        deleteComment: vi.fn().mockResolvedValue(undefined),
+        ...overrides,
+    };
+}
+
+function makeTextRefiner(response = JSON.stringify({ tags: ["todo"] })): ITextRefinerService {
+    return { refine: vi.fn(), refineStructured: vi.fn().mockResolvedValue(response) };
+}
+
+function makeQueue(): IQueueService {
+    return { sendMessage: vi.fn().mockResolvedValue(undefined), sendMessages: vi.fn() };
+}
+
+const config = { owner: "owner", repo: "repo", defaultLabels: "thoughtlog" };
+
+const message: ClassifyEntryMessage = { type: "classify-entry", issueNumber: 42, commentId: 99 };
+
+// ── EntryClassifierService ─────────────────────────────────────────────────────
+
+describe("EntryClassifierService.classify", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("prefixes the entry with the top tag and labels the daily issue with all tags", async () => {
+        const github = makeGitHub();
+        const textRefiner = makeTextRefiner(JSON.stringify({ tags: ["todo", "meeting"] }));
+        const svc = new EntryClassifierService(makeAuth(), github, textRefiner, config, vocabulary);
+
+        await svc.classify(message);
+
+        expect(textRefiner.refineStructured).toHaveBeenCalledWith("buy milk and call the dentist", getClassifySchema(vocabulary));
+        expect(github.updateComment).toHaveBeenCalledWith({
+            owner: "owner", repo: "repo", commentId: 99, body: "## 10:00\n**[todo]** buy milk and call the dentist\n", token: "tok",
+        });
+        expect(github.addLabels).toHaveBeenCalledWith({ owner: "owner", repo: "repo", issueNumber: 42, labels: ["todo", "meeting"], token: "tok" });
+    });
+
+    it("drops tags outside the vocabulary", async () => {
+        const github = makeGitHub();
+        const svc = new EntryClassifierService(makeAuth(), github, makeTextRefiner(JSON.stringify({ tags: ["urgent", "todo", "todo"] })), config, vocabulary);
+
+        await svc.classify(message);
+
+        expect(github.addLabels).toHaveBeenCalledWith(expect.objectContaining({ labels: ["todo"] }));
+    });
+
+    it("leaves the entry alone when no tag applies", async () => {
+        const github = makeGitHub();
+        const svc = new EntryClassifierService(makeAuth(), github, makeTextRefiner(JSON.stringify({ tags: [] })), config, vocabulary);
+
+        await svc.classify(message);
+
+        expect(github.updateComment).not.toHaveBeenCalled();
+        expect(github.addLabels).not.toHaveBeenCalled();
+    });
+
+    it("leaves the entry alone when the response is unusable", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        const github = makeGitHub();
+        const svc = new EntryClassifierService(makeAuth(), github, makeTextRefiner("no idea"), config, vocabulary);
+
+        await svc.classify(message);
+
+        expect(github.updateComment).not.toHaveBeenCalled();
+    });
+
+    it("does not reclassify an entry that already has a kind", async () => {
+        const github = makeGitHub({ getComment: vi.fn().mockResolvedValue({ id: 99, body: "## 10:00\n**[idea]** hello\n" }) });
+        const textRefiner = makeTextRefiner();
+        const svc = new EntryClassifierService(makeAuth(), github, textRefiner, config, vocabulary);
+
+        await svc.classify(message);
+
+        expect(textRefiner.refineStructured).not.toHaveBeenCalled();
+        expect(github.updateComment).not.toHaveBeenCalled();
+    });
+
+    it("updates the stored entry and keeps a preserved original", async () => {
+        const body = "## 10:00\nrefined\n\n<details><summary>原文</summary>\n\nraw\n\n</details>\n";
+        const github = makeGitHub({ getComment: vi.fn().mockResolvedValue({ id: 99, body }) });
+        const entryStore = { updateEntryBody: vi.fn().mockResolvedValue(undefined) } as unknown as IEntryStore;
+        const svc = new EntryClassifierService(makeAuth(), github, makeTextRefiner(), config, vocabulary, undefined, entryStore);
+
+        await svc.classify({ ...message, entry: { dateKey: "2024-01-15", sortKey: "s" } });
+
+        const expected = "## 10:00\n**[todo]** refined\n\n<details><summary>原文</summary>\n\nraw\n\n</details>\n";
+        expect(github.updateComment).toHaveBeenCalledWith(expect.objectContaining({ body: expected }));
+        expect(entryStore.updateEntryBody).toHaveBeenCalledWith("2024-01-15", "s", expected);
+    });
+
+    it("queues voice refinement after classifying when requested", async () => {
+        const github = makeGitHub();
+        const queue = makeQueue();
+        const svc = new EntryClassifierService(makeAuth(), github, makeTextRefiner(), config, vocabulary, queue);
+
+        await svc.classify({ ...message, entry: { dateKey: "2024-01-15", sortKey: "s" }, voicePolish: true });
+
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({
+            type: "voice-polish", issueNumber: 42, commentId: 99, entry: { dateKey: "2024-01-15", sortKey: "s" },
+        }));
+        const updateOrder = (github.updateComment as ReturnType<typeof vi.fn>).mock.invocationCallOrder[0];
+        const sendOrder = (queue.sendMessage as ReturnType<typeof vi.fn>).mock.invocationCallOrder[0];
+        expect(updateOrder).toBeLessThan(sendOrder);
+    });
+
+    it("does nothing with an empty vocabulary", async () => {
+        const textRefiner = makeTextRefiner();
+        const svc = new EntryClassifierService(makeAuth(), makeGitHub(), textRefiner, config, []);
+
+        await svc.classify(message);
+
+        expect(textRefiner.refineStructured).not.toHaveBeenCalled();
+    });
+});
+
+// ── getClassifySchema ──────────────────────────────────────────────────────────
+
+describe("getClassifySchema", () => {
+    it("restricts tags to the vocabulary", () => {
+        expect(getClassifySchema(vocabulary).schema).toMatchObject({
+            properties: { tags: { type: "array", items: { enum: vocabulary } } },
+            required: ["tags"],
+            additionalProperties: false,
+        });
+    });
+});
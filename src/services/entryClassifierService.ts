@@ -0,0 +1,90 @@
+import type { IAuthService } from "../interfaces/IAuthService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+import type { ITextRefinerService } from "../interfaces/ITextRefinerService";
+import type { IQueueService } from "../interfaces/IQueueService";
+import type { IEntryStore } from "../interfaces/IEntryStore";
+import type { ClassifyEntryMessage, RepositoryConfig, StructuredOutputSchema, VoiceRefineMessage } from "../types";
+import { appendOriginal, formatEntryContent, parseEntry, splitOriginal } from "../utils/format";
+import { extractJsonObject } from "../utils/json";
+
+export const DEFAULT_CLASSIFY_SYSTEM_PROMPT =
+    "与えられた記録の内容に当てはまるタグを、指定された語彙から関連の強い順に選んでください。当てはまるものがなければ空にしてください。";
+
+/** Output format of classification; the tags are restricted to the configured vocabulary. */
+export function getClassifySchema(vocabulary: string[]): StructuredOutputSchema {
+    return {
+        name: "entry_tags",
+        schema: {
+            type: "object",
+            properties: {
+                tags: { type: "array", items: { type: "string", enum: vocabulary } },
+            },
+            required: ["tags"],
+            additionalProperties: false,
+        },
+    };
+}
+
+/**
+ * Classifies entries that were posted without a kind. The most relevant tag becomes the
+ * `**[kind]**` prefix of the entry and every tag is added as a label of the daily issue.
+ * Tags outside the vocabulary are dropped, and an unusable response leaves the entry as is.
+ */
+export class EntryClassifierService {
+    constructor(
+        private readonly auth: IAuthService,
+        private readonly tracker: IIssueTrackerService,
+        private readonly textRefiner: ITextRefinerService,
+        private readonly config: RepositoryConfig,
+        private readonly vocabulary: string[],
+        private readonly queueService?: IQueueService,
+        private readonly entryStore?: IEntryStore,
+    ) {}
+
+    async classify(message: ClassifyEntryMessage): Promise<void> {
+        const { issueNumber, commentId } = message;
+        const { owner, repo } = this.config;
+        const token = await this.auth.getInstallationToken();
+
+        const comment = await this.tracker.getComment({ owner, repo, commentId, token });
+        const body = comment.body ?? "";
+        const entry = parseEntry(body);
+
+        // A kind means the entry was posted with one or a redelivered message already classified it.
+        if (!entry.kind && entry.text && this.vocabulary.length > 0) {
+            const tags = await this.requestTags(entry.text);
+            if (tags.length > 0) {
+                const header = entry.time ? `## ${entry.time}\n` : "";
+                const classified = `${header}${formatEntryContent({ raw: entry.text, kind: tags[0] })}\n`;
+                const { original } = splitOriginal(body);
+                const newBody = original === null ? classified : appendOriginal(classified, original);
+
+                await this.tracker.updateComment({ owner, repo, commentId, body: newBody, token });
+                if (message.entry && this.entryStore) {
+                    await this.entryStore.updateEntryBody(message.entry.dateKey, message.entry.sortKey, newBody);
+                }
+                await this.tracker.addLabels({ owner, repo, issueNumber, labels: tags, token });
+            }
+        }
+
+        if (message.voicePolish && this.queueService) {
+            const polish: VoiceRefineMessage = { type: "voice-polish", issueNumber, commentId };
+            if (message.entry) polish.entry = message.entry;
+            await this.queueService.sendMessage(JSON.stringify(polish));
+        }
+    }
+
+    /** Returns the vocabulary tags the model chose, most relevant first, or none when the response is unusable. */
+    private async requestTags(text: string): Promise<string[]> {
+        const response = await this.textRefiner.refineStructured(text, getClassifySchema(this.vocabulary));
+        let tags: unknown;
+        try {
+            tags = extractJsonObject(response).tags;
+        } catch (e) {
+            console.warn(`Unusable classification response; leaving the entry unclassified: ${e instanceof Error ? e.message : String(e)}`);
+            return [];
+        }
+        if (!Array.isArray(tags)) return [];
+        return [...new Set(tags.map(String).filter((tag) => this.vocabulary.includes(tag)))];
+    }
+}
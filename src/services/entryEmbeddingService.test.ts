@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+import { EntryEmbeddingService } from "./entryEmbeddingService";
+import type { IAuthService } from "../interfaces/IAuthService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+import type { IEmbeddingService } from "../interfaces/IEmbeddingService";
+import type { IVectorStore } from "../interfaces/IVectorStore";
+import type { Issue, IssueComment, EmbedEntryMessage } from "../types";
+
+// ── test doubles ───────────────────────────────────────────────────────────────
+
+const mockIssue: Issue = { number: 42, html_url: "https://github.com/o/r/issues/42", title: "2024-01-15" };
+const mockComment: IssueComment = { id: 99, body: "## 10:00\n**[idea]** a quieter morning routine\n" };
+
+function makeAuth(token = "tok"): IAuthService {
+    return { getInstallationToken: vi.fn().mockResolvedValue(token) };
+}
+
+function makeGitHub(overrides: Partial<IIssueTrackerService> = {}): IIssueTrackerService {
+    return {
+        findDailyIssue: vi.fn().mockResolvedValue(mockIssue),
+        searchDailyIssues: vi.fn().mockResolvedValue({ issues: [], hasMore: false }),
+        searchDailyIssuesByText: vi.fn().mockResolvedValue([]),
+        searchOpenDailyIssuesBefore: vi.fn().mockResolvedValue([]),
+        listRecentClosedDailyIssues: vi.fn().mockResolvedValue([]),
+        createDailyIssue: vi.fn().mockResolvedValue(mockIssue),
+        createIssue: vi.fn().mockResolvedValue(mockIssue),
+        addComment: vi.fn().mockResolvedValue(mockComment),
+        updateIssue: vi.fn().mockResolvedValue(mockIssue),
+        closeIssue: vi.fn().mockResolvedValue(mockIssue),
+        addLabels: vi.fn().mockResolvedValue(undefined),
+        getIssueComments: vi.fn().mockResolvedValue([mockComment]),
+        getIssue: vi.fn().mockResolvedValue(mockIssue),
+        getComment: vi.fn().mockResolvedValue(mockComment),
+        updateComment: vi.fn().mockResolvedValue(mockComment),
+        deleteComment: vi.fn().mockResolvedValue(undefined),
+        ...overrides,
+    };
+}
+
+function makeEmbedder(): IEmbeddingService {
+    return { embed: vi.fn().mockResolvedValue([0.1, 0.2]) };
+}
+
+function makeVectorStore(): IVectorStore {
+    return {
+        putVector: vi.fn().mockResolvedValue(undefined),
+        deleteVector: vi.fn().mockResolvedValue(undefined),
+        query: vi.fn().mockResolvedValue([]),
+    };
+}
+
+const config = { owner: "owner", repo: "repo", defaultLabels: "thoughtlog" };
+
+const message: EmbedEntryMessage = { type: "embed-entry", issueNumber: 42, commentId: 99 };
+
+// ── EntryEmbeddingService ──────────────────────────────────────────────────────
+
+describe("EntryEmbeddingService.embedEntry", () => {
+    it("embeds the entry text and stores the vector with where it came from", async () => {
+        const embedder = makeEmbedder();
+        const vectors = makeVectorStore();
+        const svc = new EntryEmbeddingService(makeAuth(), makeGitHub(), embedder, vectors, config);
+
+        await svc.embedEntry(message);
+
+        expect(embedder.embed).toHaveBeenCalledWith("a quieter morning routine");
+        expect(vectors.putVector).toHaveBeenCalledWith({
+            comment_id: 99,
+            date: "2024-01-15",
+            time: "10:00",
+            issue_number: 42,
+            issue_url: "https://github.com/o/r/issues/42",
+            text: "a quieter morning routine",
+            embedding: [0.1, 0.2],
+        });
+    });
+
+    it("leaves a preserved voice transcript out of the embedded text", async () => {
+        const body = "## 10:00\nrefined\n\n<details><summary>原文</summary>\n\nraw\n\n</details>\n";
+        const embedder = makeEmbedder();
+        const svc = new EntryEmbeddingService(makeAuth(), makeGitHub({ getComment: vi.fn().mockResolvedValue({ id: 99, body }) }), embedder, makeVectorStore(), config);
+
+        await svc.embedEntry(message);
+
+        expect(embedder.embed).toHaveBeenCalledWith("refined");
+    });
+
+    it("removes the vector of an entry without text", async () => {
+        const embedder = makeEmbedder();
+        const vectors = makeVectorStore();
+        const svc = new EntryEmbeddingService(makeAuth(), makeGitHub({ getComment: vi.fn().mockResolvedValue({ id: 99, body: "## 10:00\n" }) }), embedder, vectors, config);
+
+        await svc.embedEntry(message);
+
+        expect(embedder.embed).not.toHaveBeenCalled();
+        expect(vectors.deleteVector).toHaveBeenCalledWith(99);
+    });
+});
@@ -0,0 +1,50 @@
+import type { IAuthService } from "../interfaces/IAuthService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+import type { IEmbeddingService } from "../interfaces/IEmbeddingService";
+import type { IVectorStore } from "../interfaces/IVectorStore";
+import type { EmbedEntryMessage, RepositoryConfig } from "../types";
+import { parseEntry } from "../utils/format";
+
+/** Longest entry text that is embedded and stored; keeps requests and items small. */
+const MAX_EMBEDDED_TEXT_CHARS = 2000;
+
+/**
+ * Computes the embedding of an entry and stores it in the vector store for semantic search.
+ * The `**[kind]**` prefix and any preserved voice transcript are left out of the embedded text.
+ * An entry without text has its vector removed.
+ */
+export class EntryEmbeddingService {
+    constructor(
+        private readonly auth: IAuthService,
+        private readonly tracker: IIssueTrackerService,
+        private readonly embeddingService: IEmbeddingService,
+        private readonly vectorStore: IVectorStore,
+        private readonly config: RepositoryConfig,
+    ) {}
+
+    async embedEntry(message: EmbedEntryMessage): Promise<void> {
+        const { issueNumber, commentId } = message;
+        const { owner, repo } = this.config;
+        const token = await this.auth.getInstallationToken();
+
+        const comment = await this.tracker.getComment({ owner, repo, commentId, token });
+        const entry = parseEntry(comment.body ?? "");
+        const text = entry.text.slice(0, MAX_EMBEDDED_TEXT_CHARS);
+        if (!text) {
+            await this.vectorStore.deleteVector(commentId);
+            return;
+        }
+
+        const issue = await this.tracker.getIssue({ owner, repo, issueNumber, token });
+        const embedding = await this.embeddingService.embed(text);
+        await this.vectorStore.putVector({
+            comment_id: commentId,
+            date: (issue.title ?? "").slice(0, 10),
+            time: entry.time,
+            issue_number: issueNumber,
+            issue_url: issue.html_url ?? "",
+            text,
+            embedding,
+        });
+    }
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from "vitest";
+import { DynamoDBEntryStore } from "./entryStore";
+import type { DynamoDBDocumentClient, PutCommand, QueryCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import type { StoredEntry } from "../types";
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+type SendFn = (command: unknown) => Promise<unknown>;
+
+function makeDdb(send: SendFn = vi.fn().mockResolvedValue({})): DynamoDBDocumentClient {
+    return { send } as unknown as DynamoDBDocumentClient;
+}
+
+const entry: StoredEntry = {
+    date_key: "2024-01-15",
+    sort_key: "2024-01-15T10:30:00.000Z#r1",
+    request_id: "r1",
+    body: "## 19:30\nhello\n",
+    labels: ["thoughtlog"],
+    mirror_status: "pending",
+};
+
+function conditionalCheckFailed(): Error {
+    return Object.assign(new Error("conditional"), { name: "ConditionalCheckFailedException" });
+}
+
+// ── putEntry ──────────────────────────────────────────────────────────────────
+
+describe("DynamoDBEntryStore.putEntry", () => {
+    it("writes the entry only if its key is new", async () => {
+        const send = vi.fn().mockResolvedValue({});
+        const store = new DynamoDBEntryStore(makeDdb(send), "entries");
+
+        expect(await store.putEntry(entry)).toBe(true);
+        const cmd = send.mock.calls[0][0] as PutCommand;
+        expect(cmd.input).toEqual({ TableName: "entries", Item: entry, ConditionExpression: "attribute_not_exists(sort_key)" });
+    });
+
+    it("returns false when the entry already exists", async () => {
+        const store = new DynamoDBEntryStore(makeDdb(vi.fn().mockRejectedValue(conditionalCheckFailed())), "entries");
+        expect(await store.putEntry(entry)).toBe(false);
+    });
+
+    it("rethrows other errors", async () => {
+        const store = new DynamoDBEntryStore(makeDdb(vi.fn().mockRejectedValue(new Error("throttled"))), "entries");
+        await expect(store.putEntry(entry)).rejects.toThrow("throttled");
+    });
+});
+
+// ── listEntries ───────────────────────────────────────────────────────────────
+
+describe("DynamoDBEntryStore.listEntries", () => {
+    it("queries the day in ascending sort key order across pages", async () => {
+        const second = { ...entry, sort_key: "2024-01-15T11:00:00.000Z#r2", request_id: "r2" };
+        const send = vi.fn()
+            .mockResolvedValueOnce({ Items: [entry], LastEvaluatedKey: { date_key: "2024-01-15", sort_key: entry.sort_key } })
+            .mockResolvedValueOnce({ Items: [second] });
+        const store = new DynamoDBEntryStore(makeDdb(send), "entries");
+
+        expect(await store.listEntries("2024-01-15")).toEqual([entry, second]);
+        const first = send.mock.calls[0][0] as QueryCommand;
+        expect(first.input).toMatchObject({ KeyConditionExpression: "date_key = :d", ExpressionAttributeValues: { ":d": "2024-01-15" }, ScanIndexForward: true });
+        expect((send.mock.calls[1][0] as QueryCommand).input.ExclusiveStartKey).toEqual({ date_key: "2024-01-15", sort_key: entry.sort_key });
+    });
+});
+
+// ── updates ───────────────────────────────────────────────────────────────────
+
+describe("DynamoDBEntryStore updates", () => {
+    it("records the mirrored issue and comment", async () => {
+        const send = vi.fn().mockResolvedValue({});
+        const store = new DynamoDBEntryStore(makeDdb(send), "entries");
+
+        await store.markMirrored("2024-01-15", entry.sort_key, { issue_number: 42, comment_id: 99 });
+
+        const cmd = send.mock.calls[0][0] as UpdateCommand;
+        expect(cmd.input.Key).toEqual({ date_key: "2024-01-15", sort_key: entry.sort_key });
+        expect(cmd.input.ExpressionAttributeValues).toEqual({ ":m": "mirrored", ":n": 42, ":c": 99 });
+    });
+
+    it("records the issue an entry is about to be posted to", async () => {
+        const send = vi.fn().mockResolvedValue({});
+        const store = new DynamoDBEntryStore(makeDdb(send), "entries", "alice#");
+
+        await store.markMirroring("2024-01-15", entry.sort_key, 42);
+
+        const cmd = send.mock.calls[0][0] as UpdateCommand;
+        expect(cmd.input.Key).toEqual({ date_key: "alice#2024-01-15", sort_key: entry.sort_key });
+        expect(cmd.input.ExpressionAttributeValues).toEqual({ ":m": "mirroring", ":n": 42 });
+    });
+
+    it("ignores body updates for entries that no longer exist", async () => {
+        const store = new DynamoDBEntryStore(makeDdb(vi.fn().mockRejectedValue(conditionalCheckFailed())), "entries");
+        await expect(store.updateEntryBody("2024-01-15", entry.sort_key, "new")).resolves.toBeUndefined();
+    });
+});
+
+// ── key prefix ────────────────────────────────────────────────────────────────
+
+describe("DynamoDBEntryStore – key prefix", () => {
+    it("stores the day under the prefixed date key", async () => {
+        const send = vi.fn().mockResolvedValue({});
+        const store = new DynamoDBEntryStore(makeDdb(send), "entries", "alice#");
+
+        await store.putEntry(entry);
+        await store.deleteEntry("2024-01-15", entry.sort_key);
+
+        expect((send.mock.calls[0][0] as PutCommand).input.Item).toEqual({ ...entry, date_key: "alice#2024-01-15" });
+        expect(send.mock.calls[1][0].input.Key).toEqual({ date_key: "alice#2024-01-15", sort_key: entry.sort_key });
+    });
+
+    it("returns entries with the plain date key", async () => {
+        const send = vi.fn().mockResolvedValue({ Items: [{ ...entry, date_key: "alice#2024-01-15" }] });
+        const store = new DynamoDBEntryStore(makeDdb(send), "entries", "alice#");
+
+        expect(await store.listEntries("2024-01-15")).toEqual([entry]);
+        expect((send.mock.calls[0][0] as QueryCommand).input.ExpressionAttributeValues).toEqual({ ":d": "alice#2024-01-15" });
+    });
+});
@@ -0,0 +1,120 @@
+import {
+    DynamoDBDocumentClient,
+    PutCommand,
+    GetCommand,
+    QueryCommand,
+    UpdateCommand,
+    DeleteCommand,
+} from "@aws-sdk/lib-dynamodb";
+import type { StoredEntry } from "../types";
+import type { IEntryStore } from "../interfaces/IEntryStore";
+
+export type { IEntryStore };
+
+/**
+ * DynamoDB-backed entry store. The table key is date_key (partition) and sort_key (sort).
+ * date_key is stored with keyPrefix in front, so tenants sharing the table (prefix "<tenant>#")
+ * keep separate days; entries are returned with the plain date key.
+ */
+export class DynamoDBEntryStore implements IEntryStore {
+    constructor(
+        private readonly ddb: DynamoDBDocumentClient,
+        private readonly tableName: string,
+        private readonly keyPrefix: string = "",
+    ) {}
+
+    private key(dateKey: string): string {
+        return `${this.keyPrefix}${dateKey}`;
+    }
+
+    private fromItem(item: StoredEntry): StoredEntry {
+        return { ...item, date_key: item.date_key.slice(this.keyPrefix.length) };
+    }
+
+    async putEntry(entry: StoredEntry): Promise<boolean> {
+        try {
+            await this.ddb.send(new PutCommand({
+                TableName: this.tableName,
+                Item: { ...entry, date_key: this.key(entry.date_key) },
+                ConditionExpression: "attribute_not_exists(sort_key)",
+            }));
+            return true;
+        } catch (e) {
+            if ((e as { name?: string }).name !== "ConditionalCheckFailedException") throw e;
+            return false;
+        }
+    }
+
+    async getEntry(dateKey: string, sortKey: string): Promise<StoredEntry | null> {
+        const result = await this.ddb.send(new GetCommand({
+            TableName: this.tableName,
+            Key: { date_key: this.key(dateKey), sort_key: sortKey },
+        }));
+        const item = result.Item as StoredEntry | undefined;
+        return item ? this.fromItem(item) : null;
+    }
+
+    async listEntries(dateKey: string): Promise<StoredEntry[]> {
+        const entries: StoredEntry[] = [];
+        let exclusiveStartKey: Record<string, unknown> | undefined;
+        do {
+            const result = await this.ddb.send(new QueryCommand({
+                TableName: this.tableName,
+                KeyConditionExpression: "date_key = :d",
+                ExpressionAttributeValues: { ":d": this.key(dateKey) },
+                ScanIndexForward: true,
+                ExclusiveStartKey: exclusiveStartKey,
+            }));
+            entries.push(...((result.Items ?? []) as StoredEntry[]).map((item) => this.fromItem(item)));
+            exclusiveStartKey = result.LastEvaluatedKey;
+        } while (exclusiveStartKey);
+        return entries;
+    }
+
+    async markMirroring(dateKey: string, sortKey: string, issueNumber: number): Promise<void> {
+        await this.ddb.send(new UpdateCommand({
+            TableName: this.tableName,
+            Key: { date_key: this.key(dateKey), sort_key: sortKey },
+            UpdateExpression: "SET mirror_status = :m, issue_number = :n",
+            ExpressionAttributeValues: {
+                ":m": "mirroring",
+                ":n": issueNumber,
+            },
+        }));
+    }
+
+    async markMirrored(dateKey: string, sortKey: string, { issue_number, comment_id }: { issue_number: number; comment_id: number }): Promise<void> {
+        await this.ddb.send(new UpdateCommand({
+            TableName: this.tableName,
+            Key: { date_key: this.key(dateKey), sort_key: sortKey },
+            UpdateExpression: "SET mirror_status = :m, issue_number = :n, comment_id = :c",
+            ExpressionAttributeValues: {
+                ":m": "mirrored",
+                ":n": issue_number,
+                ":c": comment_id,
+            },
+        }));
+    }
+
+    async updateEntryBody(dateKey: string, sortKey: string, body: string): Promise<void> {
+        try {
+            await this.ddb.send(new UpdateCommand({
+                TableName: this.tableName,
+                Key: { date_key: this.key(dateKey), sort_key: sortKey },
+                UpdateExpression: "SET body = :b",
+                // Do not resurrect an entry that was deleted in the meantime.
+                ConditionExpression: "attribute_exists(sort_key)",
+                ExpressionAttributeValues: { ":b": body },
+            }));
+        } catch (e) {
+            if ((e as { name?: string }).name !== "ConditionalCheckFailedException") throw e;
+        }
+    }
+
+    async deleteEntry(dateKey: string, sortKey: string): Promise<void> {
+        await this.ddb.send(new DeleteCommand({
+            TableName: this.tableName,
+            Key: { date_key: this.key(dateKey), sort_key: sortKey },
+        }));
+    }
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { FileSystemStorageService } from "./fileSystemStorageService";
+import { ThoughtLogService } from "./thoughtLogService";
+import { StaticTokenAuthService } from "./authService";
+import type { IIdempotencyService } from "../interfaces/IIdempotencyService";
+
+const owner = "owner";
+const repo = "repo";
+const token = "";
+const labels = ["thoughtlog"];
+
+let dir: string;
+let storage: FileSystemStorageService;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "thoughtlog-fs-"));
+    storage = new FileSystemStorageService(dir);
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+// ── issues ─────────────────────────────────────────────────────────────────────
+
+describe("FileSystemStorageService issues", () => {
+    it("stores a daily issue as a Markdown file plus a JSON sidecar", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+
+        expect(issue).toMatchObject({ number: 1, title: "2024-01-15", state: "open" });
+        expect(await fs.readFile(path.join(dir, "2024-01-15.md"), "utf8")).toBe("# 2024-01-15\n\n<!-- summary will be generated later -->\n");
+        const sidecar = JSON.parse(await fs.readFile(path.join(dir, "2024-01-15.json"), "utf8"));
+        expect(sidecar).toMatchObject({ number: 1, title: "2024-01-15", state: "open", labels, comments: [] });
+    });
+
+    it("finds only open daily issues with an exact title match", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        expect(await storage.findDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token })).toMatchObject({ number: issue.number });
+        expect(await storage.findDailyIssue({ owner, repo, dateKey: "2024-01-16", labels, token })).toBeNull();
+
+        await storage.closeIssue({ owner, repo, issueNumber: issue.number, token });
+        expect(await storage.findDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token })).toBeNull();
+    });
+
+    it("keeps the file name when finalize renames and closes the issue", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        await storage.updateIssue({ owner, repo, issueNumber: issue.number, title: "2024-01-15 Caching", body: "Finalized.", token });
+        const closed = await storage.closeIssue({ owner, repo, issueNumber: issue.number, token });
+
+        expect(closed).toMatchObject({ title: "2024-01-15 Caching", state: "closed", body: "Finalized." });
+        expect(closed.closed_at).toEqual(expect.any(String));
+        expect(await fs.readFile(path.join(dir, "2024-01-15.md"), "utf8")).toBe("Finalized.");
+        expect(await storage.findIssueByTitlePrefix({ owner, repo, titlePrefix: "2024-01-15 ", token })).toMatchObject({ number: issue.number });
+        expect(await storage.listRecentClosedDailyIssues({ owner, repo, labels, limit: 5, token })).toHaveLength(1);
+    });
+
+    it("adds labels to the sidecar without duplicates", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+
+        await storage.addLabels({ owner, repo, issueNumber: issue.number, labels: ["thoughtlog", "idea"], token });
+
+        const sidecar = JSON.parse(await fs.readFile(path.join(dir, "2024-01-15.json"), "utf8"));
+        expect(sidecar.labels).toEqual(["thoughtlog", "idea"]);
+    });
+
+    it("gives a second issue for the same day its own files", async () => {
+        const first = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        await storage.closeIssue({ owner, repo, issueNumber: first.number, token });
+        const second = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+
+        expect(second.html_url).toBe(`file://${path.join(dir, "2024-01-15-2.md")}`);
+        expect(await storage.findDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token })).toMatchObject({ number: second.number });
+    });
+
+    it("searches daily issues by date range and label, in title order", async () => {
+        await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-16", labels, token });
+        await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-14", labels, token });
+        await storage.createDailyIssue({ owner, repo, dateKey: "2024-02-01", labels, token });
+        await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels: ["other"], token });
+        await storage.createIssue({ owner, repo, title: "2024-W03 weekly digest", body: "digest", labels, token });
+
+        const result = await storage.searchDailyIssues({ owner, repo, from: "2024-01-01", to: "2024-01-31", labels, page: 1, token });
+        expect(result.issues.map((i) => i.title)).toEqual(["2024-01-14", "2024-01-16"]);
+        expect(result.hasMore).toBe(false);
+
+        const stale = await storage.searchOpenDailyIssuesBefore({ owner, repo, dateKey: "2024-01-16", labels, token });
+        expect(stale.map((i) => i.title)).toEqual(["2024-01-14"]);
+    });
+
+    it("throws for an unknown issue number", async () => {
+        await expect(storage.getIssue({ owner, repo, issueNumber: 99, token })).rejects.toThrow("Issue not found: 99");
+    });
+});
+
+// ── comments ───────────────────────────────────────────────────────────────────
+
+describe("FileSystemStorageService comments", () => {
+    it("adds, updates and deletes comments with ids that are never reused", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        const first = await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "## 19:30\nhello\n", token });
+        const second = await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "## 20:00\nworld\n", token });
+
+        expect(first.issue_url).toMatch(new RegExp(`/issues/${issue.number}$`));
+        await storage.updateComment({ owner, repo, commentId: first.id, body: "## 19:30\nedited\n", token });
+        expect(await storage.getComment({ owner, repo, commentId: first.id, token })).toMatchObject({ body: "## 19:30\nedited\n" });
+
+        await storage.deleteComment({ owner, repo, commentId: second.id, token });
+        const third = await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "## 21:00\nagain\n", token });
+
+        expect(third.id).toBe(second.id + 1);
+        expect((await storage.getIssueComments({ owner, repo, issueNumber: issue.number, token })).map((c) => c.id)).toEqual([first.id, third.id]);
+        await expect(storage.getComment({ owner, repo, commentId: second.id, token })).rejects.toThrow(`Comment not found: ${second.id}`);
+    });
+
+    it("finds daily issues whose comments contain the text", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-16", labels, token });
+        await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "## 19:30\nAbout Caching\n", token });
+
+        const result = await storage.searchDailyIssuesByText({ owner, repo, text: "caching", labels, token });
+        expect(result.map((i) => i.number)).toEqual([issue.number]);
+    });
+});
+
+// ── ThoughtLogService against the filesystem ───────────────────────────────────
+
+describe("ThoughtLogService with FileSystemStorageService", () => {
+    it("creates entries and reads them back", async () => {
+        const idempotency: IIdempotencyService = {
+            claim: async () => ({ enabled: false, claimed: true }),
+            markDone: async () => undefined,
+            markFailed: async () => undefined,
+            release: async () => undefined,
+            getItem: async () => null,
+            getIssueNumberByTitle: async () => null,
+            putIssueTitleCache: async () => undefined,
+        };
+        const service = new ThoughtLogService(new StaticTokenAuthService(""), storage, idempotency, { owner, repo, defaultLabels: "thoughtlog" });
+
+        await service.createEntry({ request_id: "r1", raw: "first", captured_at: "2024-01-15T10:30:00Z" });
+        await service.createEntry({ request_id: "r2", raw: "second", kind: "idea", captured_at: "2024-01-15T11:00:00Z" });
+
+        const outcome = await service.getLogComments("2024-01-15");
+        expect(outcome).toEqual({ kind: "found", comments: ["## 19:30\nfirst\n", "## 20:00\n**[idea]** second\n"] });
+    });
+});
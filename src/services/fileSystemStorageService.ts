@@ -0,0 +1,284 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Issue, IssueComment } from "../types";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+
+const DATE_KEY_PREFIX = /^(\d{4}-\d{2}-\d{2})(?:\s|$)/;
+const PAGE_SIZE = 100;
+const COUNTERS_FILE = ".counters.json";
+
+interface StoredComment {
+    id: number;
+    body: string;
+    created_at: string;
+    updated_at: string;
+}
+
+/** JSON sidecar stored next to each Markdown file; the issue body lives in the Markdown file. */
+interface Sidecar {
+    number: number;
+    title: string;
+    state: "open" | "closed";
+    labels: string[];
+    created_at: string;
+    updated_at: string;
+    closed_at: string | null;
+    comments: StoredComment[];
+}
+
+interface StoredIssue {
+    /**
+     * File name without extension: the date key for daily issues (suffixed with the issue number
+     * when the day already has a file), "issue-<number>" otherwise.
+     */
+    name: string;
+    sidecar: Sidecar;
+    body: string;
+}
+
+interface Counters {
+    issue: number;
+    comment: number;
+}
+
+/** Returns true when the title starts with a date key inside the optional [from, to] range. */
+function isDailyTitleInRange(title: string, from?: string, to?: string): boolean {
+    const match = title.trim().match(DATE_KEY_PREFIX);
+    if (!match) return false;
+    return (!from || match[1] >= from) && (!to || match[1] <= to);
+}
+
+/** Mirrors the GitHub search behaviour of matching on the primary label only. */
+function hasPrimaryLabel(sidecar: Sidecar, labels: string[]): boolean {
+    const primaryLabel = labels.includes("thoughtlog") ? "thoughtlog" : labels[0];
+    return !primaryLabel || sidecar.labels.includes(primaryLabel);
+}
+
+function byTitle(a: Issue, b: Issue): number {
+    return (a.title ?? "").localeCompare(b.title ?? "");
+}
+
+/**
+ * Local filesystem implementation of IIssueTrackerService, for running offline and in tests.
+ * Each day is kept as "<dateKey>.md" (the issue body) plus "<dateKey>.json" (title, state,
+ * labels and comments) in the root directory. Owner, repo and token parameters are ignored.
+ */
+export class FileSystemStorageService implements IIssueTrackerService {
+    private readonly rootDir: string;
+
+    constructor(rootDir: string) {
+        this.rootDir = path.resolve(rootDir);
+    }
+
+    async findDailyIssue({ dateKey, labels }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue | null> {
+        const found = (await this.loadAll()).find((s) =>
+            s.sidecar.state === "open" && s.sidecar.title.trim() === dateKey && hasPrimaryLabel(s.sidecar, labels));
+        return found ? this.toIssue(found) : null;
+    }
+
+    async findIssueByTitlePrefix({ titlePrefix }: { owner: string; repo: string; titlePrefix: string; token: string }): Promise<Issue | null> {
+        const found = (await this.loadAll())
+            .filter((s) => s.sidecar.title.startsWith(titlePrefix))
+            .sort((a, b) => b.sidecar.updated_at.localeCompare(a.sidecar.updated_at))[0];
+        return found ? this.toIssue(found) : null;
+    }
+
+    async searchDailyIssues({ from, to, labels, page }: { owner: string; repo: string; from: string; to: string; labels: string[]; page: number; token: string }): Promise<{ issues: Issue[]; hasMore: boolean }> {
+        const matches = (await this.loadAll())
+            .filter((s) => hasPrimaryLabel(s.sidecar, labels) && isDailyTitleInRange(s.sidecar.title, from, to))
+            .map((s) => this.toIssue(s))
+            .sort(byTitle);
+        const start = (page - 1) * PAGE_SIZE;
+        return { issues: matches.slice(start, start + PAGE_SIZE), hasMore: start + PAGE_SIZE < matches.length };
+    }
+
+    async searchDailyIssuesByText({ text, labels, from, to }: { owner: string; repo: string; text: string; labels: string[]; from?: string; to?: string; token: string }): Promise<Issue[]> {
+        const needle = text.toLowerCase();
+        return (await this.loadAll())
+            .filter((s) => hasPrimaryLabel(s.sidecar, labels) && isDailyTitleInRange(s.sidecar.title, from, to))
+            .filter((s) => s.sidecar.comments.some((c) => c.body.toLowerCase().includes(needle)))
+            .map((s) => this.toIssue(s))
+            .sort(byTitle);
+    }
+
+    async searchOpenDailyIssuesBefore({ dateKey, labels }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue[]> {
+        return (await this.loadAll())
+            .filter((s) => s.sidecar.state === "open" && hasPrimaryLabel(s.sidecar, labels))
+            .filter((s) => isDailyTitleInRange(s.sidecar.title) && s.sidecar.title.slice(0, 10) < dateKey)
+            .map((s) => this.toIssue(s))
+            .sort(byTitle);
+    }
+
+    async listRecentClosedDailyIssues({ labels, limit }: { owner: string; repo: string; labels: string[]; limit: number; token: string }): Promise<Issue[]> {
+        return (await this.loadAll())
+            .filter((s) => s.sidecar.state === "closed" && hasPrimaryLabel(s.sidecar, labels) && isDailyTitleInRange(s.sidecar.title))
+            .sort((a, b) => (b.sidecar.closed_at ?? "").localeCompare(a.sidecar.closed_at ?? ""))
+            .slice(0, limit)
+            .map((s) => this.toIssue(s));
+    }
+
+    async createDailyIssue({ dateKey, labels }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue> {
+        const body = `# ${dateKey}\n\n<!-- summary will be generated later -->\n`;
+        return this.create(dateKey, body, labels);
+    }
+
+    async createIssue({ title, body, labels }: { owner: string; repo: string; title: string; body: string; labels: string[]; token: string }): Promise<Issue> {
+        return this.create(title, body, labels);
+    }
+
+    async addComment({ issueNumber, commentBody }: { owner: string; repo: string; issueNumber: number; commentBody: string; token: string }): Promise<IssueComment> {
+        const stored = await this.load(issueNumber);
+        const now = new Date().toISOString();
+        const comment: StoredComment = { id: await this.nextId("comment"), body: commentBody, created_at: now, updated_at: now };
+        stored.sidecar.comments.push(comment);
+        stored.sidecar.updated_at = now;
+        await this.save(stored);
+        return this.toComment(stored, comment);
+    }
+
+    async updateIssue({ issueNumber, title, body }: { owner: string; repo: string; issueNumber: number; title?: string; body: string; token: string }): Promise<Issue> {
+        const stored = await this.load(issueNumber);
+        if (title !== undefined) stored.sidecar.title = title;
+        stored.body = body;
+        stored.sidecar.updated_at = new Date().toISOString();
+        await this.save(stored);
+        return this.toIssue(stored);
+    }
+
+    async closeIssue({ issueNumber }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue> {
+        const stored = await this.load(issueNumber);
+        const now = new Date().toISOString();
+        stored.sidecar.state = "closed";
+        stored.sidecar.closed_at = now;
+        stored.sidecar.updated_at = now;
+        await this.save(stored);
+        return this.toIssue(stored);
+    }
+
+    async addLabels({ issueNumber, labels }: { owner: string; repo: string; issueNumber: number; labels: string[]; token: string }): Promise<void> {
+        const stored = await this.load(issueNumber);
+        stored.sidecar.labels = [...new Set([...stored.sidecar.labels, ...labels])];
+        stored.sidecar.updated_at = new Date().toISOString();
+        await this.save(stored);
+    }
+
+    async getIssueComments({ issueNumber }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<IssueComment[]> {
+        const stored = await this.load(issueNumber);
+        return stored.sidecar.comments.map((c) => this.toComment(stored, c));
+    }
+
+    async getIssue({ issueNumber }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue> {
+        return this.toIssue(await this.load(issueNumber));
+    }
+
+    async getComment({ commentId }: { owner: string; repo: string; commentId: number; token: string }): Promise<IssueComment> {
+        const { stored, comment } = await this.loadComment(commentId);
+        return this.toComment(stored, comment);
+    }
+
+    async updateComment({ commentId, body }: { owner: string; repo: string; commentId: number; body: string; token: string }): Promise<IssueComment> {
+        const { stored, comment } = await this.loadComment(commentId);
+        comment.body = body;
+        comment.updated_at = new Date().toISOString();
+        await this.save(stored);
+        return this.toComment(stored, comment);
+    }
+
+    async deleteComment({ commentId }: { owner: string; repo: string; commentId: number; token: string }): Promise<void> {
+        const { stored, comment } = await this.loadComment(commentId);
+        stored.sidecar.comments = stored.sidecar.comments.filter((c) => c !== comment);
+        await this.save(stored);
+    }
+
+    private async create(title: string, body: string, labels: string[]): Promise<Issue> {
+        const number = await this.nextId("issue");
+        const match = title.trim().match(DATE_KEY_PREFIX);
+        // A day that was finalized and then receives new entries gets a second issue, as on GitHub.
+        const taken = new Set((await this.loadAll()).map((s) => s.name));
+        const name = match && !taken.has(match[1]) ? match[1] : match ? `${match[1]}-${number}` : `issue-${number}`;
+        const now = new Date().toISOString();
+        const stored: StoredIssue = {
+            name,
+            body,
+            sidecar: { number, title, state: "open", labels, created_at: now, updated_at: now, closed_at: null, comments: [] },
+        };
+        await this.save(stored);
+        return this.toIssue(stored);
+    }
+
+    private async loadAll(): Promise<StoredIssue[]> {
+        let files: string[];
+        try {
+            files = await fs.readdir(this.rootDir);
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+            throw e;
+        }
+        const names = files.filter((f) => f.endsWith(".json") && f !== COUNTERS_FILE).map((f) => f.slice(0, -".json".length));
+        return Promise.all(names.map(async (name) => {
+            const sidecar = JSON.parse(await fs.readFile(path.join(this.rootDir, `${name}.json`), "utf8")) as Sidecar;
+            const body = await fs.readFile(path.join(this.rootDir, `${name}.md`), "utf8").catch(() => "");
+            return { name, sidecar, body };
+        }));
+    }
+
+    private async load(issueNumber: number): Promise<StoredIssue> {
+        const stored = (await this.loadAll()).find((s) => s.sidecar.number === issueNumber);
+        if (!stored) {
+            throw new Error(`Issue not found: ${issueNumber}`);
+        }
+        return stored;
+    }
+
+    private async loadComment(commentId: number): Promise<{ stored: StoredIssue; comment: StoredComment }> {
+        for (const stored of await this.loadAll()) {
+            const comment = stored.sidecar.comments.find((c) => c.id === commentId);
+            if (comment) return { stored, comment };
+        }
+        throw new Error(`Comment not found: ${commentId}`);
+    }
+
+    private async save(stored: StoredIssue): Promise<void> {
+        await fs.mkdir(this.rootDir, { recursive: true });
+        await this.writeAtomic(`${stored.name}.md`, stored.body);
+        await this.writeAtomic(`${stored.name}.json`, `${JSON.stringify(stored.sidecar, null, 2)}\n`);
+    }
+
+    /** Writes through a temporary file and a rename so readers never see a partial file. */
+    private async writeAtomic(fileName: string, content: string): Promise<void> {
+        const target = path.join(this.rootDir, fileName);
+        const temp = `${target}.${process.pid}.tmp`;
+        await fs.writeFile(temp, content, "utf8");
+        await fs.rename(temp, target);
+    }
+
+    /** Issue numbers and comment ids are never reused, even after deletion. */
+    private async nextId(kind: keyof Counters): Promise<number> {
+        await fs.mkdir(this.rootDir, { recursive: true });
+        const file = path.join(this.rootDir, COUNTERS_FILE);
+        const counters: Counters = await fs.readFile(file, "utf8")
+            .then((raw) => JSON.parse(raw) as Counters)
+            .catch(() => ({ issue: 0, comment: 0 }));
+        counters[kind] += 1;
+        await this.writeAtomic(COUNTERS_FILE, JSON.stringify(counters));
+        return counters[kind];
+    }
+
+    private toIssue({ name, sidecar, body }: StoredIssue): Issue {
+        return {
+            number: sidecar.number,
+            html_url: `file://${path.join(this.rootDir, `${name}.md`)}`,
+            title: sidecar.title,
+            body,
+            state: sidecar.state,
+            created_at: sidecar.created_at,
+            updated_at: sidecar.updated_at,
+            closed_at: sidecar.closed_at,
+        };
+    }
+
+    private toComment(stored: StoredIssue, comment: StoredComment): IssueComment {
+        // ThoughtLogService resolves a comment's issue from the trailing "/issues/<number>" of issue_url.
+        return { id: comment.id, body: comment.body, issue_url: `file://${this.rootDir}/issues/${stored.sidecar.number}` };
+    }
+}
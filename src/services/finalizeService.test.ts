@@ -1,14 +1,15 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
-import { IssueFinalizeService, FINALIZE_JSON_FORMAT_APPENDIX } from "./finalizeService";
+import { IssueFinalizeService, FINALIZE_RESULT_SCHEMA, DEFAULT_FINALIZE_CHUNK_TOKENS, TODO_LABEL, getTodoTitle, resolveChunkTokenBudget } from "./finalizeService";
+import { getActionItemKey } from "../utils/actionItems";
 import type { IAuthService } from "../interfaces/IAuthService";
-import type { IGitHubService } from "../interfaces/IGitHubService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
 import type { ITextRefinerService } from "../interfaces/ITextRefinerService";
-import type { GitHubIssue, GitHubComment, FinalizeMessage } from "../types";
+import type { Issue, IssueComment, FinalizeMessage } from "../types";
 
 // ── test doubles ───────────────────────────────────────────────────────────────
 
-const mockIssue: GitHubIssue = { number: 10, html_url: "https://github.com/o/r/issues/10", title: "2024-03-01" };
-const mockComments: GitHubComment[] = [
+const mockIssue: Issue = { number: 10, html_url: "https://github.com/o/r/issues/10", title: "2024-03-01" };
+const mockComments: IssueComment[] = [
     { id: 1, body: "## 09:00\nfirst thought\n" },
     { id: 2, body: "## 10:30\nsecond thought\n" },
 ];
@@ -19,23 +20,34 @@ function makeAuth(token = "tok"): IAuthService {
     return { getInstallationToken: vi.fn().mockResolvedValue(token) };
 }
 
-function makeGitHub(overrides: Partial<IGitHubService> = {}): IGitHubService {
+function makeGitHub(overrides: Partial<IIssueTrackerService> = {}): IIssueTrackerService {
     return {
         findDailyIssue: vi.fn().mockResolvedValue(mockIssue),
+        searchDailyIssues: vi.fn().mockResolvedValue({ issues: [], hasMore: false }),
+        searchDailyIssuesByText: vi.fn().mockResolvedValue([]),
+        searchOpenDailyIssuesBefore: vi.fn().mockResolvedValue([]),
+        listRecentClosedDailyIssues: vi.fn().mockResolvedValue([]),
         createDailyIssue: vi.fn().mockResolvedValue(mockIssue),
+        createIssue: vi.fn().mockResolvedValue(mockIssue),
         addComment: vi.fn().mockResolvedValue({ id: 99 }),
         updateIssue: vi.fn().mockResolvedValue(mockIssue),
         closeIssue: vi.fn().mockResolvedValue(mockIssue),
+        addLabels: vi.fn().mockResolvedValue(undefined),
         getIssueComments: vi.fn().mockResolvedValue(mockComments),
         getIssue: vi.fn().mockResolvedValue(mockIssue),
         getComment: vi.fn().mockResolvedValue({ id: 1, body: "comment" }),
         updateComment: vi.fn().mockResolvedValue({ id: 1 }),
+        deleteComment: vi.fn().mockResolvedValue(undefined),
         ...overrides,
     };
 }
 
-function makeTextRefiner(response = validOpenAiResponse): ITextRefinerService {
-    return { refine: vi.fn().mockResolvedValue(response) };
+function makeTextRefiner(...responses: string[]): ITextRefinerService {
+    const refineStructured = vi.fn();
+    for (const response of responses.length > 0 ? responses : [validOpenAiResponse]) {
+        refineStructured.mockResolvedValueOnce(response);
+    }
+    return { refine: vi.fn(), refineStructured };
 }
 
 const config = { owner: "owner", repo: "repo", defaultLabels: "thoughtlog" };
@@ -65,7 +77,8 @@ describe("IssueFinalizeService.finalize", () => {
         expect(github.getIssueComments).toHaveBeenCalledWith({
             owner: "owner", repo: "repo", issueNumber: 10, token: "tok",
         });
-        expect(textRefiner.refine).toHaveBeenCalledOnce();
+        expect(textRefiner.refineStructured).toHaveBeenCalledOnce();
+        expect((textRefiner.refineStructured as ReturnType<typeof vi.fn>).mock.calls[0][1]).toBe(FINALIZE_RESULT_SCHEMA);
         expect(github.updateIssue).toHaveBeenCalledOnce();
         expect(github.addComment).toHaveBeenCalledTimes(2);
         expect(github.closeIssue).toHaveBeenCalledWith({
@@ -126,7 +139,7 @@ describe("IssueFinalizeService.finalize", () => {
 
         await svc.finalize(message);
 
-        const refineArg = (textRefiner.refine as ReturnType<typeof vi.fn>).mock.calls[0][0];
+        const refineArg = (textRefiner.refineStructured as ReturnType<typeof vi.fn>).mock.calls[0][0];
         expect(refineArg).toContain("first thought");
         expect(refineArg).toContain("second thought");
     });
@@ -140,22 +153,55 @@ describe("IssueFinalizeService.finalize", () => {
 
         await svc.finalize(message);
 
-        const refineArg = (textRefiner.refine as ReturnType<typeof vi.fn>).mock.calls[0][0];
+        const refineArg = (textRefiner.refineStructured as ReturnType<typeof vi.fn>).mock.calls[0][0];
         expect(refineArg).toBe("");
     });
 
-    it("throws when OpenAI response is not valid JSON", async () => {
-        const textRefiner = makeTextRefiner("not valid json");
-        const svc = new IssueFinalizeService(makeAuth(), makeGitHub(), textRefiner, config);
+    it("accepts JSON wrapped in a code fence and prose", async () => {
+        const github = makeGitHub();
+        const textRefiner = makeTextRefiner(`Here is the summary:\n\`\`\`json\n${validOpenAiResponse}\n\`\`\``);
+        const svc = new IssueFinalizeService(makeAuth(), github, textRefiner, config);
+
+        await svc.finalize(message);
+
+        expect(textRefiner.refineStructured).toHaveBeenCalledOnce();
+        expect((github.updateIssue as ReturnType<typeof vi.fn>).mock.calls[0][0].body).toBe("# Summary\n\nAll thoughts.");
+    });
+
+    it("retries once with a repair request when the response is not valid JSON", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        const github = makeGitHub();
+        const textRefiner = makeTextRefiner("not valid json", validOpenAiResponse);
+        const svc = new IssueFinalizeService(makeAuth(), github, textRefiner, config);
+
+        await svc.finalize(message);
+
+        const calls = (textRefiner.refineStructured as ReturnType<typeof vi.fn>).mock.calls;
+        expect(calls).toHaveLength(2);
+        expect(calls[1][0]).toContain("first thought");
+        expect(calls[1][0]).toContain("前回の回答:\nnot valid json");
+        expect(calls[1][1]).toBe(FINALIZE_RESULT_SCHEMA);
+        expect(github.closeIssue).toHaveBeenCalledOnce();
+    });
 
-        await expect(svc.finalize(message)).rejects.toThrow("Failed to parse OpenAI response as JSON");
+    it("throws when the repaired response is still not valid JSON", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        const github = makeGitHub();
+        const textRefiner = makeTextRefiner("not valid json", "still not json");
+        const svc = new IssueFinalizeService(makeAuth(), github, textRefiner, config);
+
+        await expect(svc.finalize(message)).rejects.toThrow("Failed to parse LLM response as JSON");
+        expect(textRefiner.refineStructured).toHaveBeenCalledTimes(2);
+        expect(github.updateIssue).not.toHaveBeenCalled();
     });
 
-    it("throws when OpenAI JSON is missing required fields", async () => {
-        const textRefiner = makeTextRefiner(JSON.stringify({ title: "only title" }));
+    it("throws when the JSON is still missing required fields after the repair", async () => {
+        vi.spyOn(console, "warn").mockImplementation(() => {});
+        const only = JSON.stringify({ title: "only title" });
+        const textRefiner = makeTextRefiner(only, only);
         const svc = new IssueFinalizeService(makeAuth(), makeGitHub(), textRefiner, config);
 
-        await expect(svc.finalize(message)).rejects.toThrow("OpenAI response missing required fields");
+        await expect(svc.finalize(message)).rejects.toThrow("LLM response missing required fields");
     });
 
     it("passes all labels derived from defaultLabels to findDailyIssue", async () => {
@@ -171,13 +217,226 @@ describe("IssueFinalizeService.finalize", () => {
     });
 });
 
-// ── FINALIZE_JSON_FORMAT_APPENDIX ──────────────────────────────────────────────
+// ── chunked finalize ───────────────────────────────────────────────────────────
+
+describe("IssueFinalizeService.finalize with a token budget", () => {
+    const longComments: IssueComment[] = Array.from({ length: 5 }, (_, i) => ({ id: i + 1, body: `## 0${i}:00\n${"あ".repeat(40)}` }));
+
+    it("sends everything in one request when it fits the budget", async () => {
+        const textRefiner = makeTextRefiner();
+        const svc = new IssueFinalizeService(makeAuth(), makeGitHub(), textRefiner, config, 1000);
+
+        await svc.finalize(message);
+
+        expect(textRefiner.refine).not.toHaveBeenCalled();
+        expect(textRefiner.refineStructured).toHaveBeenCalledOnce();
+    });
+
+    it("summarises batches of comments and finalises the partial summaries", async () => {
+        const github = makeGitHub({ getIssueComments: vi.fn().mockResolvedValue(longComments) });
+        const textRefiner = makeTextRefiner();
+        (textRefiner.refine as ReturnType<typeof vi.fn>)
+            .mockResolvedValueOnce("part one")
+            .mockResolvedValueOnce("part two")
+            .mockResolvedValueOnce("part three");
+        const svc = new IssueFinalizeService(makeAuth(), github, textRefiner, config, 100);
+
+        await svc.finalize(message);
 
-describe("FINALIZE_JSON_FORMAT_APPENDIX", () => {
-    it("is a non-empty string containing JSON format instructions", () => {
-        expect(typeof FINALIZE_JSON_FORMAT_APPENDIX).toBe("string");
-        expect(FINALIZE_JSON_FORMAT_APPENDIX.length).toBeGreaterThan(0);
-        expect(FINALIZE_JSON_FORMAT_APPENDIX).toContain("title");
-        expect(FINALIZE_JSON_FORMAT_APPENDIX).toContain("body");
+        const mapCalls = (textRefiner.refine as ReturnType<typeof vi.fn>).mock.calls;
+        expect(mapCalls).toHaveLength(3);
+        expect(mapCalls[0][0]).toContain("（1/3）");
+        expect(mapCalls[0][0]).toContain("## 00:00");
+        expect(mapCalls[0][0]).toContain("## 01:00");
+        expect(mapCalls[2][0]).toContain("## 04:00");
+        const reduceArg = (textRefiner.refineStructured as ReturnType<typeof vi.fn>).mock.calls[0][0];
+        expect(reduceArg).toBe("part one\n\npart two\n\npart three");
+        expect(github.closeIssue).toHaveBeenCalledOnce();
+    });
+
+    it("summarises the partial summaries again when they still exceed the budget", async () => {
+        const github = makeGitHub({ getIssueComments: vi.fn().mockResolvedValue(longComments) });
+        const textRefiner = makeTextRefiner();
+        const partial = "い".repeat(40);
+        (textRefiner.refine as ReturnType<typeof vi.fn>).mockResolvedValue(partial);
+        const svc = new IssueFinalizeService(makeAuth(), github, textRefiner, config, 50);
+
+        await svc.finalize(message);
+
+        // 5 one-comment batches, then 5 partials re-batched one by one, and so on until the round limit.
+        expect(textRefiner.refine).toHaveBeenCalledTimes(15);
+        expect(textRefiner.refineStructured).toHaveBeenCalledOnce();
+    });
+});
+
+describe("resolveChunkTokenBudget", () => {
+    it("uses the default when nothing is configured", () => {
+        expect(resolveChunkTokenBudget(undefined, "gpt-4o-mini")).toBe(DEFAULT_FINALIZE_CHUNK_TOKENS);
+    });
+
+    it("prefers the entry for the model over the bare fallback", () => {
+        expect(resolveChunkTokenBudget("16000, gpt-4o-mini=60000, llama3.1=4000", "gpt-4o-mini")).toBe(60000);
+        expect(resolveChunkTokenBudget("16000, gpt-4o-mini=60000", "other")).toBe(16000);
+        expect(resolveChunkTokenBudget("gpt-4o-mini=60000", undefined)).toBe(DEFAULT_FINALIZE_CHUNK_TOKENS);
+    });
+
+    it("rejects budgets that are not positive integers", () => {
+        expect(() => resolveChunkTokenBudget("gpt-4o=lots", "gpt-4o")).toThrow("Invalid chunk token budget: gpt-4o=lots");
+        expect(() => resolveChunkTokenBudget("0", undefined)).toThrow("Invalid chunk token budget: 0");
+    });
+});
+
+// ── action items ───────────────────────────────────────────────────────────────
+
+describe("IssueFinalizeService.finalize action items", () => {
+    const todoComments: IssueComment[] = [
+        { id: 1, body: "## 09:00\nTODO: call the dentist\n" },
+        { id: 2, body: "## 10:30\n- [ ] buy milk\n- [x] pay rent\n" },
+    ];
+
+    it("opens an issue per TODO line linking back to the comment", async () => {
+        const github = makeGitHub({ getIssueComments: vi.fn().mockResolvedValue(todoComments) });
+        const svc = new IssueFinalizeService(makeAuth(), github, makeTextRefiner(), config);
+
+        await svc.finalize(message);
+
+        expect(github.createIssue).toHaveBeenCalledTimes(2);
+        expect(github.createIssue).toHaveBeenCalledWith({
+            owner: "owner",
+            repo: "repo",
+            title: "TODO: call the dentist (2024-03-01)",
+            body: "call the dentist\n\n---\n元の記録: #10 ([2024-03-01のコメント](https://github.com/o/r/issues/10#issuecomment-1))\n",
+            labels: [TODO_LABEL],
+            token: "tok",
+        });
+        expect(github.createIssue).toHaveBeenCalledWith(expect.objectContaining({ title: "TODO: buy milk (2024-03-01)" }));
+    });
+
+    it("opens issues for action items from the refiner, once per item", async () => {
+        const response = JSON.stringify({ title: "Daily summary", body: "All thoughts.", action_items: ["Call the dentist", "book a flight", " "] });
+        const github = makeGitHub({ getIssueComments: vi.fn().mockResolvedValue(todoComments) });
+        const svc = new IssueFinalizeService(makeAuth(), github, makeTextRefiner(response), config);
+
+        await svc.finalize(message);
+
+        const calls = (github.createIssue as ReturnType<typeof vi.fn>).mock.calls;
+        expect(calls.map((call) => call[0].title)).toEqual([
+            "TODO: call the dentist (2024-03-01)",
+            "TODO: buy milk (2024-03-01)",
+            "TODO: book a flight (2024-03-01)",
+        ]);
+        expect(calls[2][0].body).toBe("book a flight\n\n---\n元の記録: #10 (2024-03-01の記録)\n");
+    });
+
+    it("records the opened items by key on the daily issue", async () => {
+        const createIssue = vi.fn().mockResolvedValueOnce({ number: 21 }).mockResolvedValueOnce({ number: 22 });
+        const github = makeGitHub({ getIssueComments: vi.fn().mockResolvedValue(todoComments), createIssue });
+        const svc = new IssueFinalizeService(makeAuth(), github, makeTextRefiner(), config);
+
+        await svc.finalize(message);
+
+        expect(github.addComment).toHaveBeenCalledWith(expect.objectContaining({
+            issueNumber: 10,
+            commentBody: `やることをissueにしました: #21 #22\n<!-- thoughtlog-todos: ${getActionItemKey(10, "call the dentist")} ${getActionItemKey(10, "buy milk")} -->\n`,
+        }));
+    });
+
+    it("does not reopen items recorded by an earlier finalize, whatever their case and spacing", async () => {
+        const record = { id: 3, body: `やることをissueにしました: #21\n<!-- thoughtlog-todos: ${getActionItemKey(10, "Call  the Dentist")} -->\n` };
+        const github = makeGitHub({ getIssueComments: vi.fn().mockResolvedValue([...todoComments, record]) });
+        const refiner = makeTextRefiner();
+        const svc = new IssueFinalizeService(makeAuth(), github, refiner, config);
+
+        await svc.finalize(message);
+
+        expect(github.createIssue).toHaveBeenCalledOnce();
+        expect(github.createIssue).toHaveBeenCalledWith(expect.objectContaining({ title: "TODO: buy milk (2024-03-01)" }));
+        expect(vi.mocked(refiner.refineStructured).mock.calls[0][0]).not.toContain("thoughtlog-todos");
+    });
+
+    it("opens refiner items only while no items are recorded for the daily issue", async () => {
+        const response = JSON.stringify({ title: "Daily summary", body: "All thoughts.", action_items: ["Phone the dentist", "book a flight"] });
+        const record = { id: 3, body: `やることをissueにしました: #21\n<!-- thoughtlog-todos: ${getActionItemKey(10, "call the dentist")} -->\n` };
+        const github = makeGitHub({ getIssueComments: vi.fn().mockResolvedValue([todoComments[0], record]) });
+        const svc = new IssueFinalizeService(makeAuth(), github, makeTextRefiner(response), config);
+
+        await svc.finalize(message);
+
+        expect(github.createIssue).not.toHaveBeenCalled();
+    });
+
+    it("opens items that share their first 80 characters separately", async () => {
+        const prefix = "a".repeat(80);
+        const github = makeGitHub({ getIssueComments: vi.fn().mockResolvedValue([{ id: 1, body: `TODO: ${prefix} one\nTODO: ${prefix} two\n` }]) });
+        const svc = new IssueFinalizeService(makeAuth(), github, makeTextRefiner(), config);
+
+        await svc.finalize(message);
+
+        expect(github.createIssue).toHaveBeenCalledTimes(2);
+    });
+
+    it("records the items opened before a failure and rethrows", async () => {
+        const createIssue = vi.fn().mockResolvedValueOnce({ number: 21 }).mockRejectedValueOnce(new Error("rate limited"));
+        const github = makeGitHub({ getIssueComments: vi.fn().mockResolvedValue(todoComments), createIssue });
+        const svc = new IssueFinalizeService(makeAuth(), github, makeTextRefiner(), config);
+
+        await expect(svc.finalize(message)).rejects.toThrow("rate limited");
+
+        expect(github.addComment).toHaveBeenCalledOnce();
+        expect(github.addComment).toHaveBeenCalledWith(expect.objectContaining({
+            commentBody: `やることをissueにしました: #21\n<!-- thoughtlog-todos: ${getActionItemKey(10, "call the dentist")} -->\n`,
+        }));
+        expect(github.closeIssue).not.toHaveBeenCalled();
+    });
+
+    it("opens action items before closing the daily issue", async () => {
+        const github = makeGitHub({ getIssueComments: vi.fn().mockResolvedValue(todoComments) });
+        const svc = new IssueFinalizeService(makeAuth(), github, makeTextRefiner(), config);
+
+        await svc.finalize(message);
+
+        const createOrder = (github.createIssue as ReturnType<typeof vi.fn>).mock.invocationCallOrder;
+        const closeOrder = (github.closeIssue as ReturnType<typeof vi.fn>).mock.invocationCallOrder;
+        expect(Math.max(...createOrder)).toBeLessThan(Math.min(...closeOrder));
+    });
+
+    it("leaves the resurfaced earlier logs out of the summary and the action items", async () => {
+        const onThisDay = { id: 3, body: "## 06:00\n**[on-this-day]** - 1週間前（2024-02-23）: [2024-02-23 Busy](https://github.com/o/r/issues/5)\n  > - [ ] call back\n" };
+        const github = makeGitHub({ getIssueComments: vi.fn().mockResolvedValue([...mockComments, onThisDay]) });
+        const refiner = makeTextRefiner();
+        const svc = new IssueFinalizeService(makeAuth(), github, refiner, config);
+
+        await svc.finalize(message);
+
+        expect(vi.mocked(refiner.refineStructured).mock.calls[0][0]).toBe("## 09:00\nfirst thought\n\n\n## 10:30\nsecond thought\n");
+        expect(github.createIssue).not.toHaveBeenCalled();
+    });
+
+    it("opens nothing for a day without action items", async () => {
+        const github = makeGitHub();
+        const svc = new IssueFinalizeService(makeAuth(), github, makeTextRefiner(), config);
+
+        await svc.finalize(message);
+
+        expect(github.createIssue).not.toHaveBeenCalled();
+    });
+});
+
+describe("getTodoTitle", () => {
+    it("shortens long items", () => {
+        expect(getTodoTitle("a".repeat(100), "2024-03-01")).toBe(`TODO: ${"a".repeat(80)}… (2024-03-01)`);
+    });
+});
+
+// ── FINALIZE_RESULT_SCHEMA ─────────────────────────────────────────────────────
+
+describe("FINALIZE_RESULT_SCHEMA", () => {
+    it("requires title, body and action items and nothing else", () => {
+        expect(FINALIZE_RESULT_SCHEMA.name).toMatch(/^[a-zA-Z0-9_-]+$/);
+        expect(FINALIZE_RESULT_SCHEMA.schema).toMatchObject({
+            type: "object",
+            required: ["title", "body", "action_items"],
+            additionalProperties: false,
+        });
     });
 });
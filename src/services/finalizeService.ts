@@ -1,35 +1,170 @@
 import type { IAuthService } from "../interfaces/IAuthService";
-import type { IGitHubService } from "../interfaces/IGitHubService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
 import type { ITextRefinerService } from "../interfaces/ITextRefinerService";
-import type { FinalizeMessage, RepositoryConfig } from "../types";
-import { nowJstDateTime } from "../utils/date";
-import { parseLabels } from "../utils/format";
+import type { FinalizeMessage, Issue, RepositoryConfig, StructuredOutputSchema } from "../types";
+import { extractActionItems, getActionItemKey } from "../utils/actionItems";
+import { getTimeZone, nowDateTime } from "../utils/date";
+import { parseLabels, parseEntry, splitOriginal, ON_THIS_DAY_KIND } from "../utils/format";
+import { extractJsonObject } from "../utils/json";
+import { chunkByTokenBudget } from "../utils/tokens";
+
+export const DEFAULT_FINALIZE_SYSTEM_PROMPT =
+    "以下は1日分の記録です。内容を整理し、タイトルと本文（Markdown形式）にまとめてください。";
+
+/** Label of the issues opened for action items found at finalize. */
+export const TODO_LABEL = "thoughtlog-todo";
+
+/** Longest action item text used as is in an issue title; the full text is always in the body. */
+const MAX_TODO_TITLE_LENGTH = 80;
+
+/** Marker in the comment recording the action items opened for a daily issue, with their keys. */
+const TODO_RECORD_MARKER = /<!-- thoughtlog-todos:([^>]*)-->/;
+
+/** Returns the issue title of an action item, e.g. "TODO: call the dentist (2024-03-01)". */
+export function getTodoTitle(item: string, dateKey: string): string {
+    const text = item.length > MAX_TODO_TITLE_LENGTH ? `${item.slice(0, MAX_TODO_TITLE_LENGTH)}…` : item;
+    return `TODO: ${text} (${dateKey})`;
+}
 
 /**
- * Appended to the user-supplied system prompt so that OpenAI always returns
- * a JSON object with `title` and `body` fields.
+ * Output format of finalize, requested through the refiner's structured output support.
  * The program side owns this format requirement per the spec.
  */
-export const FINALIZE_JSON_FORMAT_APPENDIX =
-    "\n\n以下のJSON形式のみで回答してください。JSONオブジェクト以外のテキストは含めないでください:\n" +
-    '{"title": "タイトル", "body": "本文（Markdown形式）"}';
+export const FINALIZE_RESULT_SCHEMA: StructuredOutputSchema = {
+    name: "finalize_result",
+    schema: {
+        type: "object",
+        properties: {
+            title: { type: "string", description: "タイトル" },
+            body: { type: "string", description: "本文（Markdown形式）" },
+            action_items: {
+                type: "array",
+                description: "記録から読み取れる、今後やるべきこと。「- [ ]」や「TODO:」で明示されたもの以外。なければ空配列",
+                items: { type: "string" },
+            },
+        },
+        required: ["title", "body", "action_items"],
+        additionalProperties: false,
+    },
+};
+
+/** Estimated input tokens of a single finalize request when no budget is configured for the model. */
+export const DEFAULT_FINALIZE_CHUNK_TOKENS = 24000;
+
+/** Summarising rounds before the remaining partial summaries are sent as they are. */
+const MAX_REDUCE_ROUNDS = 3;
+
+/**
+ * Resolves the chunk budget for a model from a setting such as "gpt-4o-mini=60000,llama3.1=4000,16000".
+ * "model=tokens" entries apply to that model; a bare number applies to every other model.
+ */
+export function resolveChunkTokenBudget(setting: string | undefined, model: string | undefined): number {
+    let fallback = DEFAULT_FINALIZE_CHUNK_TOKENS;
+    const entries = (setting ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+    for (const entry of entries) {
+        const eq = entry.lastIndexOf("=");
+        const tokens = Number(eq === -1 ? entry : entry.slice(eq + 1).trim());
+        if (!Number.isInteger(tokens) || tokens <= 0) {
+            throw new Error(`Invalid chunk token budget: ${entry}`);
+        }
+        if (eq === -1) {
+            fallback = tokens;
+        } else if (entry.slice(0, eq).trim() === model) {
+            return tokens;
+        }
+    }
+    return fallback;
+}
 
 interface FinalizeResult {
     title: string;
     body: string;
+    actionItems: string[];
+}
+
+/** An action item to open as an issue, with the comment it was written in when known. */
+interface ActionItem {
+    text: string;
+    commentId?: number;
+}
+
+/** Returns the keys of the action items recorded in a daily issue's comments, or null when none were recorded. */
+function readTodoRecords(bodies: string[]): Set<string> | null {
+    const records = bodies.map((body) => body.match(TODO_RECORD_MARKER)).filter((m): m is RegExpMatchArray => m !== null);
+    if (records.length === 0) return null;
+    return new Set(records.flatMap((m) => m[1].split(/\s+/).filter(Boolean)));
+}
+
+/** Builds the comment recording opened action items: links to their issues, and their keys in a marker. */
+function buildTodoRecord(opened: { key: string; issueNumber: number }[]): string {
+    const links = opened.map((o) => `#${o.issueNumber}`).join(" ");
+    const keys = opened.map((o) => o.key).join(" ");
+    return `やることをissueにしました: ${links}\n<!-- thoughtlog-todos: ${keys} -->\n`;
+}
+
+/** Parses a finalize response, tolerating code fences and prose around the JSON object. */
+function parseFinalizeResult(response: string): FinalizeResult {
+    let result: Record<string, unknown>;
+    try {
+        result = extractJsonObject(response);
+    } catch (e) {
+        throw new Error(
+            `Failed to parse LLM response as JSON: ${e instanceof Error ? e.message : String(e)}`,
+            { cause: e },
+        );
+    }
+
+    if (typeof result.title !== "string" || typeof result.body !== "string" || !result.title.trim() || !result.body.trim()) {
+        throw new Error("LLM response missing required fields: title, body");
+    }
+    // Action items are a by-product; a response without them is still a usable finalize result.
+    const actionItems = Array.isArray(result.action_items)
+        ? result.action_items.filter((item): item is string => typeof item === "string" && item.trim() !== "").map((item) => item.trim())
+        : [];
+    return { title: result.title, body: result.body, actionItems };
+}
+
+/** Asks for a partial summary of one batch of a day's comments, to be combined in the final request. */
+function buildChunkRequest(chunk: string, index: number, total: number): string {
+    return `以下は1日分の記録の一部（${index}/${total}）です。後で全体をまとめるため、時刻と要点を残して要約してください。\n\n${chunk}`;
+}
+
+/** Asks the model to redo a response that could not be parsed, quoting the response and the reason. */
+function buildRepairRequest(combined: string, response: string, reason: string): string {
+    return `${combined}\n\n---\n` +
+        `前回の回答は使用できませんでした（${reason}）。上記の記録から、指定されたJSON形式のみで回答し直してください。\n` +
+        `前回の回答:\n${response}`;
+}
+
+/** Builds the body of an action item issue, linking back to the daily issue and the comment. */
+function buildTodoBody(item: ActionItem, dailyIssue: Issue, dateKey: string): string {
+    const source = item.commentId !== undefined && dailyIssue.html_url
+        ? `[${dateKey}のコメント](${dailyIssue.html_url}#issuecomment-${item.commentId})`
+        : `${dateKey}の記録`;
+    return `${item.text}\n\n---\n元の記録: #${dailyIssue.number} (${source})\n`;
 }
 
 /**
- * Fetches all comments from a GitHub issue, refines them with OpenAI,
+ * Fetches all comments from a GitHub issue, refines them with the LLM,
  * and updates the issue title and body with the finalised content.
  * The specified date is prepended to the title if not already present.
+ * Action items — "- [ ]" and "TODO:" lines in the comments plus those the LLM reads from the
+ * day — are opened as separate issues labelled thoughtlog-todo. The opened items are recorded
+ * in a comment on the daily issue by key (see getActionItemKey), so a later finalize of the
+ * same issue, e.g. a retry, does not open them again. The LLM words its items differently on
+ * every run, so they are only opened while no items are recorded for the issue.
+ * A response that cannot be parsed is retried once with a repair request.
+ * Days too long for a single request are first summarised in batches (map) and the
+ * partial summaries are then finalised together (reduce).
  */
 export class IssueFinalizeService {
     constructor(
         private readonly auth: IAuthService,
-        private readonly github: IGitHubService,
+        private readonly tracker: IIssueTrackerService,
         private readonly textRefiner: ITextRefinerService,
         private readonly config: RepositoryConfig,
+        /** Estimated input tokens per request; depends on the context window of the finalize model. */
+        private readonly chunkTokenBudget: number = DEFAULT_FINALIZE_CHUNK_TOKENS,
     ) {}
 
     async finalize(message: FinalizeMessage): Promise<void> {
@@ -38,7 +173,7 @@ export class IssueFinalizeService {
         const labels = parseLabels(this.config.defaultLabels, []);
         const token = await this.auth.getInstallationToken();
 
-        const issue = await this.github.findDailyIssue({ owner, repo, dateKey, labels, token });
+        const issue = await this.tracker.findDailyIssue({ owner, repo, dateKey, labels, token });
         const labelsDescription = Array.isArray(labels) && labels.length > 0 ? labels.join(",") : "(none)";
         if (!issue) {
             throw new Error(
@@ -47,30 +182,90 @@ export class IssueFinalizeService {
         }
         const issueNumber = issue.number;
 
-        const comments = await this.github.getIssueComments({ owner, repo, issueNumber, token });
-        const combined = comments.map((c) => c.body ?? "").join("\n\n");
+        const comments = await this.tracker.getIssueComments({ owner, repo, issueNumber, token });
+        const recorded = readTodoRecords(comments.map((c) => c.body ?? ""));
+        // Preserved voice transcripts would only repeat the refined entries, and resurfaced
+        // earlier logs are not part of the day.
+        const bodies = comments
+            .filter((c) => !TODO_RECORD_MARKER.test(c.body ?? "") && parseEntry(c.body ?? "").kind !== ON_THIS_DAY_KIND)
+            .map((c) => ({ id: c.id, body: splitOriginal(c.body ?? "").body }));
+        const combined = await this.reduceToBudget(bodies.map((c) => c.body));
 
-        const refined = await this.textRefiner.refine(combined);
+        const refined = await this.textRefiner.refineStructured(combined, FINALIZE_RESULT_SCHEMA);
 
         let result: FinalizeResult;
         try {
-            result = JSON.parse(refined) as FinalizeResult;
+            result = parseFinalizeResult(refined);
         } catch (e) {
-            throw new Error(
-                `Failed to parse OpenAI response as JSON: ${e instanceof Error ? e.message : String(e)}`,
-                { cause: e },
-            );
-        }
-
-        if (typeof result.title !== "string" || typeof result.body !== "string" || !result.title.trim() || !result.body.trim()) {
-            throw new Error("OpenAI response missing required fields: title, body");
+            const reason = e instanceof Error ? e.message : String(e);
+            console.warn(`Unusable finalize response for dateKey=${dateKey}; retrying once: ${reason}`);
+            const repaired = await this.textRefiner.refineStructured(buildRepairRequest(combined, refined, reason), FINALIZE_RESULT_SCHEMA);
+            result = parseFinalizeResult(repaired);
         }
 
         const title = result.title.startsWith(dateKey) ? result.title : `${dateKey} ${result.title}`;
 
-        await this.github.updateIssue({ owner, repo, issueNumber, title, body: result.body, token });
-        await this.github.addComment({ owner, repo, issueNumber, commentBody: `\`\`\`\`\n# ${title}\n\n${result.body}\n\`\`\`\`\n`, token });
-        await this.github.addComment({ owner, repo, issueNumber, commentBody: `finalizeしました(${nowJstDateTime()})`, token });
-        await this.github.closeIssue({ owner, repo, issueNumber, token });
+        await this.tracker.updateIssue({ owner, repo, issueNumber, title, body: result.body, token });
+        const actionItems = [
+            ...bodies.flatMap((c) => extractActionItems(c.body).map((text) => ({ text, commentId: c.id }))),
+            ...(recorded ? [] : result.actionItems.map((text) => ({ text }))),
+        ];
+        await this.openActionItems(actionItems, issue, dateKey, recorded ?? new Set(), token);
+        await this.tracker.addComment({ owner, repo, issueNumber, commentBody: `\`\`\`\`\n# ${title}\n\n${result.body}\n\`\`\`\`\n`, token });
+        await this.tracker.addComment({ owner, repo, issueNumber, commentBody: `finalizeしました(${nowDateTime(getTimeZone({ timezone: this.config.timeZone }))})`, token });
+        await this.tracker.closeIssue({ owner, repo, issueNumber, token });
+    }
+
+    /**
+     * Opens an issue per action item, skipping items already seen in this run and items
+     * recorded by an earlier finalize, and records the opened items on the daily issue.
+     * Items opened before a failure are still recorded, so the retry does not open them again.
+     */
+    private async openActionItems(items: ActionItem[], dailyIssue: Issue, dateKey: string, recorded: Set<string>, token: string): Promise<void> {
+        const { owner, repo } = this.config;
+        const seen = new Set(recorded);
+        const opened: { key: string; issueNumber: number }[] = [];
+        let failure: unknown;
+        try {
+            for (const item of items) {
+                const key = getActionItemKey(dailyIssue.number, item.text);
+                if (seen.has(key)) {
+                    continue;
+                }
+                seen.add(key);
+
+                const title = getTodoTitle(item.text, dateKey);
+                const todo = await this.tracker.createIssue({ owner, repo, title, body: buildTodoBody(item, dailyIssue, dateKey), labels: [TODO_LABEL], token });
+                opened.push({ key, issueNumber: todo.number });
+            }
+        } catch (e) {
+            failure = e;
+        }
+        if (opened.length > 0) {
+            await this.tracker.addComment({ owner, repo, issueNumber: dailyIssue.number, commentBody: buildTodoRecord(opened), token });
+        }
+        if (failure !== undefined) {
+            throw failure;
+        }
+    }
+
+    /**
+     * Summarises batches of texts until they fit into one request within the token budget,
+     * and returns them joined for the final request.
+     */
+    private async reduceToBudget(texts: string[]): Promise<string> {
+        let pieces = texts;
+        for (let round = 0; round < MAX_REDUCE_ROUNDS; round++) {
+            const batches = chunkByTokenBudget(pieces, this.chunkTokenBudget);
+            if (batches.length <= 1) {
+                break;
+            }
+            const summaries: string[] = [];
+            for (const [i, batch] of batches.entries()) {
+                summaries.push(await this.textRefiner.refine(buildChunkRequest(batch.join("\n\n"), i + 1, batches.length)));
+            }
+            pieces = summaries;
+        }
+        return pieces.join("\n\n");
     }
 }
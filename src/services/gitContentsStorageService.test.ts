@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { GitContentsStorageService, getDailyLogPath, parseLogFile, renderLogFile } from "./gitContentsStorageService";
+import type { HttpClient, HttpRequestOptions } from "../utils/http";
+
+const owner = "owner";
+const repo = "repo";
+const token = "tok";
+const labels = ["thoughtlog"];
+const CONTENTS_PREFIX = `https://api.github.com/repos/${owner}/${repo}/contents/`;
+
+/** In-memory stand-in for the Contents and Trees APIs, with GitHub's sha checks. */
+function makeRepository() {
+    const files = new Map<string, { sha: string; text: string }>();
+    const commits: { path: string; message: string; branch?: string }[] = [];
+    let shaCounter = 0;
+    /** Number of upcoming PUTs that fail as if another commit got there first. */
+    let conflicts = 0;
+
+    const httpClient: HttpClient = async (url: string, options?: HttpRequestOptions) => {
+        if (url.includes("/git/trees/")) {
+            return { tree: [...files.keys()].map((path) => ({ path, type: "blob" })) };
+        }
+        if (url.startsWith("https://api.github.com/search/code")) {
+            const phrase = decodeURIComponent(url).match(/q="([^"]*)"/)?.[1] ?? "";
+            return { items: [...files.entries()].filter(([, f]) => f.text.includes(phrase)).map(([path]) => ({ path })) };
+        }
+        const path = url.slice(CONTENTS_PREFIX.length).split("?")[0];
+        if (options?.method === "PUT") {
+            const body = options.body as { message: string; content: string; sha?: string; branch?: string };
+            const current = files.get(path);
+            if (conflicts > 0) {
+                conflicts--;
+                throw new Error("GitHub API 409: {\"message\":\"is at abc but expected def\"}");
+            }
+            if (current?.sha !== body.sha) {
+                throw new Error(`GitHub API ${current ? 409 : 422}: {}`);
+            }
+            files.set(path, { sha: `sha${++shaCounter}`, text: Buffer.from(body.content, "base64").toString("utf8") });
+            commits.push({ path, message: body.message, branch: body.branch });
+            return {};
+        }
+        const file = files.get(path);
+        if (!file) throw new Error("GitHub API 404: {\"message\":\"Not Found\"}");
+        return { sha: file.sha, content: Buffer.from(file.text, "utf8").toString("base64") };
+    };
+
+    return {
+        files,
+        commits,
+        httpClient,
+        failNextWrites(count: number) {
+            conflicts = count;
+        },
+    };
+}
+
+let repository: ReturnType<typeof makeRepository>;
+let storage: GitContentsStorageService;
+
+beforeEach(() => {
+    repository = makeRepository();
+    storage = new GitContentsStorageService(repository.httpClient);
+});
+
+// ── file format ──────────────────────────────────────────────────────────────
+
+describe("log file format", () => {
+    it("places daily logs under logs/YYYY/MM", () => {
+        expect(getDailyLogPath("2024-01-15")).toBe("logs/2024/01/2024-01-15.md");
+    });
+
+    it("round-trips front matter, body and entries", () => {
+        const file = {
+            title: "2024-01-15 \"quoted\"",
+            state: "open" as const,
+            labels,
+            created_at: "2024-01-15T00:00:00.000Z",
+            updated_at: "2024-01-15T01:00:00.000Z",
+            closed_at: null,
+            next_entry: 3,
+            body: "# 2024-01-15\n\nsummary",
+            entries: [{ id: 202401150001, body: "## 09:00\nfirst\n" }, { id: 202401150002, body: "## 10:00\nsecond\n" }],
+        };
+
+        expect(parseLogFile(renderLogFile(file))).toEqual(file);
+    });
+
+    it("round-trips bodies containing entry markers", () => {
+        const file = {
+            title: "2024-01-15",
+            state: "open" as const,
+            labels,
+            created_at: "2024-01-15T00:00:00.000Z",
+            updated_at: "2024-01-15T01:00:00.000Z",
+            closed_at: null,
+            next_entry: 3,
+            body: "summary <!-- entry:1 -->",
+            entries: [
+                { id: 202401150001, body: "## 09:00\nquoting <!-- /entry --> here\n" },
+                { id: 202401150002, body: "## 10:00\nalready <!-- \\/entry --> escaped\n" },
+            ],
+        };
+
+        const text = renderLogFile(file);
+
+        expect(text.match(/<!-- \/entry -->/g)).toHaveLength(2);
+        expect(parseLogFile(text)).toEqual(file);
+    });
+});
+
+// ── issues ─────────────────────────────────────────────────────────────────────
+
+describe("GitContentsStorageService issues", () => {
+    it("commits a new daily file numbered after its date", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+
+        expect(issue).toMatchObject({ number: 20240115, title: "2024-01-15", state: "open" });
+        expect(issue.html_url).toBe("https://github.com/owner/repo/blob/HEAD/logs/2024/01/2024-01-15.md");
+        expect(repository.commits).toEqual([{ path: "logs/2024/01/2024-01-15.md", message: "thoughtlog: start 2024-01-15", branch: undefined }]);
+        expect(await storage.findDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token })).toMatchObject({ number: 20240115 });
+        expect(await storage.findDailyIssue({ owner, repo, dateKey: "2024-01-16", labels, token })).toBeNull();
+    });
+
+    it("appends each entry as its own commit and reads entries back as comments", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        const first = await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "## 09:00\nfirst", token });
+        const second = await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "## 10:00\nsecond", token });
+
+        expect(first.id).toBe(202401150001);
+        expect(second.id).toBe(202401150002);
+        expect(first.issue_url).toBe("https://api.github.com/repos/owner/repo/issues/20240115");
+        expect(repository.commits).toHaveLength(3);
+        const comments = await storage.getIssueComments({ owner, repo, issueNumber: issue.number, token });
+        expect(comments.map((c) => c.body)).toEqual(["## 09:00\nfirst\n", "## 10:00\nsecond\n"]);
+        expect(await storage.getComment({ owner, repo, commentId: second.id, token })).toMatchObject({ id: second.id });
+    });
+
+    it("re-applies the change to the latest file after a SHA conflict", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        repository.failNextWrites(2);
+
+        const comment = await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "## 09:00\nretried", token });
+
+        expect(comment.id).toBe(202401150001);
+        expect(repository.commits).toHaveLength(2);
+        expect(repository.files.get("logs/2024/01/2024-01-15.md")!.text).toContain("retried");
+    });
+
+    it("gives up after repeated SHA conflicts", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        repository.failNextWrites(10);
+
+        await expect(storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "x", token }))
+            .rejects.toThrow("GitHub API 409");
+    });
+
+    it("sets the finalized title and body when closed and keeps the entries", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "## 09:00\nraw", token });
+
+        await storage.updateIssue({ owner, repo, issueNumber: issue.number, title: "2024-01-15 Refined", body: "refined body", token });
+        const closed = await storage.closeIssue({ owner, repo, issueNumber: issue.number, token });
+
+        expect(closed).toMatchObject({ state: "closed", title: "2024-01-15 Refined", body: "# 2024-01-15 Refined\n\nrefined body" });
+        expect(closed.closed_at).not.toBeNull();
+        const text = repository.files.get("logs/2024/01/2024-01-15.md")!.text;
+        expect(text).toContain("refined body");
+        expect(await storage.getIssueComments({ owner, repo, issueNumber: issue.number, token })).toMatchObject([{ body: "## 09:00\nraw\n" }]);
+        expect(await storage.findDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token })).toBeNull();
+        expect(await storage.findIssueByTitlePrefix({ owner, repo, titlePrefix: "2024-01-15", token })).toMatchObject({ state: "closed" });
+    });
+
+    it("adds labels to the front matter without duplicates", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+
+        await storage.addLabels({ owner, repo, issueNumber: issue.number, labels: ["thoughtlog", "idea"], token });
+
+        const text = repository.files.get("logs/2024/01/2024-01-15.md")!.text;
+        expect(text).toContain('labels: ["thoughtlog","idea"]');
+    });
+
+    it("reopens a finalized day instead of creating a second file", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        await storage.closeIssue({ owner, repo, issueNumber: issue.number, token });
+
+        await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "## 09:00\nfirst", token });
+        await storage.closeIssue({ owner, repo, issueNumber: issue.number, token });
+
+        const reopened = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "## 21:00\nsecond", token });
+
+        expect(reopened).toMatchObject({ number: 20240115, state: "open", closed_at: null });
+        expect(repository.files.size).toBe(1);
+        const comments = await storage.getIssueComments({ owner, repo, issueNumber: issue.number, token });
+        expect(comments.map((c) => c.body)).toEqual(["## 09:00\nfirst\n", "## 21:00\nsecond\n"]);
+    });
+
+    it("indexes non-daily issues and finds them by title prefix", async () => {
+        const digest = await storage.createIssue({ owner, repo, title: "Weekly digest 2024-W03", body: "digest", labels, token });
+
+        expect(digest.number).toBe(1);
+        expect(repository.files.has("logs/issues/1.md")).toBe(true);
+        expect(await storage.findIssueByTitlePrefix({ owner, repo, titlePrefix: "Weekly digest 2024-W03", token })).toMatchObject({ number: 1, body: "digest" });
+        expect(await storage.findIssueByTitlePrefix({ owner, repo, titlePrefix: "Monthly", token })).toBeNull();
+    });
+
+    it("commits to the configured branch", async () => {
+        storage = new GitContentsStorageService(repository.httpClient, "logs");
+
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+
+        expect(repository.commits[0].branch).toBe("logs");
+        expect(issue.html_url).toBe("https://github.com/owner/repo/blob/logs/logs/2024/01/2024-01-15.md");
+    });
+});
+
+// ── comments ─────────────────────────────────────────────────────────────────
+
+describe("GitContentsStorageService comments", () => {
+    it("edits and deletes entries in place", async () => {
+        const issue = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        const first = await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "first", token });
+        const second = await storage.addComment({ owner, repo, issueNumber: issue.number, commentBody: "second", token });
+
+        await storage.updateComment({ owner, repo, commentId: first.id, body: "edited", token });
+        await storage.deleteComment({ owner, repo, commentId: second.id, token });
+
+        const comments = await storage.getIssueComments({ owner, repo, issueNumber: issue.number, token });
+        expect(comments).toEqual([{ id: first.id, body: "edited\n", issue_url: first.issue_url }]);
+        await expect(storage.getComment({ owner, repo, commentId: second.id, token })).rejects.toThrow("Comment not found");
+    });
+});
+
+// ── search ─────────────────────────────────────────────────────────────────────
+
+describe("GitContentsStorageService search", () => {
+    it("lists daily files in a date range from the repository tree", async () => {
+        for (const dateKey of ["2024-01-14", "2024-01-15", "2024-02-01"]) {
+            await storage.createDailyIssue({ owner, repo, dateKey, labels, token });
+        }
+
+        const result = await storage.searchDailyIssues({ owner, repo, from: "2024-01-15", to: "2024-01-31", labels, page: 1, token });
+
+        expect(result).toEqual({ issues: [expect.objectContaining({ title: "2024-01-15" })], hasMore: false });
+    });
+
+    it("finds open days before a date and recent closed days", async () => {
+        for (const dateKey of ["2024-01-13", "2024-01-14", "2024-01-15"]) {
+            await storage.createDailyIssue({ owner, repo, dateKey, labels, token });
+        }
+        await storage.closeIssue({ owner, repo, issueNumber: 20240113, token });
+
+        const open = await storage.searchOpenDailyIssuesBefore({ owner, repo, dateKey: "2024-01-15", labels, token });
+        const closed = await storage.listRecentClosedDailyIssues({ owner, repo, labels, limit: 5, token });
+
+        expect(open.map((i) => i.title)).toEqual(["2024-01-14"]);
+        expect(closed.map((i) => i.title)).toEqual(["2024-01-13"]);
+    });
+
+    it("maps code search hits back to days within the range", async () => {
+        const a = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-14", labels, token });
+        const b = await storage.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels, token });
+        await storage.addComment({ owner, repo, issueNumber: a.number, commentBody: "coffee", token });
+        await storage.addComment({ owner, repo, issueNumber: b.number, commentBody: "coffee", token });
+
+        const issues = await storage.searchDailyIssuesByText({ owner, repo, text: "coffee", labels, from: "2024-01-15", token });
+
+        expect(issues.map((i) => i.number)).toEqual([20240115]);
+    });
+});
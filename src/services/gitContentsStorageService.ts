@@ -0,0 +1,450 @@
+import type { Issue, IssueComment } from "../types";
+import type { HttpClient } from "../utils/http";
+import { addDaysToDateKey } from "../utils/date";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+
+const LOGS_DIR = "logs";
+/** Index of non-daily issues (digests), which have no date to derive a path from. */
+const INDEX_PATH = `${LOGS_DIR}/issues.json`;
+const DAILY_PATH = /^logs\/\d{4}\/\d{2}\/(\d{4}-\d{2}-\d{2})\.md$/;
+const DATE_KEY_PREFIX = /^(\d{4}-\d{2}-\d{2})(?:\s|$)/;
+const PAGE_SIZE = 100;
+/** Number of files inspected per full-text search; each match costs a file fetch. */
+const TEXT_SEARCH_LIMIT = 30;
+/** How far back the scheduled finalize looks for days that were left open. */
+const STALE_LOOKBACK_DAYS = 31;
+/** Comment ids are "<issue number><4-digit entry sequence>", so the issue is recoverable from the id. */
+const ENTRY_SEQ_FACTOR = 10000;
+/** Daily issue numbers are the date key as YYYYMMDD; smaller numbers are indexed issues. */
+const MIN_DAILY_NUMBER = 10000000;
+const MAX_WRITE_ATTEMPTS = 4;
+
+interface LogEntry {
+    id: number;
+    body: string;
+}
+
+/** A per-day Markdown file: front matter, the issue body, then one marked block per entry. */
+export interface LogFile {
+    title: string;
+    state: "open" | "closed";
+    labels: string[];
+    created_at: string;
+    updated_at: string;
+    closed_at: string | null;
+    next_entry: number;
+    body: string;
+    entries: LogEntry[];
+}
+
+interface IndexedIssue {
+    number: number;
+    title: string;
+    path: string;
+}
+
+interface ContentsResponse {
+    sha: string;
+    content: string;
+}
+
+interface TreeResponse {
+    tree?: { path: string; type: string }[];
+}
+
+interface CodeSearchResponse {
+    items?: { path: string }[];
+}
+
+const FRONT_MATTER_KEYS = ["title", "state", "labels", "created_at", "updated_at", "closed_at", "next_entry"] as const;
+const ENTRY_BLOCK = /<!-- entry:(\d+) -->\n([\s\S]*?)<!-- \/entry -->\n?/g;
+/** Entry markers written inside text, with any backslashes already escaping them. */
+const MARKER_TEXT = /<!-- (\\*)(\/entry|entry:\d+) -->/g;
+const ESCAPED_MARKER_TEXT = /<!-- \\(\\*)(\/entry|entry:\d+) -->/g;
+
+/**
+ * Escapes entry markers in a body by adding a backslash ("<!-- \/entry -->"), so they do not
+ * end or start a block. Text that already looks escaped gets one more, keeping this reversible.
+ */
+function escapeMarkers(text: string): string {
+    return text.replace(MARKER_TEXT, "<!-- \\$1$2 -->");
+}
+
+function unescapeMarkers(text: string): string {
+    return text.replace(ESCAPED_MARKER_TEXT, "<!-- $1$2 -->");
+}
+
+/** Serialises a log file. Front matter values are JSON, which is also valid YAML. */
+export function renderLogFile(file: LogFile): string {
+    const frontMatter = FRONT_MATTER_KEYS.map((key) => `${key}: ${JSON.stringify(file[key])}`).join("\n");
+    const entries = file.entries
+        .map((entry) => {
+            const body = escapeMarkers(entry.body);
+            return `<!-- entry:${entry.id} -->\n${body.endsWith("\n") ? body : `${body}\n`}<!-- /entry -->\n`;
+        })
+        .join("\n");
+    const body = escapeMarkers(file.body.trimEnd());
+    return `---\n${frontMatter}\n---\n${body}\n${entries ? `\n${entries}` : ""}`;
+}
+
+/** Parses a file written by renderLogFile. */
+export function parseLogFile(text: string): LogFile {
+    const match = text.match(/^---\n([\s\S]*?)\n---\n([\s\S]*)$/);
+    if (!match) {
+        throw new Error("Log file has no front matter");
+    }
+    const meta: Record<string, unknown> = {};
+    for (const line of match[1].split("\n")) {
+        const separator = line.indexOf(": ");
+        if (separator > 0) meta[line.slice(0, separator)] = JSON.parse(line.slice(separator + 2));
+    }
+
+    const content = match[2];
+    const entries = [...content.matchAll(ENTRY_BLOCK)].map((m) => ({ id: Number(m[1]), body: unescapeMarkers(m[2]) }));
+    const firstEntry = content.search(/<!-- entry:\d+ -->/);
+    return {
+        title: String(meta.title ?? ""),
+        state: meta.state === "closed" ? "closed" : "open",
+        labels: Array.isArray(meta.labels) ? meta.labels.map(String) : [],
+        created_at: String(meta.created_at ?? ""),
+        updated_at: String(meta.updated_at ?? ""),
+        closed_at: typeof meta.closed_at === "string" ? meta.closed_at : null,
+        next_entry: Number(meta.next_entry ?? 1),
+        body: unescapeMarkers((firstEntry < 0 ? content : content.slice(0, firstEntry)).trimEnd()),
+        entries,
+    };
+}
+
+/** Returns the repository path of a day's log, e.g. "logs/2026/10/2026-10-19.md". */
+export function getDailyLogPath(dateKey: string): string {
+    return `${LOGS_DIR}/${dateKey.slice(0, 4)}/${dateKey.slice(5, 7)}/${dateKey}.md`;
+}
+
+function toDailyNumber(dateKey: string): number {
+    return Number(dateKey.replace(/-/g, ""));
+}
+
+function fromDailyNumber(issueNumber: number): string {
+    const digits = String(issueNumber);
+    return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+}
+
+function isConflict(e: unknown): boolean {
+    // 409: the sha is stale; 422: a sha was required because the file was created concurrently.
+    return e instanceof Error && /^GitHub API (409|422):/.test(e.message);
+}
+
+function isNotFound(e: unknown): boolean {
+    return e instanceof Error && /^GitHub API 404:/.test(e.message);
+}
+
+/**
+ * IIssueTrackerService implementation that keeps each day as a Markdown file in a repository
+ * ("logs/YYYY/MM/YYYY-MM-DD.md") and commits every change through the Contents API.
+ * Entries are appended as marked blocks and act as comments. Closing a day sets the finalized
+ * title and body and keeps the entries, so a day reopened by a later entry is finalized in full.
+ * Writes are retried on SHA conflicts, re-applying the change to the latest file.
+ */
+export class GitContentsStorageService implements IIssueTrackerService {
+    constructor(
+        private readonly httpClient: HttpClient,
+        /** Branch to commit to; the repository's default branch when omitted. */
+        private readonly branch?: string,
+    ) {}
+
+    async findDailyIssue({ owner, repo, dateKey, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue | null> {
+        const path = getDailyLogPath(dateKey);
+        const file = await this.readLogFile(owner, repo, path, token);
+        return file && file.state === "open" ? this.toIssue(owner, repo, toDailyNumber(dateKey), path, file) : null;
+    }
+
+    async findIssueByTitlePrefix({ owner, repo, titlePrefix, token }: { owner: string; repo: string; titlePrefix: string; token: string }): Promise<Issue | null> {
+        const dateMatch = titlePrefix.match(DATE_KEY_PREFIX);
+        if (dateMatch) {
+            const path = getDailyLogPath(dateMatch[1]);
+            const file = await this.readLogFile(owner, repo, path, token);
+            return file && file.title.startsWith(titlePrefix) ? this.toIssue(owner, repo, toDailyNumber(dateMatch[1]), path, file) : null;
+        }
+        const indexed = (await this.readIndex(owner, repo, token)).filter((i) => i.title.startsWith(titlePrefix));
+        const latest = indexed[indexed.length - 1];
+        if (!latest) return null;
+        const file = await this.readLogFile(owner, repo, latest.path, token);
+        return file ? this.toIssue(owner, repo, latest.number, latest.path, file) : null;
+    }
+
+    async searchDailyIssues({ owner, repo, from, to, page, token }: { owner: string; repo: string; from: string; to: string; labels: string[]; page: number; token: string }): Promise<{ issues: Issue[]; hasMore: boolean }> {
+        const dateKeys = (await this.listDailyDateKeys(owner, repo, token)).filter((d) => d >= from && d <= to);
+        const start = (page - 1) * PAGE_SIZE;
+        const issues = await this.readDailyIssues(owner, repo, dateKeys.slice(start, start + PAGE_SIZE), token);
+        return { issues, hasMore: start + PAGE_SIZE < dateKeys.length };
+    }
+
+    async searchDailyIssuesByText({ owner, repo, text, from, to, token }: { owner: string; repo: string; text: string; labels: string[]; from?: string; to?: string; token: string }): Promise<Issue[]> {
+        // Code search only covers the default branch; the phrase is quoted as in issue search.
+        const q = `"${text.replace(/"/g, " ")}" repo:${owner}/${repo} path:${LOGS_DIR} extension:md`;
+        const result = await this.httpClient(
+            `https://api.github.com/search/code?q=${encodeURIComponent(q)}&per_page=${TEXT_SEARCH_LIMIT}`,
+            { token },
+        ) as CodeSearchResponse;
+        const dateKeys = (result?.items ?? [])
+            .map((item) => item.path.match(DAILY_PATH)?.[1])
+            .filter((d): d is string => !!d && (!from || d >= from) && (!to || d <= to))
+            .sort();
+        return this.readDailyIssues(owner, repo, [...new Set(dateKeys)], token);
+    }
+
+    async searchOpenDailyIssuesBefore({ owner, repo, dateKey, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue[]> {
+        const earliest = addDaysToDateKey(dateKey, -STALE_LOOKBACK_DAYS);
+        const dateKeys = (await this.listDailyDateKeys(owner, repo, token)).filter((d) => d >= earliest && d < dateKey);
+        return (await this.readDailyIssues(owner, repo, dateKeys, token)).filter((issue) => issue.state === "open");
+    }
+
+    async listRecentClosedDailyIssues({ owner, repo, limit, token }: { owner: string; repo: string; labels: string[]; limit: number; token: string }): Promise<Issue[]> {
+        // Newest days first; open days are skipped, but only a bounded number of files is read.
+        const dateKeys = (await this.listDailyDateKeys(owner, repo, token)).reverse().slice(0, limit * 3);
+        const closed: Issue[] = [];
+        for (const dateKey of dateKeys) {
+            const [issue] = await this.readDailyIssues(owner, repo, [dateKey], token);
+            if (issue?.state === "closed") closed.push(issue);
+            if (closed.length >= limit) break;
+        }
+        return closed;
+    }
+
+    async createDailyIssue({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue> {
+        const path = getDailyLogPath(dateKey);
+        // A finalized day that receives new entries is reopened rather than getting a second file.
+        const file = await this.commitLogFile(owner, repo, path, token, `thoughtlog: start ${dateKey}`, (current, now) => {
+            if (current) return current.state === "closed" ? { ...current, state: "open", closed_at: null, updated_at: now } : current;
+            return this.newLogFile(dateKey, `# ${dateKey}\n\n<!-- summary will be generated later -->`, labels, now);
+        });
+        return this.toIssue(owner, repo, toDailyNumber(dateKey), path, file);
+    }
+
+    async createIssue({ owner, repo, title, body, labels, token }: { owner: string; repo: string; title: string; body: string; labels: string[]; token: string }): Promise<Issue> {
+        let created: IndexedIssue | undefined;
+        await this.commitText(owner, repo, INDEX_PATH, token, `thoughtlog: index ${title}`, (current) => {
+            const index = current ? JSON.parse(current) as IndexedIssue[] : [];
+            const number = index.reduce((max, i) => Math.max(max, i.number), 0) + 1;
+            created = { number, title, path: `${LOGS_DIR}/issues/${number}.md` };
+            return `${JSON.stringify([...index, created], null, 2)}\n`;
+        });
+        const { number, path } = created!;
+        const file = await this.commitLogFile(owner, repo, path, token, `thoughtlog: create ${title}`, (_current, now) => this.newLogFile(title, body, labels, now));
+        return this.toIssue(owner, repo, number, path, file);
+    }
+
+    async addComment({ owner, repo, issueNumber, commentBody, token }: { owner: string; repo: string; issueNumber: number; commentBody: string; token: string }): Promise<IssueComment> {
+        const path = await this.resolvePath(owner, repo, issueNumber, token);
+        let id = 0;
+        await this.commitLogFile(owner, repo, path, token, `thoughtlog: add entry to ${issueNumber}`, (current, now) => {
+            const file = this.require(current, issueNumber);
+            id = issueNumber * ENTRY_SEQ_FACTOR + file.next_entry;
+            return { ...file, next_entry: file.next_entry + 1, updated_at: now, entries: [...file.entries, { id, body: commentBody }] };
+        });
+        return this.toComment(owner, repo, issueNumber, { id, body: commentBody });
+    }
+
+    async updateIssue({ owner, repo, issueNumber, title, body, token }: { owner: string; repo: string; issueNumber: number; title?: string; body: string; token: string }): Promise<Issue> {
+        const path = await this.resolvePath(owner, repo, issueNumber, token);
+        const file = await this.commitLogFile(owner, repo, path, token, `thoughtlog: update ${issueNumber}`, (current, now) => {
+            const file = this.require(current, issueNumber);
+            return { ...file, title: title ?? file.title, body, updated_at: now };
+        });
+        return this.toIssue(owner, repo, issueNumber, path, file);
+    }
+
+    async closeIssue({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue> {
+        const path = await this.resolvePath(owner, repo, issueNumber, token);
+        const file = await this.commitLogFile(owner, repo, path, token, `thoughtlog: finalize ${issueNumber}`, (current, now) => {
+            const file = this.require(current, issueNumber);
+            const body = file.body.startsWith("# ") ? file.body : `# ${file.title}\n\n${file.body}`;
+            return { ...file, state: "closed", closed_at: now, updated_at: now, body };
+        });
+        return this.toIssue(owner, repo, issueNumber, path, file);
+    }
+
+    async addLabels({ owner, repo, issueNumber, labels, token }: { owner: string; repo: string; issueNumber: number; labels: string[]; token: string }): Promise<void> {
+        const path = await this.resolvePath(owner, repo, issueNumber, token);
+        await this.commitLogFile(owner, repo, path, token, `thoughtlog: label ${issueNumber}`, (current, now) => {
+            const file = this.require(current, issueNumber);
+            return { ...file, labels: [...new Set([...file.labels, ...labels])], updated_at: now };
+        });
+    }
+
+    async getIssueComments({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<IssueComment[]> {
+        const file = await this.readIssueFile(owner, repo, issueNumber, token);
+        return file.entries.map((entry) => this.toComment(owner, repo, issueNumber, entry));
+    }
+
+    async getIssue({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue> {
+        const path = await this.resolvePath(owner, repo, issueNumber, token);
+        const file = this.require(await this.readLogFile(owner, repo, path, token), issueNumber);
+        return this.toIssue(owner, repo, issueNumber, path, file);
+    }
+
+    async getComment({ owner, repo, commentId, token }: { owner: string; repo: string; commentId: number; token: string }): Promise<IssueComment> {
+        const issueNumber = Math.floor(commentId / ENTRY_SEQ_FACTOR);
+        const entry = (await this.readIssueFile(owner, repo, issueNumber, token)).entries.find((e) => e.id === commentId);
+        if (!entry) {
+            throw new Error(`Comment not found: ${commentId}`);
+        }
+        return this.toComment(owner, repo, issueNumber, entry);
+    }
+
+    async updateComment({ owner, repo, commentId, body, token }: { owner: string; repo: string; commentId: number; body: string; token: string }): Promise<IssueComment> {
+        const issueNumber = Math.floor(commentId / ENTRY_SEQ_FACTOR);
+        const path = await this.resolvePath(owner, repo, issueNumber, token);
+        await this.commitLogFile(owner, repo, path, token, `thoughtlog: edit entry ${commentId}`, (current, now) => {
+            const file = this.require(current, issueNumber);
+            if (!file.entries.some((e) => e.id === commentId)) {
+                throw new Error(`Comment not found: ${commentId}`);
+            }
+            return { ...file, updated_at: now, entries: file.entries.map((e) => (e.id === commentId ? { id: e.id, body } : e)) };
+        });
+        return this.toComment(owner, repo, issueNumber, { id: commentId, body });
+    }
+
+    async deleteComment({ owner, repo, commentId, token }: { owner: string; repo: string; commentId: number; token: string }): Promise<void> {
+        const issueNumber = Math.floor(commentId / ENTRY_SEQ_FACTOR);
+        const path = await this.resolvePath(owner, repo, issueNumber, token);
+        await this.commitLogFile(owner, repo, path, token, `thoughtlog: delete entry ${commentId}`, (current, now) => {
+            const file = this.require(current, issueNumber);
+            return { ...file, updated_at: now, entries: file.entries.filter((e) => e.id !== commentId) };
+        });
+    }
+
+    private newLogFile(title: string, body: string, labels: string[], now: string): LogFile {
+        return { title, state: "open", labels, created_at: now, updated_at: now, closed_at: null, next_entry: 1, body, entries: [] };
+    }
+
+    private require(file: LogFile | null, issueNumber: number): LogFile {
+        if (!file) {
+            throw new Error(`Issue not found: ${issueNumber}`);
+        }
+        return file;
+    }
+
+    private async resolvePath(owner: string, repo: string, issueNumber: number, token: string): Promise<string> {
+        if (issueNumber >= MIN_DAILY_NUMBER) return getDailyLogPath(fromDailyNumber(issueNumber));
+        const indexed = (await this.readIndex(owner, repo, token)).find((i) => i.number === issueNumber);
+        if (!indexed) {
+            throw new Error(`Issue not found: ${issueNumber}`);
+        }
+        return indexed.path;
+    }
+
+    private async readIssueFile(owner: string, repo: string, issueNumber: number, token: string): Promise<LogFile> {
+        const path = await this.resolvePath(owner, repo, issueNumber, token);
+        return this.require(await this.readLogFile(owner, repo, path, token), issueNumber);
+    }
+
+    private async readIndex(owner: string, repo: string, token: string): Promise<IndexedIssue[]> {
+        const current = await this.readText(owner, repo, INDEX_PATH, token);
+        return current ? JSON.parse(current.text) as IndexedIssue[] : [];
+    }
+
+    /** Lists the date keys of all daily log files in ascending order, from the repository tree. */
+    private async listDailyDateKeys(owner: string, repo: string, token: string): Promise<string[]> {
+        const ref = encodeURIComponent(this.branch ?? "HEAD");
+        const result = await this.httpClient(`https://api.github.com/repos/${owner}/${repo}/git/trees/${ref}?recursive=1`, { token }) as TreeResponse;
+        return (result?.tree ?? [])
+            .filter((item) => item.type === "blob")
+            .map((item) => item.path.match(DAILY_PATH)?.[1])
+            .filter((d): d is string => !!d)
+            .sort();
+    }
+
+    private async readDailyIssues(owner: string, repo: string, dateKeys: string[], token: string): Promise<Issue[]> {
+        const issues: Issue[] = [];
+        for (const dateKey of dateKeys) {
+            const path = getDailyLogPath(dateKey);
+            const file = await this.readLogFile(owner, repo, path, token);
+            if (file) issues.push(this.toIssue(owner, repo, toDailyNumber(dateKey), path, file));
+        }
+        return issues;
+    }
+
+    private async readLogFile(owner: string, repo: string, path: string, token: string): Promise<LogFile | null> {
+        const current = await this.readText(owner, repo, path, token);
+        return current ? parseLogFile(current.text) : null;
+    }
+
+    private async readText(owner: string, repo: string, path: string, token: string): Promise<{ sha: string; text: string } | null> {
+        const ref = this.branch ? `?ref=${encodeURIComponent(this.branch)}` : "";
+        try {
+            const result = await this.httpClient(`https://api.github.com/repos/${owner}/${repo}/contents/${path}${ref}`, { token }) as ContentsResponse;
+            return { sha: result.sha, text: Buffer.from(result.content, "base64").toString("utf8") };
+        } catch (e) {
+            if (isNotFound(e)) return null;
+            throw e;
+        }
+    }
+
+    private async commitLogFile(
+        owner: string,
+        repo: string,
+        path: string,
+        token: string,
+        message: string,
+        update: (current: LogFile | null, now: string) => LogFile,
+    ): Promise<LogFile> {
+        let written: LogFile | undefined;
+        await this.commitText(owner, repo, path, token, message, (current) => {
+            written = update(current === null ? null : parseLogFile(current), new Date().toISOString());
+            return renderLogFile(written);
+        });
+        return written!;
+    }
+
+    /**
+     * Reads the file, applies the update and commits the result. When another commit changed
+     * the file in between, the update is re-applied to the latest content and retried.
+     */
+    private async commitText(
+        owner: string,
+        repo: string,
+        path: string,
+        token: string,
+        message: string,
+        update: (current: string | null) => string,
+    ): Promise<void> {
+        for (let attempt = 1; ; attempt++) {
+            const current = await this.readText(owner, repo, path, token);
+            const content = update(current?.text ?? null);
+            try {
+                await this.httpClient(`https://api.github.com/repos/${owner}/${repo}/contents/${path}`, {
+                    method: "PUT",
+                    token,
+                    body: {
+                        message,
+                        content: Buffer.from(content, "utf8").toString("base64"),
+                        ...(current ? { sha: current.sha } : {}),
+                        ...(this.branch ? { branch: this.branch } : {}),
+                    },
+                });
+                return;
+            } catch (e) {
+                if (attempt >= MAX_WRITE_ATTEMPTS || !isConflict(e)) throw e;
+            }
+        }
+    }
+
+    private toIssue(owner: string, repo: string, issueNumber: number, path: string, file: LogFile): Issue {
+        return {
+            number: issueNumber,
+            html_url: `https://github.com/${owner}/${repo}/blob/${this.branch ?? "HEAD"}/${path}`,
+            title: file.title,
+            body: file.body,
+            state: file.state,
+            created_at: file.created_at,
+            updated_at: file.updated_at,
+            closed_at: file.closed_at,
+        };
+    }
+
+    private toComment(owner: string, repo: string, issueNumber: number, entry: LogEntry): IssueComment {
+        // Synthetic URL: ThoughtLogService only reads the trailing "/issues/<number>" to find the day.
+        return { id: entry.id, body: entry.body, issue_url: `https://api.github.com/repos/${owner}/${repo}/issues/${issueNumber}` };
+    }
+}
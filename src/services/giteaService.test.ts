@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+import { GiteaApiService } from "./giteaService";
+import type { HttpClient } from "../utils/http";
+
+const owner = "owner";
+const repo = "repo";
+const token = "tok";
+const baseUrl = "https://gitea.example.com";
+const REPO = "https://gitea.example.com/api/v1/repos/owner/repo";
+
+function makeHttp(returnValue: unknown = {}): HttpClient {
+    return vi.fn().mockResolvedValue(returnValue);
+}
+
+function calledUrl(http: HttpClient, index = 0): string {
+    return (http as ReturnType<typeof vi.fn>).mock.calls[index][0] as string;
+}
+
+// ── issues ─────────────────────────────────────────────────────────────────────
+
+describe("GiteaApiService issues", () => {
+    it("finds the open issue whose title exactly matches the dateKey", async () => {
+        const http = makeHttp([{ number: 2, title: "2024-01-15 old" }, { number: 3, title: "2024-01-15", state: "open" }]);
+        const svc = new GiteaApiService(http, baseUrl);
+
+        const result = await svc.findDailyIssue({ owner, repo, dateKey: "2024-01-15", labels: ["thoughtlog"], token });
+
+        expect(result?.number).toBe(3);
+        const params = new URL(calledUrl(http)).searchParams;
+        expect(params.get("type")).toBe("issues");
+        expect(params.get("state")).toBe("open");
+        expect(params.get("labels")).toBe("thoughtlog");
+    });
+
+    it("lists a date range sorted by title and reports further pages", async () => {
+        const page = [
+            { number: 9, title: "2024-02-03" },
+            { number: 8, title: "2024-02-02" },
+            { number: 1, title: "2024-01-20" },
+            ...Array.from({ length: 47 }, (_, i) => ({ number: 100 + i, title: "Weekly digest" })),
+        ];
+        const http = makeHttp(page);
+        const svc = new GiteaApiService(http, baseUrl);
+
+        const result = await svc.searchDailyIssues({ owner, repo, from: "2024-02-01", to: "2024-02-29", labels: [], page: 1, token });
+
+        expect(result.issues.map((i) => i.number)).toEqual([8, 9]);
+        expect(result.hasMore).toBe(true);
+        expect(new URL(calledUrl(http)).searchParams.get("since")).toBe("2024-01-31T00:00:00Z");
+    });
+
+    it("creates issues with label ids, creating missing labels", async () => {
+        const http = vi.fn()
+            .mockResolvedValueOnce([{ id: 5, name: "thoughtlog" }])
+            .mockResolvedValueOnce({ id: 6, name: "daily" })
+            .mockResolvedValueOnce({ number: 1, title: "2024-01-15" });
+        const svc = new GiteaApiService(http, baseUrl);
+
+        await svc.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels: ["thoughtlog", "daily"], token });
+
+        expect(http).toHaveBeenNthCalledWith(2, `${REPO}/labels`, { method: "POST", token, body: { name: "daily", color: "#ededed" } });
+        expect(http).toHaveBeenLastCalledWith(`${REPO}/issues`, {
+            method: "POST",
+            token,
+            body: { title: "2024-01-15", body: "# 2024-01-15\n\n<!-- summary will be generated later -->\n", labels: [5, 6] },
+        });
+    });
+
+    it("closes issues by patching their state", async () => {
+        const http = makeHttp({ number: 1, state: "closed" });
+        const svc = new GiteaApiService(http, baseUrl);
+
+        await svc.closeIssue({ owner, repo, issueNumber: 1, token });
+
+        expect(http).toHaveBeenCalledWith(`${REPO}/issues/1`, { method: "PATCH", token, body: { state: "closed" } });
+    });
+
+    it("adds labels by id", async () => {
+        const http = vi.fn()
+            .mockResolvedValueOnce([{ id: 5, name: "idea" }])
+            .mockResolvedValueOnce([]);
+        const svc = new GiteaApiService(http, baseUrl);
+
+        await svc.addLabels({ owner, repo, issueNumber: 1, labels: ["idea"], token });
+
+        expect(http).toHaveBeenLastCalledWith(`${REPO}/issues/1/labels`, { method: "POST", token, body: { labels: [5] } });
+    });
+});
+
+// ── comments ─────────────────────────────────────────────────────────────────
+
+describe("GiteaApiService comments", () => {
+    it("addresses comments by their repository-wide id", async () => {
+        const http = makeHttp({ id: 42, body: "edited", issue_url: "https://gitea.example.com/owner/repo/issues/1" });
+        const svc = new GiteaApiService(http, baseUrl);
+
+        await svc.getComment({ owner, repo, commentId: 42, token });
+        await svc.updateComment({ owner, repo, commentId: 42, body: "edited", token });
+        await svc.deleteComment({ owner, repo, commentId: 42, token });
+
+        expect(http).toHaveBeenNthCalledWith(1, `${REPO}/issues/comments/42`, { token });
+        expect(http).toHaveBeenNthCalledWith(2, `${REPO}/issues/comments/42`, { method: "PATCH", token, body: { body: "edited" } });
+        expect(http).toHaveBeenNthCalledWith(3, `${REPO}/issues/comments/42`, { method: "DELETE", token });
+    });
+});
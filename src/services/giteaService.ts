@@ -0,0 +1,192 @@
+import type { Issue, IssueComment } from "../types";
+import type { HttpClient } from "../utils/http";
+import { addDaysToDateKey } from "../utils/date";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+
+/** Gitea caps list responses at 50 items by default (MAX_RESPONSE_ITEMS). */
+const PAGE_SIZE = 50;
+/** Number of issues inspected per full-text search; each match costs a comments fetch downstream. */
+const TEXT_SEARCH_PAGE_SIZE = 30;
+const DATE_KEY_PREFIX = /^(\d{4}-\d{2}-\d{2})(?:\s|$)/;
+/** Colour given to labels this service has to create. */
+const DEFAULT_LABEL_COLOR = "#ededed";
+
+interface GiteaLabel {
+    id: number;
+    name: string;
+}
+
+/** Returns true when the issue title starts with a date key inside the optional [from, to] range. */
+function isDailyIssueInRange(issue: Issue, from?: string, to?: string): boolean {
+    const match = (issue.title || "").trim().match(DATE_KEY_PREFIX);
+    if (!match) return false;
+    return (!from || match[1] >= from) && (!to || match[1] <= to);
+}
+
+/** Orders issues by their title date key; Gitea cannot sort issue lists by creation time. */
+function byTitle(a: Issue, b: Issue): number {
+    return (a.title ?? "").localeCompare(b.title ?? "");
+}
+
+/** Gitea REST API v1 implementation. Issues and comments already use GitHub's field names. */
+export class GiteaApiService implements IIssueTrackerService {
+    constructor(
+        private readonly httpClient: HttpClient,
+        /** Instance URL, e.g. "https://gitea.example.com". */
+        private readonly baseUrl: string,
+    ) {}
+
+    async findDailyIssue({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue | null> {
+        const issues = await this.listIssues(owner, repo, token, { state: "open", q: dateKey, limit: "5" }, labels);
+        return issues.find((it) => (it.title || "").trim() === dateKey) ?? null;
+    }
+
+    async findIssueByTitlePrefix({ owner, repo, titlePrefix, token }: { owner: string; repo: string; titlePrefix: string; token: string }): Promise<Issue | null> {
+        const issues = await this.listIssues(owner, repo, token, { state: "all", q: titlePrefix, limit: String(PAGE_SIZE) });
+        return issues
+            .filter((it) => (it.title || "").startsWith(titlePrefix))
+            .sort((a, b) => (b.updated_at ?? "").localeCompare(a.updated_at ?? ""))[0] ?? null;
+    }
+
+    /**
+     * Lists daily issues (open and closed) whose title date key falls within [from, to].
+     * Gitea only filters by update time, which is never earlier than creation, so "since"
+     * narrows the scan from below and the title date key does the rest.
+     */
+    async searchDailyIssues({ owner, repo, from, to, labels, page, token }: { owner: string; repo: string; from: string; to: string; labels: string[]; page: number; token: string }): Promise<{ issues: Issue[]; hasMore: boolean }> {
+        const issues = await this.listIssues(owner, repo, token, {
+            state: "all",
+            since: `${addDaysToDateKey(from, -1)}T00:00:00Z`,
+            limit: String(PAGE_SIZE),
+            page: String(page),
+        }, labels);
+        return { issues: issues.filter((it) => isDailyIssueInRange(it, from, to)).sort(byTitle), hasMore: issues.length === PAGE_SIZE };
+    }
+
+    /** Searches issues with Gitea's issue indexer, which covers titles, bodies and comments; newest first. */
+    async searchDailyIssuesByText({ owner, repo, text, labels, from, to, token }: { owner: string; repo: string; text: string; labels: string[]; from?: string; to?: string; token: string }): Promise<Issue[]> {
+        const issues = await this.listIssues(owner, repo, token, { state: "all", q: text.trim(), limit: String(TEXT_SEARCH_PAGE_SIZE) }, labels);
+        return issues.filter((it) => isDailyIssueInRange(it, from, to)).sort((a, b) => byTitle(b, a));
+    }
+
+    /** Returns every open daily issue whose title date key is strictly before dateKey. */
+    async searchOpenDailyIssuesBefore({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue[]> {
+        const issues: Issue[] = [];
+        for (let page = 1; ; page++) {
+            const items = await this.listIssues(owner, repo, token, { state: "open", limit: String(PAGE_SIZE), page: String(page) }, labels);
+            issues.push(...items.filter((it) => isDailyIssueInRange(it, undefined, addDaysToDateKey(dateKey, -1))));
+            if (items.length < PAGE_SIZE) break;
+        }
+        return issues.sort(byTitle);
+    }
+
+    async listRecentClosedDailyIssues({ owner, repo, labels, limit, token }: { owner: string; repo: string; labels: string[]; limit: number; token: string }): Promise<Issue[]> {
+        const issues = await this.listIssues(owner, repo, token, { state: "closed", limit: String(PAGE_SIZE) }, labels);
+        return issues
+            .filter((issue) => isDailyIssueInRange(issue))
+            .sort((a, b) => (b.closed_at ?? b.updated_at ?? "").localeCompare(a.closed_at ?? a.updated_at ?? ""))
+            .slice(0, limit);
+    }
+
+    async createDailyIssue({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue> {
+        const body = `# ${dateKey}\n\n<!-- summary will be generated later -->\n`;
+        return this.createIssue({ owner, repo, title: dateKey, body, labels, token });
+    }
+
+    async createIssue({ owner, repo, title, body, labels, token }: { owner: string; repo: string; title: string; body: string; labels: string[]; token: string }): Promise<Issue> {
+        const labelIds = await this.resolveLabelIds(owner, repo, labels, token);
+        return await this.httpClient(`${this.repoUrl(owner, repo)}/issues`, {
+            method: "POST",
+            token,
+            body: { title, body, labels: labelIds },
+        }) as Issue;
+    }
+
+    async addComment({ owner, repo, issueNumber, commentBody, token }: { owner: string; repo: string; issueNumber: number; commentBody: string; token: string }): Promise<IssueComment> {
+        return await this.httpClient(`${this.repoUrl(owner, repo)}/issues/${issueNumber}/comments`, {
+            method: "POST",
+            token,
+            body: { body: commentBody },
+        }) as IssueComment;
+    }
+
+    async updateIssue({ owner, repo, issueNumber, title, body, token }: { owner: string; repo: string; issueNumber: number; title?: string; body: string; token: string }): Promise<Issue> {
+        return await this.httpClient(`${this.repoUrl(owner, repo)}/issues/${issueNumber}`, {
+            method: "PATCH",
+            token,
+            body: title ? { title, body } : { body },
+        }) as Issue;
+    }
+
+    async closeIssue({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue> {
+        return await this.httpClient(`${this.repoUrl(owner, repo)}/issues/${issueNumber}`, {
+            method: "PATCH",
+            token,
+            body: { state: "closed" },
+        }) as Issue;
+    }
+
+    async addLabels({ owner, repo, issueNumber, labels, token }: { owner: string; repo: string; issueNumber: number; labels: string[]; token: string }): Promise<void> {
+        const labelIds = await this.resolveLabelIds(owner, repo, labels, token);
+        await this.httpClient(`${this.repoUrl(owner, repo)}/issues/${issueNumber}/labels`, {
+            method: "POST",
+            token,
+            body: { labels: labelIds },
+        });
+    }
+
+    async getIssueComments({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<IssueComment[]> {
+        // This endpoint is not paginated; it returns every comment in creation order.
+        const comments = await this.httpClient(`${this.repoUrl(owner, repo)}/issues/${issueNumber}/comments`, { token }) as IssueComment[];
+        return comments ?? [];
+    }
+
+    async getIssue({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue> {
+        return await this.httpClient(`${this.repoUrl(owner, repo)}/issues/${issueNumber}`, { token }) as Issue;
+    }
+
+    async getComment({ owner, repo, commentId, token }: { owner: string; repo: string; commentId: number; token: string }): Promise<IssueComment> {
+        return await this.httpClient(`${this.repoUrl(owner, repo)}/issues/comments/${commentId}`, { token }) as IssueComment;
+    }
+
+    async updateComment({ owner, repo, commentId, body, token }: { owner: string; repo: string; commentId: number; body: string; token: string }): Promise<IssueComment> {
+        return await this.httpClient(`${this.repoUrl(owner, repo)}/issues/comments/${commentId}`, {
+            method: "PATCH",
+            token,
+            body: { body },
+        }) as IssueComment;
+    }
+
+    async deleteComment({ owner, repo, commentId, token }: { owner: string; repo: string; commentId: number; token: string }): Promise<void> {
+        await this.httpClient(`${this.repoUrl(owner, repo)}/issues/comments/${commentId}`, { method: "DELETE", token });
+    }
+
+    private repoUrl(owner: string, repo: string): string {
+        return `${this.baseUrl.replace(/\/+$/, "")}/api/v1/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    }
+
+    private async listIssues(owner: string, repo: string, token: string, query: Record<string, string>, labels: string[] = []): Promise<Issue[]> {
+        const params = new URLSearchParams({ type: "issues", ...query });
+        const primaryLabel = labels.includes("thoughtlog") ? "thoughtlog" : labels[0];
+        if (primaryLabel) params.set("labels", primaryLabel);
+        const issues = await this.httpClient(`${this.repoUrl(owner, repo)}/issues?${params.toString()}`, { token }) as Issue[];
+        return issues ?? [];
+    }
+
+    /** Gitea takes label ids rather than names when creating issues; missing labels are created. */
+    private async resolveLabelIds(owner: string, repo: string, labels: string[], token: string): Promise<number[]> {
+        if (labels.length === 0) return [];
+        const existing = await this.httpClient(`${this.repoUrl(owner, repo)}/labels?limit=${PAGE_SIZE}`, { token }) as GiteaLabel[];
+        const ids: number[] = [];
+        for (const name of labels) {
+            const found = (existing ?? []).find((label) => label.name === name);
+            const label = found ?? await this.httpClient(`${this.repoUrl(owner, repo)}/labels`, {
+                method: "POST",
+                token,
+                body: { name, color: DEFAULT_LABEL_COLOR },
+            }) as GiteaLabel;
+            ids.push(label.id);
+        }
+        return ids;
+    }
+}
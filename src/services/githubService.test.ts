@@ -1,7 +1,7 @@
 import { describe, it, expect, vi } from "vitest";
 import { GitHubApiService } from "./githubService";
 import type { HttpClient } from "../utils/http";
-import type { GitHubIssue, GitHubComment } from "../types";
+import type { Issue, IssueComment } from "../types";
 
 const owner = "owner";
 const repo = "repo";
@@ -15,7 +15,7 @@ function makeHttp(returnValue: unknown = {}): HttpClient {
 
 describe("GitHubApiService.findDailyIssue", () => {
     it("returns the issue whose title exactly matches the dateKey", async () => {
-        const issue: GitHubIssue = { number: 1, html_url: "https://github.com/o/r/issues/1", title: "2024-01-15" };
+        const issue: Issue = { number: 1, html_url: "https://github.com/o/r/issues/1", title: "2024-01-15" };
         const http = makeHttp({ items: [issue] });
         const svc = new GitHubApiService(http);
         const result = await svc.findDailyIssue({ owner, repo, dateKey: "2024-01-15", labels: ["thoughtlog"], token });
@@ -37,11 +37,183 @@ describe("GitHubApiService.findDailyIssue", () => {
     });
 });
 
+// ── searchDailyIssues ──────────────────────────────────────────────────────────
+
+describe("GitHubApiService.searchDailyIssues", () => {
+    it("returns only issues whose title date key is within the range", async () => {
+        const http = makeHttp({
+            total_count: 3,
+            items: [
+                { number: 1, title: "2024-01-31" },
+                { number: 2, title: "2024-02-01 finalized title", state: "closed" },
+                { number: 3, title: "2024-02-02" },
+                { number: 4, title: "not a daily issue" },
+            ],
+        });
+        const svc = new GitHubApiService(http);
+        const result = await svc.searchDailyIssues({ owner, repo, from: "2024-02-01", to: "2024-02-29", labels: ["thoughtlog"], page: 1, token });
+        expect(result.issues.map((i) => i.number)).toEqual([2, 3]);
+        expect(result.hasMore).toBe(false);
+    });
+
+    it("bounds the creation date only from below, one day early, and requests the given page", async () => {
+        const http = makeHttp({ total_count: 0, items: [] });
+        const svc = new GitHubApiService(http);
+        await svc.searchDailyIssues({ owner, repo, from: "2024-02-01", to: "2024-02-29", labels: ["thoughtlog"], page: 2, token });
+        const [url] = (http as ReturnType<typeof vi.fn>).mock.calls[0];
+        const q = decodeURIComponent(url.split("q=")[1].split("&")[0]);
+        expect(q).toBe(`repo:${owner}/${repo} is:issue created:>=2024-01-31 label:thoughtlog`);
+        expect(url).toContain("page=2");
+    });
+
+    it("finds a daily issue created long after its date", async () => {
+        const http = makeHttp({ total_count: 1, items: [{ number: 7, title: "2023-05-10", created_at: "2024-02-20T09:00:00Z" }] });
+        const svc = new GitHubApiService(http);
+        const result = await svc.searchDailyIssues({ owner, repo, from: "2023-05-01", to: "2023-05-31", labels: [], page: 1, token });
+        expect(result.issues.map((i) => i.number)).toEqual([7]);
+        const [url] = (http as ReturnType<typeof vi.fn>).mock.calls[0];
+        expect(decodeURIComponent(url)).not.toContain("..");
+    });
+
+    it("searches a single day by its title", async () => {
+        const http = makeHttp({ total_count: 0, items: [] });
+        const svc = new GitHubApiService(http);
+        await svc.searchDailyIssues({ owner, repo, from: "2023-05-10", to: "2023-05-10", labels: [], page: 1, token });
+        const [url] = (http as ReturnType<typeof vi.fn>).mock.calls[0];
+        const q = decodeURIComponent(url.split("q=")[1].split("&")[0]);
+        expect(q).toBe(`repo:${owner}/${repo} is:issue created:>=2023-05-09 in:title "2023-05-10"`);
+    });
+
+    it("reports more results when total_count exceeds the fetched pages", async () => {
+        const http = makeHttp({ total_count: 150, items: [] });
+        const svc = new GitHubApiService(http);
+        const result = await svc.searchDailyIssues({ owner, repo, from: "2024-01-01", to: "2024-12-31", labels: [], page: 1, token });
+        expect(result.hasMore).toBe(true);
+    });
+
+    it("stops at the search API result limit", async () => {
+        const http = makeHttp({ total_count: 5000, items: [] });
+        const svc = new GitHubApiService(http);
+        const result = await svc.searchDailyIssues({ owner, repo, from: "2020-01-01", to: "2024-12-31", labels: [], page: 10, token });
+        expect(result.hasMore).toBe(false);
+    });
+});
+
+// ── searchDailyIssuesByText ────────────────────────────────────────────────────
+
+describe("GitHubApiService.searchDailyIssuesByText", () => {
+    it("returns daily issues within the range", async () => {
+        const http = makeHttp({ items: [{ number: 1, title: "2024-01-15" }, { number: 2, title: "2023-12-31" }, { number: 3, title: "other" }] });
+        const svc = new GitHubApiService(http);
+        const result = await svc.searchDailyIssuesByText({ owner, repo, text: "caching", labels: ["thoughtlog"], from: "2024-01-01", token });
+        expect(result.map((i) => i.number)).toEqual([1]);
+    });
+
+    it("quotes the text and strips embedded quotes", async () => {
+        const http = makeHttp({ items: [] });
+        const svc = new GitHubApiService(http);
+        await svc.searchDailyIssuesByText({ owner, repo, text: 'foo" repo:other/repo', labels: [], token });
+        const [url] = (http as ReturnType<typeof vi.fn>).mock.calls[0];
+        const q = decodeURIComponent(url.split("q=")[1].split("&")[0]);
+        expect(q).toBe(`repo:${owner}/${repo} is:issue in:comments "foo  repo:other/repo"`);
+    });
+
+    it("bounds the creation date only by the start of the range", async () => {
+        const http = makeHttp({ items: [] });
+        const svc = new GitHubApiService(http);
+        await svc.searchDailyIssuesByText({ owner, repo, text: "x", labels: [], from: "2024-01-01", to: "2024-01-31", token });
+        await svc.searchDailyIssuesByText({ owner, repo, text: "x", labels: [], to: "2024-01-31", token });
+        const [url] = (http as ReturnType<typeof vi.fn>).mock.calls[0];
+        const [urlWithoutFrom] = (http as ReturnType<typeof vi.fn>).mock.calls[1];
+        expect(decodeURIComponent(url)).toContain("created:>=2023-12-31");
+        expect(decodeURIComponent(url)).not.toContain("2024-02-01");
+        expect(decodeURIComponent(urlWithoutFrom)).not.toContain("created:");
+    });
+});
+
+// ── searchOpenDailyIssuesBefore ────────────────────────────────────────────────
+
+describe("GitHubApiService.searchOpenDailyIssuesBefore", () => {
+    it("returns open daily issues dated before the given date key", async () => {
+        const http = makeHttp({
+            total_count: 3,
+            items: [
+                { number: 1, title: "2024-01-14" },
+                { number: 2, title: "2024-01-15" },
+                { number: 3, title: "digest" },
+            ],
+        });
+        const svc = new GitHubApiService(http);
+        const result = await svc.searchOpenDailyIssuesBefore({ owner, repo, dateKey: "2024-01-15", labels: ["thoughtlog"], token });
+        expect(result.map((i) => i.number)).toEqual([1]);
+        const [url] = (http as ReturnType<typeof vi.fn>).mock.calls[0];
+        expect(decodeURIComponent(url)).toContain("state:open label:thoughtlog");
+    });
+
+    it("follows pages until total_count is exhausted", async () => {
+        const http = vi.fn()
+            .mockResolvedValueOnce({ total_count: 101, items: [{ number: 1, title: "2024-01-01" }] })
+            .mockResolvedValueOnce({ total_count: 101, items: [{ number: 2, title: "2024-01-02" }] });
+        const svc = new GitHubApiService(http);
+        const result = await svc.searchOpenDailyIssuesBefore({ owner, repo, dateKey: "2024-01-15", labels: [], token });
+        expect(result.map((i) => i.number)).toEqual([1, 2]);
+        expect(http).toHaveBeenCalledTimes(2);
+    });
+});
+
+// ── listRecentClosedDailyIssues ────────────────────────────────────────────────
+
+describe("GitHubApiService.listRecentClosedDailyIssues", () => {
+    it("lists closed labelled issues, keeping dated titles ordered by close time", async () => {
+        const http = makeHttp([
+            { number: 1, title: "2024-01-14 Planning", closed_at: "2024-01-15T19:00:00Z" },
+            { number: 9, title: "2024-W03 weekly digest", closed_at: "2024-01-22T00:00:00Z" },
+            { number: 2, title: "2024-01-15 Caching", closed_at: "2024-01-16T19:00:00Z" },
+            { number: 3, title: "2024-01-13", closed_at: "2024-01-14T19:00:00Z" },
+        ]);
+        const svc = new GitHubApiService(http);
+        const result = await svc.listRecentClosedDailyIssues({ owner, repo, labels: ["voice", "thoughtlog"], limit: 2, token });
+        expect(result.map((i) => i.number)).toEqual([2, 1]);
+        const [url] = (http as ReturnType<typeof vi.fn>).mock.calls[0];
+        expect(url).toBe("https://api.github.com/repos/owner/repo/issues?state=closed&sort=updated&direction=desc&per_page=100&page=1&labels=thoughtlog");
+    });
+
+    it("reads further pages when edited old days and digests fill the first one", async () => {
+        const firstPage: Issue[] = [
+            { number: 1, title: "2023-06-01", closed_at: "2023-06-02T19:00:00Z", updated_at: "2024-01-20T10:00:00Z" },
+            ...Array.from({ length: 99 }, (_, i) => ({ number: 100 + i, title: `2024-W0${i % 3} weekly digest`, closed_at: "2024-01-19T00:00:00Z", updated_at: "2024-01-19T00:00:00Z" })),
+        ];
+        const http = vi.fn()
+            .mockResolvedValueOnce(firstPage)
+            .mockResolvedValueOnce([
+                { number: 2, title: "2024-01-15", closed_at: "2024-01-16T19:00:00Z", updated_at: "2024-01-16T19:00:00Z" },
+                { number: 3, title: "2024-01-14", closed_at: "2024-01-15T19:00:00Z", updated_at: "2024-01-15T19:00:00Z" },
+            ]);
+        const svc = new GitHubApiService(http);
+        const result = await svc.listRecentClosedDailyIssues({ owner, repo, labels: ["thoughtlog"], limit: 2, token });
+        expect(result.map((i) => i.number)).toEqual([2, 3]);
+        expect(http.mock.calls[1][0]).toContain("page=2");
+    });
+
+    it("stops once enough days were closed after the last update on the page", async () => {
+        const http = vi.fn().mockResolvedValue(Array.from({ length: 100 }, (_, i) => ({
+            number: i + 1,
+            title: `2024-01-${String(28 - (i % 28)).padStart(2, "0")}`,
+            closed_at: "2024-01-29T00:00:00Z",
+            updated_at: "2024-01-29T00:00:00Z",
+        })));
+        const svc = new GitHubApiService(http);
+        const result = await svc.listRecentClosedDailyIssues({ owner, repo, labels: [], limit: 20, token });
+        expect(result).toHaveLength(20);
+        expect(http).toHaveBeenCalledTimes(1);
+    });
+});
+
 // ── createDailyIssue ───────────────────────────────────────────────────────────
 
 describe("GitHubApiService.createDailyIssue", () => {
     it("posts to the issues endpoint and returns the created issue", async () => {
-        const issue: GitHubIssue = { number: 7, html_url: "https://github.com/o/r/issues/7", title: "2024-06-01" };
+        const issue: Issue = { number: 7, html_url: "https://github.com/o/r/issues/7", title: "2024-06-01" };
         const http = makeHttp(issue);
         const svc = new GitHubApiService(http);
         const result = await svc.createDailyIssue({ owner, repo, dateKey: "2024-06-01", labels: ["thoughtlog"], token });
@@ -52,11 +224,26 @@ describe("GitHubApiService.createDailyIssue", () => {
     });
 });
 
+// ── createIssue ────────────────────────────────────────────────────────────────
+
+describe("GitHubApiService.createIssue", () => {
+    it("posts title, body and labels to the issues endpoint", async () => {
+        const issue: Issue = { number: 9, title: "2026-W42 weekly digest" };
+        const http = makeHttp(issue);
+        const svc = new GitHubApiService(http);
+        const result = await svc.createIssue({ owner, repo, title: "2026-W42 weekly digest", body: "summary", labels: ["thoughtlog", "digest"], token });
+        expect(result).toEqual(issue);
+        const [url, opts] = (http as ReturnType<typeof vi.fn>).mock.calls[0];
+        expect(url).toBe(`https://api.github.com/repos/${owner}/${repo}/issues`);
+        expect((opts as { body: unknown }).body).toEqual({ title: "2026-W42 weekly digest", body: "summary", labels: ["thoughtlog", "digest"] });
+    });
+});
+
 // ── addComment ─────────────────────────────────────────────────────────────────
 
 describe("GitHubApiService.addComment", () => {
     it("posts a comment and returns it", async () => {
-        const comment: GitHubComment = { id: 55, body: "## 10:00\nhello\n" };
+        const comment: IssueComment = { id: 55, body: "## 10:00\nhello\n" };
         const http = makeHttp(comment);
         const svc = new GitHubApiService(http);
         const result = await svc.addComment({ owner, repo, issueNumber: 1, commentBody: "## 10:00\nhello\n", token });
@@ -70,7 +257,7 @@ describe("GitHubApiService.addComment", () => {
 
 describe("GitHubApiService.updateIssue", () => {
     it("patches the issue body and returns the updated issue", async () => {
-        const issue: GitHubIssue = { number: 3 };
+        const issue: Issue = { number: 3 };
         const http = makeHttp(issue);
         const svc = new GitHubApiService(http);
         const result = await svc.updateIssue({ owner, repo, issueNumber: 3, body: "new summary", token });
@@ -80,7 +267,7 @@ describe("GitHubApiService.updateIssue", () => {
     });
 
     it("includes title in PATCH body when title is provided", async () => {
-        const issue: GitHubIssue = { number: 3 };
+        const issue: Issue = { number: 3 };
         const http = makeHttp(issue);
         const svc = new GitHubApiService(http);
         await svc.updateIssue({ owner, repo, issueNumber: 3, title: "New Title", body: "new body", token });
@@ -90,7 +277,7 @@ describe("GitHubApiService.updateIssue", () => {
     });
 
     it("does not include title in PATCH body when title is omitted", async () => {
-        const issue: GitHubIssue = { number: 3 };
+        const issue: Issue = { number: 3 };
         const http = makeHttp(issue);
         const svc = new GitHubApiService(http);
         await svc.updateIssue({ owner, repo, issueNumber: 3, body: "new body", token });
@@ -104,7 +291,7 @@ describe("GitHubApiService.updateIssue", () => {
 
 describe("GitHubApiService.closeIssue", () => {
     it("patches state to closed and returns the closed issue", async () => {
-        const issue: GitHubIssue = { number: 3 };
+        const issue: Issue = { number: 3 };
         const http = makeHttp(issue);
         const svc = new GitHubApiService(http);
         const result = await svc.closeIssue({ owner, repo, issueNumber: 3, token });
@@ -114,11 +301,22 @@ describe("GitHubApiService.closeIssue", () => {
     });
 });
 
+// ── addLabels ──────────────────────────────────────────────────────────────────
+
+describe("GitHubApiService.addLabels", () => {
+    it("posts the labels to the issue's labels endpoint", async () => {
+        const http = makeHttp([]);
+        const svc = new GitHubApiService(http);
+        await svc.addLabels({ owner, repo, issueNumber: 3, labels: ["idea", "todo"], token });
+        expect(http).toHaveBeenCalledWith("https://api.github.com/repos/owner/repo/issues/3/labels", { method: "POST", token, body: { labels: ["idea", "todo"] } });
+    });
+});
+
 // ── getIssueComments ───────────────────────────────────────────────────────────
 
 describe("GitHubApiService.getIssueComments", () => {
     it("returns all comments from a single page", async () => {
-        const comments: GitHubComment[] = [{ id: 1, body: "a" }, { id: 2, body: "b" }];
+        const comments: IssueComment[] = [{ id: 1, body: "a" }, { id: 2, body: "b" }];
         const http = vi.fn()
             .mockResolvedValueOnce(comments)
             .mockResolvedValueOnce([]);
@@ -128,8 +326,8 @@ describe("GitHubApiService.getIssueComments", () => {
     });
 
     it("paginates and collects all pages", async () => {
-        const page1: GitHubComment[] = Array.from({ length: 100 }, (_, i) => ({ id: i, body: `c${i}` }));
-        const page2: GitHubComment[] = [{ id: 100, body: "last" }];
+        const page1: IssueComment[] = Array.from({ length: 100 }, (_, i) => ({ id: i, body: `c${i}` }));
+        const page2: IssueComment[] = [{ id: 100, body: "last" }];
         const http = vi.fn()
             .mockResolvedValueOnce(page1)
             .mockResolvedValueOnce(page2)
@@ -151,7 +349,7 @@ describe("GitHubApiService.getIssueComments", () => {
 
 describe("GitHubApiService.getIssue", () => {
     it("fetches and returns the issue", async () => {
-        const issue: GitHubIssue = { number: 8, html_url: "https://github.com/o/r/issues/8" };
+        const issue: Issue = { number: 8, html_url: "https://github.com/o/r/issues/8" };
         const http = makeHttp(issue);
         const svc = new GitHubApiService(http);
         const result = await svc.getIssue({ owner, repo, issueNumber: 8, token });
@@ -165,7 +363,7 @@ describe("GitHubApiService.getIssue", () => {
 
 describe("GitHubApiService.getComment", () => {
     it("fetches and returns a single comment", async () => {
-        const comment: GitHubComment = { id: 55, body: "## 10:00\nhello\n" };
+        const comment: IssueComment = { id: 55, body: "## 10:00\nhello\n" };
         const http = makeHttp(comment);
         const svc = new GitHubApiService(http);
         const result = await svc.getComment({ owner, repo, commentId: 55, token });
@@ -179,7 +377,7 @@ describe("GitHubApiService.getComment", () => {
 
 describe("GitHubApiService.updateComment", () => {
     it("patches the comment body and returns the updated comment", async () => {
-        const comment: GitHubComment = { id: 55, body: "## 10:00\nrefined\n" };
+        const comment: IssueComment = { id: 55, body: "## 10:00\nrefined\n" };
         const http = makeHttp(comment);
         const svc = new GitHubApiService(http);
         const result = await svc.updateComment({ owner, repo, commentId: 55, body: "````\n## 10:00\nrefined\n\n````\n", token });
@@ -190,11 +388,24 @@ describe("GitHubApiService.updateComment", () => {
     });
 });
 
+// ── deleteComment ──────────────────────────────────────────────────────────────
+
+describe("GitHubApiService.deleteComment", () => {
+    it("sends a DELETE to the comment endpoint", async () => {
+        const http = makeHttp(null);
+        const svc = new GitHubApiService(http);
+        await svc.deleteComment({ owner, repo, commentId: 55, token });
+        const [url, opts] = (http as ReturnType<typeof vi.fn>).mock.calls[0];
+        expect(url).toContain("/issues/comments/55");
+        expect((opts as { method: string }).method).toBe("DELETE");
+    });
+});
+
 // ── findIssueByTitlePrefix ─────────────────────────────────────────────────────
 
 describe("GitHubApiService.findIssueByTitlePrefix", () => {
     it("returns the issue whose title starts with the given prefix", async () => {
-        const issue: GitHubIssue = { number: 2, html_url: "https://github.com/o/r/issues/2", title: "2024-01-15 日記まとめ" };
+        const issue: Issue = { number: 2, html_url: "https://github.com/o/r/issues/2", title: "2024-01-15 日記まとめ" };
         const http = makeHttp({ items: [issue] });
         const svc = new GitHubApiService(http);
         const result = await svc.findIssueByTitlePrefix({ owner, repo, titlePrefix: "2024-01-15 ", token });
@@ -202,7 +413,7 @@ describe("GitHubApiService.findIssueByTitlePrefix", () => {
     });
 
     it("returns null when no item title starts with the given prefix", async () => {
-        const issue: GitHubIssue = { number: 2, title: "2024-01-14 something" };
+        const issue: Issue = { number: 2, title: "2024-01-14 something" };
         const http = makeHttp({ items: [issue] });
         const svc = new GitHubApiService(http);
         const result = await svc.findIssueByTitlePrefix({ owner, repo, titlePrefix: "2024-01-15 ", token });
@@ -1,14 +1,36 @@
-import type { GitHubIssue, GitHubComment, GitHubSearchResult } from "../types";
+import type { Issue, IssueComment, GitHubSearchResult } from "../types";
 import type { HttpClient } from "../utils/http";
-import type { IGitHubService } from "../interfaces/IGitHubService";
+import { addDaysToDateKey } from "../utils/date";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+
+export type { IIssueTrackerService };
+
+const SEARCH_PAGE_SIZE = 100;
+/** The search API never returns more than this many results for a single query. */
+const SEARCH_RESULT_LIMIT = 1000;
+/** Number of issues inspected per full-text search; each match costs a comments fetch downstream. */
+const TEXT_SEARCH_PAGE_SIZE = 30;
+/** Pages of closed issues read at most when looking for the recently closed daily issues. */
+const CLOSED_ISSUE_PAGE_LIMIT = 10;
+const DATE_KEY_PREFIX = /^(\d{4}-\d{2}-\d{2})(?:\s|$)/;
+
+/** Returns true when the issue title starts with a date key inside the optional [from, to] range. */
+function isDailyIssueInRange(issue: Issue, from?: string, to?: string): boolean {
+    const match = (issue.title || "").trim().match(DATE_KEY_PREFIX);
+    if (!match) return false;
+    return (!from || match[1] >= from) && (!to || match[1] <= to);
+}
 
-export type { IGitHubService };
+/** Sort order of closed issues, most recently closed first. */
+function byClosedAtDesc(a: Issue, b: Issue): number {
+    return (b.closed_at ?? b.updated_at ?? "").localeCompare(a.closed_at ?? a.updated_at ?? "");
+}
 
 /** GitHub REST API implementation. */
-export class GitHubApiService implements IGitHubService {
+export class GitHubApiService implements IIssueTrackerService {
     constructor(private readonly httpClient: HttpClient) {}
 
-    async findDailyIssue({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<GitHubIssue | null> {
+    async findDailyIssue({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue | null> {
         const primaryLabel = labels.includes("thoughtlog") ? "thoughtlog" : labels[0];
         const qParts = [
             `repo:${owner}/${repo}`,
@@ -28,7 +50,7 @@ export class GitHubApiService implements IGitHubService {
         return exact ?? null;
     }
 
-    async findIssueByTitlePrefix({ owner, repo, titlePrefix, token }: { owner: string; repo: string; titlePrefix: string; token: string }): Promise<GitHubIssue | null> {
+    async findIssueByTitlePrefix({ owner, repo, titlePrefix, token }: { owner: string; repo: string; titlePrefix: string; token: string }): Promise<Issue | null> {
         const q = [
             `repo:${owner}/${repo}`,
             `is:issue`,
@@ -44,44 +66,153 @@ export class GitHubApiService implements IGitHubService {
         return match ?? null;
     }
 
-    async createDailyIssue({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<GitHubIssue> {
+    /**
+     * Searches daily issues (open and closed) whose title date key falls within [from, to].
+     * Only the creation date is bounded from below: an issue is never created before its day
+     * (one day of slack because it is created in UTC while its title is a local date key),
+     * but imported or back-dated entries create it any time later. A single day is also
+     * searched by its title.
+     */
+    async searchDailyIssues({ owner, repo, from, to, labels, page, token }: { owner: string; repo: string; from: string; to: string; labels: string[]; page: number; token: string }): Promise<{ issues: Issue[]; hasMore: boolean }> {
+        const primaryLabel = labels.includes("thoughtlog") ? "thoughtlog" : labels[0];
+        const qParts = [
+            `repo:${owner}/${repo}`,
+            `is:issue`,
+            `created:>=${addDaysToDateKey(from, -1)}`,
+        ];
+        if (from === to) qParts.push(`in:title`, `"${from}"`);
+        if (primaryLabel) qParts.push(`label:${primaryLabel}`);
+        const q = qParts.join(" ");
+
+        const url = `https://api.github.com/search/issues?q=${encodeURIComponent(q)}&sort=created&order=asc&per_page=${SEARCH_PAGE_SIZE}&page=${page}`;
+        const result = await this.httpClient(url, { token }) as GitHubSearchResult;
+
+        const issues = (result?.items ?? []).filter((it) => isDailyIssueInRange(it, from, to));
+        const total = Math.min(result?.total_count ?? 0, SEARCH_RESULT_LIMIT);
+        return { issues, hasMore: page * SEARCH_PAGE_SIZE < total };
+    }
+
+    /**
+     * Searches daily issues whose comments contain the given text as a phrase, newest first.
+     * The text is always quoted so it cannot inject search qualifiers (e.g. another repo:).
+     */
+    async searchDailyIssuesByText({ owner, repo, text, labels, from, to, token }: { owner: string; repo: string; text: string; labels: string[]; from?: string; to?: string; token: string }): Promise<Issue[]> {
+        const primaryLabel = labels.includes("thoughtlog") ? "thoughtlog" : labels[0];
+        const phrase = text.replace(/"/g, " ").trim();
+        const qParts = [
+            `repo:${owner}/${repo}`,
+            `is:issue`,
+            `in:comments`,
+            `"${phrase}"`,
+        ];
+        if (from) {
+            qParts.push(`created:>=${addDaysToDateKey(from, -1)}`);
+        }
+        if (primaryLabel) qParts.push(`label:${primaryLabel}`);
+        const q = qParts.join(" ");
+
+        const url = `https://api.github.com/search/issues?q=${encodeURIComponent(q)}&sort=created&order=desc&per_page=${TEXT_SEARCH_PAGE_SIZE}`;
+        const result = await this.httpClient(url, { token }) as GitHubSearchResult;
+
+        return (result?.items ?? []).filter((it) => isDailyIssueInRange(it, from, to));
+    }
+
+    /** Returns every open daily issue whose title date key is strictly before dateKey. */
+    async searchOpenDailyIssuesBefore({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue[]> {
+        const primaryLabel = labels.includes("thoughtlog") ? "thoughtlog" : labels[0];
+        const qParts = [
+            `repo:${owner}/${repo}`,
+            `is:issue`,
+            `state:open`,
+        ];
+        if (primaryLabel) qParts.push(`label:${primaryLabel}`);
+        const q = qParts.join(" ");
+
+        const issues: Issue[] = [];
+        for (let page = 1; page * SEARCH_PAGE_SIZE <= SEARCH_RESULT_LIMIT; page++) {
+            const url = `https://api.github.com/search/issues?q=${encodeURIComponent(q)}&sort=created&order=asc&per_page=${SEARCH_PAGE_SIZE}&page=${page}`;
+            const result = await this.httpClient(url, { token }) as GitHubSearchResult;
+            const items = result?.items ?? [];
+            issues.push(...items.filter((it) => isDailyIssueInRange(it, undefined, addDaysToDateKey(dateKey, -1))));
+            if (page * SEARCH_PAGE_SIZE >= (result?.total_count ?? 0)) break;
+        }
+        return issues;
+    }
+
+    /**
+     * Returns the most recently closed daily issues, newest first. Issues are listed by update
+     * time, which is never before their close time, so pages are read until `limit` daily issues
+     * were closed no earlier than the last update seen: digest issues sharing the label and
+     * edited old days cannot push a recently finalized day out of the list.
+     */
+    async listRecentClosedDailyIssues({ owner, repo, labels, limit, token }: { owner: string; repo: string; labels: string[]; limit: number; token: string }): Promise<Issue[]> {
+        const primaryLabel = labels.includes("thoughtlog") ? "thoughtlog" : labels[0];
+        const issues: Issue[] = [];
+        for (let page = 1; page <= CLOSED_ISSUE_PAGE_LIMIT; page++) {
+            const params = new URLSearchParams({ state: "closed", sort: "updated", direction: "desc", per_page: String(SEARCH_PAGE_SIZE), page: String(page) });
+            if (primaryLabel) params.set("labels", primaryLabel);
+            const items = (await this.httpClient(`https://api.github.com/repos/${owner}/${repo}/issues?${params.toString()}`, { token }) as Issue[] | null) ?? [];
+            issues.push(...items.filter((issue) => isDailyIssueInRange(issue)));
+
+            const lastUpdate = items[items.length - 1]?.updated_at ?? "";
+            if (items.length < SEARCH_PAGE_SIZE || issues.filter((issue) => (issue.closed_at ?? "") >= lastUpdate).length >= limit) break;
+        }
+        return issues.sort(byClosedAtDesc).slice(0, limit);
+    }
+
+    async createDailyIssue({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue> {
         const body = `# ${dateKey}\n\n<!-- summary will be generated later -->\n`;
         return await this.httpClient(`https://api.github.com/repos/${owner}/${repo}/issues`, {
             method: "POST",
             token,
             body: { title: dateKey, body, labels },
-        }) as GitHubIssue;
+        }) as Issue;
     }
 
-    async addComment({ owner, repo, issueNumber, commentBody, token }: { owner: string; repo: string; issueNumber: number; commentBody: string; token: string }): Promise<GitHubComment> {
+    async createIssue({ owner, repo, title, body, labels, token }: { owner: string; repo: string; title: string; body: string; labels: string[]; token: string }): Promise<Issue> {
+        return await this.httpClient(`https://api.github.com/repos/${owner}/${repo}/issues`, {
+            method: "POST",
+            token,
+            body: { title, body, labels },
+        }) as Issue;
+    }
+
+    async addComment({ owner, repo, issueNumber, commentBody, token }: { owner: string; repo: string; issueNumber: number; commentBody: string; token: string }): Promise<IssueComment> {
         return await this.httpClient(
             `https://api.github.com/repos/${owner}/${repo}/issues/${issueNumber}/comments`,
             { method: "POST", token, body: { body: commentBody } },
-        ) as GitHubComment;
+        ) as IssueComment;
     }
 
-    async updateIssue({ owner, repo, issueNumber, title, body, token }: { owner: string; repo: string; issueNumber: number; title?: string; body: string; token: string }): Promise<GitHubIssue> {
+    async updateIssue({ owner, repo, issueNumber, title, body, token }: { owner: string; repo: string; issueNumber: number; title?: string; body: string; token: string }): Promise<Issue> {
         const patchBody: Record<string, unknown> = { body };
         if (title !== undefined) patchBody.title = title;
         return await this.httpClient(
             `https://api.github.com/repos/${owner}/${repo}/issues/${issueNumber}`,
             { method: "PATCH", token, body: patchBody },
-        ) as GitHubIssue;
+        ) as Issue;
     }
 
-    async closeIssue({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<GitHubIssue> {
+    async closeIssue({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue> {
         return await this.httpClient(
             `https://api.github.com/repos/${owner}/${repo}/issues/${issueNumber}`,
             { method: "PATCH", token, body: { state: "closed" } },
-        ) as GitHubIssue;
+        ) as Issue;
+    }
+
+    async addLabels({ owner, repo, issueNumber, labels, token }: { owner: string; repo: string; issueNumber: number; labels: string[]; token: string }): Promise<void> {
+        await this.httpClient(
+            `https://api.github.com/repos/${owner}/${repo}/issues/${issueNumber}/labels`,
+            { method: "POST", token, body: { labels } },
+        );
     }
 
-    async getIssueComments({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<GitHubComment[]> {
-        const comments: GitHubComment[] = [];
+    async getIssueComments({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<IssueComment[]> {
+        const comments: IssueComment[] = [];
         let page = 1;
         while (true) {
             const url = `https://api.github.com/repos/${owner}/${repo}/issues/${issueNumber}/comments?per_page=100&page=${page}`;
-            const batch = await this.httpClient(url, { token }) as GitHubComment[];
+            const batch = await this.httpClient(url, { token }) as IssueComment[];
             if (!batch || batch.length === 0) break;
             comments.push(...batch);
             if (batch.length < 100) break;
@@ -90,24 +221,31 @@ export class GitHubApiService implements IGitHubService {
         return comments;
     }
 
-    async getIssue({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<GitHubIssue> {
+    async getIssue({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue> {
         return await this.httpClient(
             `https://api.github.com/repos/${owner}/${repo}/issues/${issueNumber}`,
             { token },
-        ) as GitHubIssue;
+        ) as Issue;
     }
 
-    async getComment({ owner, repo, commentId, token }: { owner: string; repo: string; commentId: number; token: string }): Promise<GitHubComment> {
+    async getComment({ owner, repo, commentId, token }: { owner: string; repo: string; commentId: number; token: string }): Promise<IssueComment> {
         return await this.httpClient(
             `https://api.github.com/repos/${owner}/${repo}/issues/comments/${commentId}`,
             { token },
-        ) as GitHubComment;
+        ) as IssueComment;
     }
 
-    async updateComment({ owner, repo, commentId, body, token }: { owner: string; repo: string; commentId: number; body: string; token: string }): Promise<GitHubComment> {
+    async updateComment({ owner, repo, commentId, body, token }: { owner: string; repo: string; commentId: number; body: string; token: string }): Promise<IssueComment> {
         return await this.httpClient(
             `https://api.github.com/repos/${owner}/${repo}/issues/comments/${commentId}`,
             { method: "PATCH", token, body: { body } },
-        ) as GitHubComment;
+        ) as IssueComment;
+    }
+
+    async deleteComment({ owner, repo, commentId, token }: { owner: string; repo: string; commentId: number; token: string }): Promise<void> {
+        await this.httpClient(
+            `https://api.github.com/repos/${owner}/${repo}/issues/comments/${commentId}`,
+            { method: "DELETE", token },
+        );
     }
 }
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from "vitest";
+import { GitLabApiService } from "./gitlabService";
+import type { HttpClient } from "../utils/http";
+
+const owner = "group/sub";
+const repo = "logs";
+const token = "glpat";
+const baseUrl = "https://gitlab.example.com/";
+const PROJECT = "https://gitlab.example.com/api/v4/projects/group%2Fsub%2Flogs";
+
+function makeHttp(returnValue: unknown = {}): HttpClient {
+    return vi.fn().mockResolvedValue(returnValue);
+}
+
+function calledUrl(http: HttpClient, index = 0): string {
+    return (http as ReturnType<typeof vi.fn>).mock.calls[index][0] as string;
+}
+
+// ── issues ─────────────────────────────────────────────────────────────────────
+
+describe("GitLabApiService issues", () => {
+    it("maps GitLab issues onto the neutral shape", async () => {
+        const http = makeHttp([{ iid: 7, title: "2024-01-15", description: "body", state: "opened", web_url: "https://gitlab.example.com/group/sub/logs/-/issues/7" }]);
+        const svc = new GitLabApiService(http, baseUrl);
+
+        const result = await svc.findDailyIssue({ owner, repo, dateKey: "2024-01-15", labels: ["thoughtlog"], token });
+
+        expect(result).toEqual({
+            number: 7,
+            html_url: "https://gitlab.example.com/group/sub/logs/-/issues/7",
+            title: "2024-01-15",
+            body: "body",
+            state: "open",
+            created_at: undefined,
+            updated_at: undefined,
+            closed_at: null,
+        });
+        const url = new URL(calledUrl(http));
+        expect(url.origin + url.pathname).toBe(`${PROJECT}/issues`);
+        expect(url.searchParams.get("state")).toBe("opened");
+        expect(url.searchParams.get("search")).toBe("2024-01-15");
+        expect(url.searchParams.get("labels")).toBe("thoughtlog");
+    });
+
+    it("lists a date range created since the day before it and filters by title", async () => {
+        const http = makeHttp([{ iid: 1, title: "2024-01-31" }, { iid: 2, title: "2024-02-01 refined" }, { iid: 3, title: "digest" }]);
+        const svc = new GitLabApiService(http, baseUrl);
+
+        const result = await svc.searchDailyIssues({ owner, repo, from: "2024-02-01", to: "2024-02-29", labels: [], page: 2, token });
+
+        expect(result).toEqual({ issues: [expect.objectContaining({ number: 2 })], hasMore: false });
+        const params = new URL(calledUrl(http)).searchParams;
+        expect(params.get("created_after")).toBe("2024-01-31T00:00:00Z");
+        expect(params.get("created_before")).toBeNull();
+        expect(params.get("search")).toBeNull();
+        expect(params.get("page")).toBe("2");
+    });
+
+    it("finds a daily issue created long after its date and searches a single day by title", async () => {
+        const http = makeHttp([{ iid: 7, title: "2023-05-10", created_at: "2024-02-20T09:00:00Z" }]);
+        const svc = new GitLabApiService(http, baseUrl);
+
+        const result = await svc.searchDailyIssues({ owner, repo, from: "2023-05-10", to: "2023-05-10", labels: [], page: 1, token });
+
+        expect(result.issues).toEqual([expect.objectContaining({ number: 7 })]);
+        const params = new URL(calledUrl(http)).searchParams;
+        expect(params.get("created_after")).toBe("2023-05-09T00:00:00Z");
+        expect(params.get("search")).toBe("2023-05-10");
+        expect(params.get("in")).toBe("title");
+    });
+
+    it("reads closed issues page by page until enough recently closed days are found", async () => {
+        const firstPage = [
+            { iid: 1, title: "2023-06-01", closed_at: "2023-06-02T19:00:00Z", updated_at: "2024-01-20T10:00:00Z" },
+            ...Array.from({ length: 99 }, (_, i) => ({ iid: 100 + i, title: "weekly digest", closed_at: "2024-01-19T00:00:00Z", updated_at: "2024-01-19T00:00:00Z" })),
+        ];
+        const http = vi.fn()
+            .mockResolvedValueOnce(firstPage)
+            .mockResolvedValueOnce([{ iid: 2, title: "2024-01-15", closed_at: "2024-01-16T19:00:00Z", updated_at: "2024-01-16T19:00:00Z" }]);
+        const svc = new GitLabApiService(http, baseUrl);
+
+        const result = await svc.listRecentClosedDailyIssues({ owner, repo, labels: [], limit: 1, token });
+
+        expect(result.map((i) => i.number)).toEqual([2]);
+        expect(new URL(calledUrl(http, 1)).searchParams.get("page")).toBe("2");
+    });
+
+    it("creates issues with comma-separated label names", async () => {
+        const http = makeHttp({ iid: 3, title: "2024-01-15", state: "opened" });
+        const svc = new GitLabApiService(http, baseUrl);
+
+        await svc.createDailyIssue({ owner, repo, dateKey: "2024-01-15", labels: ["thoughtlog", "daily"], token });
+
+        expect(http).toHaveBeenCalledWith(`${PROJECT}/issues`, {
+            method: "POST",
+            token,
+            body: { title: "2024-01-15", description: "# 2024-01-15\n\n<!-- summary will be generated later -->\n", labels: "thoughtlog,daily" },
+        });
+    });
+
+    it("closes issues with a state event", async () => {
+        const http = makeHttp({ iid: 3, state: "closed" });
+        const svc = new GitLabApiService(http, baseUrl);
+
+        const result = await svc.closeIssue({ owner, repo, issueNumber: 3, token });
+
+        expect(result.state).toBe("closed");
+        expect(http).toHaveBeenCalledWith(`${PROJECT}/issues/3`, { method: "PUT", token, body: { state_event: "close" } });
+    });
+
+    it("adds labels without replacing the existing ones", async () => {
+        const http = makeHttp({ iid: 3 });
+        const svc = new GitLabApiService(http, baseUrl);
+
+        await svc.addLabels({ owner, repo, issueNumber: 3, labels: ["idea", "todo"], token });
+
+        expect(http).toHaveBeenCalledWith(`${PROJECT}/issues/3`, { method: "PUT", token, body: { add_labels: "idea,todo" } });
+    });
+});
+
+// ── notes ──────────────────────────────────────────────────────────────────────
+
+describe("GitLabApiService notes", () => {
+    it("encodes the issue iid into comment ids so notes can be addressed later", async () => {
+        const http = makeHttp({ id: 555, body: "## 09:00\nhi" });
+        const svc = new GitLabApiService(http, baseUrl);
+
+        const comment = await svc.addComment({ owner, repo, issueNumber: 12, commentBody: "## 09:00\nhi", token });
+
+        expect(comment).toEqual({ id: 120000000555, body: "## 09:00\nhi", issue_url: `${PROJECT}/issues/12` });
+
+        await svc.updateComment({ owner, repo, commentId: comment.id, body: "edited", token });
+        await svc.deleteComment({ owner, repo, commentId: comment.id, token });
+        expect(http).toHaveBeenCalledWith(`${PROJECT}/issues/12/notes/555`, { method: "PUT", token, body: { body: "edited" } });
+        expect(http).toHaveBeenCalledWith(`${PROJECT}/issues/12/notes/555`, { method: "DELETE", token });
+    });
+
+    it("skips system notes and pages through all notes", async () => {
+        const firstPage = Array.from({ length: 100 }, (_, i) => ({ id: i + 1, body: `note ${i + 1}`, system: i === 0 }));
+        const http = vi.fn()
+            .mockResolvedValueOnce(firstPage)
+            .mockResolvedValueOnce([{ id: 101, body: "last" }]);
+        const svc = new GitLabApiService(http, baseUrl);
+
+        const comments = await svc.getIssueComments({ owner, repo, issueNumber: 1, token });
+
+        expect(comments).toHaveLength(100);
+        expect(comments[0].body).toBe("note 2");
+        expect(comments[99]).toMatchObject({ id: 10000000101, body: "last" });
+        expect(http).toHaveBeenCalledTimes(2);
+    });
+
+    it("finds daily issues through a notes search", async () => {
+        const http = vi.fn()
+            .mockResolvedValueOnce([
+                { id: 1, noteable_type: "Issue", noteable_iid: 4 },
+                { id: 2, noteable_type: "Issue", noteable_iid: 4 },
+                { id: 3, noteable_type: "MergeRequest", noteable_iid: 9 },
+            ])
+            .mockResolvedValueOnce([{ iid: 4, title: "2024-01-15" }]);
+        const svc = new GitLabApiService(http, baseUrl);
+
+        const result = await svc.searchDailyIssuesByText({ owner, repo, text: "coffee", labels: ["thoughtlog"], token });
+
+        expect(result.map((i) => i.number)).toEqual([4]);
+        expect(new URL(calledUrl(http, 0)).searchParams.get("scope")).toBe("notes");
+        expect(new URL(calledUrl(http, 1)).searchParams.getAll("iids[]")).toEqual(["4"]);
+    });
+
+    it("does not look up issues when no note matches", async () => {
+        const http = makeHttp([]);
+        const svc = new GitLabApiService(http, baseUrl);
+
+        expect(await svc.searchDailyIssuesByText({ owner, repo, text: "none", labels: [], token })).toEqual([]);
+        expect(http).toHaveBeenCalledOnce();
+    });
+});
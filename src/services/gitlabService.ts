@@ -0,0 +1,254 @@
+import type { Issue, IssueComment } from "../types";
+import type { HttpClient } from "../utils/http";
+import { addDaysToDateKey } from "../utils/date";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+
+const PAGE_SIZE = 100;
+/** Number of notes inspected per full-text search; each matching issue costs a notes fetch downstream. */
+const TEXT_SEARCH_PAGE_SIZE = 30;
+/** Pages of closed issues read at most when looking for the recently closed daily issues. */
+const CLOSED_ISSUE_PAGE_LIMIT = 10;
+const DATE_KEY_PREFIX = /^(\d{4}-\d{2}-\d{2})(?:\s|$)/;
+/**
+ * GitLab can only address a note through its issue, so comment ids handed out by this service
+ * are "<issue iid><10-digit note id>". This keeps ids numeric and below 2^53 for iids up to 900,000.
+ */
+const COMMENT_ID_FACTOR = 10_000_000_000;
+
+interface GitLabIssue {
+    iid: number;
+    title?: string;
+    description?: string | null;
+    state?: string;
+    web_url?: string;
+    created_at?: string;
+    updated_at?: string;
+    closed_at?: string | null;
+}
+
+interface GitLabNote {
+    id: number;
+    body?: string;
+    system?: boolean;
+    noteable_type?: string;
+    noteable_iid?: number;
+}
+
+/** Returns true when the issue title starts with a date key inside the optional [from, to] range. */
+function isDailyIssueInRange(issue: Issue, from?: string, to?: string): boolean {
+    const match = (issue.title || "").trim().match(DATE_KEY_PREFIX);
+    if (!match) return false;
+    return (!from || match[1] >= from) && (!to || match[1] <= to);
+}
+
+/** Sort order of closed issues, most recently closed first. */
+function byClosedAtDesc(a: Issue, b: Issue): number {
+    return (b.closed_at ?? b.updated_at ?? "").localeCompare(a.closed_at ?? a.updated_at ?? "");
+}
+
+function toIssue(issue: GitLabIssue): Issue {
+    return {
+        number: issue.iid,
+        html_url: issue.web_url,
+        title: issue.title,
+        body: issue.description ?? "",
+        state: issue.state === "opened" ? "open" : issue.state,
+        created_at: issue.created_at,
+        updated_at: issue.updated_at,
+        closed_at: issue.closed_at ?? null,
+    };
+}
+
+function splitCommentId(commentId: number): { iid: number; noteId: number } {
+    return { iid: Math.floor(commentId / COMMENT_ID_FACTOR), noteId: commentId % COMMENT_ID_FACTOR };
+}
+
+/** GitLab REST API v4 implementation; owner/repo is the project's namespace and path. */
+export class GitLabApiService implements IIssueTrackerService {
+    constructor(
+        private readonly httpClient: HttpClient,
+        /** Instance URL, e.g. "https://gitlab.example.com". */
+        private readonly baseUrl: string,
+    ) {}
+
+    async findDailyIssue({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue | null> {
+        const issues = await this.listIssues(owner, repo, token, { state: "opened", search: dateKey, in: "title", per_page: "5" }, labels);
+        return issues.find((it) => (it.title || "").trim() === dateKey) ?? null;
+    }
+
+    async findIssueByTitlePrefix({ owner, repo, titlePrefix, token }: { owner: string; repo: string; titlePrefix: string; token: string }): Promise<Issue | null> {
+        const issues = await this.listIssues(owner, repo, token, { search: titlePrefix, in: "title", order_by: "updated_at", sort: "desc", per_page: "5" });
+        return issues.find((it) => (it.title || "").startsWith(titlePrefix)) ?? null;
+    }
+
+    /**
+     * Lists daily issues (open and closed) whose title date key falls within [from, to].
+     * As for GitHub, only the creation date is bounded from below, because imported or
+     * back-dated entries create a day's issue any time later; a single day is searched by title.
+     */
+    async searchDailyIssues({ owner, repo, from, to, labels, page, token }: { owner: string; repo: string; from: string; to: string; labels: string[]; page: number; token: string }): Promise<{ issues: Issue[]; hasMore: boolean }> {
+        const issues = await this.listIssues(owner, repo, token, {
+            created_after: `${addDaysToDateKey(from, -1)}T00:00:00Z`,
+            ...(from === to ? { search: from, in: "title" } : {}),
+            order_by: "created_at",
+            sort: "asc",
+            per_page: String(PAGE_SIZE),
+            page: String(page),
+        }, labels);
+        return { issues: issues.filter((it) => isDailyIssueInRange(it, from, to)), hasMore: issues.length === PAGE_SIZE };
+    }
+
+    /** Finds daily issues with a comment containing the text, via project search over notes, newest first. */
+    async searchDailyIssuesByText({ owner, repo, text, labels, from, to, token }: { owner: string; repo: string; text: string; labels: string[]; from?: string; to?: string; token: string }): Promise<Issue[]> {
+        const params = new URLSearchParams({ scope: "notes", search: text.trim(), per_page: String(TEXT_SEARCH_PAGE_SIZE) });
+        const notes = await this.httpClient(`${this.projectUrl(owner, repo)}/search?${params.toString()}`, { token }) as GitLabNote[];
+        const iids = [...new Set((notes ?? [])
+            .filter((note) => note.noteable_type === "Issue" && note.noteable_iid !== undefined)
+            .map((note) => note.noteable_iid!))];
+        if (iids.length === 0) return [];
+
+        const issues = await this.listIssues(owner, repo, token, { order_by: "created_at", sort: "desc", per_page: String(PAGE_SIZE) }, labels, iids);
+        return issues.filter((it) => isDailyIssueInRange(it, from, to));
+    }
+
+    /** Returns every open daily issue whose title date key is strictly before dateKey. */
+    async searchOpenDailyIssuesBefore({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue[]> {
+        const issues: Issue[] = [];
+        for (let page = 1; ; page++) {
+            const items = await this.listIssues(owner, repo, token, { state: "opened", order_by: "created_at", sort: "asc", per_page: String(PAGE_SIZE), page: String(page) }, labels);
+            issues.push(...items.filter((it) => isDailyIssueInRange(it, undefined, addDaysToDateKey(dateKey, -1))));
+            if (items.length < PAGE_SIZE) break;
+        }
+        return issues;
+    }
+
+    /**
+     * Returns the most recently closed daily issues, newest first. Issues are listed by update
+     * time, which is never before their close time, so pages are read until `limit` daily issues
+     * were closed no earlier than the last update seen: digest issues sharing the label and
+     * edited old days cannot push a recently finalized day out of the list.
+     */
+    async listRecentClosedDailyIssues({ owner, repo, labels, limit, token }: { owner: string; repo: string; labels: string[]; limit: number; token: string }): Promise<Issue[]> {
+        const issues: Issue[] = [];
+        for (let page = 1; page <= CLOSED_ISSUE_PAGE_LIMIT; page++) {
+            const items = await this.listIssues(owner, repo, token, { state: "closed", order_by: "updated_at", sort: "desc", per_page: String(PAGE_SIZE), page: String(page) }, labels);
+            issues.push(...items.filter((issue) => isDailyIssueInRange(issue)));
+
+            const lastUpdate = items[items.length - 1]?.updated_at ?? "";
+            if (items.length < PAGE_SIZE || issues.filter((issue) => (issue.closed_at ?? "") >= lastUpdate).length >= limit) break;
+        }
+        return issues.sort(byClosedAtDesc).slice(0, limit);
+    }
+
+    async createDailyIssue({ owner, repo, dateKey, labels, token }: { owner: string; repo: string; dateKey: string; labels: string[]; token: string }): Promise<Issue> {
+        const body = `# ${dateKey}\n\n<!-- summary will be generated later -->\n`;
+        return this.createIssue({ owner, repo, title: dateKey, body, labels, token });
+    }
+
+    async createIssue({ owner, repo, title, body, labels, token }: { owner: string; repo: string; title: string; body: string; labels: string[]; token: string }): Promise<Issue> {
+        // GitLab creates labels that do not exist yet.
+        const issue = await this.httpClient(`${this.projectUrl(owner, repo)}/issues`, {
+            method: "POST",
+            token,
+            body: { title, description: body, labels: labels.join(",") },
+        }) as GitLabIssue;
+        return toIssue(issue);
+    }
+
+    async addComment({ owner, repo, issueNumber, commentBody, token }: { owner: string; repo: string; issueNumber: number; commentBody: string; token: string }): Promise<IssueComment> {
+        const note = await this.httpClient(`${this.projectUrl(owner, repo)}/issues/${issueNumber}/notes`, {
+            method: "POST",
+            token,
+            body: { body: commentBody },
+        }) as GitLabNote;
+        return this.toComment(owner, repo, issueNumber, note);
+    }
+
+    async updateIssue({ owner, repo, issueNumber, title, body, token }: { owner: string; repo: string; issueNumber: number; title?: string; body: string; token: string }): Promise<Issue> {
+        const issue = await this.httpClient(`${this.projectUrl(owner, repo)}/issues/${issueNumber}`, {
+            method: "PUT",
+            token,
+            body: title ? { title, description: body } : { description: body },
+        }) as GitLabIssue;
+        return toIssue(issue);
+    }
+
+    async closeIssue({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue> {
+        const issue = await this.httpClient(`${this.projectUrl(owner, repo)}/issues/${issueNumber}`, {
+            method: "PUT",
+            token,
+            body: { state_event: "close" },
+        }) as GitLabIssue;
+        return toIssue(issue);
+    }
+
+    async addLabels({ owner, repo, issueNumber, labels, token }: { owner: string; repo: string; issueNumber: number; labels: string[]; token: string }): Promise<void> {
+        await this.httpClient(`${this.projectUrl(owner, repo)}/issues/${issueNumber}`, {
+            method: "PUT",
+            token,
+            body: { add_labels: labels.join(",") },
+        });
+    }
+
+    /** Returns the user notes of an issue in creation order; system notes (label changes etc.) are skipped. */
+    async getIssueComments({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<IssueComment[]> {
+        const comments: IssueComment[] = [];
+        for (let page = 1; ; page++) {
+            const params = new URLSearchParams({ order_by: "created_at", sort: "asc", per_page: String(PAGE_SIZE), page: String(page) });
+            const notes = await this.httpClient(`${this.projectUrl(owner, repo)}/issues/${issueNumber}/notes?${params.toString()}`, { token }) as GitLabNote[];
+            comments.push(...(notes ?? []).filter((note) => !note.system).map((note) => this.toComment(owner, repo, issueNumber, note)));
+            if ((notes ?? []).length < PAGE_SIZE) break;
+        }
+        return comments;
+    }
+
+    async getIssue({ owner, repo, issueNumber, token }: { owner: string; repo: string; issueNumber: number; token: string }): Promise<Issue> {
+        const issue = await this.httpClient(`${this.projectUrl(owner, repo)}/issues/${issueNumber}`, { token }) as GitLabIssue;
+        return toIssue(issue);
+    }
+
+    async getComment({ owner, repo, commentId, token }: { owner: string; repo: string; commentId: number; token: string }): Promise<IssueComment> {
+        const { iid, noteId } = splitCommentId(commentId);
+        const note = await this.httpClient(`${this.projectUrl(owner, repo)}/issues/${iid}/notes/${noteId}`, { token }) as GitLabNote;
+        return this.toComment(owner, repo, iid, note);
+    }
+
+    async updateComment({ owner, repo, commentId, body, token }: { owner: string; repo: string; commentId: number; body: string; token: string }): Promise<IssueComment> {
+        const { iid, noteId } = splitCommentId(commentId);
+        const note = await this.httpClient(`${this.projectUrl(owner, repo)}/issues/${iid}/notes/${noteId}`, {
+            method: "PUT",
+            token,
+            body: { body },
+        }) as GitLabNote;
+        return this.toComment(owner, repo, iid, note);
+    }
+
+    async deleteComment({ owner, repo, commentId, token }: { owner: string; repo: string; commentId: number; token: string }): Promise<void> {
+        const { iid, noteId } = splitCommentId(commentId);
+        await this.httpClient(`${this.projectUrl(owner, repo)}/issues/${iid}/notes/${noteId}`, { method: "DELETE", token });
+    }
+
+    private projectUrl(owner: string, repo: string): string {
+        return `${this.baseUrl.replace(/\/+$/, "")}/api/v4/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+    }
+
+    private async listIssues(
+        owner: string,
+        repo: string,
+        token: string,
+        query: Record<string, string>,
+        labels: string[] = [],
+        iids: number[] = [],
+    ): Promise<Issue[]> {
+        const params = new URLSearchParams(query);
+        const primaryLabel = labels.includes("thoughtlog") ? "thoughtlog" : labels[0];
+        if (primaryLabel) params.set("labels", primaryLabel);
+        for (const iid of iids) params.append("iids[]", String(iid));
+        const issues = await this.httpClient(`${this.projectUrl(owner, repo)}/issues?${params.toString()}`, { token }) as GitLabIssue[];
+        return (issues ?? []).map(toIssue);
+    }
+
+    private toComment(owner: string, repo: string, iid: number, note: GitLabNote): IssueComment {
+        return { id: iid * COMMENT_ID_FACTOR + note.id, body: note.body, issue_url: `${this.projectUrl(owner, repo)}/issues/${iid}` };
+    }
+}
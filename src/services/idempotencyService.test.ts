@@ -221,3 +221,70 @@ describe("DynamoDBIdempotencyService.putIssueTitleCache", () => {
         expect(command.input.Item.issue_number).toBe(42);
     });
 });
+
+// ── getItem ───────────────────────────────────────────────────────────────────
+
+describe("DynamoDBIdempotencyService.getItem", () => {
+    it("returns null when tableName is undefined", async () => {
+        const send = vi.fn();
+        const svc = new DynamoDBIdempotencyService(makeDdb(send), undefined);
+        expect(await svc.getItem("r1")).toBeNull();
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it("returns the stored item", async () => {
+        const item = { request_id: "r1", status: "failed", error: "boom" };
+        const svc = new DynamoDBIdempotencyService(makeDdb(vi.fn().mockResolvedValue({ Item: item })), "my-table");
+        expect(await svc.getItem("r1")).toEqual(item);
+    });
+
+    it("returns null when no item exists", async () => {
+        const svc = new DynamoDBIdempotencyService(makeDdb(vi.fn().mockResolvedValue({})), "my-table");
+        expect(await svc.getItem("r1")).toBeNull();
+    });
+});
+
+// ── key prefix ────────────────────────────────────────────────────────────────
+
+describe("DynamoDBIdempotencyService – key prefix", () => {
+    it("prefixes request IDs and cached titles", async () => {
+        const send = vi.fn().mockResolvedValue({});
+        const svc = new DynamoDBIdempotencyService(makeDdb(send as SendFn), "my-table", 14, "alice#");
+        await svc.claim("r1", "hash");
+        await svc.putIssueTitleCache("2024-01-15", 42);
+        expect(send.mock.calls[0][0].input.Item.request_id).toBe("alice#r1");
+        expect(send.mock.calls[1][0].input.Item.request_id).toBe("alice#2024-01-15");
+    });
+
+    it("returns the stored item under the unprefixed request ID", async () => {
+        const send = vi.fn().mockResolvedValue({ Item: { request_id: "alice#r1", status: "done" } });
+        const svc = new DynamoDBIdempotencyService(makeDdb(send as SendFn), "my-table", 14, "alice#");
+        expect(await svc.getItem("r1")).toEqual({ request_id: "r1", status: "done" });
+        expect(send.mock.calls[0][0].input.Key).toEqual({ request_id: "alice#r1" });
+    });
+});
+
+// ── release ───────────────────────────────────────────────────────────────────
+
+describe("DynamoDBIdempotencyService.release", () => {
+    it("deletes the record under the prefixed key", async () => {
+        const send = vi.fn().mockResolvedValue({});
+        const svc = new DynamoDBIdempotencyService(makeDdb(send as SendFn), "my-table", 14, "alice#");
+        await svc.release("r1");
+        expect(send).toHaveBeenCalledOnce();
+        expect(send.mock.calls[0][0].input).toEqual({ TableName: "my-table", Key: { request_id: "alice#r1" } });
+    });
+
+    it("is a no-op when tableName is undefined", async () => {
+        const send = vi.fn();
+        const svc = new DynamoDBIdempotencyService(makeDdb(send as SendFn), undefined);
+        await svc.release("r1");
+        expect(send).not.toHaveBeenCalled();
+    });
+
+    it("swallows errors thrown during release", async () => {
+        const send = vi.fn().mockRejectedValue(new Error("ddb error"));
+        const svc = new DynamoDBIdempotencyService(makeDdb(send as SendFn), "my-table");
+        await expect(svc.release("r1")).resolves.toBeUndefined();
+    });
+});
@@ -3,6 +3,7 @@ import {
     PutCommand,
     GetCommand,
     UpdateCommand,
+    DeleteCommand,
 } from "@aws-sdk/lib-dynamodb";
 import type { IdempotencyItem, IdempotencyResult } from "../types";
 import { nowEpoch } from "../utils/date";
@@ -10,14 +11,23 @@ import type { IIdempotencyService } from "../interfaces/IIdempotencyService";
 
 export type { IIdempotencyService };
 
-/** DynamoDB-backed idempotency store. When tableName is undefined, idempotency is disabled. */
+/**
+ * DynamoDB-backed idempotency store. When tableName is undefined, idempotency is disabled.
+ * Every key is stored with keyPrefix in front, so tenants sharing the table (prefix "<tenant>#")
+ * can reuse request IDs and never see each other's cached issue titles.
+ */
 export class DynamoDBIdempotencyService implements IIdempotencyService {
     constructor(
         private readonly ddb: DynamoDBDocumentClient,
         private readonly tableName: string | undefined,
         private readonly ttlDays: number = 14,
+        private readonly keyPrefix: string = "",
     ) {}
 
+    private key(id: string): string {
+        return `${this.keyPrefix}${id}`;
+    }
+
     async claim(requestId: string, payloadHash: string): Promise<IdempotencyResult> {
         if (!this.tableName) return { enabled: false, claimed: true };
 
@@ -27,7 +37,7 @@ export class DynamoDBIdempotencyService implements IIdempotencyService {
             await this.ddb.send(new PutCommand({
                 TableName: this.tableName,
                 Item: {
-                    request_id: requestId,
+                    request_id: this.key(requestId),
                     status: "processing",
                     payload_hash: payloadHash,
                     created_at: nowEpoch(),
@@ -41,7 +51,7 @@ export class DynamoDBIdempotencyService implements IIdempotencyService {
 
             const existing = await this.ddb.send(new GetCommand({
                 TableName: this.tableName,
-                Key: { request_id: requestId },
+                Key: { request_id: this.key(requestId) },
             }));
 
             const item = existing.Item as IdempotencyItem | undefined;
@@ -75,7 +85,7 @@ export class DynamoDBIdempotencyService implements IIdempotencyService {
 
         await this.ddb.send(new UpdateCommand({
             TableName: this.tableName,
-            Key: { request_id: requestId },
+            Key: { request_id: this.key(requestId) },
             UpdateExpression: "SET #s = :done, issue_number = :n, issue_url = :u, comment_id = :c",
             ExpressionAttributeNames: { "#s": "status" },
             ExpressionAttributeValues: {
@@ -93,7 +103,7 @@ export class DynamoDBIdempotencyService implements IIdempotencyService {
         try {
             await this.ddb.send(new UpdateCommand({
                 TableName: this.tableName,
-                Key: { request_id: requestId },
+                Key: { request_id: this.key(requestId) },
                 UpdateExpression: "SET #s = :fail, error = :err",
                 ExpressionAttributeNames: { "#s": "status" },
                 ExpressionAttributeValues: {
@@ -106,13 +116,37 @@ export class DynamoDBIdempotencyService implements IIdempotencyService {
         }
     }
 
+    async release(requestId: string): Promise<void> {
+        if (!this.tableName) return;
+
+        try {
+            await this.ddb.send(new DeleteCommand({
+                TableName: this.tableName,
+                Key: { request_id: this.key(requestId) },
+            }));
+        } catch {
+            // Like markFailed, best-effort so the original failure is the one reported
+        }
+    }
+
+    async getItem(requestId: string): Promise<IdempotencyItem | null> {
+        if (!this.tableName) return null;
+
+        const result = await this.ddb.send(new GetCommand({
+            TableName: this.tableName,
+            Key: { request_id: this.key(requestId) },
+        }));
+        const item = result.Item as IdempotencyItem | undefined;
+        return item ? { ...item, request_id: requestId } : null;
+    }
+
     async getIssueNumberByTitle(title: string): Promise<number | null> {
         if (!this.tableName) return null;
 
         // DynamoDB GetCommand fetches by primary key only; status is validated after retrieval.
         const result = await this.ddb.send(new GetCommand({
             TableName: this.tableName,
-            Key: { request_id: title },
+            Key: { request_id: this.key(title) },
         }));
 
         const item = result.Item;
@@ -130,7 +164,7 @@ export class DynamoDBIdempotencyService implements IIdempotencyService {
         await this.ddb.send(new PutCommand({
             TableName: this.tableName,
             Item: {
-                request_id: title,
+                request_id: this.key(title),
                 status: "issue_cache",
                 issue_number: issueNumber,
                 ttl,
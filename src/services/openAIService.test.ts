@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { OpenAITextRefinerService } from "./openAIService";
+import { OpenAITextRefinerService, AzureOpenAITextRefinerService, OpenAICompatibleTextRefinerService } from "./openAIService";
 import type { ISecretProvider } from "../interfaces/ISecretProvider";
 import type { HttpClient } from "../utils/http";
 
@@ -9,6 +9,10 @@ function makeSecretProvider(apiKey = API_KEY): ISecretProvider {
     return {
         getPrivateKeyPem: vi.fn().mockResolvedValue("pem"),
         getOpenAiApiKey: vi.fn().mockResolvedValue(apiKey),
+        getAzureOpenAiApiKey: vi.fn().mockResolvedValue("azure-key"),
+        getAnthropicApiKey: vi.fn(),
+        getLocalLlmApiKey: vi.fn().mockResolvedValue(""),
+        getIssueTrackerToken: vi.fn(),
     };
 }
 
@@ -92,3 +96,70 @@ describe("OpenAITextRefinerService", () => {
         );
     });
 });
+
+describe("OpenAITextRefinerService.refineStructured", () => {
+    it("requests a strict JSON schema response format", async () => {
+        const http = makeHttpClient({ choices: [{ message: { content: '{"title":"t"}' } }] });
+        const service = new OpenAITextRefinerService(makeSecretProvider(), http, "gpt-4o-mini", "prompt");
+        const schema = { type: "object", properties: { title: { type: "string" } }, required: ["title"], additionalProperties: false };
+
+        expect(await service.refineStructured("raw", { name: "finalize_result", schema })).toBe('{"title":"t"}');
+        expect(http).toHaveBeenCalledWith("https://api.openai.com/v1/chat/completions", expect.objectContaining({
+            body: expect.objectContaining({
+                response_format: { type: "json_schema", json_schema: { name: "finalize_result", schema, strict: true } },
+            }),
+        }));
+    });
+
+    it("omits response_format for plain refinement", async () => {
+        const http = makeHttpClient({ choices: [{ message: { content: "refined" } }] });
+        const service = new OpenAITextRefinerService(makeSecretProvider(), http);
+
+        await service.refine("raw");
+
+        const body = (http as ReturnType<typeof vi.fn>).mock.calls[0][1].body as Record<string, unknown>;
+        expect(body).not.toHaveProperty("response_format");
+    });
+});
+
+describe("AzureOpenAITextRefinerService", () => {
+    it("posts to the deployment endpoint without a model field", async () => {
+        const http = makeHttpClient({ choices: [{ message: { content: "refined" } }] });
+        const provider = makeSecretProvider();
+        const service = new AzureOpenAITextRefinerService(provider, http, "https://res.openai.azure.com/", "gpt4o-deploy", "prompt");
+
+        expect(await service.refine("raw")).toBe("refined");
+        expect(provider.getAzureOpenAiApiKey).toHaveBeenCalledOnce();
+        expect(http).toHaveBeenCalledWith(
+            "https://res.openai.azure.com/openai/deployments/gpt4o-deploy/chat/completions?api-version=2024-10-21",
+            {
+                method: "POST",
+                token: "azure-key",
+                body: { messages: [{ role: "system", content: "prompt" }, { role: "user", content: "raw" }] },
+            },
+        );
+    });
+
+    it("uses the configured API version", async () => {
+        const http = makeHttpClient({ choices: [{ message: { content: "refined" } }] });
+        const service = new AzureOpenAITextRefinerService(makeSecretProvider(), http, "https://res.openai.azure.com", "d", "prompt", "2025-01-01-preview");
+
+        await service.refine("raw");
+
+        expect((http as ReturnType<typeof vi.fn>).mock.calls[0][0]).toMatch(/api-version=2025-01-01-preview$/);
+    });
+});
+
+describe("OpenAICompatibleTextRefinerService", () => {
+    it("posts to the base URL and omits the token when no key is configured", async () => {
+        const http = makeHttpClient({ choices: [{ message: { content: "refined" } }] });
+        const service = new OpenAICompatibleTextRefinerService(makeSecretProvider(), http, "http://localhost:11434/v1/", "llama3.1", "prompt");
+
+        expect(await service.refine("raw")).toBe("refined");
+        expect(http).toHaveBeenCalledWith("http://localhost:11434/v1/chat/completions", {
+            method: "POST",
+            token: undefined,
+            body: { model: "llama3.1", messages: [{ role: "system", content: "prompt" }, { role: "user", content: "raw" }] },
+        });
+    });
+});
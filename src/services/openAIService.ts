@@ -1,11 +1,14 @@
 import type { HttpClient } from "../utils/http";
 import type { ISecretProvider } from "../interfaces/ISecretProvider";
 import type { ITextRefinerService } from "../interfaces/ITextRefinerService";
+import type { StructuredOutputSchema } from "../types";
 
 export type { ITextRefinerService };
 
 const DEFAULT_MODEL = "gpt-4o-mini";
-const DEFAULT_SYSTEM_PROMPT = "与えられた音声テキストを清書してください。意味を変えずに、読みやすく整形してください。";
+const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+/** Voice-transcript clean-up prompt shared by every refiner when none is configured. */
+export const DEFAULT_SYSTEM_PROMPT = "与えられた音声テキストを清書してください。意味を変えずに、読みやすく整形してください。";
 
 interface OpenAIChatResponse {
     choices: Array<{
@@ -15,6 +18,37 @@ interface OpenAIChatResponse {
     }>;
 }
 
+/** Builds a Chat Completions request body; Azure and OpenAI-compatible servers accept the same shape. */
+function chatRequestBody(
+    model: string | undefined,
+    systemPrompt: string,
+    text: string,
+    schema?: StructuredOutputSchema,
+): Record<string, unknown> {
+    return {
+        ...(model ? { model } : {}),
+        messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: text },
+        ],
+        ...(schema
+            ? { response_format: { type: "json_schema", json_schema: { name: schema.name, schema: schema.schema, strict: true } } }
+            : {}),
+    };
+}
+
+/** Returns the first choice's content of a Chat Completions response. */
+function chatContent(apiName: string, data: OpenAIChatResponse): string {
+    if (!data.choices || data.choices.length === 0) {
+        throw new Error(`${apiName} API returned no choices`);
+    }
+    const content = data.choices[0].message?.content;
+    if (!content) {
+        throw new Error(`${apiName} API returned empty content`);
+    }
+    return content;
+}
+
 /** Refines text using the OpenAI Chat Completions API. */
 export class OpenAITextRefinerService implements ITextRefinerService {
     private readonly model: string;
@@ -31,27 +65,97 @@ export class OpenAITextRefinerService implements ITextRefinerService {
     }
 
     async refine(text: string): Promise<string> {
+        return this.complete(text);
+    }
+
+    async refineStructured(text: string, schema: StructuredOutputSchema): Promise<string> {
+        return this.complete(text, schema);
+    }
+
+    private async complete(text: string, schema?: StructuredOutputSchema): Promise<string> {
         const apiKey = await this.secretProvider.getOpenAiApiKey();
 
         const data = await this.httpClient("https://api.openai.com/v1/chat/completions", {
             method: "POST",
             token: apiKey,
-            body: {
-                model: this.model,
-                messages: [
-                    { role: "system", content: this.systemPrompt },
-                    { role: "user", content: text },
-                ],
-            },
+            body: chatRequestBody(this.model, this.systemPrompt, text, schema),
+        }) as OpenAIChatResponse;
+
+        return chatContent("OpenAI", data);
+    }
+}
+
+/** Refines text using a Chat Completions deployment on Azure OpenAI. */
+export class AzureOpenAITextRefinerService implements ITextRefinerService {
+    private readonly systemPrompt: string;
+
+    constructor(
+        private readonly secretProvider: ISecretProvider,
+        private readonly httpClient: HttpClient,
+        /** Resource endpoint, e.g. "https://my-resource.openai.azure.com". */
+        private readonly endpoint: string,
+        /** Deployment name; Azure selects the model by deployment rather than by a model field. */
+        private readonly deployment: string,
+        systemPrompt?: string,
+        private readonly apiVersion: string = DEFAULT_AZURE_API_VERSION,
+    ) {
+        this.systemPrompt = systemPrompt ?? DEFAULT_SYSTEM_PROMPT;
+    }
+
+    async refine(text: string): Promise<string> {
+        return this.complete(text);
+    }
+
+    async refineStructured(text: string, schema: StructuredOutputSchema): Promise<string> {
+        return this.complete(text, schema);
+    }
+
+    private async complete(text: string, schema?: StructuredOutputSchema): Promise<string> {
+        const apiKey = await this.secretProvider.getAzureOpenAiApiKey();
+        const url = `${this.endpoint.replace(/\/+$/, "")}/openai/deployments/${encodeURIComponent(this.deployment)}/chat/completions?api-version=${encodeURIComponent(this.apiVersion)}`;
+
+        const data = await this.httpClient(url, {
+            method: "POST",
+            token: apiKey,
+            body: chatRequestBody(undefined, this.systemPrompt, text, schema),
+        }) as OpenAIChatResponse;
+
+        return chatContent("Azure OpenAI", data);
+    }
+}
+
+/** Refines text using an OpenAI-compatible server such as Ollama or the llama.cpp server. */
+export class OpenAICompatibleTextRefinerService implements ITextRefinerService {
+    private readonly systemPrompt: string;
+
+    constructor(
+        private readonly secretProvider: ISecretProvider,
+        private readonly httpClient: HttpClient,
+        /** Base URL including the API prefix, e.g. "http://localhost:11434/v1". */
+        private readonly baseUrl: string,
+        private readonly model: string,
+        systemPrompt?: string,
+    ) {
+        this.systemPrompt = systemPrompt ?? DEFAULT_SYSTEM_PROMPT;
+    }
+
+    async refine(text: string): Promise<string> {
+        return this.complete(text);
+    }
+
+    async refineStructured(text: string, schema: StructuredOutputSchema): Promise<string> {
+        return this.complete(text, schema);
+    }
+
+    private async complete(text: string, schema?: StructuredOutputSchema): Promise<string> {
+        const apiKey = await this.secretProvider.getLocalLlmApiKey();
+
+        const data = await this.httpClient(`${this.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+            method: "POST",
+            token: apiKey || undefined,
+            body: chatRequestBody(this.model, this.systemPrompt, text, schema),
         }) as OpenAIChatResponse;
 
-        if (!data.choices || data.choices.length === 0) {
-            throw new Error("OpenAI API returned no choices");
-        }
-        const content = data.choices[0].message?.content;
-        if (!content) {
-            throw new Error("OpenAI API returned empty content");
-        }
-        return content;
+        return chatContent("OpenAI-compatible", data);
     }
 }
@@ -0,0 +1,188 @@
+import crypto from "crypto";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { RequestAuthenticator, getCanonicalQueryString, getStringToSign, signRequest } from "./requestAuthenticator";
+import type { IApiKeyStore } from "../interfaces/IApiKeyStore";
+import type { IHttpRequest } from "../interfaces/IHttpRequest";
+import type { ApiKey } from "../types";
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+const API_KEY = "k1.s3cret";
+
+const key: ApiKey = {
+    keyId: "k1",
+    keyHash: crypto.createHash("sha256").update(API_KEY).digest("hex"),
+    hmacSecret: "hmac-secret",
+    scopes: ["write:entries"],
+    tenantId: "alice",
+};
+
+function makeStore(overrides: Partial<IApiKeyStore> = {}): IApiKeyStore {
+    return {
+        getKey: vi.fn().mockResolvedValue(key),
+        claimSignature: vi.fn().mockResolvedValue(true),
+        ...overrides,
+    };
+}
+
+function makeRequest(headers: Record<string, string> = {}, claims: Record<string, unknown> | null = null): IHttpRequest {
+    return {
+        getMethod: vi.fn().mockReturnValue("POST"),
+        getRawPath: vi.fn().mockReturnValue("/"),
+        getQueryParam: vi.fn().mockReturnValue(null),
+        getQueryParams: vi.fn().mockReturnValue({}),
+        getDateParam: vi.fn().mockReturnValue(null),
+        getSubResource: vi.fn().mockReturnValue(null),
+        getPayload: vi.fn().mockReturnValue({}),
+        getRawBody: vi.fn().mockReturnValue('{"raw":"hello"}'),
+        getHeader: vi.fn((name: string) => headers[name] ?? null),
+        getJwtClaims: vi.fn().mockReturnValue(claims),
+    };
+}
+
+const NOW = 1700000000;
+
+function signedHeaders(timestamp = String(NOW), secret = "hmac-secret"): Record<string, string> {
+    return {
+        "x-thoughtlog-key-id": "k1",
+        "x-thoughtlog-timestamp": timestamp,
+        "x-thoughtlog-signature": signRequest(secret, timestamp, "POST", "/", {}, '{"raw":"hello"}'),
+    };
+}
+
+// ── signing ───────────────────────────────────────────────────────────────────
+
+describe("getStringToSign", () => {
+    it("joins timestamp, method, path, query string and body hash with newlines", () => {
+        const bodyHash = crypto.createHash("sha256").update("{}").digest("hex");
+        expect(getStringToSign("1700000000", "post", "/log", {}, "{}")).toBe(`1700000000\nPOST\n/log\n\n${bodyHash}`);
+        expect(getStringToSign("1700000000", "get", "/log", { q: "x" }, "")).toMatch(/^1700000000\nGET\n\/log\nq=x\n/);
+    });
+});
+
+describe("getCanonicalQueryString", () => {
+    it("sorts the parameters by name and encodes names and values", () => {
+        expect(getCanonicalQueryString({ to: "2024-01-31", from: "2024-01-01", q: "a b&c=d" }))
+            .toBe("from=2024-01-01&q=a%20b%26c%3Dd&to=2024-01-31");
+    });
+
+    it("is empty without parameters", () => {
+        expect(getCanonicalQueryString({})).toBe("");
+    });
+});
+
+// ── JWT and API keys ──────────────────────────────────────────────────────────
+
+describe("RequestAuthenticator – JWT and API keys", () => {
+    it("grants every scope to requests that passed the JWT authorizer", async () => {
+        const store = makeStore();
+        const outcome = await new RequestAuthenticator(store).authenticate(makeRequest({}, { sub: "alice" }));
+
+        expect(outcome).toEqual({ kind: "authenticated", method: "jwt", scopes: ["write:entries", "read:logs", "finalize"] });
+        expect(store.getKey).not.toHaveBeenCalled();
+    });
+
+    it("accepts an API key whose hash matches", async () => {
+        const store = makeStore();
+        const outcome = await new RequestAuthenticator(store).authenticate(makeRequest({ "x-api-key": API_KEY }));
+
+        expect(outcome).toEqual({ kind: "authenticated", method: "api_key", scopes: ["write:entries"], keyId: "k1", tenantId: "alice" });
+        expect(store.getKey).toHaveBeenCalledWith("k1");
+    });
+
+    it("rejects a wrong, malformed or unknown API key", async () => {
+        const authenticator = new RequestAuthenticator(makeStore({ getKey: vi.fn().mockImplementation(async (id: string) => (id === "k1" ? key : null)) }));
+
+        expect(await authenticator.authenticate(makeRequest({ "x-api-key": "k1.wrong" }))).toEqual({ kind: "unauthenticated", error: "invalid_api_key" });
+        expect(await authenticator.authenticate(makeRequest({ "x-api-key": "no-dot" }))).toEqual({ kind: "unauthenticated", error: "invalid_api_key" });
+        expect(await authenticator.authenticate(makeRequest({ "x-api-key": "k9.s3cret" }))).toEqual({ kind: "unauthenticated", error: "invalid_api_key" });
+    });
+
+    it("rejects requests without credentials", async () => {
+        const outcome = await new RequestAuthenticator(makeStore()).authenticate(makeRequest());
+        expect(outcome).toEqual({ kind: "unauthenticated", error: "missing_credentials" });
+    });
+});
+
+// ── HMAC ──────────────────────────────────────────────────────────────────────
+
+describe("RequestAuthenticator – HMAC-signed requests", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("accepts a fresh signature and records it until the window closes", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(NOW * 1000));
+        const store = makeStore();
+        const headers = signedHeaders();
+
+        const outcome = await new RequestAuthenticator(store).authenticate(makeRequest(headers));
+
+        expect(outcome).toEqual({ kind: "authenticated", method: "hmac", scopes: ["write:entries"], keyId: "k1", tenantId: "alice" });
+        expect(store.claimSignature).toHaveBeenCalledWith("k1", headers["x-thoughtlog-signature"], NOW + 300);
+    });
+
+    it("rejects a replayed signature", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(NOW * 1000));
+        const store = makeStore({ claimSignature: vi.fn().mockResolvedValue(false) });
+
+        const outcome = await new RequestAuthenticator(store).authenticate(makeRequest(signedHeaders()));
+
+        expect(outcome).toEqual({ kind: "unauthenticated", error: "replayed_request" });
+    });
+
+    it("rejects timestamps outside the allowed clock skew without looking up the key", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date((NOW + 301) * 1000));
+        const store = makeStore();
+
+        const outcome = await new RequestAuthenticator(store).authenticate(makeRequest(signedHeaders()));
+
+        expect(outcome).toEqual({ kind: "unauthenticated", error: "stale_timestamp" });
+        expect(store.getKey).not.toHaveBeenCalled();
+    });
+
+    it("rejects a signature made with another secret or over another body", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(NOW * 1000));
+        const store = makeStore();
+        const authenticator = new RequestAuthenticator(store);
+
+        expect(await authenticator.authenticate(makeRequest(signedHeaders(String(NOW), "other")))).toEqual({ kind: "unauthenticated", error: "invalid_signature" });
+        const tampered = makeRequest(signedHeaders());
+        vi.mocked(tampered.getRawBody).mockReturnValue('{"raw":"changed"}');
+        expect(await authenticator.authenticate(tampered)).toEqual({ kind: "unauthenticated", error: "invalid_signature" });
+        expect(store.claimSignature).not.toHaveBeenCalled();
+    });
+
+    it("accepts a signature over the query string and rejects it when the query changes", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(NOW * 1000));
+        const authenticator = new RequestAuthenticator(makeStore());
+        const query = { from: "2024-01-01", to: "2024-01-31" };
+        const headers = {
+            ...signedHeaders(),
+            "x-thoughtlog-signature": signRequest("hmac-secret", String(NOW), "POST", "/", query, '{"raw":"hello"}'),
+        };
+
+        const signed = makeRequest(headers);
+        vi.mocked(signed.getQueryParams).mockReturnValue({ to: "2024-01-31", from: "2024-01-01" });
+        expect(await authenticator.authenticate(signed)).toMatchObject({ kind: "authenticated", method: "hmac" });
+
+        const tampered = makeRequest(headers);
+        vi.mocked(tampered.getQueryParams).mockReturnValue({ ...query, to: "2099-12-31" });
+        expect(await authenticator.authenticate(tampered)).toEqual({ kind: "unauthenticated", error: "invalid_signature" });
+    });
+
+    it("rejects keys without an HMAC secret and malformed headers", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(NOW * 1000));
+        const authenticator = new RequestAuthenticator(makeStore({ getKey: vi.fn().mockResolvedValue({ ...key, hmacSecret: undefined }) }));
+
+        expect(await authenticator.authenticate(makeRequest(signedHeaders()))).toEqual({ kind: "unauthenticated", error: "invalid_signature" });
+        expect(await authenticator.authenticate(makeRequest({ ...signedHeaders(), "x-thoughtlog-timestamp": "soon" }))).toEqual({ kind: "unauthenticated", error: "invalid_signature" });
+        expect(await authenticator.authenticate(makeRequest({ ...signedHeaders(), "x-thoughtlog-key-id": "replay#k1" }))).toEqual({ kind: "unauthenticated", error: "invalid_signature" });
+    });
+});
@@ -0,0 +1,132 @@
+import crypto from "crypto";
+import type { IHttpRequest } from "../interfaces/IHttpRequest";
+import type { IApiKeyStore } from "../interfaces/IApiKeyStore";
+import type { IRequestAuthenticator } from "../interfaces/IRequestAuthenticator";
+import type { ApiScope, AuthenticateOutcome } from "../types";
+import { nowEpoch } from "../utils/date";
+
+export type { IRequestAuthenticator };
+
+/** Header carrying a bearer API key, "<keyId>.<secret>". */
+export const API_KEY_HEADER = "x-api-key";
+/** Headers of an HMAC-signed request. */
+export const KEY_ID_HEADER = "x-thoughtlog-key-id";
+export const TIMESTAMP_HEADER = "x-thoughtlog-timestamp";
+export const SIGNATURE_HEADER = "x-thoughtlog-signature";
+
+/** How far the timestamp of a signed request may be from the server's clock. */
+export const DEFAULT_MAX_CLOCK_SKEW_SECONDS = 300;
+
+const ALL_SCOPES: ApiScope[] = ["write:entries", "read:logs", "finalize"];
+
+/** Key IDs are also part of the replay record key, so they are kept to a safe alphabet. */
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function sha256Hex(value: string): string {
+    return crypto.createHash("sha256").update(value, "utf8").digest("hex");
+}
+
+/** Compares two strings in constant time. */
+function safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a, "utf8");
+    const bufB = Buffer.from(b, "utf8");
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Returns the canonical query string of decoded query parameters: each name and value
+ * URI-encoded, the pairs sorted by name and joined with "&". Empty when there are no parameters.
+ */
+export function getCanonicalQueryString(query: Record<string, string>): string {
+    return Object.keys(query)
+        .sort()
+        .map((name) => `${encodeURIComponent(name)}=${encodeURIComponent(query[name])}`)
+        .join("&");
+}
+
+/**
+ * Returns the string an HMAC-signed request signs: the timestamp (epoch seconds), the method,
+ * the path, the canonical query string, and the SHA-256 (hex) of the body, one per line.
+ */
+export function getStringToSign(timestamp: string, method: string, path: string, query: Record<string, string>, body: string): string {
+    return `${timestamp}\n${method.toUpperCase()}\n${path}\n${getCanonicalQueryString(query)}\n${sha256Hex(body)}`;
+}
+
+/** Returns the hex HMAC-SHA256 signature of a request, as a device computes it. */
+export function signRequest(secret: string, timestamp: string, method: string, path: string, query: Record<string, string>, body: string): string {
+    return crypto.createHmac("sha256", secret).update(getStringToSign(timestamp, method, path, query, body), "utf8").digest("hex");
+}
+
+function unauthenticated(error: string): AuthenticateOutcome {
+    return { kind: "unauthenticated", error };
+}
+
+/**
+ * Authenticates requests for devices that cannot do OAuth. A request is accepted when:
+ * - it passed the API Gateway JWT authorizer (every scope),
+ * - its X-Api-Key header holds a key whose SHA-256 matches the stored hash, or
+ * - it is HMAC-signed with a key's secret (X-Thoughtlog-Key-Id, X-Thoughtlog-Timestamp and
+ *   X-Thoughtlog-Signature headers), its timestamp is within the allowed clock skew, and the same
+ *   signature has not been seen before.
+ * API keys are granted the scopes stored with them.
+ */
+export class RequestAuthenticator implements IRequestAuthenticator {
+    constructor(
+        private readonly store: IApiKeyStore,
+        private readonly maxClockSkewSeconds: number = DEFAULT_MAX_CLOCK_SKEW_SECONDS,
+    ) {}
+
+    async authenticate(request: IHttpRequest): Promise<AuthenticateOutcome> {
+        if (request.getJwtClaims()) {
+            return { kind: "authenticated", method: "jwt", scopes: [...ALL_SCOPES] };
+        }
+        const signature = request.getHeader(SIGNATURE_HEADER);
+        if (signature !== null) {
+            return this.authenticateSigned(request, signature);
+        }
+        const apiKey = request.getHeader(API_KEY_HEADER);
+        if (apiKey !== null) {
+            return this.authenticateApiKey(apiKey);
+        }
+        return unauthenticated("missing_credentials");
+    }
+
+    private async authenticateApiKey(apiKey: string): Promise<AuthenticateOutcome> {
+        const dot = apiKey.indexOf(".");
+        const keyId = dot > 0 ? apiKey.slice(0, dot) : "";
+        if (!KEY_ID_PATTERN.test(keyId)) {
+            return unauthenticated("invalid_api_key");
+        }
+        const key = await this.store.getKey(keyId);
+        if (!key?.keyHash || !safeEqual(sha256Hex(apiKey), key.keyHash.toLowerCase())) {
+            return unauthenticated("invalid_api_key");
+        }
+        return { kind: "authenticated", method: "api_key", scopes: key.scopes, keyId, tenantId: key.tenantId };
+    }
+
+    private async authenticateSigned(request: IHttpRequest, signature: string): Promise<AuthenticateOutcome> {
+        const keyId = request.getHeader(KEY_ID_HEADER) ?? "";
+        const timestamp = request.getHeader(TIMESTAMP_HEADER) ?? "";
+        if (!KEY_ID_PATTERN.test(keyId) || !/^\d+$/.test(timestamp)) {
+            return unauthenticated("invalid_signature");
+        }
+        const signedAt = Number(timestamp);
+        if (Math.abs(nowEpoch() - signedAt) > this.maxClockSkewSeconds) {
+            return unauthenticated("stale_timestamp");
+        }
+
+        const key = await this.store.getKey(keyId);
+        if (!key?.hmacSecret) {
+            return unauthenticated("invalid_signature");
+        }
+        const expected = signRequest(key.hmacSecret, timestamp, request.getMethod(), request.getRawPath(), request.getQueryParams(), request.getRawBody());
+        if (!safeEqual(signature.toLowerCase(), expected)) {
+            return unauthenticated("invalid_signature");
+        }
+        // Remember the signature for as long as its timestamp is accepted, so it cannot be replayed.
+        if (!await this.store.claimSignature(keyId, expected, signedAt + this.maxClockSkewSeconds)) {
+            return unauthenticated("replayed_request");
+        }
+        return { kind: "authenticated", method: "hmac", scopes: key.scopes, keyId, tenantId: key.tenantId };
+    }
+}
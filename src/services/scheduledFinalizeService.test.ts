@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ScheduledFinalizeService } from "./scheduledFinalizeService";
+import type { IAuthService } from "../interfaces/IAuthService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+import type { IQueueService } from "../interfaces/IQueueService";
+import type { Issue } from "../types";
+
+// ── test doubles ───────────────────────────────────────────────────────────────
+
+function makeAuth(token = "tok"): IAuthService {
+    return { getInstallationToken: vi.fn().mockResolvedValue(token) };
+}
+
+function makeGitHub(issues: Issue[]): IIssueTrackerService {
+    return {
+        findDailyIssue: vi.fn().mockResolvedValue(null),
+        searchDailyIssues: vi.fn().mockResolvedValue({ issues: [], hasMore: false }),
+        searchDailyIssuesByText: vi.fn().mockResolvedValue([]),
+        searchOpenDailyIssuesBefore: vi.fn().mockResolvedValue(issues),
+        listRecentClosedDailyIssues: vi.fn().mockResolvedValue([]),
+        createDailyIssue: vi.fn().mockResolvedValue({ number: 1 }),
+        createIssue: vi.fn().mockResolvedValue({ number: 1 }),
+        addComment: vi.fn().mockResolvedValue({ id: 1 }),
+        updateIssue: vi.fn().mockResolvedValue({ number: 1 }),
+        closeIssue: vi.fn().mockResolvedValue({ number: 1 }),
+        addLabels: vi.fn().mockResolvedValue(undefined),
+        getIssueComments: vi.fn().mockResolvedValue([]),
+        getIssue: vi.fn().mockResolvedValue({ number: 1 }),
+        getComment: vi.fn().mockResolvedValue({ id: 1 }),
+        updateComment: vi.fn().mockResolvedValue({ id: 1 }),
+        deleteComment: vi.fn().mockResolvedValue(undefined),
+    };
+}
+
+function makeQueue(): IQueueService {
+    return { sendMessage: vi.fn().mockResolvedValue(undefined), sendMessages: vi.fn().mockResolvedValue(undefined) };
+}
+
+const config = { owner: "owner", repo: "repo", defaultLabels: "thoughtlog,voice" };
+
+// ── ScheduledFinalizeService ───────────────────────────────────────────────────
+
+describe("ScheduledFinalizeService.enqueueStaleLogs", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("enqueues a finalize message for each open daily log before today", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2026-10-19T19:00:00Z")); // 2026-10-20 04:00 JST
+        const github = makeGitHub([
+            { number: 2, title: "2026-10-19" },
+            { number: 1, title: "2026-10-17" },
+        ]);
+        const queue = makeQueue();
+        const svc = new ScheduledFinalizeService(makeAuth(), github, queue, config);
+
+        const result = await svc.enqueueStaleLogs();
+
+        expect(result).toEqual(["2026-10-17", "2026-10-19"]);
+        expect(github.searchOpenDailyIssuesBefore).toHaveBeenCalledWith({
+            owner: "owner",
+            repo: "repo",
+            dateKey: "2026-10-20",
+            labels: ["thoughtlog", "voice"],
+            token: "tok",
+        });
+        expect(queue.sendMessage).toHaveBeenNthCalledWith(1, JSON.stringify({ type: "finalize", dateKey: "2026-10-17" }));
+        expect(queue.sendMessage).toHaveBeenNthCalledWith(2, JSON.stringify({ type: "finalize", dateKey: "2026-10-19" }));
+    });
+
+    it("treats the hours before the night-owl threshold as the previous day", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2026-10-19T17:00:00Z")); // 2026-10-20 02:00 JST
+        const github = makeGitHub([]);
+        const svc = new ScheduledFinalizeService(makeAuth(), github, makeQueue(), config);
+
+        await svc.enqueueStaleLogs();
+
+        expect(github.searchOpenDailyIssuesBefore).toHaveBeenCalledWith(expect.objectContaining({ dateKey: "2026-10-19" }));
+    });
+
+    it("works out today in the log's time zone", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2026-10-19T19:00:00Z")); // 2026-10-19 15:00 EDT
+        const github = makeGitHub([]);
+        const svc = new ScheduledFinalizeService(makeAuth(), github, makeQueue(), { ...config, timeZone: "America/New_York" });
+
+        await svc.enqueueStaleLogs();
+
+        expect(github.searchOpenDailyIssuesBefore).toHaveBeenCalledWith(expect.objectContaining({ dateKey: "2026-10-19" }));
+    });
+
+    it("enqueues each date key only once", async () => {
+        const queue = makeQueue();
+        const github = makeGitHub([{ number: 1, title: "2026-10-01" }, { number: 2, title: "2026-10-01" }]);
+        const svc = new ScheduledFinalizeService(makeAuth(), github, queue, config);
+
+        expect(await svc.enqueueStaleLogs()).toEqual(["2026-10-01"]);
+        expect(queue.sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("sends nothing when every daily log is already finalized", async () => {
+        const queue = makeQueue();
+        const svc = new ScheduledFinalizeService(makeAuth(), makeGitHub([]), queue, config);
+
+        expect(await svc.enqueueStaleLogs()).toEqual([]);
+        expect(queue.sendMessage).not.toHaveBeenCalled();
+    });
+});
+
+describe("ScheduledFinalizeService.enqueueOnThisDay", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("enqueues an on-this-day message for today", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2026-10-19T19:00:00Z")); // 2026-10-20 04:00 JST
+        const queue = makeQueue();
+        const svc = new ScheduledFinalizeService(makeAuth(), makeGitHub([]), queue, config);
+
+        expect(await svc.enqueueOnThisDay()).toBe("2026-10-20");
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({ type: "on-this-day", dateKey: "2026-10-20" }));
+    });
+});
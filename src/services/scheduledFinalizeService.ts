@@ -0,0 +1,45 @@
+import type { IAuthService } from "../interfaces/IAuthService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
+import type { IQueueService } from "../interfaces/IQueueService";
+import type { FinalizeMessage, OnThisDayMessage, RepositoryConfig } from "../types";
+import { getDateKey } from "../utils/date";
+import { parseLabels } from "../utils/format";
+
+/**
+ * Enqueues finalize messages for every daily log that is still open after its day has ended.
+ * "Today" is the current date key in the log's time zone with the night-owl threshold applied, so a day is only
+ * picked up once late-night entries can no longer be attributed to it.
+ */
+export class ScheduledFinalizeService {
+    constructor(
+        private readonly auth: IAuthService,
+        private readonly tracker: IIssueTrackerService,
+        private readonly queueService: IQueueService,
+        private readonly config: RepositoryConfig,
+    ) {}
+
+    /** Returns the date keys that were enqueued, in ascending order. */
+    async enqueueStaleLogs(): Promise<string[]> {
+        const { owner, repo } = this.config;
+        const labels = parseLabels(this.config.defaultLabels, []);
+        const today = getDateKey({ timezone: this.config.timeZone });
+        const token = await this.auth.getInstallationToken();
+
+        const issues = await this.tracker.searchOpenDailyIssuesBefore({ owner, repo, dateKey: today, labels, token });
+        const dateKeys = [...new Set(issues.map((issue) => (issue.title ?? "").slice(0, 10)))].sort();
+
+        for (const dateKey of dateKeys) {
+            const message: FinalizeMessage = { type: "finalize", dateKey };
+            await this.queueService.sendMessage(JSON.stringify(message));
+        }
+        return dateKeys;
+    }
+
+    /** Enqueues posting the "on this day" logs on today's log; returns today's date key. */
+    async enqueueOnThisDay(): Promise<string> {
+        const dateKey = getDateKey({ timezone: this.config.timeZone });
+        const message: OnThisDayMessage = { type: "on-this-day", dateKey };
+        await this.queueService.sendMessage(JSON.stringify(message));
+        return dateKey;
+    }
+}
@@ -33,6 +33,40 @@ describe("SecretsManagerSecretProvider", () => {
         expect(result).toBe(OPENAI_API_KEY);
     });
 
+    it("returns the key of each LLM provider from JSON secret", async () => {
+        const client = makeMockClient(JSON.stringify({ azure_openai_api_key: "az", anthropic_api_key: "sk-ant", local_llm_api_key: "local" }));
+        const provider = new SecretsManagerSecretProvider(SECRET_ARN, client);
+
+        expect(await provider.getAzureOpenAiApiKey()).toBe("az");
+        expect(await provider.getAnthropicApiKey()).toBe("sk-ant");
+        expect(await provider.getLocalLlmApiKey()).toBe("local");
+    });
+
+    it("throws when the Azure OpenAI or Anthropic key is missing from JSON", async () => {
+        const provider = new SecretsManagerSecretProvider(SECRET_ARN, makeMockClient(SECRET_JSON));
+        await expect(provider.getAzureOpenAiApiKey()).rejects.toThrow("azure_openai_api_key");
+        await expect(provider.getAnthropicApiKey()).rejects.toThrow("anthropic_api_key");
+    });
+
+    it("returns an empty local LLM key when none is configured", async () => {
+        const provider = new SecretsManagerSecretProvider(SECRET_ARN, makeMockClient(SECRET_JSON));
+        expect(await provider.getLocalLlmApiKey()).toBe("");
+    });
+
+    it("returns issue_tracker_token from JSON secret without a GitHub key", async () => {
+        const client = makeMockClient(JSON.stringify({ issue_tracker_token: "glpat-123" }));
+        const provider = new SecretsManagerSecretProvider(SECRET_ARN, client);
+
+        expect(await provider.getIssueTrackerToken()).toBe("glpat-123");
+        await expect(provider.getPrivateKeyPem()).rejects.toThrow("github_private_key");
+    });
+
+    it("throws when issue_tracker_token is missing from JSON", async () => {
+        const client = makeMockClient(SECRET_JSON);
+        const provider = new SecretsManagerSecretProvider(SECRET_ARN, client);
+        await expect(provider.getIssueTrackerToken()).rejects.toThrow("issue_tracker_token");
+    });
+
     it("throws when SecretString is absent", async () => {
         const client = makeMockClient(undefined);
         const provider = new SecretsManagerSecretProvider(SECRET_ARN, client);
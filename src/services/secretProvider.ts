@@ -6,13 +6,19 @@ export type { ISecretProvider };
 const DEFAULT_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
 interface AppSecrets {
-    github_private_key: string;
+    github_private_key?: string;
     openai_api_key?: string;
+    azure_openai_api_key?: string;
+    anthropic_api_key?: string;
+    local_llm_api_key?: string;
+    issue_tracker_token?: string;
 }
 
 /** Fetches secrets from AWS Secrets Manager at runtime, with in-memory caching.
- *  The secret must be a JSON string that contains github_private_key, and if you use
- *  OpenAI-related features it must also include openai_api_key.
+ *  The secret must be a JSON string that contains github_private_key for the GitHub backends,
+ *  or issue_tracker_token for GitLab/Gitea. If you use LLM features it must also include the
+ *  key of the configured provider: openai_api_key, azure_openai_api_key or anthropic_api_key
+ *  (local_llm_api_key is optional).
  */
 export class SecretsManagerSecretProvider implements ISecretProvider {
     private readonly client: SecretsManagerClient;
@@ -69,4 +75,33 @@ export class SecretsManagerSecretProvider implements ISecretProvider {
         }
         return secrets.openai_api_key;
     }
+
+    async getAzureOpenAiApiKey(): Promise<string> {
+        const secrets = await this.parseSecrets();
+        if (!secrets.azure_openai_api_key) {
+            throw new Error(`Secret ${this.secretArn} does not contain azure_openai_api_key`);
+        }
+        return secrets.azure_openai_api_key;
+    }
+
+    async getAnthropicApiKey(): Promise<string> {
+        const secrets = await this.parseSecrets();
+        if (!secrets.anthropic_api_key) {
+            throw new Error(`Secret ${this.secretArn} does not contain anthropic_api_key`);
+        }
+        return secrets.anthropic_api_key;
+    }
+
+    async getLocalLlmApiKey(): Promise<string> {
+        const secrets = await this.parseSecrets();
+        return secrets.local_llm_api_key ?? "";
+    }
+
+    async getIssueTrackerToken(): Promise<string> {
+        const secrets = await this.parseSecrets();
+        if (!secrets.issue_tracker_token) {
+            throw new Error(`Secret ${this.secretArn} does not contain issue_tracker_token`);
+        }
+        return secrets.issue_tracker_token;
+    }
 }
@@ -19,4 +19,51 @@ describe("SqsQueueService.sendMessage", () => {
         const svc = new SqsQueueService(client, "https://sqs.us-east-1.amazonaws.com/123/my-queue");
         await expect(svc.sendMessage("hello")).rejects.toThrow("SQS error");
     });
+
+    it("attaches the tenant as a message attribute", async () => {
+        const client = makeSqsClient();
+        const svc = new SqsQueueService(client, "https://sqs.us-east-1.amazonaws.com/123/my-queue", "alice");
+        await svc.sendMessage("hello");
+        const input = (client.send as ReturnType<typeof vi.fn>).mock.calls[0][0].input;
+        expect(input.MessageAttributes).toEqual({ tenant: { DataType: "String", StringValue: "alice" } });
+    });
+});
+
+describe("SqsQueueService.sendMessages", () => {
+    it("sends messages in batches of ten", async () => {
+        const client = makeSqsClient();
+        const svc = new SqsQueueService(client, "https://sqs.us-east-1.amazonaws.com/123/my-queue");
+        await svc.sendMessages(Array.from({ length: 23 }, (_, i) => `m${i}`));
+        const send = client.send as ReturnType<typeof vi.fn>;
+        expect(send).toHaveBeenCalledTimes(3);
+        const entries = send.mock.calls.map((call) => (call[0] as { input: { Entries: { Id: string }[] } }).input.Entries);
+        expect(entries.map((e) => e.length)).toEqual([10, 10, 3]);
+        expect(entries[2][0]).toEqual({ Id: "20", MessageBody: "m20" });
+    });
+
+    it("starts a new batch before the batch payload limit is reached", async () => {
+        const client = makeSqsClient();
+        const svc = new SqsQueueService(client, "https://sqs.us-east-1.amazonaws.com/123/my-queue", "alice");
+        const large = "x".repeat(100 * 1024);
+        await svc.sendMessages([large, large, large, "small", large, large]);
+        const send = client.send as ReturnType<typeof vi.fn>;
+        const entries = send.mock.calls.map((call) => (call[0] as { input: { Entries: { Id: string; MessageBody: string }[] } }).input.Entries);
+        expect(entries.map((e) => e.map((entry) => entry.Id))).toEqual([["0", "1"], ["2", "3", "4"], ["5"]]);
+        for (const batch of entries) {
+            expect(batch.reduce((sum, entry) => sum + entry.MessageBody.length, 0)).toBeLessThanOrEqual(256 * 1024);
+        }
+    });
+
+    it("does not call SQS for an empty list", async () => {
+        const client = makeSqsClient();
+        const svc = new SqsQueueService(client, "https://sqs.us-east-1.amazonaws.com/123/my-queue");
+        await svc.sendMessages([]);
+        expect(client.send).not.toHaveBeenCalled();
+    });
+
+    it("throws when SQS reports failed entries", async () => {
+        const client = { send: vi.fn().mockResolvedValue({ Failed: [{ Id: "1", Code: "InternalError" }] }) } as unknown as SQSClient;
+        const svc = new SqsQueueService(client, "https://sqs.us-east-1.amazonaws.com/123/my-queue");
+        await expect(svc.sendMessages(["a", "b"])).rejects.toThrow("SQS batch send failed for 1 message(s): 1:InternalError");
+    });
 });
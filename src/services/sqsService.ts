@@ -1,19 +1,76 @@
-import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+import { SQSClient, SendMessageCommand, SendMessageBatchCommand } from "@aws-sdk/client-sqs";
+import type { MessageAttributeValue } from "@aws-sdk/client-sqs";
 import type { IQueueService } from "../interfaces/IQueueService";
 
 export type { IQueueService };
 
-/** Amazon SQS implementation of IQueueService. */
+/** Maximum number of entries SQS accepts in a single SendMessageBatch call. */
+const SQS_BATCH_SIZE = 10;
+/** Maximum total payload (message bodies and attributes) of a single SendMessageBatch call. */
+const SQS_BATCH_BYTES = 256 * 1024;
+
+/** Message attribute naming the tenant a message belongs to, read back by the queue handler. */
+export const TENANT_ATTRIBUTE = "tenant";
+
+/**
+ * Amazon SQS implementation of IQueueService.
+ * With a tenant ID, every message carries it as the tenant message attribute.
+ */
 export class SqsQueueService implements IQueueService {
     constructor(
         private readonly client: SQSClient,
         private readonly queueUrl: string,
+        private readonly tenantId?: string,
     ) {}
 
+    private get messageAttributes(): Record<string, MessageAttributeValue> | undefined {
+        return this.tenantId ? { [TENANT_ATTRIBUTE]: { DataType: "String", StringValue: this.tenantId } } : undefined;
+    }
+
     async sendMessage(message: string): Promise<void> {
         await this.client.send(new SendMessageCommand({
             QueueUrl: this.queueUrl,
             MessageBody: message,
+            MessageAttributes: this.messageAttributes,
+        }));
+    }
+
+    /** Returns the size SQS counts for a message: its body plus the name, type and value of each attribute. */
+    private messageBytes(message: string): number {
+        const attributes = Object.entries(this.messageAttributes ?? {})
+            .reduce((sum, [name, value]) => sum + Buffer.byteLength(name + (value.DataType ?? "") + (value.StringValue ?? ""), "utf8"), 0);
+        return Buffer.byteLength(message, "utf8") + attributes;
+    }
+
+    /**
+     * Sends the messages in as few SendMessageBatch calls as the limits allow: a new batch is
+     * started after ten messages or when the next message would take the batch over its size limit.
+     */
+    async sendMessages(messages: string[]): Promise<void> {
+        let batch: Array<{ id: number; message: string }> = [];
+        let batchBytes = 0;
+        for (const [index, message] of messages.entries()) {
+            const bytes = this.messageBytes(message);
+            if (batch.length === SQS_BATCH_SIZE || (batch.length > 0 && batchBytes + bytes > SQS_BATCH_BYTES)) {
+                await this.sendBatch(batch);
+                batch = [];
+                batchBytes = 0;
+            }
+            batch.push({ id: index, message });
+            batchBytes += bytes;
+        }
+        if (batch.length > 0) await this.sendBatch(batch);
+    }
+
+    private async sendBatch(batch: Array<{ id: number; message: string }>): Promise<void> {
+        const result = await this.client.send(new SendMessageBatchCommand({
+            QueueUrl: this.queueUrl,
+            Entries: batch.map(({ id, message }) => ({ Id: String(id), MessageBody: message, MessageAttributes: this.messageAttributes })),
         }));
+        // SendMessageBatch succeeds as a call even when individual entries are rejected.
+        const failed = result?.Failed ?? [];
+        if (failed.length > 0) {
+            throw new Error(`SQS batch send failed for ${failed.length} message(s): ${failed.map((f) => `${f.Id}:${f.Code}`).join(", ")}`);
+        }
     }
 }
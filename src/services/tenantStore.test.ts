@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from "vitest";
+import { DynamoDBTenantStore, getTenantIdFromClaims } from "./tenantStore";
+import type { DynamoDBDocumentClient, GetCommand, ScanCommand } from "@aws-sdk/lib-dynamodb";
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+type SendFn = (command: unknown) => Promise<unknown>;
+
+function makeDdb(send: SendFn = vi.fn().mockResolvedValue({})): DynamoDBDocumentClient {
+    return { send } as unknown as DynamoDBDocumentClient;
+}
+
+// ── getTenantIdFromClaims ─────────────────────────────────────────────────────
+
+describe("getTenantIdFromClaims", () => {
+    it("returns the trimmed claim value", () => {
+        expect(getTenantIdFromClaims({ sub: " alice " }, "sub")).toBe("alice");
+        expect(getTenantIdFromClaims({ oid: "bob" }, "oid")).toBe("bob");
+    });
+
+    it("returns null without a JWT or a usable claim", () => {
+        expect(getTenantIdFromClaims(null, "sub")).toBeNull();
+        expect(getTenantIdFromClaims({ sub: "" }, "sub")).toBeNull();
+        expect(getTenantIdFromClaims({ sub: 42 }, "sub")).toBeNull();
+        expect(getTenantIdFromClaims({ email: "a@example.com" }, "sub")).toBeNull();
+    });
+});
+
+// ── getTenant ─────────────────────────────────────────────────────────────────
+
+describe("DynamoDBTenantStore.getTenant", () => {
+    it("maps the item to a repository config", async () => {
+        const send = vi.fn().mockResolvedValue({
+            Item: { tenant_id: "alice", owner: "alice", repo: "log", default_labels: "diary", time_zone: "Europe/Berlin", github_installation_id: "7" },
+        });
+        const store = new DynamoDBTenantStore(makeDdb(send), "tenants", "thoughtlog");
+
+        expect(await store.getTenant("alice")).toEqual({
+            tenantId: "alice",
+            owner: "alice",
+            repo: "log",
+            defaultLabels: "diary",
+            timeZone: "Europe/Berlin",
+            githubInstallationId: "7",
+        });
+        expect((send.mock.calls[0][0] as GetCommand).input).toEqual({ TableName: "tenants", Key: { tenant_id: "alice" } });
+    });
+
+    it("falls back to the deployment's labels", async () => {
+        const send = vi.fn().mockResolvedValue({ Item: { tenant_id: "bob", owner: "bob", repo: "log" } });
+        const store = new DynamoDBTenantStore(makeDdb(send), "tenants", "thoughtlog");
+
+        expect(await store.getTenant("bob")).toEqual({ tenantId: "bob", owner: "bob", repo: "log", defaultLabels: "thoughtlog", timeZone: undefined, githubInstallationId: undefined });
+    });
+
+    it("returns null for unknown tenants and tenants without a repo", async () => {
+        const send = vi.fn()
+            .mockResolvedValueOnce({})
+            .mockResolvedValueOnce({ Item: { tenant_id: "carol", owner: "carol" } });
+        const store = new DynamoDBTenantStore(makeDdb(send), "tenants", "thoughtlog");
+
+        expect(await store.getTenant("nobody")).toBeNull();
+        expect(await store.getTenant("carol")).toBeNull();
+    });
+});
+
+// ── listTenants ───────────────────────────────────────────────────────────────
+
+describe("DynamoDBTenantStore.listTenants", () => {
+    it("scans every page", async () => {
+        const send = vi.fn()
+            .mockResolvedValueOnce({ Items: [{ tenant_id: "alice", owner: "alice", repo: "log" }], LastEvaluatedKey: { tenant_id: "alice" } })
+            .mockResolvedValueOnce({ Items: [{ tenant_id: "bob", owner: "bob", repo: "log" }] });
+        const store = new DynamoDBTenantStore(makeDdb(send), "tenants", "thoughtlog");
+
+        expect((await store.listTenants()).map((t) => t.tenantId)).toEqual(["alice", "bob"]);
+        expect((send.mock.calls[1][0] as ScanCommand).input.ExclusiveStartKey).toEqual({ tenant_id: "alice" });
+    });
+});
@@ -0,0 +1,83 @@
+import {
+    DynamoDBDocumentClient,
+    GetCommand,
+    ScanCommand,
+} from "@aws-sdk/lib-dynamodb";
+import type { TenantConfig } from "../types";
+import type { ITenantStore } from "../interfaces/ITenantStore";
+
+export type { ITenantStore };
+
+/** A row of the tenants table. */
+interface TenantItem {
+    tenant_id: string;
+    owner?: string;
+    repo?: string;
+    default_labels?: string;
+    time_zone?: string;
+    github_installation_id?: string;
+}
+
+/**
+ * Returns the tenant ID from the verified JWT claims: the value of the given claim (e.g. "sub"),
+ * or null when the request has no JWT or the claim is not a non-empty string.
+ */
+export function getTenantIdFromClaims(claims: Record<string, unknown> | null, claim: string): string | null {
+    const value = claims?.[claim];
+    return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * DynamoDB-backed tenant store. The table key is tenant_id (partition); each item names the
+ * tenant's owner and repo, and optionally default_labels, time_zone and github_installation_id.
+ * Tenants without their own labels use the deployment's default labels.
+ */
+export class DynamoDBTenantStore implements ITenantStore {
+    constructor(
+        private readonly ddb: DynamoDBDocumentClient,
+        private readonly tableName: string,
+        private readonly defaultLabels: string,
+    ) {}
+
+    async getTenant(tenantId: string): Promise<TenantConfig | null> {
+        const result = await this.ddb.send(new GetCommand({
+            TableName: this.tableName,
+            Key: { tenant_id: tenantId },
+        }));
+        const item = result.Item as TenantItem | undefined;
+        return item ? this.toConfig(item) : null;
+    }
+
+    async listTenants(): Promise<TenantConfig[]> {
+        const tenants: TenantConfig[] = [];
+        let exclusiveStartKey: Record<string, unknown> | undefined;
+        do {
+            const result = await this.ddb.send(new ScanCommand({
+                TableName: this.tableName,
+                ExclusiveStartKey: exclusiveStartKey,
+            }));
+            for (const item of (result.Items ?? []) as TenantItem[]) {
+                const tenant = this.toConfig(item);
+                if (tenant) tenants.push(tenant);
+            }
+            exclusiveStartKey = result.LastEvaluatedKey;
+        } while (exclusiveStartKey);
+        return tenants;
+    }
+
+    /** Returns null for an item without an owner or repo, which cannot be logged to. */
+    private toConfig(item: TenantItem): TenantConfig | null {
+        if (!item.owner || !item.repo) {
+            console.warn(`Ignoring tenant without owner or repo: ${item.tenant_id}`);
+            return null;
+        }
+        return {
+            tenantId: item.tenant_id,
+            owner: item.owner,
+            repo: item.repo,
+            defaultLabels: item.default_labels || this.defaultLabels,
+            timeZone: item.time_zone || undefined,
+            githubInstallationId: item.github_installation_id || undefined,
+        };
+    }
+}
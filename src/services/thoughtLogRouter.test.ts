@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { ThoughtLogRouter } from "./thoughtLogRouter";
+import { ThoughtLogRouter, getRequiredScope } from "./thoughtLogRouter";
 import type { IThoughtLogService } from "../interfaces/IThoughtLogService";
 import type { IHttpRequest } from "../interfaces/IHttpRequest";
 import type { Payload } from "../types";
@@ -10,16 +10,21 @@ function makeRequest(overrides: Partial<IHttpRequest> = {}): IHttpRequest {
     return {
         getMethod: vi.fn().mockReturnValue("POST"),
         getRawPath: vi.fn().mockReturnValue("/"),
+        getQueryParam: vi.fn().mockReturnValue(null),
+        getQueryParams: vi.fn().mockReturnValue({}),
         getDateParam: vi.fn().mockReturnValue(null),
         getSubResource: vi.fn().mockReturnValue(null),
         getPayload: vi.fn().mockReturnValue({ request_id: "req-1", raw: "hello" } as Payload),
         getRawBody: vi.fn().mockReturnValue(""),
+        getHeader: vi.fn().mockReturnValue(null),
+        getJwtClaims: vi.fn().mockReturnValue(null),
         ...overrides,
     };
 }
 
 function makeService(overrides: Partial<IThoughtLogService> = {}): IThoughtLogService {
     return {
+        mirrorEntry: vi.fn().mockResolvedValue(undefined),
         createEntry: vi.fn().mockResolvedValue({
             kind: "created",
             date: "2024-01-15",
@@ -28,6 +33,35 @@ function makeService(overrides: Partial<IThoughtLogService> = {}): IThoughtLogSe
             comment_id: 99,
         }),
         enqueueEntry: vi.fn().mockResolvedValue({ kind: "queued" }),
+        getEntryStatus: vi.fn().mockResolvedValue({ kind: "processing", request_id: "req-1" }),
+        updateEntry: vi.fn().mockResolvedValue({
+            kind: "updated",
+            date: "2024-01-15",
+            issue_number: 42,
+            issue_url: "https://github.com/owner/repo/issues/42",
+            comment_id: 99,
+        }),
+        deleteEntry: vi.fn().mockResolvedValue({
+            kind: "deleted",
+            date: "2024-01-15",
+            issue_number: 42,
+            issue_url: "https://github.com/owner/repo/issues/42",
+            comment_id: 99,
+        }),
+        getEntryOriginal: vi.fn().mockResolvedValue({
+            kind: "found",
+            date: "2024-01-15",
+            comment_id: 99,
+            original: "raw transcript",
+            body: "## 09:00\nrefined\n",
+        }),
+        revertEntry: vi.fn().mockResolvedValue({
+            kind: "reverted",
+            date: "2024-01-15",
+            issue_number: 42,
+            issue_url: "https://github.com/owner/repo/issues/42",
+            comment_id: 99,
+        }),
         getLog: vi.fn().mockResolvedValue({
             kind: "found",
             id: "issue-id-42",
@@ -35,13 +69,51 @@ function makeService(overrides: Partial<IThoughtLogService> = {}): IThoughtLogSe
             title: "2024-01-15",
             links: { body: "/log/2024-01-15/body", comments: "/log/2024-01-15/comments" },
         }),
+        listLogs: vi.fn().mockResolvedValue({
+            kind: "found",
+            logs: [{
+                id: "issue-id-42",
+                date: "2024-01-15",
+                title: "2024-01-15",
+                state: "open",
+                links: { body: "/log/2024-01-15/body", comments: "/log/2024-01-15/comments" },
+            }],
+            cursor: null,
+        }),
+        searchSemantic: vi.fn().mockResolvedValue({
+            kind: "found",
+            hits: [{ date: "2024-01-15", time: "19:30", comment_id: 99, issue_url: "https://github.com/owner/repo/issues/42", snippet: "a quieter morning", score: 0.82 }],
+        }),
+        searchEntries: vi.fn().mockResolvedValue({
+            kind: "found",
+            hits: [{
+                date: "2024-01-15",
+                time: "19:30",
+                entry_kind: "idea",
+                comment_id: 99,
+                issue_url: "https://github.com/owner/repo/issues/42",
+                snippet: "an idea about caching",
+            }],
+        }),
         getLogBody: vi.fn().mockResolvedValue({ kind: "found", body: "# 2024-01-15\n\nSummary text." }),
         getLogComments: vi.fn().mockResolvedValue({ kind: "found", comments: ["## 19:30\nhello\n", "## 20:00\nworld\n"] }),
         getLogSummary: vi.fn().mockResolvedValue({ kind: "found", summary: "This is the summary." }),
+        getOnThisDay: vi.fn().mockResolvedValue({
+            kind: "found",
+            date: "2024-01-15",
+            items: [{ period: "week", date: "2024-01-08", title: "2024-01-08 Quiet day", summary: "Summary.", issue_url: "https://github.com/owner/repo/issues/30" }],
+        }),
+        postOnThisDay: vi.fn().mockResolvedValue(undefined),
         updateLog: vi.fn().mockResolvedValue({
             kind: "queued",
             date: "2024-01-15",
         }),
+        requestDigest: vi.fn().mockResolvedValue({ kind: "queued", period: "week", periodKey: "2026-W42" }),
+        exportMarkdown: vi.fn().mockResolvedValue({ kind: "found", markdown: "---\nfrom: 2024-01-01\n---\n" }),
+        exportJsonl: vi.fn().mockResolvedValue({ kind: "found", jsonl: '{"captured_at":"2024-01-15T19:30:00+09:00","raw":"hello"}\n' }),
+        importEntries: vi.fn().mockResolvedValue({ kind: "queued", queued: 2, skipped: 1 }),
+        getFeed: vi.fn().mockResolvedValue({ kind: "found", xml: "<feed/>" }),
+        getCalendar: vi.fn().mockResolvedValue({ kind: "found", ics: "BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n" }),
         ...overrides,
     } as IThoughtLogService;
 }
@@ -108,6 +180,229 @@ describe("ThoughtLogRouter GET /log/:date", () => {
     });
 });
 
+// ── GET /log (list) ───────────────────────────────────────────────────────────
+
+describe("ThoughtLogRouter GET /log", () => {
+    let router: ThoughtLogRouter;
+    let service: IThoughtLogService;
+
+    function makeListRequest(query: Record<string, string>): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("GET"),
+            getRawPath: vi.fn().mockReturnValue("/log"),
+            getQueryParam: vi.fn().mockImplementation((name: string) => query[name] ?? null),
+        });
+    }
+
+    beforeEach(() => {
+        service = makeService();
+        router = new ThoughtLogRouter(service);
+    });
+
+    it("returns 200 with logs and cursor", async () => {
+        const response = await router.handle(makeListRequest({ from: "2024-01-01", to: "2024-01-31" }));
+        expect(response.statusCode).toBe(200);
+        const body = JSON.parse(response.body);
+        expect(body.logs).toHaveLength(1);
+        expect(body.logs[0]).toMatchObject({ id: "issue-id-42", date: "2024-01-15", state: "open" });
+        expect(body.cursor).toBeNull();
+    });
+
+    it("passes from, to and cursor to listLogs", async () => {
+        await router.handle(makeListRequest({ from: "2024-01-01", to: "2024-01-31", cursor: "2" }));
+        expect(service.listLogs).toHaveBeenCalledWith("2024-01-01", "2024-01-31", "2");
+    });
+
+    it("passes undefined cursor when none is given", async () => {
+        await router.handle(makeListRequest({ from: "2024-01-01", to: "2024-01-31" }));
+        expect(service.listLogs).toHaveBeenCalledWith("2024-01-01", "2024-01-31", undefined);
+    });
+
+    it("returns 400 when from or to is missing", async () => {
+        const response = await router.handle(makeListRequest({ from: "2024-01-01" }));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "invalid_date_range" });
+        expect(service.listLogs).not.toHaveBeenCalled();
+    });
+
+    it("returns 400 when a date is malformed", async () => {
+        const response = await router.handle(makeListRequest({ from: "2024-13-01", to: "2024-01-31" }));
+        expect(response.statusCode).toBe(400);
+    });
+
+    it("returns 400 when from is after to", async () => {
+        const response = await router.handle(makeListRequest({ from: "2024-02-01", to: "2024-01-31" }));
+        expect(response.statusCode).toBe(400);
+    });
+
+    it("returns 400 when the cursor is invalid", async () => {
+        service.listLogs = vi.fn().mockResolvedValue({ kind: "invalid_cursor", cursor: "abc" });
+        const response = await router.handle(makeListRequest({ from: "2024-01-01", to: "2024-01-31", cursor: "abc" }));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "invalid_cursor" });
+    });
+
+    it("returns 500 when listLogs throws", async () => {
+        service.listLogs = vi.fn().mockRejectedValue(new Error("search error"));
+        const response = await router.handle(makeListRequest({ from: "2024-01-01", to: "2024-01-31" }));
+        expect(response.statusCode).toBe(500);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "search error" });
+    });
+});
+
+// ── GET /search ───────────────────────────────────────────────────────────────
+
+describe("ThoughtLogRouter GET /search", () => {
+    let router: ThoughtLogRouter;
+    let service: IThoughtLogService;
+
+    function makeSearchRequest(query: Record<string, string>): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("GET"),
+            getRawPath: vi.fn().mockReturnValue("/search"),
+            getQueryParam: vi.fn().mockImplementation((name: string) => query[name] ?? null),
+        });
+    }
+
+    beforeEach(() => {
+        service = makeService();
+        router = new ThoughtLogRouter(service);
+    });
+
+    it("returns 200 with hits", async () => {
+        const response = await router.handle(makeSearchRequest({ q: "caching" }));
+        expect(response.statusCode).toBe(200);
+        const body = JSON.parse(response.body);
+        expect(body.hits).toHaveLength(1);
+        expect(body.hits[0]).toMatchObject({ date: "2024-01-15", time: "19:30", comment_id: 99 });
+    });
+
+    it("passes query, range and kind to searchEntries", async () => {
+        await router.handle(makeSearchRequest({ q: " caching ", from: "2024-01-01", to: "2024-01-31", kind: "idea" }));
+        expect(service.searchEntries).toHaveBeenCalledWith({ query: "caching", from: "2024-01-01", to: "2024-01-31", kind: "idea" });
+    });
+
+    it("returns 400 when q is missing or blank", async () => {
+        const response = await router.handle(makeSearchRequest({ q: "  " }));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "missing_query" });
+    });
+
+    it("returns 400 when the date range is invalid", async () => {
+        const response = await router.handle(makeSearchRequest({ q: "x", from: "2024-02-01", to: "2024-01-01" }));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "invalid_date_range" });
+    });
+
+    it("returns 500 when searchEntries throws", async () => {
+        service.searchEntries = vi.fn().mockRejectedValue(new Error("rate limited"));
+        const response = await router.handle(makeSearchRequest({ q: "x" }));
+        expect(response.statusCode).toBe(500);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "rate limited" });
+    });
+});
+
+// ── GET /search/semantic ──────────────────────────────────────────────────────
+
+describe("ThoughtLogRouter GET /search/semantic", () => {
+    let router: ThoughtLogRouter;
+    let service: IThoughtLogService;
+
+    function makeSemanticSearchRequest(query: Record<string, string>): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("GET"),
+            getRawPath: vi.fn().mockReturnValue("/search/semantic"),
+            getQueryParam: vi.fn().mockImplementation((name: string) => query[name] ?? null),
+        });
+    }
+
+    beforeEach(() => {
+        service = makeService();
+        router = new ThoughtLogRouter(service);
+    });
+
+    it("returns 200 with scored hits", async () => {
+        const response = await router.handle(makeSemanticSearchRequest({ q: "mornings" }));
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body).hits[0]).toMatchObject({ date: "2024-01-15", comment_id: 99, score: 0.82 });
+        expect(service.searchSemantic).toHaveBeenCalledWith("mornings", 10);
+        expect(service.searchEntries).not.toHaveBeenCalled();
+    });
+
+    it("passes the limit to searchSemantic", async () => {
+        await router.handle(makeSemanticSearchRequest({ q: "mornings", limit: "3" }));
+        expect(service.searchSemantic).toHaveBeenCalledWith("mornings", 3);
+    });
+
+    it("returns 400 when q is missing or blank", async () => {
+        const response = await router.handle(makeSemanticSearchRequest({ q: " " }));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "missing_query" });
+    });
+
+    it.each(["0", "51", "2.5", "ten"])("returns 400 for limit=%s", async (limit) => {
+        const response = await router.handle(makeSemanticSearchRequest({ q: "x", limit }));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "invalid_limit" });
+    });
+
+    it("returns 404 when semantic search is not configured", async () => {
+        service.searchSemantic = vi.fn().mockResolvedValue({ kind: "not_configured" });
+        const response = await router.handle(makeSemanticSearchRequest({ q: "x" }));
+        expect(response.statusCode).toBe(404);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "semantic_search_not_configured" });
+    });
+
+    it("returns 500 when searchSemantic throws", async () => {
+        service.searchSemantic = vi.fn().mockRejectedValue(new Error("embedding failed"));
+        const response = await router.handle(makeSemanticSearchRequest({ q: "x" }));
+        expect(response.statusCode).toBe(500);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "embedding failed" });
+    });
+});
+
+// ── GET /log/:date/on-this-day ────────────────────────────────────────────────
+
+describe("ThoughtLogRouter GET /log/:date/on-this-day", () => {
+    let router: ThoughtLogRouter;
+    let service: IThoughtLogService;
+
+    function makeOnThisDayRequest(path: string): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("GET"),
+            getRawPath: vi.fn().mockReturnValue(path),
+        });
+    }
+
+    beforeEach(() => {
+        service = makeService();
+        router = new ThoughtLogRouter(service);
+    });
+
+    it("returns 200 with the earlier logs", async () => {
+        const response = await router.handle(makeOnThisDayRequest("/log/2024-01-15/on-this-day"));
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toEqual({
+            date: "2024-01-15",
+            items: [{ period: "week", date: "2024-01-08", title: "2024-01-08 Quiet day", summary: "Summary.", issue_url: "https://github.com/owner/repo/issues/30" }],
+        });
+        expect(service.getOnThisDay).toHaveBeenCalledWith("2024-01-15");
+    });
+
+    it("returns 400 for a date that does not exist", async () => {
+        const response = await router.handle(makeOnThisDayRequest("/log/2024-02-30/on-this-day"));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "invalid_date" });
+    });
+
+    it("returns 500 when getOnThisDay throws", async () => {
+        service.getOnThisDay = vi.fn().mockRejectedValue(new Error("search failed"));
+        const response = await router.handle(makeOnThisDayRequest("/log/2024-01-15/on-this-day"));
+        expect(response.statusCode).toBe(500);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "search failed" });
+    });
+});
+
 // ── GET /log/:date/body ────────────────────────────────────────────────────────
 
 describe("ThoughtLogRouter GET /log/:date/body", () => {
@@ -243,6 +538,167 @@ describe("ThoughtLogRouter GET /log/:date/summary", () => {
     });
 });
 
+// ── GET /export ───────────────────────────────────────────────────────────────
+
+describe("ThoughtLogRouter GET /export", () => {
+    function makeExportRequest(query: Record<string, string>): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("GET"),
+            getRawPath: vi.fn().mockReturnValue("/export"),
+            getQueryParam: vi.fn((name: string) => query[name] ?? null),
+        });
+    }
+
+    it("returns the Markdown document with a text/markdown content type", async () => {
+        const service = makeService();
+        const router = new ThoughtLogRouter(service);
+        const response = await router.handle(makeExportRequest({ from: "2024-01-01", to: "2024-01-31", format: "markdown" }));
+        expect(response.statusCode).toBe(200);
+        expect(response.contentType).toBe("text/markdown; charset=utf-8");
+        expect(response.body).toBe("---\nfrom: 2024-01-01\n---\n");
+        expect(service.exportMarkdown).toHaveBeenCalledWith("2024-01-01", "2024-01-31");
+    });
+
+    it("defaults to Markdown when format is omitted", async () => {
+        const service = makeService();
+        const response = await new ThoughtLogRouter(service).handle(makeExportRequest({ from: "2024-01-01", to: "2024-01-31" }));
+        expect(response.statusCode).toBe(200);
+        expect(service.exportMarkdown).toHaveBeenCalled();
+    });
+
+    it("returns JSON Lines with an NDJSON content type when format is jsonl", async () => {
+        const service = makeService();
+        const response = await new ThoughtLogRouter(service).handle(makeExportRequest({ from: "2024-01-01", to: "2024-01-31", format: "jsonl" }));
+        expect(response.statusCode).toBe(200);
+        expect(response.contentType).toBe("application/x-ndjson; charset=utf-8");
+        expect(response.body).toBe('{"captured_at":"2024-01-15T19:30:00+09:00","raw":"hello"}\n');
+        expect(service.exportJsonl).toHaveBeenCalledWith("2024-01-01", "2024-01-31");
+        expect(service.exportMarkdown).not.toHaveBeenCalled();
+    });
+
+    it("returns 400 for an invalid date range", async () => {
+        const response = await new ThoughtLogRouter(makeService()).handle(makeExportRequest({ from: "2024-02-01", to: "2024-01-31" }));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toEqual({ ok: false, error: "invalid_date_range" });
+    });
+
+    it("returns 400 for an unsupported format", async () => {
+        const response = await new ThoughtLogRouter(makeService()).handle(makeExportRequest({ from: "2024-01-01", to: "2024-01-31", format: "pdf" }));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toEqual({ ok: false, error: "unsupported_format" });
+    });
+
+    it("returns 500 when the service throws", async () => {
+        const service = makeService({ exportMarkdown: vi.fn().mockRejectedValue(new Error("boom")) });
+        const response = await new ThoughtLogRouter(service).handle(makeExportRequest({ from: "2024-01-01", to: "2024-01-31" }));
+        expect(response.statusCode).toBe(500);
+        expect(JSON.parse(response.body)).toEqual({ ok: false, error: "boom" });
+    });
+});
+
+// ── GET /feed ─────────────────────────────────────────────────────────────────
+
+describe("ThoughtLogRouter GET /feed", () => {
+    function makeFeedRequest(path: string): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("GET"),
+            getRawPath: vi.fn().mockReturnValue(path),
+        });
+    }
+
+    it("returns the Atom feed with an Atom content type", async () => {
+        const service = makeService();
+        const response = await new ThoughtLogRouter(service).handle(makeFeedRequest("/feed.atom"));
+        expect(response.statusCode).toBe(200);
+        expect(response.contentType).toBe("application/atom+xml; charset=utf-8");
+        expect(response.body).toBe("<feed/>");
+        expect(service.getFeed).toHaveBeenCalledWith("atom");
+    });
+
+    it("returns the RSS feed with an RSS content type", async () => {
+        const service = makeService();
+        const response = await new ThoughtLogRouter(service).handle(makeFeedRequest("/feed.rss"));
+        expect(response.contentType).toBe("application/rss+xml; charset=utf-8");
+        expect(service.getFeed).toHaveBeenCalledWith("rss");
+    });
+
+    it("returns 500 when the service throws", async () => {
+        const service = makeService({ getFeed: vi.fn().mockRejectedValue(new Error("boom")) });
+        const response = await new ThoughtLogRouter(service).handle(makeFeedRequest("/feed.atom"));
+        expect(response.statusCode).toBe(500);
+        expect(JSON.parse(response.body)).toEqual({ ok: false, error: "boom" });
+    });
+});
+
+// ── GET /calendar.ics ─────────────────────────────────────────────────────────
+
+describe("ThoughtLogRouter GET /calendar.ics", () => {
+    function makeCalendarRequest(query: Record<string, string>): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("GET"),
+            getRawPath: vi.fn().mockReturnValue("/calendar.ics"),
+            getQueryParam: vi.fn((name: string) => query[name] ?? null),
+        });
+    }
+
+    it("returns the calendar with a text/calendar content type", async () => {
+        const service = makeService();
+        const response = await new ThoughtLogRouter(service).handle(makeCalendarRequest({ from: "2024-01-01", to: "2024-01-31" }));
+        expect(response.statusCode).toBe(200);
+        expect(response.contentType).toBe("text/calendar; charset=utf-8");
+        expect(response.body).toBe("BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n");
+        expect(service.getCalendar).toHaveBeenCalledWith("2024-01-01", "2024-01-31");
+    });
+
+    it("returns 400 when the date range is missing", async () => {
+        const service = makeService();
+        const response = await new ThoughtLogRouter(service).handle(makeCalendarRequest({ from: "2024-01-01" }));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toEqual({ ok: false, error: "invalid_date_range" });
+        expect(service.getCalendar).not.toHaveBeenCalled();
+    });
+
+    it("returns 500 when the service throws", async () => {
+        const service = makeService({ getCalendar: vi.fn().mockRejectedValue(new Error("boom")) });
+        const response = await new ThoughtLogRouter(service).handle(makeCalendarRequest({ from: "2024-01-01", to: "2024-01-31" }));
+        expect(response.statusCode).toBe(500);
+    });
+});
+
+// ── POST /import ──────────────────────────────────────────────────────────────
+
+describe("ThoughtLogRouter POST /import", () => {
+    function makeImportRequest(body: string): IHttpRequest {
+        return makeRequest({
+            getRawPath: vi.fn().mockReturnValue("/import"),
+            getRawBody: vi.fn().mockReturnValue(body),
+        });
+    }
+
+    it("returns 202 with queued and skipped counts", async () => {
+        const service = makeService();
+        const response = await new ThoughtLogRouter(service).handle(makeImportRequest("{}\n"));
+        expect(response.statusCode).toBe(202);
+        expect(JSON.parse(response.body)).toEqual({ ok: true, queued: 2, skipped: 1 });
+        expect(service.importEntries).toHaveBeenCalledWith("{}\n");
+        expect(service.enqueueEntry).not.toHaveBeenCalled();
+    });
+
+    it("returns 400 with the offending line for an invalid record", async () => {
+        const service = makeService({ importEntries: vi.fn().mockResolvedValue({ kind: "invalid", line: 3, error: "raw must be a non-empty string" }) });
+        const response = await new ThoughtLogRouter(service).handle(makeImportRequest("x"));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toEqual({ ok: false, error: "invalid_record", line: 3, detail: "raw must be a non-empty string" });
+    });
+
+    it("returns 500 when the service throws", async () => {
+        const service = makeService({ importEntries: vi.fn().mockRejectedValue(new Error("SQS down")) });
+        const response = await new ThoughtLogRouter(service).handle(makeImportRequest("x"));
+        expect(response.statusCode).toBe(500);
+        expect(JSON.parse(response.body)).toEqual({ ok: false, error: "SQS down" });
+    });
+});
+
 // ── PUT /log/:date ─────────────────────────────────────────────────────────────
 
 describe("ThoughtLogRouter PUT /log/:date", () => {
@@ -297,6 +753,52 @@ describe("ThoughtLogRouter PUT /log/:date", () => {
     });
 });
 
+// ── PUT /digest/:period/:key ───────────────────────────────────────────────────
+
+describe("ThoughtLogRouter PUT /digest/:period/:key", () => {
+    let router: ThoughtLogRouter;
+    let service: IThoughtLogService;
+
+    function makeDigestRequest(path: string): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("PUT"),
+            getRawPath: vi.fn().mockReturnValue(path),
+        });
+    }
+
+    beforeEach(() => {
+        service = makeService();
+        router = new ThoughtLogRouter(service);
+    });
+
+    it("returns 202 and enqueues a weekly digest", async () => {
+        const response = await router.handle(makeDigestRequest("/digest/week/2026-W42"));
+        expect(response.statusCode).toBe(202);
+        expect(JSON.parse(response.body)).toEqual({ ok: true, queued: true, period: "week", period_key: "2026-W42" });
+        expect(service.requestDigest).toHaveBeenCalledWith("week", "2026-W42");
+    });
+
+    it("enqueues a monthly digest", async () => {
+        service.requestDigest = vi.fn().mockResolvedValue({ kind: "queued", period: "month", periodKey: "2026-10" });
+        const response = await router.handle(makeDigestRequest("/digest/month/2026-10"));
+        expect(response.statusCode).toBe(202);
+        expect(service.requestDigest).toHaveBeenCalledWith("month", "2026-10");
+    });
+
+    it("returns 400 for a key that does not match the period", async () => {
+        const response = await router.handle(makeDigestRequest("/digest/week/2026-10"));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "invalid_period" });
+        expect(service.requestDigest).not.toHaveBeenCalled();
+    });
+
+    it("returns 500 when requestDigest throws", async () => {
+        service.requestDigest = vi.fn().mockRejectedValue(new Error("queue error"));
+        const response = await router.handle(makeDigestRequest("/digest/week/2026-W42"));
+        expect(response.statusCode).toBe(500);
+    });
+});
+
 // ── POST / (create entry) ─────────────────────────────────────────────────────
 
 describe("ThoughtLogRouter POST /", () => {
@@ -324,6 +826,16 @@ describe("ThoughtLogRouter POST /", () => {
         expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "missing_request_id" });
     });
 
+    it("returns 400 when timezone is not an IANA time zone", async () => {
+        const request = makeRequest({
+            getPayload: vi.fn().mockReturnValue({ request_id: "req-1", raw: "hello", timezone: "JST+9" }),
+        });
+        const response = await router.handle(request);
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "invalid_timezone" });
+        expect(service.enqueueEntry).not.toHaveBeenCalled();
+    });
+
     it("returns 400 when payload is invalid JSON", async () => {
         const request = makeRequest({
             getPayload: vi.fn().mockImplementation(() => { throw new SyntaxError("Unexpected token"); }),
@@ -363,6 +875,286 @@ describe("ThoughtLogRouter POST /", () => {
     });
 });
 
+// ── GET /entries/:requestId ───────────────────────────────────────────────────
+
+describe("ThoughtLogRouter GET /entries/:requestId", () => {
+    let router: ThoughtLogRouter;
+    let service: IThoughtLogService;
+
+    function makeStatusRequest(path: string): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("GET"),
+            getRawPath: vi.fn().mockReturnValue(path),
+        });
+    }
+
+    beforeEach(() => {
+        service = makeService();
+        router = new ThoughtLogRouter(service);
+    });
+
+    it("returns 200 with done status and delivery details", async () => {
+        service.getEntryStatus = vi.fn().mockResolvedValue({
+            kind: "done", request_id: "req-1", issue_number: 42, issue_url: "https://github.com/owner/repo/issues/42", comment_id: 99,
+        });
+        const response = await router.handle(makeStatusRequest("/entries/req-1"));
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toEqual({
+            ok: true, status: "done", request_id: "req-1", issue_number: 42, issue_url: "https://github.com/owner/repo/issues/42", comment_id: 99,
+        });
+    });
+
+    it("returns 200 with failed status and the error", async () => {
+        service.getEntryStatus = vi.fn().mockResolvedValue({ kind: "failed", request_id: "req-1", error: "boom" });
+        const response = await router.handle(makeStatusRequest("/entries/req-1"));
+        expect(JSON.parse(response.body)).toEqual({ ok: true, status: "failed", request_id: "req-1", error: "boom" });
+    });
+
+    it("decodes percent-encoded request ids", async () => {
+        await router.handle(makeStatusRequest("/entries/a%20b"));
+        expect(service.getEntryStatus).toHaveBeenCalledWith("a b");
+    });
+
+    it("returns 400 for a malformed percent-encoding", async () => {
+        const response = await router.handle(makeStatusRequest("/entries/%E0%A4%A"));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "invalid_request_id" });
+    });
+
+    it("returns 404 when the request id is unknown", async () => {
+        service.getEntryStatus = vi.fn().mockResolvedValue({ kind: "not_found", request_id: "req-1" });
+        const response = await router.handle(makeStatusRequest("/entries/req-1"));
+        expect(response.statusCode).toBe(404);
+    });
+
+    it("returns 500 when getEntryStatus throws", async () => {
+        service.getEntryStatus = vi.fn().mockRejectedValue(new Error("ddb error"));
+        const response = await router.handle(makeStatusRequest("/entries/req-1"));
+        expect(response.statusCode).toBe(500);
+    });
+});
+
+// ── PATCH /log/:date/entries/:commentId ────────────────────────────────────────
+
+describe("ThoughtLogRouter PATCH /log/:date/entries/:commentId", () => {
+    let router: ThoughtLogRouter;
+    let service: IThoughtLogService;
+
+    function makePatchRequest(payload: Payload): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("PATCH"),
+            getRawPath: vi.fn().mockReturnValue("/log/2024-01-15/entries/99"),
+            getPayload: vi.fn().mockReturnValue(payload),
+        });
+    }
+
+    beforeEach(() => {
+        service = makeService();
+        router = new ThoughtLogRouter(service);
+    });
+
+    it("returns 200 and calls updateEntry with date, comment id and payload", async () => {
+        const response = await router.handle(makePatchRequest({ request_id: "edit-1", raw: "fixed" }));
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: true, comment_id: 99, issue_number: 42 });
+        expect(service.updateEntry).toHaveBeenCalledWith("2024-01-15", 99, { request_id: "edit-1", raw: "fixed" });
+    });
+
+    it("returns 400 when request_id is missing", async () => {
+        const response = await router.handle(makePatchRequest({ raw: "fixed" }));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "missing_request_id" });
+    });
+
+    it("returns 400 when raw is empty", async () => {
+        const response = await router.handle(makePatchRequest({ request_id: "edit-1", raw: " " }));
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "missing_raw" });
+    });
+
+    it("returns 400 when payload is invalid JSON", async () => {
+        const request = makeRequest({
+            getMethod: vi.fn().mockReturnValue("PATCH"),
+            getRawPath: vi.fn().mockReturnValue("/log/2024-01-15/entries/99"),
+            getPayload: vi.fn().mockImplementation(() => { throw new SyntaxError("Unexpected token"); }),
+        });
+        const response = await router.handle(request);
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "invalid_json" });
+    });
+
+    it("returns 409 when the log has been finalized", async () => {
+        service.updateEntry = vi.fn().mockResolvedValue({ kind: "finalized", date: "2024-01-15" });
+        const response = await router.handle(makePatchRequest({ request_id: "edit-1", raw: "fixed" }));
+        expect(response.statusCode).toBe(409);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "log_finalized" });
+    });
+
+    it("returns 404 when the entry does not belong to the date", async () => {
+        service.updateEntry = vi.fn().mockResolvedValue({ kind: "not_found", date: "2024-01-15" });
+        const response = await router.handle(makePatchRequest({ request_id: "edit-1", raw: "fixed" }));
+        expect(response.statusCode).toBe(404);
+    });
+
+    it("replays the stored response for a repeated request_id", async () => {
+        service.updateEntry = vi.fn().mockResolvedValue({ kind: "idempotent", statusCode: 200, body: { ok: true, idempotent: true, comment_id: 99 } });
+        const response = await router.handle(makePatchRequest({ request_id: "edit-1", raw: "fixed" }));
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toMatchObject({ idempotent: true });
+    });
+
+    it("returns 500 when updateEntry throws", async () => {
+        service.updateEntry = vi.fn().mockRejectedValue(new Error("gh error"));
+        const response = await router.handle(makePatchRequest({ request_id: "edit-1", raw: "fixed" }));
+        expect(response.statusCode).toBe(500);
+    });
+});
+
+// ── DELETE /log/:date/entries/:commentId ───────────────────────────────────────
+
+describe("ThoughtLogRouter DELETE /log/:date/entries/:commentId", () => {
+    let router: ThoughtLogRouter;
+    let service: IThoughtLogService;
+
+    function makeDeleteRequest(): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("DELETE"),
+            getRawPath: vi.fn().mockReturnValue("/log/2024-01-15/entries/99"),
+        });
+    }
+
+    beforeEach(() => {
+        service = makeService();
+        router = new ThoughtLogRouter(service);
+    });
+
+    it("returns 200 with deleted flag", async () => {
+        const response = await router.handle(makeDeleteRequest());
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: true, deleted: true, comment_id: 99 });
+        expect(service.deleteEntry).toHaveBeenCalledWith("2024-01-15", 99);
+    });
+
+    it("returns 409 when the log has been finalized", async () => {
+        service.deleteEntry = vi.fn().mockResolvedValue({ kind: "finalized", date: "2024-01-15" });
+        const response = await router.handle(makeDeleteRequest());
+        expect(response.statusCode).toBe(409);
+    });
+
+    it("returns 404 when the entry is not found", async () => {
+        service.deleteEntry = vi.fn().mockResolvedValue({ kind: "not_found", date: "2024-01-15" });
+        const response = await router.handle(makeDeleteRequest());
+        expect(response.statusCode).toBe(404);
+    });
+
+    it("replays the stored response for a repeated delete", async () => {
+        service.deleteEntry = vi.fn().mockResolvedValue({ kind: "idempotent", statusCode: 200, body: { ok: true, idempotent: true, comment_id: 99 } });
+        const response = await router.handle(makeDeleteRequest());
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toMatchObject({ idempotent: true });
+    });
+
+    it("returns 500 when deleteEntry throws", async () => {
+        service.deleteEntry = vi.fn().mockRejectedValue("plain string error");
+        const response = await router.handle(makeDeleteRequest());
+        expect(response.statusCode).toBe(500);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: false, error: "plain string error" });
+    });
+});
+
+// ── GET /log/:date/entries/:commentId/original ────────────────────────────────
+
+describe("ThoughtLogRouter GET /log/:date/entries/:commentId/original", () => {
+    let router: ThoughtLogRouter;
+    let service: IThoughtLogService;
+
+    function makeOriginalRequest(): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("GET"),
+            getRawPath: vi.fn().mockReturnValue("/log/2024-01-15/entries/99/original"),
+        });
+    }
+
+    beforeEach(() => {
+        service = makeService();
+        router = new ThoughtLogRouter(service);
+    });
+
+    it("returns 200 with the original and the current body", async () => {
+        const response = await router.handle(makeOriginalRequest());
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toEqual({ date: "2024-01-15", comment_id: 99, original: "raw transcript", body: "## 09:00\nrefined\n" });
+        expect(service.getEntryOriginal).toHaveBeenCalledWith("2024-01-15", 99);
+    });
+
+    it("returns 404 when the entry has no preserved original", async () => {
+        service.getEntryOriginal = vi.fn().mockResolvedValue({ kind: "no_original", date: "2024-01-15", comment_id: 99 });
+        const response = await router.handle(makeOriginalRequest());
+        expect(response.statusCode).toBe(404);
+        expect(JSON.parse(response.body)).toMatchObject({ error: "no_original" });
+    });
+
+    it("returns 404 when the entry is not found", async () => {
+        service.getEntryOriginal = vi.fn().mockResolvedValue({ kind: "not_found", date: "2024-01-15" });
+        const response = await router.handle(makeOriginalRequest());
+        expect(response.statusCode).toBe(404);
+        expect(JSON.parse(response.body)).toMatchObject({ error: "not_found" });
+    });
+
+    it("returns 500 when getEntryOriginal throws", async () => {
+        service.getEntryOriginal = vi.fn().mockRejectedValue(new Error("boom"));
+        const response = await router.handle(makeOriginalRequest());
+        expect(response.statusCode).toBe(500);
+    });
+});
+
+// ── POST /log/:date/entries/:commentId/revert ─────────────────────────────────
+
+describe("ThoughtLogRouter POST /log/:date/entries/:commentId/revert", () => {
+    let router: ThoughtLogRouter;
+    let service: IThoughtLogService;
+
+    function makeRevertRequest(): IHttpRequest {
+        return makeRequest({
+            getMethod: vi.fn().mockReturnValue("POST"),
+            getRawPath: vi.fn().mockReturnValue("/log/2024-01-15/entries/99/revert"),
+        });
+    }
+
+    beforeEach(() => {
+        service = makeService();
+        router = new ThoughtLogRouter(service);
+    });
+
+    it("returns 200 with the reverted flag", async () => {
+        const response = await router.handle(makeRevertRequest());
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toMatchObject({ ok: true, reverted: true, comment_id: 99 });
+        expect(service.revertEntry).toHaveBeenCalledWith("2024-01-15", 99);
+        expect(service.enqueueEntry).not.toHaveBeenCalled();
+    });
+
+    it("returns 409 when the log has been finalized", async () => {
+        service.revertEntry = vi.fn().mockResolvedValue({ kind: "finalized", date: "2024-01-15" });
+        const response = await router.handle(makeRevertRequest());
+        expect(response.statusCode).toBe(409);
+        expect(JSON.parse(response.body)).toMatchObject({ error: "log_finalized" });
+    });
+
+    it("returns 409 when there is no original to restore", async () => {
+        service.revertEntry = vi.fn().mockResolvedValue({ kind: "no_original", date: "2024-01-15", comment_id: 99 });
+        const response = await router.handle(makeRevertRequest());
+        expect(response.statusCode).toBe(409);
+        expect(JSON.parse(response.body)).toMatchObject({ error: "no_original" });
+    });
+
+    it("returns 404 when the entry is not found", async () => {
+        service.revertEntry = vi.fn().mockResolvedValue({ kind: "not_found", date: "2024-01-15" });
+        const response = await router.handle(makeRevertRequest());
+        expect(response.statusCode).toBe(404);
+    });
+});
+
 // ── method not allowed ────────────────────────────────────────────────────────
 
 describe("ThoughtLogRouter method_not_allowed", () => {
@@ -379,3 +1171,34 @@ describe("ThoughtLogRouter method_not_allowed", () => {
     });
 });
 
+
+// ── scopes ────────────────────────────────────────────────────────────────────
+
+describe("getRequiredScope", () => {
+    it("maps reads, finalize and digests, and other writes to their scopes", () => {
+        expect(getRequiredScope("GET", "/log/2024-01-15")).toBe("read:logs");
+        expect(getRequiredScope("PUT", "/log/2024-01-15")).toBe("finalize");
+        expect(getRequiredScope("PUT", "/digest/week/2024-01-15")).toBe("finalize");
+        expect(getRequiredScope("POST", "/")).toBe("write:entries");
+        expect(getRequiredScope("DELETE", "/entry/req-1")).toBe("write:entries");
+    });
+});
+
+describe("ThoughtLogRouter scopes", () => {
+    it("returns 403 when the caller lacks the required scope", async () => {
+        const service = makeService();
+        const router = new ThoughtLogRouter(service, ["read:logs"]);
+        const response = await router.handle(makeRequest());
+        expect(response.statusCode).toBe(403);
+        expect(JSON.parse(response.body)).toEqual({ ok: false, error: "insufficient_scope", required_scope: "write:entries" });
+        expect(service.enqueueEntry).not.toHaveBeenCalled();
+    });
+
+    it("handles the request when the caller has the required scope", async () => {
+        const service = makeService();
+        const router = new ThoughtLogRouter(service, ["write:entries"]);
+        const response = await router.handle(makeRequest());
+        expect(response.statusCode).toBe(201);
+        expect(service.enqueueEntry).toHaveBeenCalled();
+    });
+});
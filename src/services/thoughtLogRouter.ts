@@ -1,24 +1,253 @@
 import type { IHttpRequest } from "../interfaces/IHttpRequest";
-import type { HttpResponse } from "../types";
+import type { ApiScope, DigestPeriod, HttpResponse } from "../types";
 import { HTTP_STATUS } from "../utils/httpStatus";
+import { isDateKey, isTimeZone } from "../utils/date";
+import { getDigestRange } from "./digestService";
+import type { FeedFormat } from "../utils/feed";
 import type { IThoughtLogService } from "../interfaces/IThoughtLogService";
 
+const LOG_COLLECTION_PATH = /\/log\/?$/;
+const LOG_PATH = /\/log\/\d{4}-\d{2}-\d{2}$/;
+const SEARCH_PATH = /\/search\/?$/;
+const SEMANTIC_SEARCH_PATH = /\/search\/semantic\/?$/;
+const ENTRY_PATH = /\/log\/(\d{4}-\d{2}-\d{2})\/entries\/(\d+)$/;
+const ENTRY_ORIGINAL_PATH = /\/log\/(\d{4}-\d{2}-\d{2})\/entries\/(\d+)\/(original|revert)$/;
+const ON_THIS_DAY_PATH = /\/log\/(\d{4}-\d{2}-\d{2})\/on-this-day$/;
+const ENTRY_STATUS_PATH = /\/entries\/([^/]+)$/;
+const DIGEST_PATH = /\/digest\/(week|month)\/([^/]+)$/;
+const EXPORT_PATH = /\/export\/?$/;
+const IMPORT_PATH = /\/import\/?$/;
+const FEED_PATH = /\/feed\.(atom|rss)$/;
+const CALENDAR_PATH = /\/calendar\.ics$/;
+
+const DEFAULT_SEMANTIC_SEARCH_LIMIT = 10;
+const MAX_SEMANTIC_SEARCH_LIMIT = 50;
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+    atom: "application/atom+xml; charset=utf-8",
+    rss: "application/rss+xml; charset=utf-8",
+};
+
 function jsonResponse(statusCode: number, body: object): HttpResponse {
     return { statusCode, body: JSON.stringify(body) };
 }
 
+/**
+ * Returns the scope a request needs: reads need read:logs, finalizing a day and generating
+ * digests need finalize, and every other write needs write:entries.
+ */
+export function getRequiredScope(method: string, path: string): ApiScope {
+    if (method === "GET") return "read:logs";
+    if (method === "PUT" && (LOG_PATH.test(path) || DIGEST_PATH.test(path))) return "finalize";
+    return "write:entries";
+}
+
 /**
  * Framework-agnostic request dispatcher.
  * Routes incoming requests to the appropriate ThoughtLogService operation
  * and returns a framework-neutral HttpResponse.
+ * When the caller's scopes are given, requests outside them are rejected with 403.
  */
 export class ThoughtLogRouter {
-    constructor(private readonly service: IThoughtLogService) {}
+    constructor(
+        private readonly service: IThoughtLogService,
+        /** Scopes of the authenticated caller; every request is allowed when unset. */
+        private readonly scopes?: readonly ApiScope[],
+    ) {}
 
     async handle(request: IHttpRequest): Promise<HttpResponse> {
         const method = request.getMethod();
         const dateParam = request.getDateParam();
         const subResource = request.getSubResource();
+        const path = request.getRawPath();
+
+        if (this.scopes) {
+            const requiredScope = getRequiredScope(method, path);
+            if (!this.scopes.includes(requiredScope)) {
+                return jsonResponse(HTTP_STATUS.FORBIDDEN, { ok: false, error: "insufficient_scope", required_scope: requiredScope });
+            }
+        }
+
+        // GET /log?from=yyyy-mm-dd&to=yyyy-mm-dd&cursor=... – list daily logs in a date range
+        if (method === "GET" && LOG_COLLECTION_PATH.test(path)) {
+            const from = request.getQueryParam("from");
+            const to = request.getQueryParam("to");
+            if (!from || !to || !isDateKey(from) || !isDateKey(to) || from > to) {
+                return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_date_range" });
+            }
+            try {
+                const outcome = await this.service.listLogs(from, to, request.getQueryParam("cursor") ?? undefined);
+                if (outcome.kind === "invalid_cursor") {
+                    return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_cursor" });
+                }
+                return jsonResponse(HTTP_STATUS.OK, { logs: outcome.logs, cursor: outcome.cursor });
+            } catch (e) {
+                return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+
+        // GET /search?q=...&from=&to=&kind= – full-text search across entries
+        if (method === "GET" && SEARCH_PATH.test(path)) {
+            const query = (request.getQueryParam("q") ?? "").trim();
+            if (!query) {
+                return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "missing_query" });
+            }
+            const from = request.getQueryParam("from") ?? undefined;
+            const to = request.getQueryParam("to") ?? undefined;
+            if ((from && !isDateKey(from)) || (to && !isDateKey(to)) || (from && to && from > to)) {
+                return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_date_range" });
+            }
+            const kind = request.getQueryParam("kind") ?? undefined;
+            try {
+                const outcome = await this.service.searchEntries({ query, from, to, kind });
+                return jsonResponse(HTTP_STATUS.OK, { hits: outcome.hits });
+            } catch (e) {
+                return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+
+        // GET /search/semantic?q=...&limit= – entries similar in meaning to the query, with scores
+        if (method === "GET" && SEMANTIC_SEARCH_PATH.test(path)) {
+            const query = (request.getQueryParam("q") ?? "").trim();
+            if (!query) {
+                return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "missing_query" });
+            }
+            const limitParam = request.getQueryParam("limit");
+            const limit = limitParam ? Number(limitParam) : DEFAULT_SEMANTIC_SEARCH_LIMIT;
+            if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEMANTIC_SEARCH_LIMIT) {
+                return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_limit" });
+            }
+            try {
+                const outcome = await this.service.searchSemantic(query, limit);
+                if (outcome.kind === "not_configured") {
+                    return jsonResponse(HTTP_STATUS.NOT_FOUND, { ok: false, error: "semantic_search_not_configured" });
+                }
+                return jsonResponse(HTTP_STATUS.OK, { hits: outcome.hits });
+            } catch (e) {
+                return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+
+        // GET /export?from=yyyy-mm-dd&to=yyyy-mm-dd&format=markdown|jsonl – export a date range as one document
+        if (method === "GET" && EXPORT_PATH.test(path)) {
+            const from = request.getQueryParam("from");
+            const to = request.getQueryParam("to");
+            if (!from || !to || !isDateKey(from) || !isDateKey(to) || from > to) {
+                return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_date_range" });
+            }
+            const format = request.getQueryParam("format") ?? "markdown";
+            if (format !== "markdown" && format !== "jsonl") {
+                return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "unsupported_format" });
+            }
+            try {
+                if (format === "jsonl") {
+                    const outcome = await this.service.exportJsonl(from, to);
+                    return { statusCode: HTTP_STATUS.OK, contentType: "application/x-ndjson; charset=utf-8", body: outcome.jsonl };
+                }
+                const outcome = await this.service.exportMarkdown(from, to);
+                return { statusCode: HTTP_STATUS.OK, contentType: "text/markdown; charset=utf-8", body: outcome.markdown };
+            } catch (e) {
+                return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+
+        // GET /feed.atom or GET /feed.rss – recently finalized daily logs
+        const feedMatch = method === "GET" ? path.match(FEED_PATH) : null;
+        if (feedMatch) {
+            const format = feedMatch[1] as FeedFormat;
+            try {
+                const outcome = await this.service.getFeed(format);
+                return { statusCode: HTTP_STATUS.OK, contentType: FEED_CONTENT_TYPES[format], body: outcome.xml };
+            } catch (e) {
+                return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+
+        // GET /calendar.ics?from=yyyy-mm-dd&to=yyyy-mm-dd – one all-day event per daily log
+        if (method === "GET" && CALENDAR_PATH.test(path)) {
+            const from = request.getQueryParam("from");
+            const to = request.getQueryParam("to");
+            if (!from || !to || !isDateKey(from) || !isDateKey(to) || from > to) {
+                return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_date_range" });
+            }
+            try {
+                const outcome = await this.service.getCalendar(from, to);
+                return { statusCode: HTTP_STATUS.OK, contentType: "text/calendar; charset=utf-8", body: outcome.ics };
+            } catch (e) {
+                return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+
+        // POST /import – enqueue entries from a JSON Lines body produced by GET /export?format=jsonl
+        if (method === "POST" && IMPORT_PATH.test(path)) {
+            try {
+                const outcome = await this.service.importEntries(request.getRawBody());
+                if (outcome.kind === "invalid") {
+                    return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_record", line: outcome.line, detail: outcome.error });
+                }
+                return jsonResponse(HTTP_STATUS.ACCEPTED, { ok: true, queued: outcome.queued, skipped: outcome.skipped });
+            } catch (e) {
+                return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+
+        // PATCH /log/yyyy-mm-dd/entries/{commentId} – edit an entry
+        // DELETE /log/yyyy-mm-dd/entries/{commentId} – retract an entry
+        const entryMatch = path.match(ENTRY_PATH);
+        if (entryMatch && (method === "PATCH" || method === "DELETE")) {
+            const dateKey = entryMatch[1];
+            const commentId = Number(entryMatch[2]);
+            return method === "PATCH"
+                ? this.handleUpdateEntry(request, dateKey, commentId)
+                : this.handleDeleteEntry(dateKey, commentId);
+        }
+
+        // GET /log/yyyy-mm-dd/entries/{commentId}/original – voice transcript kept by refinement
+        // POST /log/yyyy-mm-dd/entries/{commentId}/revert – restore that transcript
+        const originalMatch = path.match(ENTRY_ORIGINAL_PATH);
+        if (originalMatch && ((method === "GET" && originalMatch[3] === "original") || (method === "POST" && originalMatch[3] === "revert"))) {
+            const dateKey = originalMatch[1];
+            const commentId = Number(originalMatch[2]);
+            return method === "GET"
+                ? this.handleGetEntryOriginal(dateKey, commentId)
+                : this.handleRevertEntry(dateKey, commentId);
+        }
+
+        // GET /entries/{request_id} – delivery status of an entry posted via POST /
+        const entryStatusMatch = method === "GET" && !ENTRY_PATH.test(path) ? path.match(ENTRY_STATUS_PATH) : null;
+        if (entryStatusMatch) {
+            let requestId: string;
+            try {
+                requestId = decodeURIComponent(entryStatusMatch[1]);
+            } catch {
+                return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_request_id" });
+            }
+            try {
+                const outcome = await this.service.getEntryStatus(requestId);
+                if (outcome.kind === "not_found") {
+                    return jsonResponse(HTTP_STATUS.NOT_FOUND, { ok: false, error: "not_found", request_id: outcome.request_id });
+                }
+                const { kind, ...details } = outcome;
+                return jsonResponse(HTTP_STATUS.OK, { ok: true, status: kind, ...details });
+            } catch (e) {
+                return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+
+        // GET /log/yyyy-mm-dd/on-this-day – finalized logs one week, one month and one year earlier
+        const onThisDayMatch = method === "GET" ? path.match(ON_THIS_DAY_PATH) : null;
+        if (onThisDayMatch) {
+            const dateKey = onThisDayMatch[1];
+            if (!isDateKey(dateKey)) {
+                return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_date" });
+            }
+            try {
+                const outcome = await this.service.getOnThisDay(dateKey);
+                return jsonResponse(HTTP_STATUS.OK, { date: outcome.date, items: outcome.items });
+            } catch (e) {
+                return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
 
         // GET /log/yyyy-mm-dd/body or GET /log/yyyy-mm-dd/comments or GET /log/yyyy-mm-dd/summary
         if (method === "GET" && subResource) {
@@ -75,6 +304,22 @@ export class ThoughtLogRouter {
             }
         }
 
+        // PUT /digest/week/YYYY-Www or PUT /digest/month/YYYY-MM – enqueue digest generation
+        const digestMatch = method === "PUT" ? path.match(DIGEST_PATH) : null;
+        if (digestMatch) {
+            const period = digestMatch[1] as DigestPeriod;
+            const periodKey = digestMatch[2];
+            if (!getDigestRange(period, periodKey)) {
+                return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_period" });
+            }
+            try {
+                const outcome = await this.service.requestDigest(period, periodKey);
+                return jsonResponse(HTTP_STATUS.ACCEPTED, { ok: true, queued: true, period: outcome.period, period_key: outcome.periodKey });
+            } catch (e) {
+                return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+            }
+        }
+
         // POST /  – create a new log entry
         if (method !== "POST") {
             return jsonResponse(HTTP_STATUS.METHOD_NOT_ALLOWED, { ok: false, error: "method_not_allowed" });
@@ -90,6 +335,9 @@ export class ThoughtLogRouter {
         if (!requestId) {
             return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "missing_request_id" });
         }
+        if (payload.timezone !== undefined && (typeof payload.timezone !== "string" || !isTimeZone(payload.timezone))) {
+            return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_timezone" });
+        }
 
         try {
             const outcome = await this.service.enqueueEntry(payload);
@@ -101,4 +349,113 @@ export class ThoughtLogRouter {
             return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
         }
     }
+
+    private async handleUpdateEntry(request: IHttpRequest, dateKey: string, commentId: number): Promise<HttpResponse> {
+        let payload;
+        try {
+            payload = request.getPayload();
+        } catch (e) {
+            return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "invalid_json", detail: e instanceof Error ? e.message : String(e) });
+        }
+
+        const requestId = (payload.request_id || "").toString().trim();
+        if (!requestId) {
+            return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "missing_request_id" });
+        }
+        if (!(payload.raw ?? "").toString().trim()) {
+            return jsonResponse(HTTP_STATUS.BAD_REQUEST, { ok: false, error: "missing_raw" });
+        }
+
+        try {
+            const outcome = await this.service.updateEntry(dateKey, commentId, payload);
+            if (outcome.kind === "idempotent") {
+                return jsonResponse(outcome.statusCode, outcome.body);
+            }
+            if (outcome.kind === "not_found") {
+                return jsonResponse(HTTP_STATUS.NOT_FOUND, { ok: false, error: "not_found", date: outcome.date });
+            }
+            if (outcome.kind === "finalized") {
+                return jsonResponse(HTTP_STATUS.CONFLICT, { ok: false, error: "log_finalized", date: outcome.date });
+            }
+            return jsonResponse(HTTP_STATUS.OK, {
+                ok: true,
+                date: outcome.date,
+                issue_number: outcome.issue_number,
+                issue_url: outcome.issue_url,
+                comment_id: outcome.comment_id,
+            });
+        } catch (e) {
+            return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+        }
+    }
+
+    private async handleDeleteEntry(dateKey: string, commentId: number): Promise<HttpResponse> {
+        try {
+            const outcome = await this.service.deleteEntry(dateKey, commentId);
+            if (outcome.kind === "idempotent") {
+                return jsonResponse(outcome.statusCode, outcome.body);
+            }
+            if (outcome.kind === "not_found") {
+                return jsonResponse(HTTP_STATUS.NOT_FOUND, { ok: false, error: "not_found", date: outcome.date });
+            }
+            if (outcome.kind === "finalized") {
+                return jsonResponse(HTTP_STATUS.CONFLICT, { ok: false, error: "log_finalized", date: outcome.date });
+            }
+            return jsonResponse(HTTP_STATUS.OK, {
+                ok: true,
+                deleted: true,
+                date: outcome.date,
+                issue_number: outcome.issue_number,
+                issue_url: outcome.issue_url,
+                comment_id: outcome.comment_id,
+            });
+        } catch (e) {
+            return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+        }
+    }
+
+    private async handleGetEntryOriginal(dateKey: string, commentId: number): Promise<HttpResponse> {
+        try {
+            const outcome = await this.service.getEntryOriginal(dateKey, commentId);
+            if (outcome.kind === "not_found") {
+                return jsonResponse(HTTP_STATUS.NOT_FOUND, { ok: false, error: "not_found", date: outcome.date });
+            }
+            if (outcome.kind === "no_original") {
+                return jsonResponse(HTTP_STATUS.NOT_FOUND, { ok: false, error: "no_original", date: outcome.date, comment_id: outcome.comment_id });
+            }
+            return jsonResponse(HTTP_STATUS.OK, {
+                date: outcome.date,
+                comment_id: outcome.comment_id,
+                original: outcome.original,
+                body: outcome.body,
+            });
+        } catch (e) {
+            return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+        }
+    }
+
+    private async handleRevertEntry(dateKey: string, commentId: number): Promise<HttpResponse> {
+        try {
+            const outcome = await this.service.revertEntry(dateKey, commentId);
+            if (outcome.kind === "not_found") {
+                return jsonResponse(HTTP_STATUS.NOT_FOUND, { ok: false, error: "not_found", date: outcome.date });
+            }
+            if (outcome.kind === "finalized") {
+                return jsonResponse(HTTP_STATUS.CONFLICT, { ok: false, error: "log_finalized", date: outcome.date });
+            }
+            if (outcome.kind === "no_original") {
+                return jsonResponse(HTTP_STATUS.CONFLICT, { ok: false, error: "no_original", date: outcome.date, comment_id: outcome.comment_id });
+            }
+            return jsonResponse(HTTP_STATUS.OK, {
+                ok: true,
+                reverted: true,
+                date: outcome.date,
+                issue_number: outcome.issue_number,
+                issue_url: outcome.issue_url,
+                comment_id: outcome.comment_id,
+            });
+        } catch (e) {
+            return jsonResponse(HTTP_STATUS.INTERNAL_SERVER_ERROR, { ok: false, error: e instanceof Error ? e.message : String(e) });
+        }
+    }
 }
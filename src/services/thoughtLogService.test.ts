@@ -1,32 +1,43 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { ThoughtLogService } from "./thoughtLogService";
+import { getDateKey } from "../utils/date";
 import type { IAuthService } from "../interfaces/IAuthService";
-import type { IGitHubService } from "../interfaces/IGitHubService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
 import type { IIdempotencyService } from "../interfaces/IIdempotencyService";
 import type { IQueueService } from "../interfaces/IQueueService";
-import type { GitHubIssue, GitHubComment } from "../types";
+import type { IEntryStore } from "../interfaces/IEntryStore";
+import type { IEmbeddingService } from "../interfaces/IEmbeddingService";
+import type { IVectorStore } from "../interfaces/IVectorStore";
+import type { Issue, IssueComment, StoredEntry, EntryVector } from "../types";
 
 // ── shared test doubles ────────────────────────────────────────────────────────
 
-const mockIssue: GitHubIssue = { number: 42, html_url: "https://github.com/owner/repo/issues/42", title: "2024-01-15", body: "# 2024-01-15\n\nSummary text." };
-const mockComment: GitHubComment = { id: 99, body: "## 19:30\nhello\n" };
+const mockIssue: Issue = { number: 42, html_url: "https://github.com/owner/repo/issues/42", title: "2024-01-15", body: "# 2024-01-15\n\nSummary text." };
+const mockComment: IssueComment = { id: 99, body: "## 19:30\nhello\n" };
 
 function makeAuth(token = "tok"): IAuthService {
     return { getInstallationToken: vi.fn().mockResolvedValue(token) };
 }
 
-function makeGitHub(overrides: Partial<IGitHubService> = {}): IGitHubService {
+function makeGitHub(overrides: Partial<IIssueTrackerService> = {}): IIssueTrackerService {
     return {
         findDailyIssue: vi.fn().mockResolvedValue(mockIssue),
+        searchDailyIssues: vi.fn().mockResolvedValue({ issues: [], hasMore: false }),
+        searchDailyIssuesByText: vi.fn().mockResolvedValue([]),
+        searchOpenDailyIssuesBefore: vi.fn().mockResolvedValue([]),
+        listRecentClosedDailyIssues: vi.fn().mockResolvedValue([]),
         findIssueByTitlePrefix: vi.fn().mockResolvedValue({ ...mockIssue, title: "2024-01-15 Summary Issue" }),
         createDailyIssue: vi.fn().mockResolvedValue(mockIssue),
+        createIssue: vi.fn().mockResolvedValue(mockIssue),
         addComment: vi.fn().mockResolvedValue(mockComment),
         updateIssue: vi.fn().mockResolvedValue(mockIssue),
         closeIssue: vi.fn().mockResolvedValue(mockIssue),
+        addLabels: vi.fn().mockResolvedValue(undefined),
         getIssueComments: vi.fn().mockResolvedValue([mockComment]),
         getIssue: vi.fn().mockResolvedValue(mockIssue),
         getComment: vi.fn().mockResolvedValue(mockComment),
         updateComment: vi.fn().mockResolvedValue(mockComment),
+        deleteComment: vi.fn().mockResolvedValue(undefined),
         ...overrides,
     };
 }
@@ -36,6 +47,8 @@ function makeIdempotency(overrides: Partial<IIdempotencyService> = {}): IIdempot
         claim: vi.fn().mockResolvedValue({ enabled: false, claimed: true }),
         markDone: vi.fn().mockResolvedValue(undefined),
         markFailed: vi.fn().mockResolvedValue(undefined),
+        release: vi.fn().mockResolvedValue(undefined),
+        getItem: vi.fn().mockResolvedValue(null),
         getIssueNumberByTitle: vi.fn().mockResolvedValue(null),
         putIssueTitleCache: vi.fn().mockResolvedValue(undefined),
         ...overrides,
@@ -43,7 +56,19 @@ function makeIdempotency(overrides: Partial<IIdempotencyService> = {}): IIdempot
 }
 
 function makeQueue(): IQueueService {
-    return { sendMessage: vi.fn().mockResolvedValue(undefined) };
+    return { sendMessage: vi.fn().mockResolvedValue(undefined), sendMessages: vi.fn().mockResolvedValue(undefined) };
+}
+
+function makeEntryStore(entries: StoredEntry[] = []): IEntryStore {
+    return {
+        putEntry: vi.fn().mockResolvedValue(true),
+        getEntry: vi.fn().mockImplementation(async (_dateKey: string, sortKey: string) => entries.find((e) => e.sort_key === sortKey) ?? null),
+        listEntries: vi.fn().mockResolvedValue(entries),
+        markMirroring: vi.fn().mockResolvedValue(undefined),
+        markMirrored: vi.fn().mockResolvedValue(undefined),
+        updateEntryBody: vi.fn().mockResolvedValue(undefined),
+        deleteEntry: vi.fn().mockResolvedValue(undefined),
+    };
 }
 
 const config = { owner: "owner", repo: "repo", defaultLabels: "thoughtlog" };
@@ -52,7 +77,7 @@ const config = { owner: "owner", repo: "repo", defaultLabels: "thoughtlog" };
 
 describe("ThoughtLogService.createEntry", () => {
     let auth: IAuthService;
-    let github: IGitHubService;
+    let github: IIssueTrackerService;
     let idempotency: IIdempotencyService;
     let service: ThoughtLogService;
 
@@ -87,6 +112,18 @@ describe("ThoughtLogService.createEntry", () => {
         expect(idempotency.markDone).toHaveBeenCalledOnce();
     });
 
+    it("uses the log's time zone for entries posted without one", async () => {
+        const svc = new ThoughtLogService(auth, github, idempotency, { ...config, timeZone: "Europe/Berlin" });
+        // 2024-01-15T23:30:00Z is 00:30 CET on the 16th, a night-owl entry of the 15th
+        await svc.createEntry({ request_id: "req-1", raw: "hello", captured_at: "2024-01-15T23:30:00Z" });
+        await svc.createEntry({ request_id: "req-2", raw: "hello", captured_at: "2024-01-15T23:30:00Z", timezone: "Asia/Tokyo" });
+
+        expect(github.findDailyIssue).toHaveBeenNthCalledWith(1, expect.objectContaining({ dateKey: "2024-01-15" }));
+        expect(github.addComment).toHaveBeenNthCalledWith(1, expect.objectContaining({ commentBody: "## 24:30\nhello\n" }));
+        expect(github.findDailyIssue).toHaveBeenNthCalledWith(2, expect.objectContaining({ dateKey: "2024-01-16" }));
+        expect(github.addComment).toHaveBeenNthCalledWith(2, expect.objectContaining({ commentBody: "## 08:30\nhello\n" }));
+    });
+
     it("creates a daily issue when none exists", async () => {
         (github.findDailyIssue as ReturnType<typeof vi.fn>).mockResolvedValue(null);
         const outcome = await service.createEntry({ request_id: "req-2", raw: "new", captured_at: "2024-01-15T10:30:00Z" });
@@ -191,7 +228,7 @@ describe("ThoughtLogService.createEntry", () => {
     });
 
     it("succeeds and calls markDone even when queue send fails", async () => {
-        const queue: IQueueService = { sendMessage: vi.fn().mockRejectedValue(new Error("SQS down")) };
+        const queue: IQueueService = { sendMessage: vi.fn().mockRejectedValue(new Error("SQS down")), sendMessages: vi.fn() };
         const svc = new ThoughtLogService(makeAuth(), github, idempotency, config, queue);
         const outcome = await svc.createEntry({ request_id: "req-voice-qfail", raw: "raw voice text", source: "voice" });
         expect(outcome.kind).toBe("created");
@@ -202,13 +239,372 @@ describe("ThoughtLogService.createEntry", () => {
     it("calls markDone before queue send for voice entries", async () => {
         const callOrder: string[] = [];
         (idempotency.markDone as ReturnType<typeof vi.fn>).mockImplementation(async () => { callOrder.push("markDone"); });
-        const queue: IQueueService = { sendMessage: vi.fn().mockImplementation(async () => { callOrder.push("sendMessage"); }) };
+        const queue: IQueueService = { sendMessage: vi.fn().mockImplementation(async () => { callOrder.push("sendMessage"); }), sendMessages: vi.fn() };
         const svc = new ThoughtLogService(makeAuth(), github, idempotency, config, queue);
         await svc.createEntry({ request_id: "req-order", raw: "text", source: "voice" });
         expect(callOrder.indexOf("markDone")).toBeLessThan(callOrder.indexOf("sendMessage"));
     });
 });
 
+// ── getEntryStatus ─────────────────────────────────────────────────────────────
+
+describe("ThoughtLogService.getEntryStatus", () => {
+    function serviceWithItem(item: unknown): ThoughtLogService {
+        const idempotency = makeIdempotency({ getItem: vi.fn().mockResolvedValue(item) });
+        return new ThoughtLogService(makeAuth(), makeGitHub(), idempotency, config);
+    }
+
+    it("returns done with issue and comment details", async () => {
+        const outcome = await serviceWithItem({ request_id: "r1", status: "done", issue_number: 42, issue_url: mockIssue.html_url, comment_id: 99 }).getEntryStatus("r1");
+        expect(outcome).toEqual({ kind: "done", request_id: "r1", issue_number: 42, issue_url: mockIssue.html_url, comment_id: 99 });
+    });
+
+    it("returns failed with the stored error", async () => {
+        const outcome = await serviceWithItem({ request_id: "r1", status: "failed", error: "GitHub API 502" }).getEntryStatus("r1");
+        expect(outcome).toEqual({ kind: "failed", request_id: "r1", error: "GitHub API 502" });
+    });
+
+    it("returns processing while the worker holds the claim", async () => {
+        const outcome = await serviceWithItem({ request_id: "r1", status: "processing" }).getEntryStatus("r1");
+        expect(outcome).toEqual({ kind: "processing", request_id: "r1" });
+    });
+
+    it("returns not_found for unknown request ids", async () => {
+        const outcome = await serviceWithItem(null).getEntryStatus("r1");
+        expect(outcome).toEqual({ kind: "not_found", request_id: "r1" });
+    });
+
+    it("does not expose daily issue cache records", async () => {
+        const outcome = await serviceWithItem({ request_id: "2024-01-15", status: "issue_cache", issue_number: 42 }).getEntryStatus("2024-01-15");
+        expect(outcome.kind).toBe("not_found");
+    });
+});
+
+// ── updateEntry ────────────────────────────────────────────────────────────────
+
+const entryComment: IssueComment = {
+    id: 99,
+    body: "## 26:15\n**[idea]** helo\n",
+    issue_url: "https://api.github.com/repos/owner/repo/issues/42",
+};
+
+describe("ThoughtLogService.updateEntry", () => {
+    function makeEntryGitHub(overrides: Partial<IIssueTrackerService> = {}): IIssueTrackerService {
+        return makeGitHub({ getComment: vi.fn().mockResolvedValue(entryComment), ...overrides });
+    }
+
+    it("throws when request_id is empty", async () => {
+        const service = new ThoughtLogService(makeAuth(), makeEntryGitHub(), makeIdempotency(), config);
+        await expect(service.updateEntry("2024-01-15", 99, { raw: "hello" })).rejects.toThrow("request_id must be a non-empty string");
+    });
+
+    it("rewrites the comment keeping the original header and kind", async () => {
+        const github = makeEntryGitHub();
+        const idempotency = makeIdempotency();
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config);
+        const outcome = await service.updateEntry("2024-01-15", 99, { request_id: "edit-1", raw: " hello " });
+        expect(outcome).toEqual({ kind: "updated", date: "2024-01-15", issue_number: 42, issue_url: mockIssue.html_url, comment_id: 99 });
+        expect(github.updateComment).toHaveBeenCalledWith(expect.objectContaining({ commentId: 99, body: "## 26:15\n**[idea]** hello\n" }));
+        expect(idempotency.markDone).toHaveBeenCalledWith("edit-1", { issue_number: 42, issue_url: mockIssue.html_url, comment_id: 99 });
+    });
+
+    it("replaces or removes the kind when given", async () => {
+        const github = makeEntryGitHub();
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        await service.updateEntry("2024-01-15", 99, { request_id: "edit-1", raw: "hello", kind: "" });
+        expect(github.updateComment).toHaveBeenCalledWith(expect.objectContaining({ body: "## 26:15\nhello\n" }));
+    });
+
+    it("returns finalized without editing when the daily issue is closed", async () => {
+        const github = makeEntryGitHub({ getIssue: vi.fn().mockResolvedValue({ ...mockIssue, state: "closed" }) });
+        const idempotency = makeIdempotency();
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config);
+        const outcome = await service.updateEntry("2024-01-15", 99, { request_id: "edit-1", raw: "hello" });
+        expect(outcome.kind).toBe("finalized");
+        expect(github.updateComment).not.toHaveBeenCalled();
+        expect(idempotency.release).toHaveBeenCalledWith("edit-1");
+        expect(idempotency.markFailed).not.toHaveBeenCalled();
+    });
+
+    it("returns not_found when the comment belongs to another date", async () => {
+        const github = makeEntryGitHub({ getIssue: vi.fn().mockResolvedValue({ ...mockIssue, title: "2024-01-16" }) });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        const outcome = await service.updateEntry("2024-01-15", 99, { request_id: "edit-1", raw: "hello" });
+        expect(outcome.kind).toBe("not_found");
+        expect(github.updateComment).not.toHaveBeenCalled();
+    });
+
+    it("returns idempotent outcome without touching GitHub for a repeated request_id", async () => {
+        const github = makeEntryGitHub();
+        const idempotency = makeIdempotency({
+            claim: vi.fn().mockResolvedValue({ enabled: true, claimed: false, statusCode: 200, body: { ok: true, idempotent: true } }),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config);
+        const outcome = await service.updateEntry("2024-01-15", 99, { request_id: "edit-1", raw: "hello" });
+        expect(outcome.kind).toBe("idempotent");
+        expect(github.getComment).not.toHaveBeenCalled();
+    });
+
+    it("releases the idempotency record and rethrows on GitHub error", async () => {
+        const github = makeEntryGitHub({ updateComment: vi.fn().mockRejectedValue(new Error("gh error")) });
+        const idempotency = makeIdempotency();
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config);
+        await expect(service.updateEntry("2024-01-15", 99, { request_id: "edit-1", raw: "hello" })).rejects.toThrow("gh error");
+        expect(idempotency.release).toHaveBeenCalledWith("edit-1");
+        expect(idempotency.markFailed).not.toHaveBeenCalled();
+    });
+});
+
+describe("ThoughtLogService entry classification", () => {
+    it("queues classification for an entry without a kind", async () => {
+        const queue = makeQueue();
+        const service = new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config, queue, undefined, undefined, true);
+
+        await service.createEntry({ request_id: "req-1", raw: "hello" });
+
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({ type: "classify-entry", issueNumber: 42, commentId: 99 }));
+    });
+
+    it("lets classification queue voice refinement for voice entries", async () => {
+        const queue = makeQueue();
+        const service = new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config, queue, undefined, undefined, true);
+
+        await service.createEntry({ request_id: "req-1", raw: "hello", source: "voice" });
+
+        expect(queue.sendMessage).toHaveBeenCalledOnce();
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({ type: "classify-entry", issueNumber: 42, commentId: 99, voicePolish: true }));
+    });
+
+    it("skips classification for entries posted with a kind", async () => {
+        const queue = makeQueue();
+        const service = new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config, queue, undefined, undefined, true);
+
+        await service.createEntry({ request_id: "req-1", raw: "hello", kind: "idea", source: "voice" });
+
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({ type: "voice-polish", issueNumber: 42, commentId: 99 }));
+    });
+});
+
+describe("ThoughtLogService semantic search", () => {
+    function makeEmbedder(): IEmbeddingService {
+        return { embed: vi.fn().mockResolvedValue([0.1, 0.2]) };
+    }
+
+    function makeVectorStore(results: Array<{ vector: EntryVector; score: number }> = []): IVectorStore {
+        return {
+            putVector: vi.fn().mockResolvedValue(undefined),
+            deleteVector: vi.fn().mockResolvedValue(undefined),
+            query: vi.fn().mockResolvedValue(results),
+        };
+    }
+
+    function makeSemanticService(github: IIssueTrackerService, queue: IQueueService, vectors: IVectorStore = makeVectorStore()): ThoughtLogService {
+        return new ThoughtLogService(makeAuth(), github, makeIdempotency(), config, queue, undefined, undefined, false, makeEmbedder(), vectors);
+    }
+
+    it("returns the nearest entries with their scores", async () => {
+        const vector: EntryVector = {
+            comment_id: 99, date: "2024-01-15", time: "19:30", issue_number: 42, issue_url: mockIssue.html_url!, text: "x".repeat(130), embedding: [0.1, 0.2],
+        };
+        const vectors = makeVectorStore([{ vector, score: 0.9 }]);
+        const service = makeSemanticService(makeGitHub(), makeQueue(), vectors);
+
+        const outcome = await service.searchSemantic("mornings", 5);
+
+        expect(vectors.query).toHaveBeenCalledWith([0.1, 0.2], 5);
+        expect(outcome).toEqual({
+            kind: "found",
+            hits: [{ date: "2024-01-15", time: "19:30", comment_id: 99, issue_url: mockIssue.html_url, snippet: `${"x".repeat(120)}…`, score: 0.9 }],
+        });
+    });
+
+    it("reports not_configured without an embedding service or vector store", async () => {
+        const service = new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config);
+        expect(await service.searchSemantic("mornings", 5)).toEqual({ kind: "not_configured" });
+    });
+
+    it("queues the embedding of a new entry", async () => {
+        const queue = makeQueue();
+        await makeSemanticService(makeGitHub(), queue).createEntry({ request_id: "req-1", raw: "hello" });
+
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({ type: "embed-entry", issueNumber: 42, commentId: 99 }));
+    });
+
+    it("leaves the embedding of a voice entry to voice refinement", async () => {
+        const queue = makeQueue();
+        await makeSemanticService(makeGitHub(), queue).createEntry({ request_id: "req-1", raw: "hello", source: "voice" });
+
+        expect(queue.sendMessage).toHaveBeenCalledOnce();
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({ type: "voice-polish", issueNumber: 42, commentId: 99 }));
+    });
+
+    it("queues the embedding again when an entry is edited", async () => {
+        const queue = makeQueue();
+        const github = makeGitHub({ getComment: vi.fn().mockResolvedValue(entryComment) });
+        await makeSemanticService(github, queue).updateEntry("2024-01-15", 99, { request_id: "edit-1", raw: "hello" });
+
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({ type: "embed-entry", issueNumber: 42, commentId: 99 }));
+    });
+
+    it("removes the vector of a deleted entry", async () => {
+        const vectors = makeVectorStore();
+        const github = makeGitHub({ getComment: vi.fn().mockResolvedValue(entryComment) });
+        await makeSemanticService(github, makeQueue(), vectors).deleteEntry("2024-01-15", 99);
+
+        expect(vectors.deleteVector).toHaveBeenCalledWith(99);
+    });
+});
+
+// ── deleteEntry ────────────────────────────────────────────────────────────────
+
+describe("ThoughtLogService.deleteEntry", () => {
+    it("deletes the comment and records it under a derived request id", async () => {
+        const github = makeGitHub({ getComment: vi.fn().mockResolvedValue(entryComment) });
+        const idempotency = makeIdempotency();
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config);
+        const outcome = await service.deleteEntry("2024-01-15", 99);
+        expect(outcome.kind).toBe("deleted");
+        expect(github.deleteComment).toHaveBeenCalledWith(expect.objectContaining({ commentId: 99 }));
+        expect(idempotency.claim).toHaveBeenCalledWith("delete-entry:99", expect.any(String));
+        expect(idempotency.markDone).toHaveBeenCalledWith("delete-entry:99", expect.objectContaining({ comment_id: 99 }));
+    });
+
+    it("returns idempotent outcome for an already deleted entry", async () => {
+        const github = makeGitHub();
+        const idempotency = makeIdempotency({
+            claim: vi.fn().mockResolvedValue({ enabled: true, claimed: false, statusCode: 200, body: { ok: true, idempotent: true, comment_id: 99 } }),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config);
+        const outcome = await service.deleteEntry("2024-01-15", 99);
+        expect(outcome.kind).toBe("idempotent");
+        expect(github.deleteComment).not.toHaveBeenCalled();
+    });
+
+    it("returns finalized without deleting when the daily issue is closed", async () => {
+        const github = makeGitHub({
+            getComment: vi.fn().mockResolvedValue(entryComment),
+            getIssue: vi.fn().mockResolvedValue({ ...mockIssue, state: "closed" }),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        const outcome = await service.deleteEntry("2024-01-15", 99);
+        expect(outcome.kind).toBe("finalized");
+        expect(github.deleteComment).not.toHaveBeenCalled();
+    });
+
+    it("returns not_found for a comment that is not on a daily issue", async () => {
+        const github = makeGitHub({ getComment: vi.fn().mockResolvedValue({ id: 99, body: "x" }) });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        const outcome = await service.deleteEntry("2024-01-15", 99);
+        expect(outcome.kind).toBe("not_found");
+    });
+
+    it("deletes the entry on a retry after a failed attempt", async () => {
+        // Keeps claims in memory like the idempotency table does.
+        const claims = new Set<string>();
+        const idempotency = makeIdempotency({
+            claim: vi.fn(async (requestId: string) => {
+                if (claims.has(requestId)) return { enabled: true, claimed: false, statusCode: 202, body: { ok: true, idempotent: true, status: "processing" } };
+                claims.add(requestId);
+                return { enabled: true, claimed: true };
+            }),
+            release: vi.fn(async (requestId: string) => {
+                claims.delete(requestId);
+            }),
+        });
+        const github = makeGitHub({
+            getComment: vi.fn().mockResolvedValue(entryComment),
+            deleteComment: vi.fn().mockRejectedValueOnce(new Error("gh error")).mockResolvedValue(undefined),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config);
+
+        await expect(service.deleteEntry("2024-01-15", 99)).rejects.toThrow("gh error");
+        const outcome = await service.deleteEntry("2024-01-15", 99);
+
+        expect(outcome.kind).toBe("deleted");
+        expect(github.deleteComment).toHaveBeenCalledTimes(2);
+        expect(idempotency.markFailed).not.toHaveBeenCalled();
+    });
+
+    it("releases the idempotency record when the entry cannot be deleted", async () => {
+        const github = makeGitHub({ getComment: vi.fn().mockResolvedValue({ id: 99, body: "x" }) });
+        const idempotency = makeIdempotency();
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config);
+        await service.deleteEntry("2024-01-15", 99);
+        expect(idempotency.release).toHaveBeenCalledWith("delete-entry:99");
+        expect(idempotency.markDone).not.toHaveBeenCalled();
+    });
+});
+
+describe("ThoughtLogService original transcripts", () => {
+    const refinedComment: IssueComment = {
+        ...entryComment,
+        body: "## 26:15\n**[idea]** hello\n\n<details><summary>原文</summary>\n\n**[idea]** えーと helo\n\n</details>\n",
+    };
+    const mirrored: StoredEntry = {
+        date_key: "2024-01-15",
+        sort_key: "2024-01-15T17:15:00.000Z#req-1",
+        request_id: "req-1",
+        body: refinedComment.body!,
+        labels: ["thoughtlog"],
+        mirror_status: "mirrored",
+        issue_number: 42,
+        comment_id: 99,
+    };
+
+    it("returns the original next to the visible body", async () => {
+        const github = makeGitHub({ getComment: vi.fn().mockResolvedValue(refinedComment) });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        const outcome = await service.getEntryOriginal("2024-01-15", 99);
+        expect(outcome).toEqual({
+            kind: "found",
+            date: "2024-01-15",
+            comment_id: 99,
+            original: "**[idea]** えーと helo",
+            body: "## 26:15\n**[idea]** hello\n",
+        });
+    });
+
+    it("reads the original of a finalized log", async () => {
+        const github = makeGitHub({
+            getComment: vi.fn().mockResolvedValue(refinedComment),
+            getIssue: vi.fn().mockResolvedValue({ ...mockIssue, state: "closed" }),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        expect((await service.getEntryOriginal("2024-01-15", 99)).kind).toBe("found");
+    });
+
+    it("reports entries that were never refined", async () => {
+        const github = makeGitHub({ getComment: vi.fn().mockResolvedValue(entryComment) });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        expect(await service.getEntryOriginal("2024-01-15", 99)).toEqual({ kind: "no_original", date: "2024-01-15", comment_id: 99 });
+        expect(await service.revertEntry("2024-01-15", 99)).toEqual({ kind: "no_original", date: "2024-01-15", comment_id: 99 });
+        expect(github.updateComment).not.toHaveBeenCalled();
+    });
+
+    it("reverts the comment and the stored entry to the original under the same header", async () => {
+        const github = makeGitHub({ getComment: vi.fn().mockResolvedValue(refinedComment) });
+        const store = makeEntryStore([mirrored]);
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config, undefined, undefined, store);
+
+        const outcome = await service.revertEntry("2024-01-15", 99);
+
+        expect(outcome).toEqual({ kind: "reverted", date: "2024-01-15", issue_number: 42, issue_url: mockIssue.html_url, comment_id: 99 });
+        const body = "## 26:15\n**[idea]** えーと helo\n";
+        expect(github.updateComment).toHaveBeenCalledWith(expect.objectContaining({ commentId: 99, body }));
+        expect(store.updateEntryBody).toHaveBeenCalledWith("2024-01-15", mirrored.sort_key, body);
+    });
+
+    it("does not revert entries of a finalized log", async () => {
+        const github = makeGitHub({
+            getComment: vi.fn().mockResolvedValue(refinedComment),
+            getIssue: vi.fn().mockResolvedValue({ ...mockIssue, state: "closed" }),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        expect((await service.revertEntry("2024-01-15", 99)).kind).toBe("finalized");
+        expect(github.updateComment).not.toHaveBeenCalled();
+    });
+});
+
 // ── getLog ─────────────────────────────────────────────────────────────────────
 
 describe("ThoughtLogService.getLog", () => {
@@ -236,6 +632,110 @@ describe("ThoughtLogService.getLog", () => {
     });
 });
 
+// ── listLogs ───────────────────────────────────────────────────────────────────
+
+describe("ThoughtLogService.listLogs", () => {
+    const openIssue: Issue = { number: 2, title: "2024-01-16", state: "open" };
+    const closedIssue: Issue = { number: 1, title: "2024-01-15 まとめ", state: "closed" };
+
+    it("returns logs sorted by date with state and links", async () => {
+        const github = makeGitHub({
+            searchDailyIssues: vi.fn().mockResolvedValue({ issues: [openIssue, closedIssue], hasMore: false }),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        const outcome = await service.listLogs("2024-01-01", "2024-01-31");
+        expect(outcome.kind).toBe("found");
+        if (outcome.kind === "found") {
+            expect(outcome.logs).toEqual([
+                { id: "issue-id-1", date: "2024-01-15", title: "2024-01-15 まとめ", state: "closed", links: { body: "/log/2024-01-15/body", comments: "/log/2024-01-15/comments" } },
+                { id: "issue-id-2", date: "2024-01-16", title: "2024-01-16", state: "open", links: { body: "/log/2024-01-16/body", comments: "/log/2024-01-16/comments" } },
+            ]);
+            expect(outcome.cursor).toBeNull();
+        }
+    });
+
+    it("searches the first page when no cursor is given", async () => {
+        const github = makeGitHub();
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        await service.listLogs("2024-01-01", "2024-01-31");
+        expect(github.searchDailyIssues).toHaveBeenCalledWith(
+            expect.objectContaining({ from: "2024-01-01", to: "2024-01-31", page: 1, labels: ["thoughtlog"] }),
+        );
+    });
+
+    it("returns the next page as cursor when more results exist", async () => {
+        const github = makeGitHub({
+            searchDailyIssues: vi.fn().mockResolvedValue({ issues: [openIssue], hasMore: true }),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        const outcome = await service.listLogs("2024-01-01", "2024-01-31", "2");
+        expect(github.searchDailyIssues).toHaveBeenCalledWith(expect.objectContaining({ page: 2 }));
+        expect(outcome.kind === "found" && outcome.cursor).toBe("3");
+    });
+
+    it("returns invalid_cursor for a non-numeric cursor without calling GitHub", async () => {
+        const github = makeGitHub();
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        const outcome = await service.listLogs("2024-01-01", "2024-01-31", "abc");
+        expect(outcome.kind).toBe("invalid_cursor");
+        expect(github.searchDailyIssues).not.toHaveBeenCalled();
+    });
+});
+
+// ── searchEntries ──────────────────────────────────────────────────────────────
+
+describe("ThoughtLogService.searchEntries", () => {
+    const dayIssue: Issue = { number: 42, html_url: "https://github.com/owner/repo/issues/42", title: "2024-01-15" };
+    const comments: IssueComment[] = [
+        { id: 1, body: "## 09:00\n**[idea]** an idea about Caching layers\n" },
+        { id: 2, body: "## 10:00\nlunch\n" },
+        { id: 3, body: "## 11:00\n**[todo]** implement caching\n" },
+    ];
+
+    function makeSearchGitHub(): IIssueTrackerService {
+        return makeGitHub({
+            searchDailyIssuesByText: vi.fn().mockResolvedValue([dayIssue]),
+            getIssueComments: vi.fn().mockResolvedValue(comments),
+        });
+    }
+
+    it("returns matching comments with date, time, kind and issue url", async () => {
+        const service = new ThoughtLogService(makeAuth(), makeSearchGitHub(), makeIdempotency(), config);
+        const outcome = await service.searchEntries({ query: "caching" });
+        expect(outcome.hits).toEqual([
+            { date: "2024-01-15", time: "09:00", entry_kind: "idea", comment_id: 1, issue_url: dayIssue.html_url, snippet: "an idea about Caching layers" },
+            { date: "2024-01-15", time: "11:00", entry_kind: "todo", comment_id: 3, issue_url: dayIssue.html_url, snippet: "implement caching" },
+        ]);
+    });
+
+    it("filters hits by kind", async () => {
+        const service = new ThoughtLogService(makeAuth(), makeSearchGitHub(), makeIdempotency(), config);
+        const outcome = await service.searchEntries({ query: "caching", kind: "todo" });
+        expect(outcome.hits.map((h) => h.comment_id)).toEqual([3]);
+    });
+
+    it("passes the query and range to the GitHub search", async () => {
+        const github = makeSearchGitHub();
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        await service.searchEntries({ query: "caching", from: "2024-01-01", to: "2024-01-31" });
+        expect(github.searchDailyIssuesByText).toHaveBeenCalledWith(
+            expect.objectContaining({ text: "caching", from: "2024-01-01", to: "2024-01-31", labels: ["thoughtlog"] }),
+        );
+    });
+
+    it("shortens long texts to a snippet around the match", async () => {
+        const github = makeGitHub({
+            searchDailyIssuesByText: vi.fn().mockResolvedValue([dayIssue]),
+            getIssueComments: vi.fn().mockResolvedValue([{ id: 5, body: `## 09:00\n${"a".repeat(100)} caching ${"b".repeat(100)}\n` }]),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+        const outcome = await service.searchEntries({ query: "caching" });
+        expect(outcome.hits[0].snippet.startsWith("…")).toBe(true);
+        expect(outcome.hits[0].snippet.endsWith("…")).toBe(true);
+        expect(outcome.hits[0].snippet).toContain("caching");
+    });
+});
+
 // ── getLogBody ─────────────────────────────────────────────────────────────────
 
 describe("ThoughtLogService.getLogBody", () => {
@@ -340,6 +840,209 @@ describe("ThoughtLogService.updateLog", () => {
     });
 });
 
+// ── requestDigest ──────────────────────────────────────────────────────────────
+
+describe("ThoughtLogService.requestDigest", () => {
+    it("throws when no queue service is configured", async () => {
+        const service = new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config);
+        await expect(service.requestDigest("week", "2026-W42")).rejects.toThrow("Queue service not configured for digest");
+    });
+
+    it("enqueues a digest message and returns queued outcome", async () => {
+        const queue = makeQueue();
+        const service = new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config, queue);
+        const outcome = await service.requestDigest("month", "2026-10");
+        expect(outcome).toEqual({ kind: "queued", period: "month", periodKey: "2026-10" });
+        const msg = JSON.parse((queue.sendMessage as ReturnType<typeof vi.fn>).mock.calls[0][0]);
+        expect(msg).toEqual({ type: "digest", period: "month", periodKey: "2026-10" });
+    });
+});
+
+// ── exportMarkdown ─────────────────────────────────────────────────────────────
+
+describe("ThoughtLogService.exportMarkdown", () => {
+    it("uses finalized bodies and raw comments for open days, in date order", async () => {
+        const closedDay: Issue = { number: 1, title: "2024-01-14 Planning", body: "Finalized body.", state: "closed" };
+        const openDay: Issue = { number: 2, title: "2024-01-15", body: "# 2024-01-15\n", state: "open" };
+        const github = makeGitHub({
+            searchDailyIssues: vi.fn().mockResolvedValue({ issues: [openDay, closedDay], hasMore: false }),
+            getIssueComments: vi.fn().mockResolvedValue([{ id: 1, body: "## 19:30\nhello\n" }, { id: 2, body: "## 20:00\nworld\n" }]),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+
+        const outcome = await service.exportMarkdown("2024-01-14", "2024-01-15");
+
+        expect(github.getIssueComments).toHaveBeenCalledTimes(1);
+        expect(github.getIssueComments).toHaveBeenCalledWith(expect.objectContaining({ issueNumber: 2 }));
+        expect(outcome.markdown).toContain("from: 2024-01-14\nto: 2024-01-15\n");
+        expect(outcome.markdown).toContain('source: "https://github.com/owner/repo"');
+        const closedAt = outcome.markdown.indexOf("# 2024-01-14 Planning\n\n<!-- 2024-01-14 (finalized) -->\n\nFinalized body.\n");
+        const openAt = outcome.markdown.indexOf("# 2024-01-15\n\n<!-- 2024-01-15 (open) -->\n\n## 19:30\nhello\n\n## 20:00\nworld\n");
+        expect(closedAt).toBeGreaterThan(0);
+        expect(openAt).toBeGreaterThan(closedAt);
+    });
+
+    it("follows search pages until there are no more results", async () => {
+        const github = makeGitHub({
+            searchDailyIssues: vi.fn()
+                .mockResolvedValueOnce({ issues: [], hasMore: true })
+                .mockResolvedValueOnce({ issues: [], hasMore: false }),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+
+        const outcome = await service.exportMarkdown("2024-01-01", "2024-12-31");
+
+        expect(github.searchDailyIssues).toHaveBeenCalledTimes(2);
+        expect(github.searchDailyIssues).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }));
+        expect(outcome.markdown).toContain("days: 0\n---\n");
+    });
+});
+
+// ── exportJsonl ────────────────────────────────────────────────────────────────
+
+describe("ThoughtLogService.exportJsonl", () => {
+    it("emits one record per entry comment and skips non-entry comments", async () => {
+        const github = makeGitHub({
+            searchDailyIssues: vi.fn().mockResolvedValue({ issues: [{ number: 42, title: "2024-01-15 Planning", state: "closed" }], hasMore: false }),
+            getIssueComments: vi.fn().mockResolvedValue([
+                { id: 1, body: "## 19:30\n**[idea]** hello\n" },
+                { id: 2, body: "## 24:15\nlate\n" },
+                { id: 3, body: "````\n# 2024-01-15 Planning\n\nsummary\n````\n" },
+            ]),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+
+        const outcome = await service.exportJsonl("2024-01-15", "2024-01-15");
+
+        expect(outcome.jsonl).toBe(
+            '{"captured_at":"2024-01-15T19:30:00+09:00","raw":"hello","kind":"idea"}\n' +
+            '{"captured_at":"2024-01-16T00:15:00+09:00","raw":"late"}\n',
+        );
+    });
+});
+
+// ── importEntries ──────────────────────────────────────────────────────────────
+
+describe("ThoughtLogService.importEntries", () => {
+    const jsonl = [
+        '{"captured_at":"2024-01-15T19:30:00+09:00","raw":"hello","kind":"idea"}',
+        '{"captured_at":"2024-01-15T20:00:00+09:00","raw":"world"}',
+        '{"captured_at":"2024-01-15T19:30:00+09:00","raw":"hello","kind":"idea"}',
+    ].join("\n");
+
+    it("throws when no create entry queue service is configured", async () => {
+        const service = new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config);
+        await expect(service.importEntries(jsonl)).rejects.toThrow("Create entry queue service not configured");
+    });
+
+    it("enqueues create-entry messages in one bulk send with derived request ids", async () => {
+        const queue = makeQueue();
+        const service = new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config, undefined, queue);
+
+        const outcome = await service.importEntries(jsonl);
+
+        expect(outcome).toEqual({ kind: "queued", queued: 2, skipped: 1 });
+        const messages = ((queue.sendMessages as ReturnType<typeof vi.fn>).mock.calls[0][0] as string[]).map((m) => JSON.parse(m));
+        expect(messages).toHaveLength(2);
+        expect(messages[0]).toMatchObject({ type: "create-entry", payload: { captured_at: "2024-01-15T19:30:00+09:00", raw: "hello", kind: "idea" } });
+        expect(messages[0].payload.request_id).toMatch(/^import:[0-9a-f]{64}$/);
+        expect(messages[1].payload.request_id).not.toBe(messages[0].payload.request_id);
+    });
+
+    it("derives the same request id when the same file is imported again", async () => {
+        const first = makeQueue();
+        const second = makeQueue();
+        await new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config, undefined, first).importEntries(jsonl);
+        await new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config, undefined, second).importEntries(jsonl);
+        expect((second.sendMessages as ReturnType<typeof vi.fn>).mock.calls[0][0]).toEqual((first.sendMessages as ReturnType<typeof vi.fn>).mock.calls[0][0]);
+    });
+
+    it("skips records whose request id is already known to the idempotency store", async () => {
+        const queue = makeQueue();
+        const idempotency = makeIdempotency({
+            getItem: vi.fn().mockImplementation(async (id: string) => (id.startsWith("import:") ? { request_id: id, status: "done" } : null)),
+        });
+        const service = new ThoughtLogService(makeAuth(), makeGitHub(), idempotency, config, undefined, queue);
+
+        const outcome = await service.importEntries(jsonl);
+
+        expect(outcome).toEqual({ kind: "queued", queued: 0, skipped: 3 });
+        expect(queue.sendMessages).toHaveBeenCalledWith([]);
+    });
+
+    it("returns invalid without enqueuing anything when a line is malformed", async () => {
+        const queue = makeQueue();
+        const service = new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config, undefined, queue);
+
+        const outcome = await service.importEntries(`${jsonl}\n{"raw":""}`);
+
+        expect(outcome).toEqual({ kind: "invalid", line: 4, error: "raw must be a non-empty string" });
+        expect(queue.sendMessages).not.toHaveBeenCalled();
+    });
+});
+
+// ── getFeed ────────────────────────────────────────────────────────────────────
+
+describe("ThoughtLogService.getFeed", () => {
+    const closed: Issue = {
+        number: 42,
+        html_url: "https://github.com/owner/repo/issues/42",
+        title: "2024-01-15 Caching",
+        body: "Finalized body.",
+        state: "closed",
+        updated_at: "2024-01-16T19:05:00Z",
+        closed_at: "2024-01-16T19:00:00Z",
+    };
+
+    it("renders recent closed daily issues as an Atom feed", async () => {
+        const github = makeGitHub({ listRecentClosedDailyIssues: vi.fn().mockResolvedValue([closed]) });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+
+        const outcome = await service.getFeed("atom");
+
+        expect(github.listRecentClosedDailyIssues).toHaveBeenCalledWith({ owner: "owner", repo: "repo", labels: ["thoughtlog"], limit: 20, token: "tok" });
+        expect(outcome.xml).toContain("<title>owner/repo thoughtlog</title>");
+        expect(outcome.xml).toContain("<title>2024-01-15 Caching</title>");
+        expect(outcome.xml).toContain("<updated>2024-01-16T19:00:00Z</updated>");
+        expect(outcome.xml).toContain("<content type=\"text\">Finalized body.</content>");
+    });
+
+    it("renders an RSS feed when requested", async () => {
+        const github = makeGitHub({ listRecentClosedDailyIssues: vi.fn().mockResolvedValue([closed]) });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+
+        const outcome = await service.getFeed("rss");
+
+        expect(outcome.xml).toContain("<rss version=\"2.0\">");
+        expect(outcome.xml).toContain("<link>https://github.com/owner/repo/issues/42</link>");
+    });
+});
+
+// ── getCalendar ────────────────────────────────────────────────────────────────
+
+describe("ThoughtLogService.getCalendar", () => {
+    it("emits one all-day event per daily issue in the range", async () => {
+        const github = makeGitHub({
+            searchDailyIssues: vi.fn().mockResolvedValue({
+                issues: [
+                    { number: 43, html_url: "https://github.com/owner/repo/issues/43", title: "2024-01-16", body: "# 2024-01-16\n", updated_at: "2024-01-16T10:00:00Z" },
+                    { number: 42, html_url: "https://github.com/owner/repo/issues/42", title: "2024-01-15 Caching", body: "Finalized.", updated_at: "2024-01-15T19:00:00Z" },
+                ],
+                hasMore: false,
+            }),
+        });
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+
+        const outcome = await service.getCalendar("2024-01-15", "2024-01-16");
+
+        expect(github.searchDailyIssues).toHaveBeenCalledWith(expect.objectContaining({ from: "2024-01-15", to: "2024-01-16", page: 1 }));
+        expect(outcome.ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+        expect(outcome.ics.indexOf("UID:2024-01-15-42@owner.repo.thoughtlog")).toBeLessThan(outcome.ics.indexOf("UID:2024-01-16-43@owner.repo.thoughtlog"));
+        expect(outcome.ics).toContain("SUMMARY:2024-01-15 Caching\r\n");
+        expect(outcome.ics).toContain("DTSTAMP:20240115T190000Z\r\n");
+    });
+});
+
 // ── enqueueEntry ───────────────────────────────────────────────────────────────
 
 describe("ThoughtLogService.enqueueEntry", () => {
@@ -389,10 +1092,10 @@ describe("ThoughtLogService.enqueueEntry", () => {
 // ── getLogSummary ──────────────────────────────────────────────────────────────
 
 describe("ThoughtLogService.getLogSummary", () => {
-    const summaryIssue: GitHubIssue = { number: 43, html_url: "https://github.com/owner/repo/issues/43", title: "2024-01-15 日記まとめ" };
-    const comment1: GitHubComment = { id: 1, body: "## 19:30\nhello\n" };
-    const comment2: GitHubComment = { id: 2, body: "## 20:00\nworld\n" };
-    const comment3: GitHubComment = { id: 3, body: "## まとめ\nsummary text\n" };
+    const summaryIssue: Issue = { number: 43, html_url: "https://github.com/owner/repo/issues/43", title: "2024-01-15 日記まとめ" };
+    const comment1: IssueComment = { id: 1, body: "## 19:30\nhello\n" };
+    const comment2: IssueComment = { id: 2, body: "## 20:00\nworld\n" };
+    const comment3: IssueComment = { id: 3, body: "## まとめ\nsummary text\n" };
 
     it("returns the second newest comment as summary", async () => {
         const github = makeGitHub({
@@ -467,3 +1170,261 @@ describe("ThoughtLogService.getLogSummary", () => {
         }
     });
 });
+
+// ── entry store ────────────────────────────────────────────────────────────────
+
+describe("ThoughtLogService on this day", () => {
+    const weekAgo: Issue = { number: 30, html_url: "https://github.com/owner/repo/issues/30", title: "2024-01-08 Quiet day", body: "Walked a lot.\n\n- [ ] call back", state: "closed" };
+    const yearAgo: Issue = { number: 3, html_url: "https://github.com/owner/repo/issues/3", title: "2023-01-15 New job", body: "", state: "closed" };
+
+    function makeHistoryGitHub(): IIssueTrackerService {
+        return makeGitHub({
+            searchDailyIssues: vi.fn().mockImplementation(async ({ from }: { from: string }) => ({
+                issues: from === "2024-01-08" ? [weekAgo] : from === "2023-01-15" ? [yearAgo] : from === "2023-12-15" ? [{ ...mockIssue, title: "2023-12-15", state: "open" }] : [],
+                hasMore: false,
+            })),
+        });
+    }
+
+    it("returns the finalized logs one week, one month and one year earlier", async () => {
+        const github = makeHistoryGitHub();
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+
+        const outcome = await service.getOnThisDay("2024-01-15");
+
+        expect(github.searchDailyIssues).toHaveBeenCalledWith({ owner: "owner", repo: "repo", from: "2023-12-15", to: "2023-12-15", labels: ["thoughtlog"], page: 1, token: "tok" });
+        expect(outcome).toEqual({
+            kind: "found",
+            date: "2024-01-15",
+            items: [
+                { period: "week", date: "2024-01-08", title: "2024-01-08 Quiet day", summary: "Walked a lot.\n\n- [ ] call back", issue_url: weekAgo.html_url },
+                { period: "year", date: "2023-01-15", title: "2023-01-15 New job", summary: "", issue_url: yearAgo.html_url },
+            ],
+        });
+    });
+
+    it("posts the earlier logs as an entry on the day's log", async () => {
+        const github = makeHistoryGitHub();
+        const idempotency = makeIdempotency();
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config);
+
+        await service.postOnThisDay({ type: "on-this-day", dateKey: "2024-01-15" });
+
+        expect(idempotency.claim).toHaveBeenCalledWith("on-this-day:2024-01-15", expect.any(String));
+        const body = (github.addComment as ReturnType<typeof vi.fn>).mock.calls[0][0].commentBody as string;
+        expect(body).toMatch(/^## \d{2}:\d{2}\n\*\*\[on-this-day\]\*\* - 1週間前（2024-01-08）: \[2024-01-08 Quiet day\]\(https:\/\/github.com\/owner\/repo\/issues\/30\)\n {2}> Walked a lot\. - \[ \] call back\n- 1年前（2023-01-15）: \[2023-01-15 New job\]\(https:\/\/github.com\/owner\/repo\/issues\/3\)\n$/);
+    });
+
+    it("posts nothing when there are no earlier logs", async () => {
+        const github = makeGitHub();
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+
+        await service.postOnThisDay({ type: "on-this-day", dateKey: "2024-01-15" });
+
+        expect(github.addComment).not.toHaveBeenCalled();
+    });
+
+    it("does not start a log for a day without entries", async () => {
+        const github = makeHistoryGitHub();
+        vi.mocked(github.findDailyIssue).mockResolvedValue(null);
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config);
+
+        await service.postOnThisDay({ type: "on-this-day", dateKey: "2024-01-15" });
+
+        expect(github.createDailyIssue).not.toHaveBeenCalled();
+        expect(github.addComment).not.toHaveBeenCalled();
+    });
+
+    it("counts stored entries as the day's log", async () => {
+        const github = makeHistoryGitHub();
+        vi.mocked(github.findDailyIssue).mockResolvedValue(null);
+        const store = makeEntryStore([{ date_key: "2024-01-15", sort_key: "2024-01-15T01:00:00.000Z#req-1", request_id: "req-1", body: "## 10:00\nhi\n", labels: [], mirror_status: "pending" }]);
+        const queue = makeQueue();
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config, queue, queue, store);
+
+        await service.postOnThisDay({ type: "on-this-day", dateKey: "2024-01-15" });
+
+        expect(store.putEntry).toHaveBeenCalledWith(expect.objectContaining({ request_id: "on-this-day:2024-01-15" }));
+    });
+
+    it("asks for the earlier logs when the first entry of today starts the log", async () => {
+        const github = makeGitHub({ findDailyIssue: vi.fn().mockResolvedValue(null) });
+        const queue = makeQueue();
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config, queue, undefined, undefined, false, undefined, undefined, true);
+
+        await service.createEntry({ request_id: "req-1", raw: "hello" });
+
+        const dateKey = getDateKey({});
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({ type: "on-this-day", dateKey }));
+        expect(vi.mocked(github.addComment).mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(queue.sendMessage).mock.invocationCallOrder[0]);
+    });
+
+    it("does not ask again for a log that already exists, or when not enabled", async () => {
+        const queue = makeQueue();
+        await new ThoughtLogService(makeAuth(), makeGitHub(), makeIdempotency(), config, queue, undefined, undefined, false, undefined, undefined, true)
+            .createEntry({ request_id: "req-1", raw: "hello" });
+        await new ThoughtLogService(makeAuth(), makeGitHub({ findDailyIssue: vi.fn().mockResolvedValue(null) }), makeIdempotency(), config, queue)
+            .createEntry({ request_id: "req-2", raw: "hello" });
+
+        expect(queue.sendMessage).not.toHaveBeenCalledWith(expect.stringContaining("on-this-day"));
+    });
+
+    it("does not queue the embedding of the posted entry", async () => {
+        const github = makeHistoryGitHub();
+        const queue = makeQueue();
+        const vectors: IVectorStore = { putVector: vi.fn(), deleteVector: vi.fn(), query: vi.fn() };
+        const service = new ThoughtLogService(makeAuth(), github, makeIdempotency(), config, queue, undefined, undefined, false, { embed: vi.fn() }, vectors);
+
+        await service.postOnThisDay({ type: "on-this-day", dateKey: "2024-01-15" });
+
+        expect(github.addComment).toHaveBeenCalledOnce();
+        expect(queue.sendMessage).not.toHaveBeenCalled();
+    });
+});
+
+describe("ThoughtLogService with an entry store", () => {
+    const storedEntry: StoredEntry = {
+        date_key: "2024-01-15",
+        sort_key: "2024-01-15T10:30:00.000Z#req-1",
+        request_id: "req-1",
+        body: "## 19:30\nhello\n",
+        labels: ["thoughtlog"],
+        source: "voice",
+        mirror_status: "pending",
+    };
+
+    let github: IIssueTrackerService;
+    let idempotency: IIdempotencyService;
+    let queue: IQueueService;
+
+    beforeEach(() => {
+        github = makeGitHub();
+        idempotency = makeIdempotency();
+        queue = makeQueue();
+    });
+
+    it("stores the entry and queues a mirror instead of writing to the tracker", async () => {
+        const store = makeEntryStore();
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config, queue, queue, store);
+
+        const result = await service.createEntry({ request_id: "req-1", raw: "hello", captured_at: "2024-01-15T10:30:00Z", source: "voice" });
+
+        expect(result).toEqual({ kind: "stored", date: "2024-01-15", sort_key: "2024-01-15T10:30:00.000Z#req-1" });
+        expect(store.putEntry).toHaveBeenCalledWith(storedEntry);
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({ type: "mirror-entry", dateKey: "2024-01-15", sortKey: storedEntry.sort_key }));
+        expect(github.addComment).not.toHaveBeenCalled();
+        expect(idempotency.markDone).not.toHaveBeenCalled();
+    });
+
+    it("marks the request failed when the mirror cannot be queued", async () => {
+        vi.mocked(queue.sendMessage).mockRejectedValue(new Error("sqs down"));
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config, queue, queue, makeEntryStore());
+
+        await expect(service.createEntry({ request_id: "req-1", raw: "hello" })).rejects.toThrow("sqs down");
+        expect(idempotency.markFailed).toHaveBeenCalledWith("req-1", "sqs down");
+    });
+
+    it("mirrors a stored entry to the tracker and completes the request", async () => {
+        const store = makeEntryStore([storedEntry]);
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config, queue, queue, store);
+
+        await service.mirrorEntry({ type: "mirror-entry", dateKey: "2024-01-15", sortKey: storedEntry.sort_key });
+
+        expect(github.addComment).toHaveBeenCalledWith(expect.objectContaining({ issueNumber: 42, commentBody: storedEntry.body }));
+        expect(store.markMirroring).toHaveBeenCalledWith("2024-01-15", storedEntry.sort_key, 42);
+        expect(vi.mocked(store.markMirroring).mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(github.addComment).mock.invocationCallOrder[0]);
+        expect(store.markMirrored).toHaveBeenCalledWith("2024-01-15", storedEntry.sort_key, { issue_number: 42, comment_id: 99 });
+        expect(idempotency.markDone).toHaveBeenCalledWith("req-1", { issue_number: 42, issue_url: mockIssue.html_url, comment_id: 99 });
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({
+            type: "voice-polish",
+            issueNumber: 42,
+            commentId: 99,
+            entry: { dateKey: "2024-01-15", sortKey: storedEntry.sort_key },
+        }));
+    });
+
+    it("records a comment posted before a redelivery instead of posting it again", async () => {
+        const store = makeEntryStore([{ ...storedEntry, mirror_status: "mirroring", issue_number: 42 }]);
+        vi.mocked(github.getIssueComments).mockResolvedValue([{ id: 98, body: "## 19:00\nearlier\n" }, { id: 99, body: "## 19:30\nhello" }]);
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config, queue, queue, store);
+
+        await service.mirrorEntry({ type: "mirror-entry", dateKey: "2024-01-15", sortKey: storedEntry.sort_key });
+
+        expect(github.addComment).not.toHaveBeenCalled();
+        expect(github.getIssueComments).toHaveBeenCalledWith(expect.objectContaining({ issueNumber: 42 }));
+        expect(store.markMirrored).toHaveBeenCalledWith("2024-01-15", storedEntry.sort_key, { issue_number: 42, comment_id: 99 });
+        expect(idempotency.markDone).toHaveBeenCalledWith("req-1", { issue_number: 42, issue_url: mockIssue.html_url, comment_id: 99 });
+    });
+
+    it("posts the entry when a redelivered message finds no comment for it", async () => {
+        const store = makeEntryStore([{ ...storedEntry, mirror_status: "mirroring", issue_number: 42 }]);
+        vi.mocked(github.getIssueComments).mockResolvedValue([]);
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config, queue, queue, store);
+
+        await service.mirrorEntry({ type: "mirror-entry", dateKey: "2024-01-15", sortKey: storedEntry.sort_key });
+
+        expect(github.addComment).toHaveBeenCalledOnce();
+        expect(store.markMirrored).toHaveBeenCalledWith("2024-01-15", storedEntry.sort_key, { issue_number: 42, comment_id: 99 });
+    });
+
+    it("skips entries that are already mirrored or were deleted", async () => {
+        const store = makeEntryStore([{ ...storedEntry, mirror_status: "mirrored", issue_number: 42, comment_id: 99 }]);
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config, queue, queue, store);
+
+        await service.mirrorEntry({ type: "mirror-entry", dateKey: "2024-01-15", sortKey: storedEntry.sort_key });
+        await service.mirrorEntry({ type: "mirror-entry", dateKey: "2024-01-15", sortKey: "missing" });
+
+        expect(github.addComment).not.toHaveBeenCalled();
+    });
+
+    it("serves getLog and getLogComments from the store", async () => {
+        const second = { ...storedEntry, sort_key: "2024-01-15T11:00:00.000Z#req-2", body: "## 20:00\nlater\n", mirror_status: "mirrored" as const, issue_number: 42, comment_id: 100 };
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config, queue, queue, makeEntryStore([storedEntry, second]));
+
+        expect(await service.getLog("2024-01-15")).toMatchObject({ kind: "found", id: "issue-id-42", title: mockIssue.title });
+        expect(await service.getLogComments("2024-01-15")).toEqual({ kind: "found", comments: [storedEntry.body, second.body] });
+        expect(github.getIssue).toHaveBeenCalledWith(expect.objectContaining({ issueNumber: 42 }));
+        expect(github.findDailyIssue).not.toHaveBeenCalled();
+    });
+
+    it("returns the finalized title of a mirrored day", async () => {
+        vi.mocked(github.getIssue).mockResolvedValue({ ...mockIssue, title: "2024-01-15 A good day", state: "closed" });
+        const mirrored = { ...storedEntry, mirror_status: "mirrored" as const, issue_number: 42, comment_id: 99 };
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config, queue, queue, makeEntryStore([mirrored]));
+
+        expect(await service.getLog("2024-01-15")).toMatchObject({ kind: "found", title: "2024-01-15 A good day" });
+    });
+
+    it("titles a day with the date while no entry has been mirrored", async () => {
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config, queue, queue, makeEntryStore([storedEntry]));
+
+        expect(await service.getLog("2024-01-15")).toEqual({
+            kind: "found",
+            id: "entries-2024-01-15",
+            date: "2024-01-15",
+            title: "2024-01-15",
+            links: { body: "/log/2024-01-15/body", comments: "/log/2024-01-15/comments" },
+        });
+        expect(github.getIssue).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the tracker for days without stored entries", async () => {
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config, queue, queue, makeEntryStore());
+
+        expect(await service.getLogComments("2024-01-15")).toEqual({ kind: "found", comments: [mockComment.body] });
+        expect(github.findDailyIssue).toHaveBeenCalled();
+    });
+
+    it("keeps the stored copy in sync when a mirrored entry is edited or deleted", async () => {
+        const mirrored = { ...storedEntry, mirror_status: "mirrored" as const, issue_number: 42, comment_id: 99 };
+        const store = makeEntryStore([mirrored]);
+        vi.mocked(github.getComment).mockResolvedValue({ ...mockComment, issue_url: "https://api.github.com/repos/owner/repo/issues/42" });
+        const service = new ThoughtLogService(makeAuth(), github, idempotency, config, queue, queue, store);
+
+        await service.updateEntry("2024-01-15", 99, { request_id: "edit-1", raw: "edited" });
+        await service.deleteEntry("2024-01-15", 99);
+
+        expect(store.updateEntryBody).toHaveBeenCalledWith("2024-01-15", mirrored.sort_key, "## 19:30\nedited\n");
+        expect(store.deleteEntry).toHaveBeenCalledWith("2024-01-15", mirrored.sort_key);
+    });
+});
@@ -1,15 +1,58 @@
 import crypto from "crypto";
-import type { Payload, GitHubIssue, RepositoryConfig, CreateEntryOutcome, EnqueueEntryOutcome, GetLogOutcome, GetLogBodyOutcome, GetLogCommentsOutcome, GetLogSummaryOutcome, UpdateLogOutcome, VoiceRefineMessage, FinalizeMessage, CreateEntryMessage } from "../types";
-import { getDateKeyJst } from "../utils/date";
-import { parseLabels, formatEntry } from "../utils/format";
+import type { Payload, Issue, IssueComment, RepositoryConfig, CreateEntryOutcome, UpdateEntryOutcome, DeleteEntryOutcome, GetEntryOriginalOutcome, RevertEntryOutcome, GetEntryStatusOutcome, EnqueueEntryOutcome, GetLogOutcome, ListLogsOutcome, LogListItem, SearchEntriesParams, SearchEntriesOutcome, SearchEntryHit, GetLogBodyOutcome, GetLogCommentsOutcome, GetLogSummaryOutcome, UpdateLogOutcome, DigestPeriod, RequestDigestOutcome, ExportMarkdownOutcome, ExportJsonlOutcome, ImportEntriesOutcome, GetFeedOutcome, GetCalendarOutcome, VoiceRefineMessage, ClassifyEntryMessage, EmbedEntryMessage, SemanticSearchOutcome, GetOnThisDayOutcome, OnThisDayItem, OnThisDayMessage, OnThisDayPeriod, FinalizeMessage, CreateEntryMessage, DigestMessage, MirrorEntryMessage, StoredEntry } from "../types";
+import { getDateKey, getOnThisDayDateKeys, getTimeZone, nowDateTime } from "../utils/date";
+import { renderMarkdownExport, toExportRecord, parseImportRecords } from "../utils/export";
+import type { ExportDay } from "../utils/export";
+import { renderAtomFeed, renderRssFeed } from "../utils/feed";
+import type { Feed, FeedFormat } from "../utils/feed";
+import { renderCalendar } from "../utils/ical";
+import { parseLabels, formatEntry, formatEntryContent, parseEntry, splitOriginal, ON_THIS_DAY_KIND } from "../utils/format";
 import type { IAuthService } from "../interfaces/IAuthService";
-import type { IGitHubService } from "../interfaces/IGitHubService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
 import type { IIdempotencyService } from "../interfaces/IIdempotencyService";
 import type { IThoughtLogService } from "../interfaces/IThoughtLogService";
 import type { IQueueService } from "../interfaces/IQueueService";
+import type { IEntryStore } from "../interfaces/IEntryStore";
+import type { IEmbeddingService } from "../interfaces/IEmbeddingService";
+import type { IVectorStore } from "../interfaces/IVectorStore";
 
 export type { IThoughtLogService };
-export type { CreateEntryOutcome, EnqueueEntryOutcome, GetLogOutcome, GetLogBodyOutcome, GetLogCommentsOutcome, GetLogSummaryOutcome, UpdateLogOutcome };
+export type { CreateEntryOutcome, UpdateEntryOutcome, DeleteEntryOutcome, GetEntryOriginalOutcome, RevertEntryOutcome, GetEntryStatusOutcome, EnqueueEntryOutcome, GetLogOutcome, ListLogsOutcome, SearchEntriesOutcome, GetLogBodyOutcome, GetLogCommentsOutcome, GetLogSummaryOutcome, GetOnThisDayOutcome, UpdateLogOutcome, RequestDigestOutcome, ExportMarkdownOutcome, ExportJsonlOutcome, ImportEntriesOutcome, GetFeedOutcome, GetCalendarOutcome, SemanticSearchOutcome };
+
+const MAX_SEARCH_HITS = 50;
+const MAX_CREATE_ENTRY_MESSAGE_BYTES = 200 * 1024;
+const FEED_ENTRY_LIMIT = 20;
+const SNIPPET_CONTEXT_CHARS = 60;
+const ON_THIS_DAY_SUMMARY_CHARS = 200;
+const ON_THIS_DAY_PERIOD_NAMES: Record<OnThisDayPeriod, string> = { week: "1週間前", month: "1か月前", year: "1年前" };
+
+type ResolvedEntry =
+    | { kind: "found"; issue: Issue; comment: IssueComment }
+    | { kind: "not_found"; date: string }
+    | { kind: "finalized"; date: string };
+
+/** Cuts a window of text around the first case-insensitive occurrence of needle. */
+function makeSnippet(text: string, needle: string): string {
+    const index = text.toLowerCase().indexOf(needle.toLowerCase());
+    if (index < 0) return text.slice(0, SNIPPET_CONTEXT_CHARS * 2);
+    const start = Math.max(0, index - SNIPPET_CONTEXT_CHARS);
+    const end = Math.min(text.length, index + needle.length + SNIPPET_CONTEXT_CHARS);
+    return `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Renders "on this day" logs as the text of an entry: a linked title per log with the start of
+ * its summary quoted below, so task list items in the summary are not read as action items again.
+ */
+function renderOnThisDay(items: OnThisDayItem[]): string {
+    return items.map((item) => {
+        const line = `- ${ON_THIS_DAY_PERIOD_NAMES[item.period]}（${item.date}）: [${item.title}](${item.issue_url})`;
+        const summary = item.summary.replace(/\s+/g, " ").trim();
+        if (!summary) return line;
+        const excerpt = summary.length > ON_THIS_DAY_SUMMARY_CHARS ? `${summary.slice(0, ON_THIS_DAY_SUMMARY_CHARS)}…` : summary;
+        return `${line}\n  > ${excerpt}`;
+    }).join("\n");
+}
 
 /**
  * Orchestrates ThoughtLog business logic.
@@ -18,25 +61,34 @@ export type { CreateEntryOutcome, EnqueueEntryOutcome, GetLogOutcome, GetLogBody
 export class ThoughtLogService implements IThoughtLogService {
     constructor(
         private readonly auth: IAuthService,
-        private readonly github: IGitHubService,
+        private readonly tracker: IIssueTrackerService,
         private readonly idempotency: IIdempotencyService,
         private readonly config: RepositoryConfig,
         private readonly queueService?: IQueueService,
         private readonly createEntryQueueService?: IQueueService,
+        /** When set, entries are written here first and mirrored to the tracker via the queue. */
+        private readonly entryStore?: IEntryStore,
+        /** Queue classification for entries posted without a kind, ahead of any voice refinement. */
+        private readonly classifyEntries = false,
+        /** Semantic search is enabled when both the embedding service and the vector store are set. */
+        private readonly embeddingService?: IEmbeddingService,
+        private readonly vectorStore?: IVectorStore,
+        /** Post the "on this day" logs on today's log once its first entry has started it. */
+        private readonly onThisDayComment = false,
     ) {}
 
     async createEntry(payload: Payload): Promise<CreateEntryOutcome> {
-        const { owner, repo } = this.config;
-
         const requestId = (payload.request_id || "").toString().trim();
         if (!requestId) {
             throw new Error("request_id must be a non-empty string");
         }
 
-        const dateKey = getDateKeyJst(payload);
+        // The log's own time zone applies to entries posted without one.
+        const zoned: Payload = payload.timezone || !this.config.timeZone ? payload : { ...payload, timezone: this.config.timeZone };
+        const dateKey = getDateKey(zoned);
         const labels = parseLabels(this.config.defaultLabels, payload.labels);
 
-        const entry = formatEntry(payload);
+        const entry = formatEntry(zoned);
 
         const payloadHash = crypto
             .createHash("sha256")
@@ -49,25 +101,13 @@ export class ThoughtLogService implements IThoughtLogService {
         }
 
         try {
-            const token = await this.auth.getInstallationToken();
-
-            const cachedIssueNumber = await this.idempotency.getIssueNumberByTitle(dateKey);
-            let issue: GitHubIssue;
-            if (cachedIssueNumber !== null) {
-                issue = await this.github.getIssue({ owner, repo, issueNumber: cachedIssueNumber, token });
-            } else {
-                const found = await this.github.findDailyIssue({ owner, repo, dateKey, labels, token });
-                if (found) {
-                    issue = found.html_url ? found : await this.github.getIssue({ owner, repo, issueNumber: found.number, token });
-                } else {
-                    issue = await this.github.createDailyIssue({ owner, repo, dateKey, labels, token });
-                }
-                await this.idempotency.putIssueTitleCache(dateKey, issue.number);
+            if (this.entryStore) {
+                const sortKey = await this.storeEntry(this.entryStore, payload, { dateKey, requestId, entry, labels });
+                return { kind: "stored", date: dateKey, sort_key: sortKey };
             }
 
-            const comment = await this.github.addComment({
-                owner, repo, issueNumber: issue.number, commentBody: entry, token,
-            });
+            const token = await this.auth.getInstallationToken();
+            const { issue, comment } = await this.appendToDailyIssue(dateKey, labels, entry, token);
 
             await this.idempotency.markDone(requestId, {
                 issue_number: issue.number,
@@ -75,18 +115,7 @@ export class ThoughtLogService implements IThoughtLogService {
                 comment_id: comment.id,
             });
 
-            if (payload.source === "voice" && this.queueService) {
-                const message: VoiceRefineMessage = {
-                    type: "voice-polish",
-                    issueNumber: issue.number,
-                    commentId: comment.id,
-                };
-                try {
-                    await this.queueService.sendMessage(JSON.stringify(message));
-                } catch (queueError) {
-                    console.error("Failed to send voice refine message to queue:", queueError instanceof Error ? queueError.message : String(queueError));
-                }
-            }
+            await this.requestFollowUp(payload.source, entry, { issueNumber: issue.number, commentId: comment.id });
 
             return {
                 kind: "created",
@@ -101,26 +130,370 @@ export class ThoughtLogService implements IThoughtLogService {
         }
     }
 
+    /**
+     * Writes the entry to the entries table and queues its mirroring to the tracker.
+     * The idempotency record stays "processing" until the mirror has created the comment.
+     */
+    private async storeEntry(
+        entryStore: IEntryStore,
+        payload: Payload,
+        { dateKey, requestId, entry, labels }: { dateKey: string; requestId: string; entry: string; labels: string[] },
+    ): Promise<string> {
+        if (!this.queueService) {
+            throw new Error("Queue service not configured for mirroring entries");
+        }
+        const capturedAt = payload.captured_at ? new Date(payload.captured_at) : new Date();
+        const sortKey = `${capturedAt.toISOString()}#${requestId}`;
+        const stored: StoredEntry = {
+            date_key: dateKey,
+            sort_key: sortKey,
+            request_id: requestId,
+            body: entry,
+            labels,
+            mirror_status: "pending",
+        };
+        if (payload.source) stored.source = payload.source;
+
+        // An existing item means an earlier attempt stored it; queueing the mirror again is harmless.
+        await entryStore.putEntry(stored);
+        const message: MirrorEntryMessage = { type: "mirror-entry", dateKey, sortKey };
+        await this.queueService.sendMessage(JSON.stringify(message));
+        return sortKey;
+    }
+
+    /**
+     * Copies a stored entry to the tracker as a comment on its daily issue.
+     * Entries that were deleted or already mirrored are skipped, so redelivered messages are no-ops.
+     * The issue is recorded before posting; when a message is redelivered after the comment was
+     * posted but not recorded, the comment is found on that issue instead of being posted again.
+     */
+    async mirrorEntry({ dateKey, sortKey }: MirrorEntryMessage): Promise<void> {
+        const entryStore = this.entryStore;
+        if (!entryStore) {
+            throw new Error("Entry store not configured for mirroring");
+        }
+        const stored = await entryStore.getEntry(dateKey, sortKey);
+        if (!stored || stored.mirror_status === "mirrored") return;
+
+        const token = await this.auth.getInstallationToken();
+        const posted = stored.mirror_status === "mirroring" && stored.issue_number !== undefined
+            ? await this.findPostedEntry(stored.issue_number, stored.body, token)
+            : null;
+        const { issue, comment } = posted ?? await this.appendToDailyIssue(
+            dateKey, stored.labels, stored.body, token,
+            (issueNumber) => entryStore.markMirroring(dateKey, sortKey, issueNumber),
+        );
+
+        await entryStore.markMirrored(dateKey, sortKey, { issue_number: issue.number, comment_id: comment.id });
+        await this.idempotency.markDone(stored.request_id, {
+            issue_number: issue.number,
+            issue_url: issue.html_url!,
+            comment_id: comment.id,
+        });
+
+        await this.requestFollowUp(stored.source, stored.body, { issueNumber: issue.number, commentId: comment.id, entry: { dateKey, sortKey } });
+    }
+
+    /** Returns the comment on an issue that holds the entry, with the issue, or null when there is none. */
+    private async findPostedEntry(issueNumber: number, entry: string, token: string): Promise<{ issue: Issue; comment: IssueComment } | null> {
+        const { owner, repo } = this.config;
+        const comments = await this.tracker.getIssueComments({ owner, repo, issueNumber, token });
+        const comment = comments.find((c) => (c.body ?? "").trimEnd() === entry.trimEnd());
+        if (!comment) return null;
+        return { issue: await this.tracker.getIssue({ owner, repo, issueNumber, token }), comment };
+    }
+
+    /**
+     * Adds the entry as a comment on the day's open issue, creating the issue when there is none.
+     * beforePost is called with the issue number right before the comment is added.
+     */
+    private async appendToDailyIssue(
+        dateKey: string,
+        labels: string[],
+        entry: string,
+        token: string,
+        beforePost?: (issueNumber: number) => Promise<void>,
+    ): Promise<{ issue: Issue; comment: IssueComment }> {
+        const { owner, repo } = this.config;
+
+        const cachedIssueNumber = await this.idempotency.getIssueNumberByTitle(dateKey);
+        let issue: Issue;
+        let created = false;
+        if (cachedIssueNumber !== null) {
+            issue = await this.tracker.getIssue({ owner, repo, issueNumber: cachedIssueNumber, token });
+        } else {
+            const found = await this.tracker.findDailyIssue({ owner, repo, dateKey, labels, token });
+            if (found) {
+                issue = found.html_url ? found : await this.tracker.getIssue({ owner, repo, issueNumber: found.number, token });
+            } else {
+                issue = await this.tracker.createDailyIssue({ owner, repo, dateKey, labels, token });
+                created = true;
+            }
+            await this.idempotency.putIssueTitleCache(dateKey, issue.number);
+        }
+
+        await beforePost?.(issue.number);
+        const comment = await this.tracker.addComment({
+            owner, repo, issueNumber: issue.number, commentBody: entry, token,
+        });
+        // The scheduled run is too early in the day to find today's log, so a new one asks here.
+        if (created && this.onThisDayComment && dateKey === getDateKey({ timezone: this.config.timeZone })) {
+            await this.sendFollowUp({ type: "on-this-day", dateKey });
+        }
+        return { issue, comment };
+    }
+
+    /**
+     * Queues the asynchronous steps for a new comment: classification of entries without a kind
+     * when enabled (which queues voice refinement itself once done), otherwise voice refinement,
+     * and the embedding for semantic search. Voice entries are embedded once refined.
+     * A failure is logged rather than failing the already-written entry.
+     */
+    private async requestFollowUp(
+        source: string | undefined,
+        entry: string,
+        target: { issueNumber: number; commentId: number; entry?: { dateKey: string; sortKey: string } },
+    ): Promise<void> {
+        const voicePolish = source === "voice";
+        if (this.classifyEntries && !parseEntry(entry).kind) {
+            await this.sendFollowUp(voicePolish ? { type: "classify-entry", ...target, voicePolish } : { type: "classify-entry", ...target });
+        } else if (voicePolish) {
+            await this.sendFollowUp({ type: "voice-polish", ...target });
+        }
+        // Resurfaced logs are searchable as their own days already.
+        if (!voicePolish && parseEntry(entry).kind !== ON_THIS_DAY_KIND) {
+            await this.requestEmbedding(target.issueNumber, target.commentId);
+        }
+    }
+
+    /** Queues the embedding of a new or changed entry when semantic search is enabled. */
+    private async requestEmbedding(issueNumber: number, commentId: number): Promise<void> {
+        if (!this.vectorStore) return;
+        await this.sendFollowUp({ type: "embed-entry", issueNumber, commentId });
+    }
+
+    private async sendFollowUp(message: VoiceRefineMessage | ClassifyEntryMessage | EmbedEntryMessage | OnThisDayMessage): Promise<void> {
+        if (!this.queueService) return;
+        try {
+            await this.queueService.sendMessage(JSON.stringify(message));
+        } catch (queueError) {
+            console.error(`Failed to send ${message.type} message to queue:`, queueError instanceof Error ? queueError.message : String(queueError));
+        }
+    }
+
     async enqueueEntry(payload: Payload): Promise<EnqueueEntryOutcome> {
         if (!this.createEntryQueueService) {
             throw new Error("Create entry queue service not configured");
         }
         const message: CreateEntryMessage = { type: "create-entry", payload };
         const messageBody = JSON.stringify(message);
-        const MAX_BYTES = 200 * 1024;
-        if (Buffer.byteLength(messageBody, "utf8") > MAX_BYTES) {
+        if (Buffer.byteLength(messageBody, "utf8") > MAX_CREATE_ENTRY_MESSAGE_BYTES) {
             return { kind: "too_large" };
         }
         await this.createEntryQueueService.sendMessage(messageBody);
         return { kind: "queued" };
     }
 
+    async getEntryStatus(requestId: string): Promise<GetEntryStatusOutcome> {
+        const item = await this.idempotency.getItem(requestId);
+        // The same table also caches daily issue numbers by title; those are not entries.
+        if (!item || item.status === "issue_cache") {
+            return { kind: "not_found", request_id: requestId };
+        }
+        if (item.status === "done") {
+            return {
+                kind: "done",
+                request_id: requestId,
+                issue_number: item.issue_number!,
+                issue_url: item.issue_url!,
+                comment_id: item.comment_id!,
+            };
+        }
+        if (item.status === "failed") {
+            return { kind: "failed", request_id: requestId, error: item.error ?? "" };
+        }
+        return { kind: "processing", request_id: requestId };
+    }
+
+    async updateEntry(dateKey: string, commentId: number, payload: Payload): Promise<UpdateEntryOutcome> {
+        const { owner, repo } = this.config;
+
+        const requestId = (payload.request_id || "").toString().trim();
+        if (!requestId) {
+            throw new Error("request_id must be a non-empty string");
+        }
+
+        const payloadHash = crypto
+            .createHash("sha256")
+            .update(JSON.stringify({ dateKey, commentId, raw: payload.raw, kind: payload.kind }))
+            .digest("hex");
+
+        const idem = await this.idempotency.claim(requestId, payloadHash);
+        if (idem.enabled && !idem.claimed) {
+            return { kind: "idempotent", statusCode: idem.statusCode!, body: idem.body! };
+        }
+
+        try {
+            const token = await this.auth.getInstallationToken();
+            const resolved = await this.resolveEntry(dateKey, commentId, token);
+            if (resolved.kind !== "found") {
+                // Nothing was changed; a retry, e.g. after the entry was mirrored, must run again.
+                await this.idempotency.release(requestId);
+                return resolved;
+            }
+            const { issue, comment } = resolved;
+
+            // Keep the original `## HH:MM` header; an omitted kind keeps the current prefix.
+            const current = parseEntry(comment.body ?? "");
+            const header = current.time ? `## ${current.time}\n` : "";
+            const kind = payload.kind === undefined ? current.kind ?? undefined : payload.kind;
+            const body = `${header}${formatEntryContent({ raw: payload.raw, kind })}\n`;
+
+            await this.tracker.updateComment({ owner, repo, commentId, body, token });
+            const stored = await this.findStoredEntry(dateKey, commentId);
+            if (stored) await this.entryStore!.updateEntryBody(dateKey, stored.sort_key, body);
+            if (kind !== ON_THIS_DAY_KIND) await this.requestEmbedding(issue.number, commentId);
+            await this.idempotency.markDone(requestId, {
+                issue_number: issue.number,
+                issue_url: issue.html_url!,
+                comment_id: commentId,
+            });
+            return { kind: "updated", date: dateKey, issue_number: issue.number, issue_url: issue.html_url!, comment_id: commentId };
+        } catch (e) {
+            await this.idempotency.release(requestId);
+            throw e;
+        }
+    }
+
+    async deleteEntry(dateKey: string, commentId: number): Promise<DeleteEntryOutcome> {
+        const { owner, repo } = this.config;
+
+        // Deletions carry no client request_id; the comment itself identifies the operation.
+        const requestId = `delete-entry:${commentId}`;
+        const payloadHash = crypto
+            .createHash("sha256")
+            .update(JSON.stringify({ dateKey, commentId }))
+            .digest("hex");
+
+        const idem = await this.idempotency.claim(requestId, payloadHash);
+        if (idem.enabled && !idem.claimed) {
+            return { kind: "idempotent", statusCode: idem.statusCode!, body: idem.body! };
+        }
+
+        try {
+            const token = await this.auth.getInstallationToken();
+            const resolved = await this.resolveEntry(dateKey, commentId, token);
+            if (resolved.kind !== "found") {
+                // Nothing was changed; a retry, e.g. after the entry was mirrored, must run again.
+                await this.idempotency.release(requestId);
+                return resolved;
+            }
+            const { issue } = resolved;
+
+            await this.tracker.deleteComment({ owner, repo, commentId, token });
+            const stored = await this.findStoredEntry(dateKey, commentId);
+            if (stored) await this.entryStore!.deleteEntry(dateKey, stored.sort_key);
+            await this.vectorStore?.deleteVector(commentId);
+            await this.idempotency.markDone(requestId, {
+                issue_number: issue.number,
+                issue_url: issue.html_url!,
+                comment_id: commentId,
+            });
+            return { kind: "deleted", date: dateKey, issue_number: issue.number, issue_url: issue.html_url!, comment_id: commentId };
+        } catch (e) {
+            await this.idempotency.release(requestId);
+            throw e;
+        }
+    }
+
+    /** Returns the voice transcript preserved in an entry before it was refined. Finalized logs are readable too. */
+    async getEntryOriginal(dateKey: string, commentId: number): Promise<GetEntryOriginalOutcome> {
+        const token = await this.auth.getInstallationToken();
+        const found = await this.findEntryComment(dateKey, commentId, token);
+        if (!found) return { kind: "not_found", date: dateKey };
+
+        const { body, original } = splitOriginal(found.comment.body ?? "");
+        if (original === null) return { kind: "no_original", date: dateKey, comment_id: commentId };
+        return { kind: "found", date: dateKey, comment_id: commentId, original, body };
+    }
+
+    /** Replaces a refined entry with its preserved voice transcript, keeping the `## HH:MM` header. */
+    async revertEntry(dateKey: string, commentId: number): Promise<RevertEntryOutcome> {
+        const { owner, repo } = this.config;
+        const token = await this.auth.getInstallationToken();
+        const resolved = await this.resolveEntry(dateKey, commentId, token);
+        if (resolved.kind !== "found") return resolved;
+        const { issue, comment } = resolved;
+
+        const { original } = splitOriginal(comment.body ?? "");
+        if (original === null) return { kind: "no_original", date: dateKey, comment_id: commentId };
+        const { time } = parseEntry(comment.body ?? "");
+        const body = `${time ? `## ${time}\n` : ""}${original}\n`;
+
+        await this.tracker.updateComment({ owner, repo, commentId, body, token });
+        const stored = await this.findStoredEntry(dateKey, commentId);
+        if (stored) await this.entryStore!.updateEntryBody(dateKey, stored.sort_key, body);
+        await this.requestEmbedding(issue.number, commentId);
+        return { kind: "reverted", date: dateKey, issue_number: issue.number, issue_url: issue.html_url!, comment_id: commentId };
+    }
+
+    /** Returns the stored entry that was mirrored as the given comment, if the entry store is in use. */
+    private async findStoredEntry(dateKey: string, commentId: number): Promise<StoredEntry | null> {
+        if (!this.entryStore) return null;
+        const entries = await this.entryStore.listEntries(dateKey);
+        return entries.find((entry) => entry.comment_id === commentId) ?? null;
+    }
+
+    /**
+     * Loads a comment and the daily issue it belongs to, verifying that the issue is
+     * the log for dateKey and has not been finalized (closed) yet.
+     */
+    private async resolveEntry(dateKey: string, commentId: number, token: string): Promise<ResolvedEntry> {
+        const found = await this.findEntryComment(dateKey, commentId, token);
+        if (!found) return { kind: "not_found", date: dateKey };
+        if (found.issue.state === "closed") return { kind: "finalized", date: dateKey };
+
+        return { kind: "found", ...found };
+    }
+
+    /** Loads a comment and the daily issue it belongs to, or null when the issue is not the log for dateKey. */
+    private async findEntryComment(dateKey: string, commentId: number, token: string): Promise<{ issue: Issue; comment: IssueComment } | null> {
+        const { owner, repo } = this.config;
+
+        const comment = await this.tracker.getComment({ owner, repo, commentId, token });
+        const issueMatch = (comment.issue_url ?? "").match(/\/issues\/(\d+)$/);
+        if (!issueMatch) return null;
+
+        const issue = await this.tracker.getIssue({ owner, repo, issueNumber: Number(issueMatch[1]), token });
+        if (!(issue.title ?? "").startsWith(dateKey)) return null;
+
+        return { issue, comment };
+    }
+
     async getLog(dateKey: string): Promise<GetLogOutcome> {
         const { owner, repo } = this.config;
         const token = await this.auth.getInstallationToken();
         const labels = parseLabels(this.config.defaultLabels, []);
 
-        const issue = await this.github.findDailyIssue({ owner, repo, dateKey, labels, token });
+        // Days recorded in the entry store are served from it; older days fall back to the tracker.
+        const stored = await this.entryStore?.listEntries(dateKey) ?? [];
+        if (stored.length > 0) {
+            const issueNumber = stored.find((entry) => entry.issue_number !== undefined)?.issue_number;
+            // The title lives on the tracker issue, where finalize replaces it.
+            const issue = issueNumber === undefined ? null : await this.tracker.getIssue({ owner, repo, issueNumber, token });
+            return {
+                kind: "found",
+                id: issue ? `issue-id-${issue.number}` : `entries-${dateKey}`,
+                date: dateKey,
+                title: issue?.title ?? dateKey,
+                links: {
+                    body: `/log/${dateKey}/body`,
+                    comments: `/log/${dateKey}/comments`,
+                },
+            };
+        }
+
+        const issue = await this.tracker.findDailyIssue({ owner, repo, dateKey, labels, token });
         if (!issue) return { kind: "not_found", date: dateKey };
 
         return {
@@ -135,27 +508,114 @@ export class ThoughtLogService implements IThoughtLogService {
         };
     }
 
+    async listLogs(from: string, to: string, cursor?: string): Promise<ListLogsOutcome> {
+        const { owner, repo } = this.config;
+
+        // The cursor is the next search results page, serialised as a decimal string.
+        const page = cursor === undefined ? 1 : Number(cursor);
+        if (!Number.isInteger(page) || page < 1) {
+            return { kind: "invalid_cursor", cursor: cursor ?? "" };
+        }
+
+        const token = await this.auth.getInstallationToken();
+        const labels = parseLabels(this.config.defaultLabels, []);
+
+        const { issues, hasMore } = await this.tracker.searchDailyIssues({ owner, repo, from, to, labels, page, token });
+        const logs: LogListItem[] = issues
+            .map((issue) => {
+                const title = issue.title ?? "";
+                const date = title.slice(0, 10);
+                return {
+                    id: `issue-id-${issue.number}`,
+                    date,
+                    title,
+                    state: issue.state === "closed" ? "closed" as const : "open" as const,
+                    links: {
+                        body: `/log/${date}/body`,
+                        comments: `/log/${date}/comments`,
+                    },
+                };
+            })
+            .sort((a, b) => a.date.localeCompare(b.date));
+
+        return { kind: "found", logs, cursor: hasMore ? String(page + 1) : null };
+    }
+
+    async searchEntries({ query, from, to, kind }: SearchEntriesParams): Promise<SearchEntriesOutcome> {
+        const { owner, repo } = this.config;
+        const token = await this.auth.getInstallationToken();
+        const labels = parseLabels(this.config.defaultLabels, []);
+
+        const issues = await this.tracker.searchDailyIssuesByText({ owner, repo, text: query, labels, from, to, token });
+
+        // Issue search only tells us which days matched; the comments are filtered locally.
+        const hits: SearchEntryHit[] = [];
+        for (const issue of issues) {
+            if (hits.length >= MAX_SEARCH_HITS) break;
+            const comments = await this.tracker.getIssueComments({ owner, repo, issueNumber: issue.number, token });
+            for (const comment of comments) {
+                const entry = parseEntry(comment.body ?? "");
+                if (kind && entry.kind !== kind) continue;
+                if (!entry.text.toLowerCase().includes(query.toLowerCase())) continue;
+                hits.push({
+                    date: (issue.title ?? "").slice(0, 10),
+                    time: entry.time,
+                    entry_kind: entry.kind,
+                    comment_id: comment.id,
+                    issue_url: issue.html_url ?? "",
+                    snippet: makeSnippet(entry.text, query),
+                });
+                if (hits.length >= MAX_SEARCH_HITS) break;
+            }
+        }
+        return { kind: "found", hits };
+    }
+
+    /** Returns the entries most similar in meaning to the query, using the stored entry embeddings. */
+    async searchSemantic(query: string, limit: number): Promise<SemanticSearchOutcome> {
+        if (!this.embeddingService || !this.vectorStore) return { kind: "not_configured" };
+
+        const embedding = await this.embeddingService.embed(query);
+        const results = await this.vectorStore.query(embedding, limit);
+        return {
+            kind: "found",
+            hits: results.map(({ vector, score }) => ({
+                date: vector.date,
+                time: vector.time,
+                comment_id: vector.comment_id,
+                issue_url: vector.issue_url,
+                snippet: vector.text.length > SNIPPET_CONTEXT_CHARS * 2 ? `${vector.text.slice(0, SNIPPET_CONTEXT_CHARS * 2)}…` : vector.text,
+                score,
+            })),
+        };
+    }
+
     async getLogBody(dateKey: string): Promise<GetLogBodyOutcome> {
         const { owner, repo } = this.config;
         const token = await this.auth.getInstallationToken();
         const labels = parseLabels(this.config.defaultLabels, []);
 
-        const found = await this.github.findDailyIssue({ owner, repo, dateKey, labels, token });
+        const found = await this.tracker.findDailyIssue({ owner, repo, dateKey, labels, token });
         if (!found) return { kind: "not_found", date: dateKey };
 
-        const issue = await this.github.getIssue({ owner, repo, issueNumber: found.number, token });
+        const issue = await this.tracker.getIssue({ owner, repo, issueNumber: found.number, token });
         return { kind: "found", body: issue.body ?? "" };
     }
 
     async getLogComments(dateKey: string): Promise<GetLogCommentsOutcome> {
+        const stored = await this.entryStore?.listEntries(dateKey) ?? [];
+        if (stored.length > 0) {
+            return { kind: "found", comments: stored.map((entry) => entry.body) };
+        }
+
         const { owner, repo } = this.config;
         const token = await this.auth.getInstallationToken();
         const labels = parseLabels(this.config.defaultLabels, []);
 
-        const issue = await this.github.findDailyIssue({ owner, repo, dateKey, labels, token });
+        const issue = await this.tracker.findDailyIssue({ owner, repo, dateKey, labels, token });
         if (!issue) return { kind: "not_found", date: dateKey };
 
-        const comments = await this.github.getIssueComments({ owner, repo, issueNumber: issue.number, token });
+        const comments = await this.tracker.getIssueComments({ owner, repo, issueNumber: issue.number, token });
         return { kind: "found", comments: comments.map((c) => c.body ?? "") };
     }
 
@@ -163,10 +623,10 @@ export class ThoughtLogService implements IThoughtLogService {
         const { owner, repo } = this.config;
         const token = await this.auth.getInstallationToken();
 
-        const issue = await this.github.findIssueByTitlePrefix?.({ owner, repo, titlePrefix: `${dateKey} `, token }) ?? null;
+        const issue = await this.tracker.findIssueByTitlePrefix?.({ owner, repo, titlePrefix: `${dateKey} `, token }) ?? null;
         if (!issue) return { kind: "not_found", date: dateKey };
 
-        const comments = await this.github.getIssueComments({ owner, repo, issueNumber: issue.number, token });
+        const comments = await this.tracker.getIssueComments({ owner, repo, issueNumber: issue.number, token });
         // GitHub returns comments in ascending order; the second newest is at index length-2.
         const secondNewest = comments.length >= 2 ? comments[comments.length - 2] : null;
         if (!secondNewest) return { kind: "not_found", date: dateKey };
@@ -174,6 +634,49 @@ export class ThoughtLogService implements IThoughtLogService {
         return { kind: "found", summary: secondNewest.body ?? "" };
     }
 
+    /** Returns the finalized logs of the same date one week, one month and one year earlier. */
+    async getOnThisDay(dateKey: string): Promise<GetOnThisDayOutcome> {
+        const { owner, repo } = this.config;
+        const token = await this.auth.getInstallationToken();
+        const labels = parseLabels(this.config.defaultLabels, []);
+
+        const dates = getOnThisDayDateKeys(dateKey);
+        const items: OnThisDayItem[] = [];
+        for (const period of ["week", "month", "year"] as const) {
+            const date = dates[period];
+            const { issues } = await this.tracker.searchDailyIssues({ owner, repo, from: date, to: date, labels, page: 1, token });
+            // Only finalized (closed) days carry a refined title and summary.
+            const issue = issues.find((i) => i.state === "closed" && (i.title ?? "").startsWith(date));
+            if (!issue) continue;
+            items.push({ period, date, title: issue.title ?? date, summary: issue.body ?? "", issue_url: issue.html_url ?? "" });
+        }
+        return { kind: "found", date: dateKey, items };
+    }
+
+    /**
+     * Posts the "on this day" logs as an entry on the day's log, the same way as any other entry.
+     * Nothing is posted when there are none. The request_id is derived from the date, so a
+     * redelivered message does not post them twice.
+     */
+    async postOnThisDay({ dateKey }: OnThisDayMessage): Promise<void> {
+        // Earlier logs are only added to a day that has a log; they must not start one.
+        if (!await this.hasLog(dateKey)) return;
+        const { items } = await this.getOnThisDay(dateKey);
+        if (items.length === 0) return;
+        await this.createEntry({ request_id: `on-this-day:${dateKey}`, raw: renderOnThisDay(items), kind: ON_THIS_DAY_KIND, source: ON_THIS_DAY_KIND });
+    }
+
+    /** Returns whether a day has a log: entries in the entry store or an open daily issue. */
+    private async hasLog(dateKey: string): Promise<boolean> {
+        const stored = await this.entryStore?.listEntries(dateKey) ?? [];
+        if (stored.length > 0) return true;
+
+        const { owner, repo } = this.config;
+        const token = await this.auth.getInstallationToken();
+        const labels = parseLabels(this.config.defaultLabels, []);
+        return await this.tracker.findDailyIssue({ owner, repo, dateKey, labels, token }) !== null;
+    }
+
     async updateLog(dateKey: string): Promise<UpdateLogOutcome> {
         if (!this.queueService) {
             throw new Error("Queue service not configured for finalize");
@@ -185,4 +688,151 @@ export class ThoughtLogService implements IThoughtLogService {
         await this.queueService.sendMessage(JSON.stringify(message));
         return { kind: "queued", date: dateKey };
     }
+
+    async requestDigest(period: DigestPeriod, periodKey: string): Promise<RequestDigestOutcome> {
+        if (!this.queueService) {
+            throw new Error("Queue service not configured for digest");
+        }
+        const message: DigestMessage = {
+            type: "digest",
+            period,
+            periodKey,
+        };
+        await this.queueService.sendMessage(JSON.stringify(message));
+        return { kind: "queued", period, periodKey };
+    }
+
+    async exportMarkdown(from: string, to: string): Promise<ExportMarkdownOutcome> {
+        const { owner, repo } = this.config;
+        const token = await this.auth.getInstallationToken();
+        const labels = parseLabels(this.config.defaultLabels, []);
+
+        // Finalized days export their refined issue body; open days fall back to the raw entries.
+        const days: ExportDay[] = [];
+        for (const issue of await this.collectDailyIssues(from, to, labels, token)) {
+            const title = issue.title ?? "";
+            const finalized = issue.state === "closed";
+            let content = issue.body ?? "";
+            if (!finalized) {
+                const comments = await this.tracker.getIssueComments({ owner, repo, issueNumber: issue.number, token });
+                content = comments.map((c) => (c.body ?? "").trim()).join("\n\n");
+            }
+            days.push({ date: title.slice(0, 10), title, finalized, content });
+        }
+
+        const markdown = renderMarkdownExport({
+            from,
+            to,
+            exportedAt: nowDateTime(getTimeZone({ timezone: this.config.timeZone })),
+            source: `https://github.com/${owner}/${repo}`,
+            days,
+        });
+        return { kind: "found", markdown };
+    }
+
+    async exportJsonl(from: string, to: string): Promise<ExportJsonlOutcome> {
+        const { owner, repo } = this.config;
+        const token = await this.auth.getInstallationToken();
+        const labels = parseLabels(this.config.defaultLabels, []);
+
+        const lines: string[] = [];
+        for (const issue of await this.collectDailyIssues(from, to, labels, token)) {
+            const dateKey = (issue.title ?? "").slice(0, 10);
+            const comments = await this.tracker.getIssueComments({ owner, repo, issueNumber: issue.number, token });
+            for (const comment of comments) {
+                const record = toExportRecord(dateKey, comment.body ?? "", getTimeZone({ timezone: this.config.timeZone }));
+                if (record) lines.push(JSON.stringify(record));
+            }
+        }
+        return { kind: "found", jsonl: lines.map((line) => `${line}\n`).join("") };
+    }
+
+    async importEntries(jsonl: string): Promise<ImportEntriesOutcome> {
+        if (!this.createEntryQueueService) {
+            throw new Error("Create entry queue service not configured");
+        }
+        const parsed = parseImportRecords(jsonl);
+        if (parsed.kind === "invalid") return parsed;
+
+        // The request_id is derived from the entry content, so importing the same file twice
+        // (or a file that overlaps an earlier import) does not create duplicate comments.
+        const messages: string[] = [];
+        const seen = new Set<string>();
+        let skipped = 0;
+        for (const { line, payload } of parsed.records) {
+            const requestId = `import:${crypto
+                .createHash("sha256")
+                .update(JSON.stringify([payload.captured_at, payload.kind ?? "", payload.raw]))
+                .digest("hex")}`;
+            if (seen.has(requestId) || await this.idempotency.getItem(requestId)) {
+                skipped++;
+                continue;
+            }
+            seen.add(requestId);
+
+            const message: CreateEntryMessage = { type: "create-entry", payload: { ...payload, request_id: requestId } };
+            const messageBody = JSON.stringify(message);
+            if (Buffer.byteLength(messageBody, "utf8") > MAX_CREATE_ENTRY_MESSAGE_BYTES) {
+                return { kind: "invalid", line, error: "record too large" };
+            }
+            messages.push(messageBody);
+        }
+
+        await this.createEntryQueueService.sendMessages(messages);
+        return { kind: "queued", queued: messages.length, skipped };
+    }
+
+    async getFeed(format: FeedFormat): Promise<GetFeedOutcome> {
+        const { owner, repo } = this.config;
+        const token = await this.auth.getInstallationToken();
+        const labels = parseLabels(this.config.defaultLabels, []);
+
+        // Only closed issues carry the title and body written by IssueFinalizeService.
+        const issues = await this.tracker.listRecentClosedDailyIssues({ owner, repo, labels, limit: FEED_ENTRY_LIMIT, token });
+        const feed: Feed = {
+            title: `${owner}/${repo} thoughtlog`,
+            url: `https://github.com/${owner}/${repo}`,
+            generatedAt: new Date().toISOString(),
+            entries: issues.map((issue) => ({
+                id: issue.html_url ?? "",
+                title: issue.title ?? "",
+                url: issue.html_url ?? "",
+                content: issue.body ?? "",
+                updated: issue.closed_at ?? issue.updated_at ?? new Date().toISOString(),
+            })),
+        };
+        return { kind: "found", xml: format === "atom" ? renderAtomFeed(feed) : renderRssFeed(feed) };
+    }
+
+    async getCalendar(from: string, to: string): Promise<GetCalendarOutcome> {
+        const { owner, repo } = this.config;
+        const token = await this.auth.getInstallationToken();
+        const labels = parseLabels(this.config.defaultLabels, []);
+
+        const issues = await this.collectDailyIssues(from, to, labels, token);
+        const events = issues.map((issue) => {
+            const date = (issue.title ?? "").slice(0, 10);
+            return {
+                uid: `${date}-${issue.number}@${owner}.${repo}.thoughtlog`,
+                date,
+                summary: issue.title ?? "",
+                url: issue.html_url ?? "",
+                description: issue.body ?? "",
+                stamp: issue.updated_at ?? new Date().toISOString(),
+            };
+        });
+        return { kind: "found", ics: renderCalendar(`${owner}/${repo} thoughtlog`, events) };
+    }
+
+    /** Returns every daily issue in the date range, following search pages, sorted by date key. */
+    private async collectDailyIssues(from: string, to: string, labels: string[], token: string): Promise<Issue[]> {
+        const { owner, repo } = this.config;
+        const dailyIssues: Issue[] = [];
+        for (let page = 1; ; page++) {
+            const { issues, hasMore } = await this.tracker.searchDailyIssues({ owner, repo, from, to, labels, page, token });
+            dailyIssues.push(...issues);
+            if (!hasMore) break;
+        }
+        return dailyIssues.sort((a, b) => (a.title ?? "").localeCompare(b.title ?? ""));
+    }
 }
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from "vitest";
+import { DynamoDBVectorStore, cosineSimilarity } from "./vectorStore";
+import type { DynamoDBDocumentClient, PutCommand, DeleteCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import type { EntryVector } from "../types";
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+type SendFn = (command: unknown) => Promise<unknown>;
+
+function makeDdb(send: SendFn = vi.fn().mockResolvedValue({})): DynamoDBDocumentClient {
+    return { send } as unknown as DynamoDBDocumentClient;
+}
+
+function makeVector(commentId: number, embedding: number[]): EntryVector {
+    return {
+        comment_id: commentId,
+        date: "2024-01-15",
+        time: "10:00",
+        issue_number: 42,
+        issue_url: "https://github.com/o/r/issues/42",
+        text: `entry ${commentId}`,
+        embedding,
+    };
+}
+
+// ── cosineSimilarity ──────────────────────────────────────────────────────────
+
+describe("cosineSimilarity", () => {
+    it("is 1 for vectors pointing the same way and 0 for orthogonal ones", () => {
+        expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+        expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    });
+
+    it("is 0 for a zero vector", () => {
+        expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+});
+
+// ── putVector / deleteVector ──────────────────────────────────────────────────
+
+describe("DynamoDBVectorStore.putVector", () => {
+    it("writes the vector to the partition for no tenant", async () => {
+        const send = vi.fn().mockResolvedValue({});
+        const vector = makeVector(1, [1, 0]);
+        await new DynamoDBVectorStore(makeDdb(send), "vectors").putVector(vector);
+
+        expect((send.mock.calls[0][0] as PutCommand).input).toEqual({ TableName: "vectors", Item: { ...vector, tenant_id: "#" } });
+    });
+
+    it("writes the vector to the tenant's partition", async () => {
+        const send = vi.fn().mockResolvedValue({});
+        const vector = makeVector(1, [1, 0]);
+        await new DynamoDBVectorStore(makeDdb(send), "vectors", "alice").putVector(vector);
+
+        expect((send.mock.calls[0][0] as PutCommand).input.Item).toEqual({ ...vector, tenant_id: "alice" });
+    });
+});
+
+describe("DynamoDBVectorStore.deleteVector", () => {
+    it("deletes the vector of the comment", async () => {
+        const send = vi.fn().mockResolvedValue({});
+        await new DynamoDBVectorStore(makeDdb(send), "vectors").deleteVector(1);
+
+        expect((send.mock.calls[0][0] as DeleteCommand).input).toEqual({ TableName: "vectors", Key: { tenant_id: "#", comment_id: 1 } });
+    });
+
+    it("only deletes from the tenant's partition", async () => {
+        const send = vi.fn().mockResolvedValue({});
+        await new DynamoDBVectorStore(makeDdb(send), "vectors", "alice").deleteVector(1);
+
+        expect((send.mock.calls[0][0] as DeleteCommand).input.Key).toEqual({ tenant_id: "alice", comment_id: 1 });
+    });
+});
+
+// ── query ─────────────────────────────────────────────────────────────────────
+
+describe("DynamoDBVectorStore.query", () => {
+    it("ranks vectors across query pages by similarity and keeps the top k", async () => {
+        const send = vi.fn()
+            .mockResolvedValueOnce({ Items: [makeVector(1, [0, 1]), makeVector(2, [1, 0])], LastEvaluatedKey: { tenant_id: "#", comment_id: 2 } })
+            .mockResolvedValueOnce({ Items: [makeVector(3, [1, 1])] });
+        const store = new DynamoDBVectorStore(makeDdb(send), "vectors");
+
+        const results = await store.query([1, 0.1], 2);
+
+        expect(results.map((r) => r.vector.comment_id)).toEqual([2, 3]);
+        expect(results[0].score).toBeCloseTo(cosineSimilarity([1, 0.1], [1, 0]));
+        expect((send.mock.calls[1][0] as QueryCommand).input.ExclusiveStartKey).toEqual({ tenant_id: "#", comment_id: 2 });
+    });
+
+    it("skips vectors of a different dimension", async () => {
+        const send = vi.fn().mockResolvedValue({ Items: [makeVector(1, [1, 0, 0]), makeVector(2, [1, 0])] });
+        const results = await new DynamoDBVectorStore(makeDdb(send), "vectors").query([1, 0], 10);
+
+        expect(results.map((r) => r.vector.comment_id)).toEqual([2]);
+    });
+
+    it("queries only the tenant's partition", async () => {
+        const send = vi.fn().mockResolvedValue({ Items: [] });
+        await new DynamoDBVectorStore(makeDdb(send), "vectors", "alice").query([1, 0], 10);
+
+        expect((send.mock.calls[0][0] as QueryCommand).input).toMatchObject({
+            TableName: "vectors",
+            KeyConditionExpression: "tenant_id = :tenant",
+            ExpressionAttributeValues: { ":tenant": "alice" },
+        });
+    });
+});
@@ -0,0 +1,78 @@
+import {
+    DynamoDBDocumentClient,
+    PutCommand,
+    DeleteCommand,
+    QueryCommand,
+} from "@aws-sdk/lib-dynamodb";
+import type { EntryVector } from "../types";
+import type { IVectorStore } from "../interfaces/IVectorStore";
+
+export type { IVectorStore };
+
+/** Returns the cosine similarity of two vectors of the same length, or 0 when either is all zeros. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/** Partition of the vectors stored without a tenant ID. DynamoDB rejects an empty key. */
+const NO_TENANT = "#";
+
+/**
+ * DynamoDB-backed vector store. The table key is tenant_id (partition) + comment_id (sort),
+ * so each tenant's vectors live in their own partition.
+ * DynamoDB has no vector index, so a query reads the tenant's partition and ranks every vector
+ * in memory; that is fine for the few thousand entries of a personal log.
+ */
+export class DynamoDBVectorStore implements IVectorStore {
+    constructor(
+        private readonly ddb: DynamoDBDocumentClient,
+        private readonly tableName: string,
+        private readonly tenantId?: string,
+    ) {}
+
+    private get partition(): string {
+        return this.tenantId ?? NO_TENANT;
+    }
+
+    async putVector(vector: EntryVector): Promise<void> {
+        await this.ddb.send(new PutCommand({
+            TableName: this.tableName,
+            Item: { ...vector, tenant_id: this.partition },
+        }));
+    }
+
+    async deleteVector(commentId: number): Promise<void> {
+        await this.ddb.send(new DeleteCommand({
+            TableName: this.tableName,
+            Key: { tenant_id: this.partition, comment_id: commentId },
+        }));
+    }
+
+    async query(embedding: number[], topK: number): Promise<Array<{ vector: EntryVector; score: number }>> {
+        const scored: Array<{ vector: EntryVector; score: number }> = [];
+        let exclusiveStartKey: Record<string, unknown> | undefined;
+        do {
+            const result = await this.ddb.send(new QueryCommand({
+                TableName: this.tableName,
+                KeyConditionExpression: "tenant_id = :tenant",
+                ExpressionAttributeValues: { ":tenant": this.partition },
+                ExclusiveStartKey: exclusiveStartKey,
+            }));
+            for (const item of (result.Items ?? []) as EntryVector[]) {
+                // Vectors from a different embedding model cannot be compared.
+                if (item.embedding?.length !== embedding.length) continue;
+                scored.push({ vector: item, score: cosineSimilarity(embedding, item.embedding) });
+            }
+            exclusiveStartKey = result.LastEvaluatedKey;
+        } while (exclusiveStartKey);
+        return scored.sort((a, b) => b.score - a.score).slice(0, topK);
+    }
+}
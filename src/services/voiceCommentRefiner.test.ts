@@ -1,9 +1,11 @@
 import { describe, it, expect, vi } from "vitest";
 import { VoiceCommentRefinerService, parseTimestampHeader } from "./voiceCommentRefiner";
 import type { IAuthService } from "../interfaces/IAuthService";
-import type { IGitHubService } from "../interfaces/IGitHubService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
 import type { ITextRefinerService } from "../interfaces/ITextRefinerService";
-import type { GitHubIssue, GitHubComment } from "../types";
+import type { IEntryStore } from "../interfaces/IEntryStore";
+import type { IQueueService } from "../interfaces/IQueueService";
+import type { Issue, IssueComment } from "../types";
 
 // ── parseTimestampHeader ───────────────────────────────────────────────────────
 
@@ -35,30 +37,37 @@ describe("parseTimestampHeader", () => {
 
 // ── VoiceCommentRefinerService ─────────────────────────────────────────────────
 
-const mockIssue: GitHubIssue = { number: 1, html_url: "https://github.com/o/r/issues/1" };
-const mockComment: GitHubComment = { id: 55, body: "## 10:00\nraw voice text\n" };
+const mockIssue: Issue = { number: 1, html_url: "https://github.com/o/r/issues/1" };
+const mockComment: IssueComment = { id: 55, body: "## 10:00\nraw voice text\n" };
 
 function makeAuth(token = "tok"): IAuthService {
     return { getInstallationToken: vi.fn().mockResolvedValue(token) };
 }
 
-function makeGitHub(overrides: Partial<IGitHubService> = {}): IGitHubService {
+function makeGitHub(overrides: Partial<IIssueTrackerService> = {}): IIssueTrackerService {
     return {
         findDailyIssue: vi.fn().mockResolvedValue(mockIssue),
+        searchDailyIssues: vi.fn().mockResolvedValue({ issues: [], hasMore: false }),
+        searchDailyIssuesByText: vi.fn().mockResolvedValue([]),
+        searchOpenDailyIssuesBefore: vi.fn().mockResolvedValue([]),
+        listRecentClosedDailyIssues: vi.fn().mockResolvedValue([]),
         createDailyIssue: vi.fn().mockResolvedValue(mockIssue),
+        createIssue: vi.fn().mockResolvedValue(mockIssue),
         addComment: vi.fn().mockResolvedValue(mockComment),
         updateIssue: vi.fn().mockResolvedValue(mockIssue),
         closeIssue: vi.fn().mockResolvedValue(mockIssue),
+        addLabels: vi.fn().mockResolvedValue(undefined),
         getIssueComments: vi.fn().mockResolvedValue([mockComment]),
         getIssue: vi.fn().mockResolvedValue(mockIssue),
         getComment: vi.fn().mockResolvedValue(mockComment),
         updateComment: vi.fn().mockResolvedValue(mockComment),
+        deleteComment: vi.fn().mockResolvedValue(undefined),
         ...overrides,
     };
 }
 
 function makeTextRefiner(refined = "refined text"): ITextRefinerService {
-    return { refine: vi.fn().mockResolvedValue(refined) };
+    return { refine: vi.fn().mockResolvedValue(refined), refineStructured: vi.fn() };
 }
 
 const config = { owner: "owner", repo: "repo", defaultLabels: "thoughtlog" };
@@ -76,7 +85,7 @@ describe("VoiceCommentRefinerService.refineComment", () => {
         expect(github.getComment).toHaveBeenCalledWith({ owner: "owner", repo: "repo", commentId: 55, token: "tok" });
         expect(textRefiner.refine).toHaveBeenCalledWith("raw voice text");
         const updateCall = (github.updateComment as ReturnType<typeof vi.fn>).mock.calls[0][0];
-        expect(updateCall.body).toBe("## 10:00\nrefined text\n");
+        expect(updateCall.body).toBe("## 10:00\nrefined text\n\n<details><summary>原文</summary>\n\nraw voice text\n\n</details>\n");
         expect(updateCall.commentId).toBe(55);
     });
 
@@ -90,7 +99,7 @@ describe("VoiceCommentRefinerService.refineComment", () => {
         await svc.refineComment(message);
 
         const updateCall = (github.updateComment as ReturnType<typeof vi.fn>).mock.calls[0][0];
-        expect(updateCall.body).toBe("## 22:45\npolished text\n");
+        expect(updateCall.body).toBe("## 22:45\npolished text\n\n<details><summary>原文</summary>\n\noriginal voice\n\n</details>\n");
     });
 
     it("updates comment even when there is no timestamp header", async () => {
@@ -103,7 +112,7 @@ describe("VoiceCommentRefinerService.refineComment", () => {
         await svc.refineComment(message);
 
         const updateCall = (github.updateComment as ReturnType<typeof vi.fn>).mock.calls[0][0];
-        expect(updateCall.body).toBe("refined plain\n");
+        expect(updateCall.body).toBe("refined plain\n\n<details><summary>原文</summary>\n\nplain body\n\n</details>\n");
     });
 
     it("treats empty comment body as empty string for refinement", async () => {
@@ -116,5 +125,41 @@ describe("VoiceCommentRefinerService.refineComment", () => {
         await svc.refineComment(message);
 
         expect(textRefiner.refine).toHaveBeenCalledWith("");
+        const updateCall = (github.updateComment as ReturnType<typeof vi.fn>).mock.calls[0][0];
+        expect(updateCall.body).toBe("result\n");
+    });
+
+    it("refines the preserved original again when the comment was already refined", async () => {
+        const github = makeGitHub({
+            getComment: vi.fn().mockResolvedValue({ id: 55, body: "## 10:00\nfirst try\n\n<details><summary>原文</summary>\n\nraw voice text\n\n</details>\n" }),
+        });
+        const textRefiner = makeTextRefiner("second try");
+        const svc = new VoiceCommentRefinerService(makeAuth(), github, textRefiner, config);
+
+        await svc.refineComment(message);
+
+        expect(textRefiner.refine).toHaveBeenCalledWith("raw voice text");
+        const updateCall = (github.updateComment as ReturnType<typeof vi.fn>).mock.calls[0][0];
+        expect(updateCall.body).toBe("## 10:00\nsecond try\n\n<details><summary>原文</summary>\n\nraw voice text\n\n</details>\n");
+    });
+
+    it("updates the stored entry when the comment mirrors one", async () => {
+        const entryStore = { updateEntryBody: vi.fn().mockResolvedValue(undefined) } as unknown as IEntryStore;
+        const svc = new VoiceCommentRefinerService(makeAuth(), makeGitHub(), makeTextRefiner("refined text"), config, entryStore);
+
+        await svc.refineComment({ ...message, entry: { dateKey: "2024-01-15", sortKey: "2024-01-15T01:00:00.000Z#r1" } });
+
+        expect(entryStore.updateEntryBody).toHaveBeenCalledWith("2024-01-15", "2024-01-15T01:00:00.000Z#r1", "## 10:00\nrefined text\n\n<details><summary>原文</summary>\n\nraw voice text\n\n</details>\n");
+    });
+    it("queues the refined entry for embedding when semantic search is enabled", async () => {
+        const github = makeGitHub();
+        const queue: IQueueService = { sendMessage: vi.fn().mockResolvedValue(undefined), sendMessages: vi.fn() };
+        const svc = new VoiceCommentRefinerService(makeAuth(), github, makeTextRefiner("refined text"), config, undefined, queue);
+
+        await svc.refineComment(message);
+
+        expect(queue.sendMessage).toHaveBeenCalledWith(JSON.stringify({ type: "embed-entry", issueNumber: 1, commentId: 55 }));
+        const updateOrder = (github.updateComment as ReturnType<typeof vi.fn>).mock.invocationCallOrder[0];
+        expect(updateOrder).toBeLessThan((queue.sendMessage as ReturnType<typeof vi.fn>).mock.invocationCallOrder[0]);
     });
 });
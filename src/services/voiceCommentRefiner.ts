@@ -1,7 +1,10 @@
 import type { IAuthService } from "../interfaces/IAuthService";
-import type { IGitHubService } from "../interfaces/IGitHubService";
+import type { IIssueTrackerService } from "../interfaces/IIssueTrackerService";
 import type { ITextRefinerService } from "../interfaces/ITextRefinerService";
-import type { VoiceRefineMessage, RepositoryConfig } from "../types";
+import type { IEntryStore } from "../interfaces/IEntryStore";
+import type { IQueueService } from "../interfaces/IQueueService";
+import type { EmbedEntryMessage, VoiceRefineMessage, RepositoryConfig } from "../types";
+import { appendOriginal, splitOriginal } from "../utils/format";
 
 /**
  * Parses a timestamp header from an issue comment body.
@@ -19,14 +22,20 @@ export function parseTimestampHeader(body: string): { header: string; content: s
 /**
  * Fetches a GitHub issue comment, refines its body with OpenAI,
  * and updates the comment with the refined text.
- * The timestamp header (## HH:MM) is preserved during refinement.
+ * The timestamp header (## HH:MM) is preserved during refinement, and the original
+ * transcript is kept below the refined text in a collapsed block.
+ * When the comment mirrors a stored entry, the stored copy is updated as well, and when semantic
+ * search is enabled the refined entry is queued for embedding.
  */
 export class VoiceCommentRefinerService {
     constructor(
         private readonly auth: IAuthService,
-        private readonly github: IGitHubService,
+        private readonly tracker: IIssueTrackerService,
         private readonly textRefiner: ITextRefinerService,
         private readonly config: RepositoryConfig,
+        private readonly entryStore?: IEntryStore,
+        /** Set only when semantic search is enabled. */
+        private readonly embeddingQueue?: IQueueService,
     ) {}
 
     async refineComment(message: VoiceRefineMessage): Promise<void> {
@@ -34,13 +43,24 @@ export class VoiceCommentRefinerService {
         const { owner, repo } = this.config;
         const token = await this.auth.getInstallationToken();
 
-        const comment = await this.github.getComment({ owner, repo, commentId, token });
+        const comment = await this.tracker.getComment({ owner, repo, commentId, token });
         const body = comment.body ?? "";
 
-        const { header, content } = parseTimestampHeader(body);
-        const refined = await this.textRefiner.refine(content);
-        const newBody = header ? `${header}${refined}\n` : `${refined}\n`;
+        const { body: visible, original } = splitOriginal(body);
+        const { header, content } = parseTimestampHeader(visible);
+        // A redelivered message refines the preserved transcript again, not the refined text.
+        const transcript = original ?? content;
+        const refined = await this.textRefiner.refine(transcript);
+        const refinedBody = header ? `${header}${refined}\n` : `${refined}\n`;
+        const newBody = transcript ? appendOriginal(refinedBody, transcript) : refinedBody;
 
-        await this.github.updateComment({ owner, repo, commentId, body: newBody, token });
+        await this.tracker.updateComment({ owner, repo, commentId, body: newBody, token });
+        if (message.entry && this.entryStore) {
+            await this.entryStore.updateEntryBody(message.entry.dateKey, message.entry.sortKey, newBody);
+        }
+        if (this.embeddingQueue) {
+            const embed: EmbedEntryMessage = { type: "embed-entry", issueNumber: message.issueNumber, commentId };
+            await this.embeddingQueue.sendMessage(JSON.stringify(embed));
+        }
     }
 }
@@ -1,6 +1,8 @@
 export interface Payload {
     request_id?: string;
     captured_at?: string;
+    /** IANA time zone of the entry (e.g. "Europe/Berlin"); defaults to the TIME_ZONE setting. */
+    timezone?: string;
     raw?: string;
     kind?: string;
     labels?: unknown[];
@@ -14,6 +16,26 @@ export interface IdempotencyItem {
     issue_number?: number;
     issue_url?: string;
     comment_id?: number;
+    error?: string;
+}
+
+/**
+ * An entry in the entries table: partitioned by local date key and sorted by captured time.
+ * Entries are written here first and mirrored to the issue tracker asynchronously.
+ */
+export interface StoredEntry {
+    date_key: string;
+    /** "<captured_at as ISO 8601 UTC>#<request_id>", so entries sort by captured time. */
+    sort_key: string;
+    request_id: string;
+    /** The formatted entry ("## HH:MM" header and content), as posted to the tracker. */
+    body: string;
+    labels: string[];
+    source?: string;
+    /** "mirroring" is recorded with the issue number before the comment is posted. */
+    mirror_status: "pending" | "mirroring" | "mirrored";
+    issue_number?: number;
+    comment_id?: number;
 }
 
 export interface IdempotencyResult {
@@ -31,27 +53,74 @@ export interface IdempotencyResult {
     };
 }
 
-export interface GitHubIssue {
+/**
+ * An issue as returned by the configured tracker. Fields follow GitHub's REST shape;
+ * other backends map their own responses onto it.
+ */
+export interface Issue {
+    /** Per-repository issue number (GitLab/Gitea "iid"/"index"). */
     number: number;
     html_url?: string;
     title?: string;
     body?: string;
+    state?: string;
+    created_at?: string;
+    updated_at?: string;
+    closed_at?: string | null;
 }
 
-export interface GitHubComment {
+export interface IssueComment {
     id: number;
     body?: string;
+    /** URL of the issue the comment belongs to; it ends with "/issues/<number>". */
+    issue_url?: string;
 }
 
 export interface GitHubSearchResult {
-    items?: GitHubIssue[];
+    total_count?: number;
+    items?: Issue[];
 }
 
 // ── ThoughtLog result types ────────────────────────────────────────────────────
 
+/** Replay of an earlier request with the same request_id, as recorded by the idempotency store. */
+export type IdempotentOutcome =
+    { kind: "idempotent"; statusCode: number; body: { ok: boolean; error?: string; idempotent?: boolean; issue_number?: number; issue_url?: string; comment_id?: number; status?: string } };
+
 export type CreateEntryOutcome =
     | { kind: "created"; date: string; issue_number: number; issue_url: string; comment_id: number }
-    | { kind: "idempotent"; statusCode: number; body: { ok: boolean; error?: string; idempotent?: boolean; issue_number?: number; issue_url?: string; comment_id?: number; status?: string } };
+    /** Persisted in the entries table; the issue comment is created later by a mirror-entry message. */
+    | { kind: "stored"; date: string; sort_key: string }
+    | IdempotentOutcome;
+
+export type UpdateEntryOutcome =
+    | { kind: "updated"; date: string; issue_number: number; issue_url: string; comment_id: number }
+    | IdempotentOutcome
+    | { kind: "not_found"; date: string }
+    | { kind: "finalized"; date: string };
+
+export type DeleteEntryOutcome =
+    | { kind: "deleted"; date: string; issue_number: number; issue_url: string; comment_id: number }
+    | IdempotentOutcome
+    | { kind: "not_found"; date: string }
+    | { kind: "finalized"; date: string };
+
+export type GetEntryOriginalOutcome =
+    | { kind: "found"; date: string; comment_id: number; original: string; body: string }
+    | { kind: "no_original"; date: string; comment_id: number }
+    | { kind: "not_found"; date: string };
+
+export type RevertEntryOutcome =
+    | { kind: "reverted"; date: string; issue_number: number; issue_url: string; comment_id: number }
+    | { kind: "no_original"; date: string; comment_id: number }
+    | { kind: "not_found"; date: string }
+    | { kind: "finalized"; date: string };
+
+export type GetEntryStatusOutcome =
+    | { kind: "processing"; request_id: string }
+    | { kind: "done"; request_id: string; issue_number: number; issue_url: string; comment_id: number }
+    | { kind: "failed"; request_id: string; error: string }
+    | { kind: "not_found"; request_id: string };
 
 export type EnqueueEntryOutcome =
     | { kind: "queued" }
@@ -61,6 +130,67 @@ export type GetLogOutcome =
     | { kind: "found"; id: string; date: string; title: string; links: { body: string; comments: string } }
     | { kind: "not_found"; date: string };
 
+/** A single daily log as returned by the list endpoint. */
+export interface LogListItem {
+    id: string;
+    date: string;
+    title: string;
+    state: "open" | "closed";
+    links: { body: string; comments: string };
+}
+
+export type ListLogsOutcome =
+    | { kind: "found"; logs: LogListItem[]; cursor: string | null }
+    | { kind: "invalid_cursor"; cursor: string };
+
+export interface SearchEntriesParams {
+    query: string;
+    from?: string;
+    to?: string;
+    kind?: string;
+}
+
+/** A single comment matching a full-text search. */
+export interface SearchEntryHit {
+    date: string;
+    /** The `HH:MM` time from the entry header, or null when the comment has none. */
+    time: string | null;
+    entry_kind: string | null;
+    comment_id: number;
+    issue_url: string;
+    snippet: string;
+}
+
+export type SearchEntriesOutcome =
+    | { kind: "found"; hits: SearchEntryHit[] };
+
+/** An entry's embedding and what a semantic search returns for it, keyed by the comment ID. */
+export interface EntryVector {
+    comment_id: number;
+    date: string;
+    /** The `HH:MM` time from the entry header, or null when the comment has none. */
+    time: string | null;
+    issue_number: number;
+    issue_url: string;
+    /** The entry text that was embedded. */
+    text: string;
+    embedding: number[];
+}
+
+/** A single entry similar to a semantic search query; score is the cosine similarity. */
+export interface SemanticSearchHit {
+    date: string;
+    time: string | null;
+    comment_id: number;
+    issue_url: string;
+    snippet: string;
+    score: number;
+}
+
+export type SemanticSearchOutcome =
+    | { kind: "found"; hits: SemanticSearchHit[] }
+    | { kind: "not_configured" };
+
 export type GetLogBodyOutcome =
     | { kind: "found"; body: string }
     | { kind: "not_found"; date: string };
@@ -73,14 +203,85 @@ export type GetLogSummaryOutcome =
     | { kind: "found"; summary: string }
     | { kind: "not_found"; date: string };
 
+export type OnThisDayPeriod = "week" | "month" | "year";
+
+/** A finalized daily log from one week, one month or one year before a date. */
+export interface OnThisDayItem {
+    period: OnThisDayPeriod;
+    date: string;
+    title: string;
+    summary: string;
+    issue_url: string;
+}
+
+export type GetOnThisDayOutcome =
+    | { kind: "found"; date: string; items: OnThisDayItem[] };
+
 export type UpdateLogOutcome =
     | { kind: "queued"; date: string };
 
+/** Length of the period a digest rolls up. */
+export type DigestPeriod = "week" | "month";
+
+export type RequestDigestOutcome =
+    | { kind: "queued"; period: DigestPeriod; periodKey: string };
+
+export type ExportMarkdownOutcome =
+    | { kind: "found"; markdown: string };
+
+export type ExportJsonlOutcome =
+    | { kind: "found"; jsonl: string };
+
+export type GetFeedOutcome =
+    | { kind: "found"; xml: string };
+
+export type GetCalendarOutcome =
+    | { kind: "found"; ics: string };
+
+export type ImportEntriesOutcome =
+    | { kind: "queued"; queued: number; skipped: number }
+    | { kind: "invalid"; line: number; error: string };
+
 /** Shared repository configuration used across services. */
 export interface RepositoryConfig {
     owner: string;
     repo: string;
     defaultLabels: string;
+    /** IANA time zone of the log; the TIME_ZONE setting applies when unset. */
+    timeZone?: string;
+}
+
+/** Permissions an API key can be granted; requests authorized with a JWT have every scope. */
+export type ApiScope = "write:entries" | "read:logs" | "finalize";
+
+/** An API key of a device. A key is used as a bearer key, to sign requests, or both. */
+export interface ApiKey {
+    keyId: string;
+    /** SHA-256 (hex) of the full "<keyId>.<secret>" key sent in the X-Api-Key header. */
+    keyHash?: string;
+    /** Shared secret of HMAC-signed requests; HMAC needs the secret itself, so it cannot be hashed. */
+    hmacSecret?: string;
+    scopes: ApiScope[];
+    /** Tenant the key belongs to in a multi-tenant deployment. */
+    tenantId?: string;
+}
+
+export type AuthenticateOutcome =
+    | { kind: "authenticated"; method: "jwt" | "api_key" | "hmac"; scopes: ApiScope[]; keyId?: string; tenantId?: string }
+    | { kind: "unauthenticated"; error: string };
+
+/** A user of a multi-tenant deployment and the repository their log is kept in. */
+export interface TenantConfig extends RepositoryConfig {
+    tenantId: string;
+    /** GitHub App installation on the tenant's account; the deployment's installation when unset. */
+    githubInstallationId?: string;
+}
+
+/** JSON schema that a structured text refinement must conform to. */
+export interface StructuredOutputSchema {
+    /** Schema name; OpenAI only accepts letters, digits, underscores and hyphens. */
+    name: string;
+    schema: Record<string, unknown>;
 }
 
 /** Message payload sent to the queue for async voice comment refinement. */
@@ -88,6 +289,32 @@ export interface VoiceRefineMessage {
     type: "voice-polish";
     issueNumber: number;
     commentId: number;
+    /** Key of the mirrored entry in the entries table, which is refined along with the comment. */
+    entry?: { dateKey: string; sortKey: string };
+}
+
+/** Message payload sent to the queue to classify an entry that was posted without a kind. */
+export interface ClassifyEntryMessage {
+    type: "classify-entry";
+    issueNumber: number;
+    commentId: number;
+    /** Key of the mirrored entry in the entries table, which is updated along with the comment. */
+    entry?: { dateKey: string; sortKey: string };
+    /** Queue voice refinement once classified, so the two steps never edit the comment concurrently. */
+    voicePolish?: boolean;
+}
+
+/** Message payload sent to the queue to (re)compute the embedding of an entry for semantic search. */
+export interface EmbedEntryMessage {
+    type: "embed-entry";
+    issueNumber: number;
+    commentId: number;
+}
+
+/** Message payload sent to the queue to post the "on this day" logs on the day's issue. */
+export interface OnThisDayMessage {
+    type: "on-this-day";
+    dateKey: string;
 }
 
 /** Message payload sent to the queue for async final polish of a daily log. */
@@ -102,8 +329,23 @@ export interface CreateEntryMessage {
     payload: Payload;
 }
 
+/** Message payload sent to the queue for async generation of a weekly or monthly digest. */
+export interface DigestMessage {
+    type: "digest";
+    period: DigestPeriod;
+    /** "YYYY-Www" for weekly digests, "YYYY-MM" for monthly digests. */
+    periodKey: string;
+}
+
+/** Message payload sent to the queue to copy a stored entry to the issue tracker as a comment. */
+export interface MirrorEntryMessage {
+    type: "mirror-entry";
+    dateKey: string;
+    sortKey: string;
+}
+
 /** Union of all SQS message types handled by the queue handler. */
-export type SqsMessage = VoiceRefineMessage | FinalizeMessage | CreateEntryMessage;
+export type SqsMessage = VoiceRefineMessage | ClassifyEntryMessage | EmbedEntryMessage | OnThisDayMessage | FinalizeMessage | CreateEntryMessage | DigestMessage | MirrorEntryMessage;
 
 /** Framework-agnostic HTTP response returned by ThoughtLogRouter. */
 export interface HttpResponse {
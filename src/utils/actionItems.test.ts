@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { extractActionItems, getActionItemKey, normalizeActionItem } from "./actionItems";
+
+// ── extractActionItems ─────────────────────────────────────────────────────────
+
+describe("extractActionItems", () => {
+    it("extracts unchecked task list items", () => {
+        expect(extractActionItems("## 10:00\n- [ ] call the dentist\n* [ ] buy milk\n")).toEqual(["call the dentist", "buy milk"]);
+    });
+
+    it("ignores checked task list items", () => {
+        expect(extractActionItems("- [x] call the dentist\n- [X] buy milk")).toEqual([]);
+    });
+
+    it("extracts TODO lines with either colon", () => {
+        expect(extractActionItems("TODO: call the dentist\n- todo： 牛乳を買う\nnothing to do here")).toEqual(["call the dentist", "牛乳を買う"]);
+    });
+
+    it("skips items without text", () => {
+        expect(extractActionItems("- [ ]  \nTODO:")).toEqual([]);
+    });
+});
+
+// ── normalizeActionItem ────────────────────────────────────────────────────────
+
+describe("normalizeActionItem", () => {
+    it("ignores case and whitespace differences", () => {
+        expect(normalizeActionItem("  Call  the\tDentist ")).toBe(normalizeActionItem("call the dentist"));
+    });
+});
+
+// ── getActionItemKey ───────────────────────────────────────────────────────────
+
+describe("getActionItemKey", () => {
+    it("is the daily issue number and a hash of the normalised item", () => {
+        expect(getActionItemKey(10, "  Call  the Dentist")).toBe(getActionItemKey(10, "call the dentist"));
+        expect(getActionItemKey(10, "call the dentist")).toMatch(/^10:[0-9a-f]{16}$/);
+    });
+
+    it("differs between daily issues and between items", () => {
+        expect(getActionItemKey(11, "call the dentist")).not.toBe(getActionItemKey(10, "call the dentist"));
+        expect(getActionItemKey(10, `${"a".repeat(80)} one`)).not.toBe(getActionItemKey(10, `${"a".repeat(80)} two`));
+    });
+});
@@ -0,0 +1,37 @@
+import crypto from "crypto";
+
+/** Matches an unchecked Markdown task ("- [ ] call the dentist"). */
+const TASK_PATTERN = /^\s*[-*+]\s+\[ \]\s+(.+)$/;
+
+/** Matches a "TODO: call the dentist" line, also with a full-width colon. */
+const TODO_PATTERN = /^\s*(?:[-*+]\s+)?TODO\s*[:：]\s*(.+)$/i;
+
+/**
+ * Extracts explicit action items from an entry: unchecked task list items and
+ * lines starting with "TODO:". Returns the item texts in order of appearance.
+ */
+export function extractActionItems(text: string): string[] {
+    const items: string[] = [];
+    for (const line of text.split("\n")) {
+        const match = line.match(TASK_PATTERN) ?? line.match(TODO_PATTERN);
+        const item = match?.[1].trim();
+        if (item) {
+            items.push(item);
+        }
+    }
+    return items;
+}
+
+/** Normalises an action item so that the same item written twice compares equal. */
+export function normalizeActionItem(item: string): string {
+    return item.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Returns the key of an action item of a daily issue, "<issue number>:<hash of the normalised text>",
+ * so the item is recognised again when the day is finalized once more.
+ */
+export function getActionItemKey(issueNumber: number, item: string): string {
+    const hash = crypto.createHash("sha256").update(normalizeActionItem(item), "utf8").digest("hex").slice(0, 16);
+    return `${issueNumber}:${hash}`;
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
-import { getDateKeyJst, getNightOwlThresholdHour, nowEpoch, nowJstDateTime } from "./date";
+import { addDaysToDateKey, addMonthsToDateKey, getCapturedAt, getDateKey, getIsoWeekRange, getMonthRange, getNightOwlThresholdHour, getOnThisDayDateKeys, getTimeZone, isDateKey, isTimeZone, nowEpoch, nowDateTime } from "./date";
 
 describe("nowEpoch", () => {
     it("returns the current Unix timestamp (seconds)", () => {
@@ -52,7 +52,47 @@ describe("getNightOwlThresholdHour", () => {
     });
 });
 
-describe("getDateKeyJst", () => {
+describe("getTimeZone", () => {
+    const originalTimeZone = process.env.TIME_ZONE;
+
+    afterEach(() => {
+        if (originalTimeZone === undefined) {
+            delete process.env.TIME_ZONE;
+        } else {
+            process.env.TIME_ZONE = originalTimeZone;
+        }
+    });
+
+    it("defaults to Asia/Tokyo", () => {
+        delete process.env.TIME_ZONE;
+        expect(getTimeZone()).toBe("Asia/Tokyo");
+    });
+
+    it("uses TIME_ZONE from the environment", () => {
+        process.env.TIME_ZONE = "Europe/Berlin";
+        expect(getTimeZone()).toBe("Europe/Berlin");
+    });
+
+    it("prefers the payload's timezone", () => {
+        process.env.TIME_ZONE = "Europe/Berlin";
+        expect(getTimeZone({ timezone: "America/New_York" })).toBe("America/New_York");
+    });
+
+    it("ignores unknown time zones", () => {
+        process.env.TIME_ZONE = "Mars/Olympus";
+        expect(getTimeZone({ timezone: "Nowhere/Else" })).toBe("Asia/Tokyo");
+    });
+});
+
+describe("isTimeZone", () => {
+    it("accepts IANA names and rejects anything else", () => {
+        expect(isTimeZone("America/Los_Angeles")).toBe(true);
+        expect(isTimeZone("Mars/Olympus")).toBe(false);
+        expect(isTimeZone("")).toBe(false);
+    });
+});
+
+describe("getDateKey", () => {
     const originalNightOwlThresholdHours = process.env.NIGHT_OWL_THRESHOLD_HOURS;
 
     afterEach(() => {
@@ -65,61 +105,172 @@ describe("getDateKeyJst", () => {
 
     it("converts a UTC timestamp to a JST YYYY-MM-DD key", () => {
         // 2024-01-14T20:00:00Z + 9h = 2024-01-15T05:00:00+09:00 → "2024-01-15"
-        expect(getDateKeyJst({ captured_at: "2024-01-14T20:00:00Z" })).toBe("2024-01-15");
+        expect(getDateKey({ captured_at: "2024-01-14T20:00:00Z" })).toBe("2024-01-15");
     });
 
     it("stays on the same day when UTC time is before midnight JST", () => {
         // 2024-06-01T10:00:00Z + 9h = 2024-06-01T19:00:00+09:00 → "2024-06-01"
-        expect(getDateKeyJst({ captured_at: "2024-06-01T10:00:00Z" })).toBe("2024-06-01");
+        expect(getDateKey({ captured_at: "2024-06-01T10:00:00Z" })).toBe("2024-06-01");
     });
 
     it("returns a YYYY-MM-DD string when captured_at is absent", () => {
-        const key = getDateKeyJst({});
+        const key = getDateKey({});
         expect(key).toMatch(/^\d{4}-\d{2}-\d{2}$/);
     });
 
     it("attributes 02:15 JST to the previous day with default threshold (3)", () => {
         // 2026-04-09T17:15:00Z + 9h = 2026-04-10T02:15:00+09:00 → previous day "2026-04-09"
-        expect(getDateKeyJst({ captured_at: "2026-04-09T17:15:00Z" })).toBe("2026-04-09");
+        expect(getDateKey({ captured_at: "2026-04-09T17:15:00Z" })).toBe("2026-04-09");
     });
 
     it("attributes 00:00 JST to the previous day with default threshold (3)", () => {
         // 2026-04-09T15:00:00Z + 9h = 2026-04-10T00:00:00+09:00 → previous day "2026-04-09"
-        expect(getDateKeyJst({ captured_at: "2026-04-09T15:00:00Z" })).toBe("2026-04-09");
+        expect(getDateKey({ captured_at: "2026-04-09T15:00:00Z" })).toBe("2026-04-09");
     });
 
     it("keeps 03:00 JST on the current day with default threshold (3)", () => {
         // 2026-04-09T18:00:00Z + 9h = 2026-04-10T03:00:00+09:00 → current day "2026-04-10"
-        expect(getDateKeyJst({ captured_at: "2026-04-09T18:00:00Z" })).toBe("2026-04-10");
+        expect(getDateKey({ captured_at: "2026-04-09T18:00:00Z" })).toBe("2026-04-10");
     });
 
     it("respects a custom threshold from NIGHT_OWL_THRESHOLD_HOURS", () => {
         process.env.NIGHT_OWL_THRESHOLD_HOURS = "5";
         // 04:00 JST with threshold=5 → previous day
         // 2026-04-09T19:00:00Z + 9h = 2026-04-10T04:00:00+09:00 → previous day "2026-04-09"
-        expect(getDateKeyJst({ captured_at: "2026-04-09T19:00:00Z" })).toBe("2026-04-09");
+        expect(getDateKey({ captured_at: "2026-04-09T19:00:00Z" })).toBe("2026-04-09");
     });
 
     it("treats threshold=0 as no adjustment (00:00 stays on the current day)", () => {
         process.env.NIGHT_OWL_THRESHOLD_HOURS = "0";
         // 2026-04-09T15:00:00Z + 9h = 2026-04-10T00:00:00+09:00 → current day "2026-04-10"
-        expect(getDateKeyJst({ captured_at: "2026-04-09T15:00:00Z" })).toBe("2026-04-10");
+        expect(getDateKey({ captured_at: "2026-04-09T15:00:00Z" })).toBe("2026-04-10");
+    });
+
+    it("uses the payload's time zone, including its DST offset", () => {
+        // 2024-07-01T03:30:00Z is 23:30 EDT (UTC-4) on June 30th in New York
+        expect(getDateKey({ captured_at: "2024-07-01T03:30:00Z", timezone: "America/New_York" })).toBe("2024-06-30");
+        // 2024-01-01T04:30:00Z is 23:30 EST (UTC-5) on December 31st
+        expect(getDateKey({ captured_at: "2024-01-01T04:30:00Z", timezone: "America/New_York" })).toBe("2023-12-31");
     });
 });
 
-describe("nowJstDateTime", () => {
+describe("nowDateTime", () => {
     afterEach(() => {
         vi.restoreAllMocks();
     });
 
     it("returns a YYYY-MM-DD HH:mm string", () => {
-        const result = nowJstDateTime();
+        const result = nowDateTime();
         expect(result).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}$/);
     });
 
     it("converts UTC midnight to JST 09:00 of the same day", () => {
         // 2024-01-14T00:00:00Z + 9h = 2024-01-14T09:00+09:00
         vi.spyOn(Date, "now").mockReturnValue(new Date("2024-01-14T00:00:00Z").getTime());
-        expect(nowJstDateTime()).toBe("2024-01-14 09:00");
+        expect(nowDateTime()).toBe("2024-01-14 09:00");
+    });
+
+    it("formats the time in the given time zone", () => {
+        vi.spyOn(Date, "now").mockReturnValue(new Date("2024-07-01T12:00:00Z").getTime());
+        expect(nowDateTime("Europe/London")).toBe("2024-07-01 13:00");
+    });
+});
+
+describe("isDateKey", () => {
+    it("accepts a valid YYYY-MM-DD date", () => {
+        expect(isDateKey("2024-02-29")).toBe(true);
+    });
+
+    it("rejects impossible calendar dates", () => {
+        expect(isDateKey("2023-02-29")).toBe(false);
+        expect(isDateKey("2024-13-01")).toBe(false);
+    });
+
+    it("rejects other formats", () => {
+        expect(isDateKey("2024-1-5")).toBe(false);
+        expect(isDateKey("20240105")).toBe(false);
+    });
+});
+
+describe("addDaysToDateKey", () => {
+    it("moves forward across a month boundary", () => {
+        expect(addDaysToDateKey("2024-01-31", 1)).toBe("2024-02-01");
+    });
+
+    it("moves backward across a year boundary", () => {
+        expect(addDaysToDateKey("2024-01-01", -1)).toBe("2023-12-31");
+    });
+});
+
+describe("addMonthsToDateKey", () => {
+    it("moves backward across a year boundary", () => {
+        expect(addMonthsToDateKey("2024-01-15", -1)).toBe("2023-12-15");
+    });
+
+    it("clamps to the last day of a shorter month", () => {
+        expect(addMonthsToDateKey("2024-03-31", -1)).toBe("2024-02-29");
+        expect(addMonthsToDateKey("2024-02-29", -12)).toBe("2023-02-28");
+    });
+});
+
+describe("getOnThisDayDateKeys", () => {
+    it("returns the dates one week, one month and one year earlier", () => {
+        expect(getOnThisDayDateKeys("2024-03-05")).toEqual({ week: "2024-02-27", month: "2024-02-05", year: "2023-03-05" });
+    });
+});
+
+describe("getCapturedAt", () => {
+    it("combines the date key and header time with the JST offset", () => {
+        expect(getCapturedAt("2024-01-15", "19:30")).toBe("2024-01-15T19:30:00+09:00");
+    });
+
+    it("rolls night-owl hours over to the next calendar day", () => {
+        expect(getCapturedAt("2024-01-31", "25:05")).toBe("2024-02-01T01:05:00+09:00");
+    });
+
+    it("round-trips through getDateKey", () => {
+        expect(getDateKey({ captured_at: getCapturedAt("2024-01-15", "26:00") })).toBe("2024-01-15");
+    });
+
+    it("uses the offset the time zone has on that date", () => {
+        expect(getCapturedAt("2024-01-15", "19:30", "Europe/Berlin")).toBe("2024-01-15T19:30:00+01:00");
+        expect(getCapturedAt("2024-07-15", "19:30", "Europe/Berlin")).toBe("2024-07-15T19:30:00+02:00");
+        expect(getCapturedAt("2024-07-15", "19:30", "America/Los_Angeles")).toBe("2024-07-15T19:30:00-07:00");
+    });
+});
+
+describe("getIsoWeekRange", () => {
+    it("returns Monday to Sunday of the given ISO week", () => {
+        expect(getIsoWeekRange("2026-W42")).toEqual({ from: "2026-10-12", to: "2026-10-18" });
+    });
+
+    it("handles week 1 starting in the previous year", () => {
+        // 2025-01-01 is a Wednesday, so ISO week 1 starts on 2024-12-30.
+        expect(getIsoWeekRange("2025-W01")).toEqual({ from: "2024-12-30", to: "2025-01-05" });
+    });
+
+    it("accepts week 53 only in years that have one", () => {
+        expect(getIsoWeekRange("2026-W53")).toEqual({ from: "2026-12-28", to: "2027-01-03" });
+        expect(getIsoWeekRange("2025-W53")).toBeNull();
+    });
+
+    it("returns null for malformed keys", () => {
+        expect(getIsoWeekRange("2026-42")).toBeNull();
+        expect(getIsoWeekRange("2026-W00")).toBeNull();
+    });
+});
+
+describe("getMonthRange", () => {
+    it("returns the first and last day of the month", () => {
+        expect(getMonthRange("2026-10")).toEqual({ from: "2026-10-01", to: "2026-10-31" });
+    });
+
+    it("handles leap-year February", () => {
+        expect(getMonthRange("2024-02")).toEqual({ from: "2024-02-01", to: "2024-02-29" });
+    });
+
+    it("returns null for malformed keys", () => {
+        expect(getMonthRange("2026-13")).toBeNull();
+        expect(getMonthRange("2026-1")).toBeNull();
     });
 });
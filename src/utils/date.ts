@@ -1,29 +1,97 @@
 import type { Payload } from "../types";
 
-/** UTC offset in milliseconds for JST (UTC+9). */
-export const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+/** Time zone used when neither the payload nor the TIME_ZONE environment variable sets one. */
+export const DEFAULT_TIME_ZONE = "Asia/Tokyo";
 
 export function nowEpoch(): number {
     return Math.floor(Date.now() / 1000);
 }
 
 /**
- * Returns the current date and time in JST (UTC+9) as a "YYYY-MM-DD HH:mm" string.
+ * Returns true when the value is an IANA time zone name known to the runtime, e.g. "Europe/Berlin".
  */
-export function nowJstDateTime(): string {
-    const jstMs = Date.now() + JST_OFFSET_MS;
-    const d = new Date(jstMs);
-    const yyyy = d.getUTCFullYear();
-    const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
-    const dd = String(d.getUTCDate()).padStart(2, "0");
-    const hh = String(d.getUTCHours()).padStart(2, "0");
-    const min = String(d.getUTCMinutes()).padStart(2, "0");
-    return `${yyyy}-${mm}-${dd} ${hh}:${min}`;
+export function isTimeZone(value: string): boolean {
+    if (!value) return false;
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: value });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Returns the time zone for a payload: its own timezone field when valid, otherwise the
+ * TIME_ZONE environment variable when valid, otherwise DEFAULT_TIME_ZONE.
+ */
+export function getTimeZone(payload?: Payload): string {
+    const own = payload?.timezone;
+    if (typeof own === "string" && isTimeZone(own)) return own;
+    const raw = process.env.TIME_ZONE;
+    if (raw && isTimeZone(raw)) return raw;
+    return DEFAULT_TIME_ZONE;
+}
+
+/** Wall-clock date and time of an instant in a time zone. */
+interface ZonedParts {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+}
+
+/** Returns the wall-clock parts of an instant in a time zone, following its DST rules. */
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes): number => Number(parts.find((p) => p.type === type)?.value);
+    return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute") };
+}
+
+/** Returns the UTC offset of a time zone at an instant, in minutes (e.g. 540 for JST). */
+function getOffsetMinutes(date: Date, timeZone: string): number {
+    const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+    const wallMs = Date.UTC(year, month - 1, day, hour, minute);
+    return Math.round((wallMs - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+}
+
+/**
+ * Returns the local time of an instant in a time zone, with times before the night owl threshold
+ * hour attributed to the previous calendar day. hour is 24 or more for those times.
+ */
+export function getLocalTime(date: Date, timeZone: string): { dateKey: string; hour: number; minute: number } {
+    const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+    const dateKey = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+    if (hour < getNightOwlThresholdHour()) {
+        return { dateKey: addDaysToDateKey(dateKey, -1), hour: hour + 24, minute };
+    }
+    return { dateKey, hour, minute };
+}
+
+/**
+ * Returns the current date and time as a "YYYY-MM-DD HH:mm" string in the given time zone
+ * (the configured one by default).
+ */
+export function nowDateTime(timeZone: string = getTimeZone()): string {
+    const { year, month, day, hour, minute } = getZonedParts(new Date(Date.now()), timeZone);
+    const mm = String(month).padStart(2, "0");
+    const dd = String(day).padStart(2, "0");
+    const hh = String(hour).padStart(2, "0");
+    const min = String(minute).padStart(2, "0");
+    return `${year}-${mm}-${dd} ${hh}:${min}`;
 }
 
 /**
  * Returns the "night owl" threshold hour (0–12) from the environment variable
- * NIGHT_OWL_THRESHOLD_HOURS. JST times before this hour are attributed to the
+ * NIGHT_OWL_THRESHOLD_HOURS. Local times before this hour are attributed to the
  * previous calendar day. Defaults to 3.
  */
 export function getNightOwlThresholdHour(): number {
@@ -35,22 +103,109 @@ export function getNightOwlThresholdHour(): number {
 }
 
 /**
- * Returns a YYYY-MM-DD date key in JST (UTC+9) for the payload's captured_at timestamp.
- * Falls back to the current time when captured_at is absent.
+ * Returns a YYYY-MM-DD date key for the payload's captured_at timestamp in the payload's
+ * time zone (see getTimeZone). Falls back to the current time when captured_at is absent.
  * Times before the night owl threshold hour (NIGHT_OWL_THRESHOLD_HOURS, default 3)
  * are attributed to the previous calendar day.
  */
-export function getDateKeyJst(payload: Payload): string {
+export function getDateKey(payload: Payload): string {
     const captured = payload?.captured_at ? new Date(payload.captured_at) : new Date();
-    const jstMs = captured.getTime() + JST_OFFSET_MS;
-    const d = new Date(jstMs);
-    const threshold = getNightOwlThresholdHour();
-
-    // Times before the threshold belong to the previous calendar day.
-    const effectiveMs = d.getUTCHours() < threshold ? jstMs - 24 * 60 * 60 * 1000 : jstMs;
-    const e = new Date(effectiveMs);
-    const yyyy = e.getUTCFullYear();
-    const mm = String(e.getUTCMonth() + 1).padStart(2, "0");
-    const dd = String(e.getUTCDate()).padStart(2, "0");
-    return `${yyyy}-${mm}-${dd}`;
+    return getLocalTime(captured, getTimeZone(payload)).dateKey;
+}
+
+/**
+ * Returns true when the value is a valid calendar date in YYYY-MM-DD form.
+ */
+export function isDateKey(value: string): boolean {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const d = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Shifts a YYYY-MM-DD date key by the given number of days (negative values move backwards).
+ */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+    const d = new Date(`${dateKey}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Shifts a YYYY-MM-DD date key by the given number of months (negative values move backwards).
+ * Days past the end of the target month are clamped to its last day, so 2024-03-31 minus one
+ * month is 2024-02-29.
+ */
+export function addMonthsToDateKey(dateKey: string, months: number): string {
+    const [yyyy, mm, dd] = dateKey.split("-").map(Number);
+    const target = new Date(Date.UTC(yyyy, mm - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(dd, lastDay));
+    return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the date keys one week, one month and one year before a date key,
+ * for resurfacing what was written "on this day".
+ */
+export function getOnThisDayDateKeys(dateKey: string): { week: string; month: string; year: string } {
+    return {
+        week: addDaysToDateKey(dateKey, -7),
+        month: addMonthsToDateKey(dateKey, -1),
+        year: addMonthsToDateKey(dateKey, -12),
+    };
+}
+
+/**
+ * Reconstructs an ISO 8601 captured_at timestamp from a date key and the "HH:MM" time of an
+ * entry header, with the UTC offset the time zone had at that time. Hours of 24 or more are
+ * night-owl entries written after midnight and roll over to the next calendar day.
+ */
+export function getCapturedAt(dateKey: string, time: string, timeZone: string = getTimeZone()): string {
+    const [hh, mi] = time.split(":").map(Number);
+    const wall = new Date(`${dateKey}T00:00:00Z`);
+    wall.setUTCMinutes(hh * 60 + mi);
+    // The offset at the wall time read as UTC can differ from the real one around a DST change.
+    let offset = getOffsetMinutes(wall, timeZone);
+    offset = getOffsetMinutes(new Date(wall.getTime() - offset * 60000), timeZone);
+    const sign = offset < 0 ? "-" : "+";
+    const oh = String(Math.floor(Math.abs(offset) / 60)).padStart(2, "0");
+    const om = String(Math.abs(offset) % 60).padStart(2, "0");
+    return `${wall.toISOString().slice(0, 16)}:00${sign}${oh}:${om}`;
+}
+
+/**
+ * Returns the Monday–Sunday date range of an ISO 8601 week key ("YYYY-Www").
+ * Returns null when the key is malformed or the week does not exist in that year.
+ */
+export function getIsoWeekRange(weekKey: string): { from: string; to: string } | null {
+    const match = weekKey.match(/^(\d{4})-W(\d{2})$/);
+    if (!match) return null;
+    const year = Number(match[1]);
+    const week = Number(match[2]);
+    if (week < 1) return null;
+
+    // Week 1 is the week containing January 4th.
+    const jan4 = new Date(Date.UTC(year, 0, 4));
+    const week1Monday = Date.UTC(year, 0, 4 - ((jan4.getUTCDay() + 6) % 7));
+    const monday = new Date(week1Monday + (week - 1) * 7 * 24 * 60 * 60 * 1000);
+    const thursday = new Date(monday.getTime() + 3 * 24 * 60 * 60 * 1000);
+    if (thursday.getUTCFullYear() !== year) return null;
+
+    const from = monday.toISOString().slice(0, 10);
+    return { from, to: addDaysToDateKey(from, 6) };
+}
+
+/**
+ * Returns the first and last day of a month key ("YYYY-MM").
+ * Returns null when the key is malformed.
+ */
+export function getMonthRange(monthKey: string): { from: string; to: string } | null {
+    const match = monthKey.match(/^(\d{4})-(\d{2})$/);
+    if (!match) return null;
+    const month = Number(match[2]);
+    if (month < 1 || month > 12) return null;
+
+    const lastDay = new Date(Date.UTC(Number(match[1]), month, 0)).getUTCDate();
+    return { from: `${monthKey}-01`, to: `${monthKey}-${String(lastDay).padStart(2, "0")}` };
 }
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { renderMarkdownExport, toExportRecord, parseImportRecords } from "./export";
+
+describe("renderMarkdownExport", () => {
+    it("renders front matter followed by one section per day", () => {
+        const markdown = renderMarkdownExport({
+            from: "2024-01-14",
+            to: "2024-01-15",
+            exportedAt: "2024-01-16 09:00",
+            source: "https://github.com/owner/repo",
+            days: [
+                { date: "2024-01-14", title: "2024-01-14 Planning", finalized: true, content: "Finalized body.\n" },
+                { date: "2024-01-15", title: "2024-01-15", finalized: false, content: "## 19:30\nhello" },
+            ],
+        });
+        expect(markdown).toBe([
+            "---",
+            "title: \"thoughtlog 2024-01-14 – 2024-01-15\"",
+            "from: 2024-01-14",
+            "to: 2024-01-15",
+            "exported_at: \"2024-01-16 09:00\"",
+            "source: \"https://github.com/owner/repo\"",
+            "days: 2",
+            "---",
+            "",
+            "# 2024-01-14 Planning",
+            "",
+            "<!-- 2024-01-14 (finalized) -->",
+            "",
+            "Finalized body.",
+            "",
+            "# 2024-01-15",
+            "",
+            "<!-- 2024-01-15 (open) -->",
+            "",
+            "## 19:30",
+            "hello",
+            "",
+        ].join("\n"));
+    });
+
+    it("renders only front matter when there are no days", () => {
+        const markdown = renderMarkdownExport({ from: "2024-01-01", to: "2024-01-02", exportedAt: "x", source: "y", days: [] });
+        expect(markdown.endsWith("days: 0\n---\n")).toBe(true);
+    });
+});
+
+describe("toExportRecord", () => {
+    it("reconstructs captured_at and kind from an entry comment", () => {
+        expect(toExportRecord("2024-01-15", "## 19:30\n**[idea]** cache the token\n")).toEqual({
+            captured_at: "2024-01-15T19:30:00+09:00",
+            raw: "cache the token",
+            kind: "idea",
+        });
+    });
+
+    it("omits kind when the entry has no prefix", () => {
+        expect(toExportRecord("2024-01-15", "## 25:10\nlate thought\n")).toEqual({
+            captured_at: "2024-01-16T01:10:00+09:00",
+            raw: "late thought",
+        });
+    });
+
+    it("returns null for comments without a time header", () => {
+        expect(toExportRecord("2024-01-15", "````\n# Summary\n\nbody\n````\n")).toBeNull();
+    });
+});
+
+describe("parseImportRecords", () => {
+    it("parses records with their line numbers and skips blank lines", () => {
+        const text = '{"captured_at":"2024-01-15T19:30:00+09:00","raw":"a","kind":"idea"}\n\n{"captured_at":"2024-01-15T20:00:00+09:00","raw":"b","request_id":"ignored"}\n';
+        expect(parseImportRecords(text)).toEqual({
+            kind: "parsed",
+            records: [
+                { line: 1, payload: { captured_at: "2024-01-15T19:30:00+09:00", raw: "a", kind: "idea" } },
+                { line: 3, payload: { captured_at: "2024-01-15T20:00:00+09:00", raw: "b" } },
+            ],
+        });
+    });
+
+    it("reports malformed JSON with its line number", () => {
+        const outcome = parseImportRecords('{"captured_at":"2024-01-15T19:30:00+09:00","raw":"a"}\n{oops');
+        expect(outcome).toMatchObject({ kind: "invalid", line: 2 });
+    });
+
+    it("rejects records without raw or captured_at", () => {
+        expect(parseImportRecords('{"captured_at":"2024-01-15T19:30:00+09:00"}')).toEqual({ kind: "invalid", line: 1, error: "raw must be a non-empty string" });
+        expect(parseImportRecords('{"raw":"a","captured_at":"yesterday"}')).toEqual({ kind: "invalid", line: 1, error: "captured_at must be a timestamp" });
+        expect(parseImportRecords("[1,2]")).toEqual({ kind: "invalid", line: 1, error: "record must be a JSON object" });
+    });
+});
@@ -0,0 +1,120 @@
+import type { Payload } from "../types";
+import { getCapturedAt, isTimeZone } from "./date";
+import { parseEntry } from "./format";
+
+/** One day of a date-range export. */
+export interface ExportDay {
+    date: string;
+    title: string;
+    /** True when the content is the finalized issue body rather than the raw entry comments. */
+    finalized: boolean;
+    content: string;
+}
+
+export interface MarkdownExportParams {
+    from: string;
+    to: string;
+    /** Export time as "YYYY-MM-DD HH:mm" in the configured time zone. */
+    exportedAt: string;
+    /** URL of the repository the logs were read from. */
+    source: string;
+    days: ExportDay[];
+}
+
+/** Quotes a front matter value; JSON string syntax is valid YAML double-quoted scalar syntax. */
+function yamlString(value: string): string {
+    return JSON.stringify(value);
+}
+
+/**
+ * Renders daily logs as a single Markdown document with YAML front matter
+ * and one "# <title>" section per day, in the order given.
+ */
+export function renderMarkdownExport({ from, to, exportedAt, source, days }: MarkdownExportParams): string {
+    const frontMatter = [
+        "---",
+        `title: ${yamlString(`thoughtlog ${from} – ${to}`)}`,
+        `from: ${from}`,
+        `to: ${to}`,
+        `exported_at: ${yamlString(exportedAt)}`,
+        `source: ${yamlString(source)}`,
+        `days: ${days.length}`,
+        "---",
+    ].join("\n");
+
+    const sections = days.map((day) => {
+        const status = day.finalized ? "finalized" : "open";
+        return `# ${day.title}\n\n<!-- ${day.date} (${status}) -->\n\n${day.content.trim()}\n`;
+    });
+
+    return `${frontMatter}\n${sections.map((section) => `\n${section}`).join("")}`;
+}
+
+/**
+ * Converts an entry comment back into the Payload that would recreate it. The header time is read
+ * in the given time zone (the configured one by default).
+ * Returns null for comments that are not entries (no "## HH:MM" header), such as finalize summaries.
+ */
+export function toExportRecord(dateKey: string, commentBody: string, timeZone?: string): Payload | null {
+    const entry = parseEntry(commentBody);
+    if (!entry.time) return null;
+    const record: Payload = { captured_at: getCapturedAt(dateKey, entry.time, timeZone), raw: entry.text };
+    if (entry.kind) record.kind = entry.kind;
+    return record;
+}
+
+/** An import record together with its 1-based line number in the JSON Lines body. */
+export interface ImportRecord {
+    line: number;
+    payload: Payload;
+}
+
+export type ParseImportOutcome =
+    | { kind: "parsed"; records: ImportRecord[] }
+    | { kind: "invalid"; line: number; error: string };
+
+/**
+ * Parses a JSON Lines import body into entry payloads. Blank lines are ignored.
+ * Every record needs a non-empty raw and a parseable captured_at; only the Payload
+ * fields that describe the entry itself are kept (request_id is derived on import).
+ */
+export function parseImportRecords(text: string): ParseImportOutcome {
+    const records: ImportRecord[] = [];
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line) continue;
+
+        let value: unknown;
+        try {
+            value = JSON.parse(line);
+        } catch (e) {
+            return { kind: "invalid", line: i + 1, error: e instanceof Error ? e.message : String(e) };
+        }
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            return { kind: "invalid", line: i + 1, error: "record must be a JSON object" };
+        }
+
+        const { captured_at, timezone, raw, kind, labels, source } = value as Payload;
+        if (typeof raw !== "string" || !raw.trim()) {
+            return { kind: "invalid", line: i + 1, error: "raw must be a non-empty string" };
+        }
+        if (typeof captured_at !== "string" || Number.isNaN(Date.parse(captured_at))) {
+            return { kind: "invalid", line: i + 1, error: "captured_at must be a timestamp" };
+        }
+        if (kind !== undefined && typeof kind !== "string") {
+            return { kind: "invalid", line: i + 1, error: "kind must be a string" };
+        }
+        if (timezone !== undefined && (typeof timezone !== "string" || !isTimeZone(timezone))) {
+            return { kind: "invalid", line: i + 1, error: "timezone must be an IANA time zone" };
+        }
+
+        const payload: Payload = { captured_at, raw };
+        if (kind) payload.kind = kind;
+        if (timezone) payload.timezone = timezone;
+        if (Array.isArray(labels)) payload.labels = labels;
+        if (typeof source === "string") payload.source = source;
+        records.push({ line: i + 1, payload });
+    }
+    return { kind: "parsed", records };
+}
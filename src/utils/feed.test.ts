@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { escapeXml, renderAtomFeed, renderRssFeed } from "./feed";
+import type { Feed } from "./feed";
+
+const feed: Feed = {
+    title: "owner/repo thoughtlog",
+    url: "https://github.com/owner/repo",
+    generatedAt: "2024-01-20T00:00:00Z",
+    entries: [
+        {
+            id: "https://github.com/owner/repo/issues/2",
+            title: "2024-01-15 Caching & <tokens>",
+            url: "https://github.com/owner/repo/issues/2",
+            content: "## Summary\n\n- a < b",
+            updated: "2024-01-16T19:00:00Z",
+        },
+        {
+            id: "https://github.com/owner/repo/issues/1",
+            title: "2024-01-14 Planning",
+            url: "https://github.com/owner/repo/issues/1",
+            content: "planned",
+            updated: "2024-01-15T19:00:00Z",
+        },
+    ],
+};
+
+describe("escapeXml", () => {
+    it("escapes markup characters and drops forbidden control characters", () => {
+        expect(escapeXml(`a & <b> "c" 'd'\u0001\te`)).toBe("a &amp; &lt;b&gt; &quot;c&quot; &apos;d&apos;\te");
+    });
+});
+
+describe("renderAtomFeed", () => {
+    it("renders escaped entries with the latest entry time as the feed update time", () => {
+        const xml = renderAtomFeed(feed);
+        expect(xml.startsWith("<?xml version=\"1.0\" encoding=\"utf-8\"?>\n<feed xmlns=\"http://www.w3.org/2005/Atom\">")).toBe(true);
+        expect(xml).toContain("  <updated>2024-01-16T19:00:00Z</updated>\n  <author>");
+        expect(xml).toContain("<title>2024-01-15 Caching &amp; &lt;tokens&gt;</title>");
+        expect(xml).toContain("<content type=\"text\">## Summary\n\n- a &lt; b</content>");
+        expect(xml.match(/<entry>/g)).toHaveLength(2);
+    });
+
+    it("falls back to the generation time when there are no entries", () => {
+        expect(renderAtomFeed({ ...feed, entries: [] })).toContain("<updated>2024-01-20T00:00:00Z</updated>");
+    });
+});
+
+describe("renderRssFeed", () => {
+    it("renders items with RFC 822 dates", () => {
+        const xml = renderRssFeed(feed);
+        expect(xml).toContain("<rss version=\"2.0\">");
+        expect(xml).toContain("<lastBuildDate>Tue, 16 Jan 2024 19:00:00 GMT</lastBuildDate>");
+        expect(xml).toContain("<pubDate>Mon, 15 Jan 2024 19:00:00 GMT</pubDate>");
+        expect(xml).toContain("<guid isPermaLink=\"true\">https://github.com/owner/repo/issues/1</guid>");
+        expect(xml.match(/<item>/g)).toHaveLength(2);
+    });
+});
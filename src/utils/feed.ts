@@ -0,0 +1,94 @@
+export type FeedFormat = "atom" | "rss";
+
+export interface FeedEntry {
+    id: string;
+    title: string;
+    url: string;
+    /** Markdown body of the finalized daily issue. */
+    content: string;
+    /** ISO 8601 timestamp of the last change to the entry. */
+    updated: string;
+}
+
+export interface Feed {
+    title: string;
+    /** URL of the page the feed describes (the repository). */
+    url: string;
+    entries: FeedEntry[];
+    /** ISO 8601 fallback for the feed-level timestamp when there are no entries. */
+    generatedAt: string;
+}
+
+/** XML 1.0 only allows tab, line feed and carriage return below U+0020. */
+function isXmlChar(char: string): boolean {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/** Escapes text for XML element content and attribute values, dropping characters XML 1.0 forbids. */
+export function escapeXml(value: string): string {
+    return Array.from(value).filter(isXmlChar).join("")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+/** The feed is as recent as its most recently updated entry. */
+function feedUpdated(feed: Feed): string {
+    return feed.entries.reduce((latest, entry) => (entry.updated > latest ? entry.updated : latest), "") || feed.generatedAt;
+}
+
+/** Renders an Atom 1.0 feed. */
+export function renderAtomFeed(feed: Feed): string {
+    const entries = feed.entries.map((entry) => [
+        "  <entry>",
+        `    <id>${escapeXml(entry.id)}</id>`,
+        `    <title>${escapeXml(entry.title)}</title>`,
+        `    <link href="${escapeXml(entry.url)}"/>`,
+        `    <updated>${escapeXml(entry.updated)}</updated>`,
+        `    <content type="text">${escapeXml(entry.content)}</content>`,
+        "  </entry>",
+    ].join("\n"));
+
+    return [
+        "<?xml version=\"1.0\" encoding=\"utf-8\"?>",
+        "<feed xmlns=\"http://www.w3.org/2005/Atom\">",
+        `  <id>${escapeXml(feed.url)}</id>`,
+        `  <title>${escapeXml(feed.title)}</title>`,
+        `  <link href="${escapeXml(feed.url)}"/>`,
+        `  <updated>${escapeXml(feedUpdated(feed))}</updated>`,
+        "  <author><name>thoughtlog</name></author>",
+        ...entries,
+        "</feed>",
+        "",
+    ].join("\n");
+}
+
+/** Renders an RSS 2.0 feed; RSS dates use the RFC 822 format. */
+export function renderRssFeed(feed: Feed): string {
+    const items = feed.entries.map((entry) => [
+        "    <item>",
+        `      <guid isPermaLink="true">${escapeXml(entry.url)}</guid>`,
+        `      <title>${escapeXml(entry.title)}</title>`,
+        `      <link>${escapeXml(entry.url)}</link>`,
+        `      <pubDate>${new Date(entry.updated).toUTCString()}</pubDate>`,
+        `      <description>${escapeXml(entry.content)}</description>`,
+        "    </item>",
+    ].join("\n"));
+
+    return [
+        "<?xml version=\"1.0\" encoding=\"utf-8\"?>",
+        "<rss version=\"2.0\">",
+        "  <channel>",
+        `    <title>${escapeXml(feed.title)}</title>`,
+        `    <link>${escapeXml(feed.url)}</link>`,
+        `    <description>${escapeXml(feed.title)}</description>`,
+        `    <lastBuildDate>${new Date(feedUpdated(feed)).toUTCString()}</lastBuildDate>`,
+        ...items,
+        "  </channel>",
+        "</rss>",
+        "",
+    ].join("\n");
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { parseLabels, formatEntry } from "./format";
+import { parseLabels, formatEntry, formatEntryContent, parseEntry, appendOriginal, splitOriginal } from "./format";
 
 describe("parseLabels", () => {
     it("parses a CSV of default labels", () => {
@@ -102,4 +102,56 @@ describe("formatEntry", () => {
         const entry = formatEntry({ raw: "custom", captured_at: "2026-04-09T19:00:00Z" });
         expect(entry).toBe("## 28:00\ncustom\n");
     });
+
+    it("uses the payload's time zone for the heading", () => {
+        // 2024-03-31T01:30:00Z is 02:30 BST in London, just after DST started → 26:30 of the 30th
+        const entry = formatEntry({ raw: "london", captured_at: "2024-03-31T01:30:00Z", timezone: "Europe/London" });
+        expect(entry).toBe("## 26:30\nlondon\n");
+    });
+});
+
+describe("formatEntryContent", () => {
+    it("formats the kind prefix and trimmed raw text without a header", () => {
+        expect(formatEntryContent({ raw: " hello ", kind: "idea" })).toBe("**[idea]** hello");
+    });
+
+    it("omits the prefix when kind is empty", () => {
+        expect(formatEntryContent({ raw: "hello", kind: "" })).toBe("hello");
+    });
+});
+
+describe("parseEntry", () => {
+    it("extracts time, kind and text from a formatted entry", () => {
+        expect(parseEntry("## 19:30\n**[idea]** hello\n")).toEqual({ time: "19:30", kind: "idea", text: "hello" });
+    });
+
+    it("returns null kind when there is no prefix", () => {
+        expect(parseEntry("## 26:15\nnight owl\n")).toEqual({ time: "26:15", kind: null, text: "night owl" });
+    });
+
+    it("returns null time for a comment without a header", () => {
+        expect(parseEntry("plain text")).toEqual({ time: null, kind: null, text: "plain text" });
+    });
+
+    it("round-trips formatEntry output", () => {
+        const entry = formatEntry({ raw: "multi\nline", kind: "todo", captured_at: "2024-01-15T10:30:00Z" });
+        expect(parseEntry(entry)).toEqual({ time: "19:30", kind: "todo", text: "multi\nline" });
+    });
+
+    it("ignores a preserved original below the refined text", () => {
+        const body = appendOriginal("## 19:30\n**[idea]** refined\n", "**[idea]** raw");
+        expect(parseEntry(body)).toEqual({ time: "19:30", kind: "idea", text: "refined" });
+    });
+});
+
+describe("appendOriginal / splitOriginal", () => {
+    it("round-trips the refined body and the original", () => {
+        const body = appendOriginal("## 09:00\nrefined\n", "えーと raw\n\nsecond paragraph");
+        expect(body).toBe("## 09:00\nrefined\n\n<details><summary>原文</summary>\n\nえーと raw\n\nsecond paragraph\n\n</details>\n");
+        expect(splitOriginal(body)).toEqual({ body: "## 09:00\nrefined\n", original: "えーと raw\n\nsecond paragraph" });
+    });
+
+    it("returns the body unchanged when there is no original", () => {
+        expect(splitOriginal("## 09:00\nplain\n")).toEqual({ body: "## 09:00\nplain\n", original: null });
+    });
 });
@@ -1,5 +1,5 @@
 import type { Payload } from "../types";
-import { JST_OFFSET_MS, getNightOwlThresholdHour } from "./date";
+import { getLocalTime, getTimeZone } from "./date";
 
 export function parseLabels(defaultLabelsCsv: string, payloadLabels: unknown): string[] {
     const base = (defaultLabelsCsv || "")
@@ -15,20 +15,68 @@ export function parseLabels(defaultLabelsCsv: string, payloadLabels: unknown): s
     return [...new Set([...base, ...extra])];
 }
 
-/** Formats a log entry as Markdown (time heading + optional kind prefix + raw text). */
+/**
+ * Formats a log entry as Markdown (time heading + optional kind prefix + raw text).
+ * The heading is the local time in the payload's time zone; night-owl times are shown past 24:00.
+ */
 export function formatEntry(payload: Payload): string {
     const captured = payload?.captured_at ? new Date(payload.captured_at) : new Date();
-    const jst = new Date(captured.getTime() + JST_OFFSET_MS);
-    const hour = jst.getUTCHours();
-    const mi = String(jst.getUTCMinutes()).padStart(2, "0");
+    const { hour, minute } = getLocalTime(captured, getTimeZone(payload));
+    const hh = String(hour).padStart(2, "0");
+    const mi = String(minute).padStart(2, "0");
 
-    const threshold = getNightOwlThresholdHour();
-    const displayHour = hour < threshold ? hour + 24 : hour;
-    const hh = String(displayHour).padStart(2, "0");
+    return `## ${hh}:${mi}\n${formatEntryContent(payload)}\n`;
+}
 
+/** Formats the part of a log entry below the time heading (optional kind prefix + raw text). */
+export function formatEntryContent(payload: Payload): string {
     const raw = (payload?.raw ?? "").toString().trim();
     const kind = (payload?.kind ?? "").toString().trim();
     const prefix = kind ? `**[${kind}]** ` : "";
+    return `${prefix}${raw}`;
+}
+
+const ORIGINAL_BLOCK = /\n*<details><summary>原文<\/summary>\n\n([\s\S]*)\n\n<\/details>\n*$/;
+
+/** Appends the pre-refinement text of an entry as a collapsed block below the refined text. */
+export function appendOriginal(body: string, original: string): string {
+    return `${body.trimEnd()}\n\n<details><summary>原文</summary>\n\n${original}\n\n</details>\n`;
+}
+
+/** Splits an entry comment into its visible text and the original appended by appendOriginal, if any. */
+export function splitOriginal(body: string): { body: string; original: string | null } {
+    const match = body.match(ORIGINAL_BLOCK);
+    if (!match || match.index === undefined) {
+        return { body, original: null };
+    }
+    return { body: `${body.slice(0, match.index)}\n`, original: match[1] };
+}
+
+/**
+ * Kind of the entry that resurfaces earlier logs. Having a kind keeps it out of classification;
+ * it is not part of the day's own record, so finalize and semantic search leave it out.
+ */
+export const ON_THIS_DAY_KIND = "on-this-day";
+
+/** A log entry comment split back into the parts written by formatEntry. */
+export interface ParsedEntry {
+    /** The `HH:MM` time from the `## HH:MM` header (hours may exceed 23 for night-owl entries), or null. */
+    time: string | null;
+    /** The kind from the `**[kind]**` prefix, or null. */
+    kind: string | null;
+    text: string;
+}
+
+/** Parses a comment produced by formatEntry into its time, kind and text, ignoring a preserved original. */
+export function parseEntry(body: string): ParsedEntry {
+    const visible = splitOriginal(body).body;
+    const headerMatch = visible.match(/^## (\d{2}:\d{2})\n([\s\S]*)$/);
+    const time = headerMatch ? headerMatch[1] : null;
+    const content = (headerMatch ? headerMatch[2] : visible).trim();
 
-    return `## ${hh}:${mi}\n${prefix}${raw}\n`;
+    const kindMatch = content.match(/^\*\*\[([^\]]+)\]\*\* ?([\s\S]*)$/);
+    if (kindMatch) {
+        return { time, kind: kindMatch[1], text: kindMatch[2].trim() };
+    }
+    return { time, kind: null, text: content };
 }
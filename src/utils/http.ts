@@ -9,10 +9,15 @@ export type HttpClient = (url: string, options?: HttpRequestOptions) => Promise<
 
 const OPENAI_TIMEOUT_MS = process.env["OPENAI_TIMEOUT_MS"] ? parseInt(process.env["OPENAI_TIMEOUT_MS"], 10) : 30_000;
 
-/** OpenAI-aware HTTP client implementation with timeout and error body support. */
-export async function openAIRequest(
+/**
+ * Sends a JSON request to an LLM API with a timeout (OPENAI_TIMEOUT_MS) and includes
+ * the start of the error body when the response is not ok.
+ */
+async function llmRequest(
+    apiName: string,
     url: string,
-    { method = "GET", token, body }: HttpRequestOptions = {},
+    { method = "GET", body }: HttpRequestOptions,
+    authHeaders: Record<string, string>,
 ): Promise<unknown> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => { controller.abort(); }, OPENAI_TIMEOUT_MS);
@@ -23,14 +28,14 @@ export async function openAIRequest(
             method,
             headers: {
                 "Content-Type": "application/json",
-                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                ...authHeaders,
             },
             body: body ? JSON.stringify(body) : undefined,
             signal: controller.signal,
         });
     } catch (error) {
         if (error instanceof Error && error.name === "AbortError") {
-            throw new Error(`OpenAI API request timed out after ${OPENAI_TIMEOUT_MS}ms`, { cause: error });
+            throw new Error(`${apiName} API request timed out after ${OPENAI_TIMEOUT_MS}ms`, { cause: error });
         }
         throw error;
     } finally {
@@ -50,7 +55,7 @@ export async function openAIRequest(
         } catch {
             // レスポンス本文が読めない場合は本文なしでエラーを返す
         }
-        const messageBase = `OpenAI API error: ${res.status} ${res.statusText}`;
+        const messageBase = `${apiName} API error: ${res.status} ${res.statusText}`;
         if (errorBodySnippet) {
             throw new Error(messageBase, { cause: new Error(errorBodySnippet) });
         }
@@ -65,6 +70,24 @@ export async function openAIRequest(
     }
 }
 
+/** OpenAI-aware HTTP client implementation with timeout and error body support. */
+export async function openAIRequest(url: string, options: HttpRequestOptions = {}): Promise<unknown> {
+    return llmRequest("OpenAI", url, options, options.token ? { Authorization: `Bearer ${options.token}` } : {});
+}
+
+/** Azure OpenAI client; API keys are sent in the api-key header rather than as a bearer token. */
+export async function azureOpenAIRequest(url: string, options: HttpRequestOptions = {}): Promise<unknown> {
+    return llmRequest("Azure OpenAI", url, options, options.token ? { "api-key": options.token } : {});
+}
+
+/** Anthropic API client; the API version header is required on every request. */
+export async function anthropicRequest(url: string, options: HttpRequestOptions = {}): Promise<unknown> {
+    return llmRequest("Anthropic", url, options, {
+        ...(options.token ? { "x-api-key": options.token } : {}),
+        "anthropic-version": "2023-06-01",
+    });
+}
+
 /** Default GitHub-aware HTTP client implementation. */
 export async function githubRequest(
     url: string,
@@ -94,3 +117,45 @@ export async function githubRequest(
     }
     return json;
 }
+
+/** Sends a JSON request and throws "<apiName> API <status>: <body>" on non-2xx responses, like githubRequest. */
+async function jsonApiRequest(
+    apiName: string,
+    url: string,
+    { method = "GET", body }: HttpRequestOptions,
+    authHeaders: Record<string, string>,
+): Promise<unknown> {
+    const res = await fetch(url, {
+        method,
+        headers: {
+            ...authHeaders,
+            Accept: "application/json",
+            "User-Agent": "thoughtlog-lambda",
+            "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const text = await res.text();
+    let json: unknown;
+    try {
+        json = text ? JSON.parse(text) : null;
+    } catch {
+        json = { raw: text };
+    }
+
+    if (!res.ok) {
+        throw new Error(`${apiName} API ${res.status}: ${JSON.stringify(json)}`);
+    }
+    return json;
+}
+
+/** GitLab REST API v4 client; the token is a personal, group or project access token. */
+export async function gitlabRequest(url: string, options: HttpRequestOptions = {}): Promise<unknown> {
+    return jsonApiRequest("GitLab", url, options, options.token ? { "PRIVATE-TOKEN": options.token } : {});
+}
+
+/** Gitea REST API v1 client; the token is a Gitea access token. */
+export async function giteaRequest(url: string, options: HttpRequestOptions = {}): Promise<unknown> {
+    return jsonApiRequest("Gitea", url, options, options.token ? { Authorization: `token ${options.token}` } : {});
+}
@@ -4,8 +4,11 @@ export const HTTP_STATUS = {
     CREATED: 201,
     ACCEPTED: 202,
     BAD_REQUEST: 400,
+    UNAUTHORIZED: 401,
+    FORBIDDEN: 403,
     NOT_FOUND: 404,
     METHOD_NOT_ALLOWED: 405,
+    CONFLICT: 409,
     PAYLOAD_TOO_LARGE: 413,
     INTERNAL_SERVER_ERROR: 500,
 } as const;
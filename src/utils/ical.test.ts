@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { escapeIcsText, foldIcsLine, renderCalendar } from "./ical";
+
+describe("escapeIcsText", () => {
+    it("escapes backslashes, semicolons, commas and newlines", () => {
+        expect(escapeIcsText("a\\b; c, d\r\ne\nf")).toBe("a\\\\b\\; c\\, d\\ne\\nf");
+    });
+});
+
+describe("foldIcsLine", () => {
+    it("leaves lines of up to 75 octets unchanged", () => {
+        const line = "x".repeat(75);
+        expect(foldIcsLine(line)).toBe(line);
+    });
+
+    it("folds long lines with CRLF and a leading space", () => {
+        const folded = foldIcsLine("x".repeat(160));
+        const parts = folded.split("\r\n");
+        expect(parts.map((p) => p.length)).toEqual([75, 75, 12]);
+        expect(parts[1].startsWith(" ")).toBe(true);
+        expect(parts.map((p, i) => (i === 0 ? p : p.slice(1))).join("")).toBe("x".repeat(160));
+    });
+
+    it("never splits a multi-byte character", () => {
+        const folded = foldIcsLine(`D:${"あ".repeat(40)}`);
+        for (const part of folded.split("\r\n")) {
+            expect(Buffer.byteLength(part, "utf8")).toBeLessThanOrEqual(75);
+        }
+        expect(folded.split("\r\n").map((p, i) => (i === 0 ? p : p.slice(1))).join("")).toBe(`D:${"あ".repeat(40)}`);
+    });
+});
+
+describe("renderCalendar", () => {
+    it("renders an all-day VEVENT per event with CRLF line endings", () => {
+        const ics = renderCalendar("owner/repo thoughtlog", [{
+            uid: "2024-01-31-42@owner.repo.thoughtlog",
+            date: "2024-01-31",
+            summary: "2024-01-31 Caching, tokens",
+            url: "https://github.com/owner/repo/issues/42",
+            description: "line 1\nline 2",
+            stamp: "2024-02-01T19:00:05.123Z",
+        }]);
+        expect(ics).toBe([
+            "BEGIN:VCALENDAR",
+            "VERSION:2.0",
+            "PRODID:-//thoughtlog//daily logs//EN",
+            "CALSCALE:GREGORIAN",
+            "X-WR-CALNAME:owner/repo thoughtlog",
+            "BEGIN:VEVENT",
+            "UID:2024-01-31-42@owner.repo.thoughtlog",
+            "DTSTAMP:20240201T190005Z",
+            "DTSTART;VALUE=DATE:20240131",
+            "DTEND;VALUE=DATE:20240201",
+            "SUMMARY:2024-01-31 Caching\\, tokens",
+            "URL:https://github.com/owner/repo/issues/42",
+            "DESCRIPTION:line 1\\nline 2",
+            "TRANSP:TRANSPARENT",
+            "END:VEVENT",
+            "END:VCALENDAR",
+            "",
+        ].join("\r\n"));
+    });
+});
@@ -0,0 +1,87 @@
+import { addDaysToDateKey } from "./date";
+
+/** An all-day calendar event. */
+export interface CalendarEvent {
+    uid: string;
+    /** YYYY-MM-DD date key of the day the event covers. */
+    date: string;
+    summary: string;
+    url: string;
+    description: string;
+    /** ISO 8601 timestamp used for DTSTAMP. */
+    stamp: string;
+}
+
+/** RFC 5545 limits content lines to 75 octets, excluding the CRLF line break. */
+const MAX_LINE_OCTETS = 75;
+
+/** Escapes a TEXT property value (RFC 5545 §3.3.11). */
+export function escapeIcsText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line into 75-octet chunks joined by CRLF + space (RFC 5545 §3.1).
+ * Splits only between code points so multi-byte UTF-8 characters are never cut.
+ */
+export function foldIcsLine(line: string): string {
+    const chunks: string[] = [];
+    let current = "";
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char, "utf8");
+        // Continuation lines start with a space, which counts towards the limit.
+        const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            chunks.push(current);
+            current = "";
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    chunks.push(current);
+    return chunks.join("\r\n ");
+}
+
+/** Formats a date key as an iCalendar DATE value ("YYYYMMDD"). */
+function toIcsDate(dateKey: string): string {
+    return dateKey.replace(/-/g, "");
+}
+
+/** Formats an ISO 8601 timestamp as an iCalendar UTC DATE-TIME value ("YYYYMMDDTHHMMSSZ"). */
+function toIcsDateTime(iso: string): string {
+    return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Renders an iCalendar (RFC 5545) document with one all-day VEVENT per event. */
+export function renderCalendar(name: string, events: CalendarEvent[]): string {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//thoughtlog//daily logs//EN",
+        "CALSCALE:GREGORIAN",
+        `X-WR-CALNAME:${escapeIcsText(name)}`,
+    ];
+    for (const event of events) {
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${event.uid}`,
+            `DTSTAMP:${toIcsDateTime(event.stamp)}`,
+            `DTSTART;VALUE=DATE:${toIcsDate(event.date)}`,
+            // DTEND is exclusive, so an all-day event ends on the following day.
+            `DTEND;VALUE=DATE:${toIcsDate(addDaysToDateKey(event.date, 1))}`,
+            `SUMMARY:${escapeIcsText(event.summary)}`,
+            `URL:${event.url}`,
+            `DESCRIPTION:${escapeIcsText(event.description)}`,
+            "TRANSP:TRANSPARENT",
+            "END:VEVENT",
+        );
+    }
+    lines.push("END:VCALENDAR");
+    return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { extractJsonObject } from "./json";
+
+describe("extractJsonObject", () => {
+    it("parses a bare JSON object", () => {
+        expect(extractJsonObject('{"title": "t", "body": "b"}')).toEqual({ title: "t", body: "b" });
+    });
+
+    it("unwraps a json code fence", () => {
+        expect(extractJsonObject('```json\n{"title": "t"}\n```')).toEqual({ title: "t" });
+    });
+
+    it("finds the object inside surrounding prose", () => {
+        expect(extractJsonObject('Here you go:\n{"title": "t", "body": "a {nested} brace"}\nHope this helps.'))
+            .toEqual({ title: "t", body: "a {nested} brace" });
+    });
+
+    it("keeps code fences that are part of a string value", () => {
+        const json = JSON.stringify({ title: "t", body: "```\ncode\n```" });
+        expect(extractJsonObject(`Result:\n${json}`)).toEqual({ title: "t", body: "```\ncode\n```" });
+    });
+
+    it("rejects JSON values that are not objects", () => {
+        expect(() => extractJsonObject("[1, 2]")).toThrow("JSON value is not an object");
+    });
+
+    it("throws when no JSON can be parsed", () => {
+        expect(() => extractJsonObject("not json at all")).toThrow();
+    });
+});
@@ -0,0 +1,30 @@
+/**
+ * Parses the JSON object in an LLM response, tolerating a surrounding code fence or prose.
+ * Throws when the response contains no JSON object.
+ */
+export function extractJsonObject(text: string): Record<string, unknown> {
+    const candidates = [text.trim()];
+    const fenced = /```(?:json)?[^\S\n]*\n([\s\S]*?)```/i.exec(text);
+    if (fenced) {
+        candidates.push(fenced[1].trim());
+    }
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    if (start !== -1 && end > start) {
+        candidates.push(text.slice(start, end + 1));
+    }
+
+    let lastError = "no JSON object found";
+    for (const candidate of candidates) {
+        try {
+            const value: unknown = JSON.parse(candidate);
+            if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+                return value as Record<string, unknown>;
+            }
+            lastError = "JSON value is not an object";
+        } catch (e) {
+            lastError = e instanceof Error ? e.message : String(e);
+        }
+    }
+    throw new Error(lastError);
+}
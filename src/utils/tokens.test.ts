@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { estimateTokens, chunkByTokenBudget } from "./tokens";
+
+describe("estimateTokens", () => {
+    it("counts ASCII text as one token per four characters", () => {
+        expect(estimateTokens("abcdefgh")).toBe(2);
+        expect(estimateTokens("abcde")).toBe(2);
+    });
+
+    it("counts each non-ASCII character as one token", () => {
+        expect(estimateTokens("今日は")).toBe(3);
+        expect(estimateTokens("今日 test")).toBe(4);
+    });
+
+    it("returns 0 for empty text", () => {
+        expect(estimateTokens("")).toBe(0);
+    });
+});
+
+describe("chunkByTokenBudget", () => {
+    it("keeps texts in order and fills each batch up to the budget", () => {
+        expect(chunkByTokenBudget(["あいう", "えお", "かきく", "け"], 5)).toEqual([["あいう", "えお"], ["かきく", "け"]]);
+    });
+
+    it("puts a text larger than the budget into a batch of its own", () => {
+        expect(chunkByTokenBudget(["あ", "いうえおか", "き"], 3)).toEqual([["あ"], ["いうえおか"], ["き"]]);
+    });
+
+    it("returns no batches for no texts", () => {
+        expect(chunkByTokenBudget([], 10)).toEqual([]);
+    });
+});
@@ -0,0 +1,41 @@
+/**
+ * Estimates the token count of text without a model-specific tokenizer.
+ * Japanese and other non-ASCII characters count as one token each, ASCII text as one per
+ * four characters, which errs on the high side for the models in use.
+ */
+export function estimateTokens(text: string): number {
+    let ascii = 0;
+    let other = 0;
+    for (const ch of text) {
+        if (ch.charCodeAt(0) < 0x80) {
+            ascii++;
+        } else {
+            other++;
+        }
+    }
+    return Math.ceil(ascii / 4) + other;
+}
+
+/**
+ * Groups texts, in order, into batches whose estimated size stays within the token budget.
+ * A text that exceeds the budget on its own becomes a batch by itself.
+ */
+export function chunkByTokenBudget(texts: string[], budget: number): string[][] {
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+    for (const text of texts) {
+        const tokens = estimateTokens(text);
+        if (current.length > 0 && currentTokens + tokens > budget) {
+            batches.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(text);
+        currentTokens += tokens;
+    }
+    if (current.length > 0) {
+        batches.push(current);
+    }
+    return batches;
+}